@@ -0,0 +1,100 @@
+import { Body, Controller, Delete, Get, Param, ParseUUIDPipe, Post, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { AdminAuth } from '@app/common/decorators/admin-auth.decorator';
+import { AuthUser, CurrentUser } from '@app/common/decorators/current-user.decorator';
+import { AdminService } from './admin.service';
+import {
+  BotBalanceDto,
+  GetAlertsQueryDto,
+  GetQueueJobsQueryDto,
+  MonitorStatusDto,
+  PauseMonitorDto,
+  QueueJobDto,
+  QueueJobsResponseDto,
+  ResumeMonitorDto,
+} from './dto/admin.dto';
+
+@ApiTags('admin')
+@Controller('admin')
+@AdminAuth()
+export class AdminController {
+  constructor(private readonly adminService: AdminService) {}
+
+  @Get('queues/rebalance')
+  @ApiOperation({ summary: 'List rebalance queue jobs by state' })
+  @ApiResponse({ status: 200, type: QueueJobsResponseDto })
+  async getRebalanceJobs(@Query() query: GetQueueJobsQueryDto): Promise<QueueJobsResponseDto> {
+    return this.adminService.getRebalanceJobs(query);
+  }
+
+  @Post('queues/rebalance/jobs/:jobId/retry')
+  @ApiOperation({ summary: 'Retry a failed rebalance job' })
+  @ApiResponse({ status: 201, type: QueueJobDto })
+  @ApiResponse({ status: 400, description: 'Job is not failed' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async retryJob(@CurrentUser() user: AuthUser, @Param('jobId') jobId: string): Promise<QueueJobDto> {
+    return this.adminService.retryJob(jobId, user.address);
+  }
+
+  @Delete('queues/rebalance/jobs/:jobId')
+  @ApiOperation({ summary: 'Remove a rebalance job' })
+  @ApiResponse({ status: 200, description: 'Job removed' })
+  @ApiResponse({ status: 400, description: 'Job is running' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async removeJob(@CurrentUser() user: AuthUser, @Param('jobId') jobId: string) {
+    return this.adminService.removeJob(jobId, user.address);
+  }
+
+  @Get('monitor')
+  @ApiOperation({ summary: 'Get global and per-strategy monitor pauses' })
+  @ApiResponse({ status: 200, type: MonitorStatusDto })
+  async getMonitorStatus(): Promise<MonitorStatusDto> {
+    return this.adminService.getMonitorStatus();
+  }
+
+  @Post('monitor/pause')
+  @ApiOperation({ summary: 'Pause the monitor cron globally or for one strategy' })
+  @ApiResponse({ status: 201, type: MonitorStatusDto })
+  @ApiResponse({ status: 404, description: 'Strategy not found' })
+  async pauseMonitor(
+    @CurrentUser() user: AuthUser,
+    @Body() dto: PauseMonitorDto,
+  ): Promise<MonitorStatusDto> {
+    return this.adminService.pauseMonitor(dto, user.address);
+  }
+
+  @Post('monitor/resume')
+  @ApiOperation({ summary: 'Resume the monitor cron globally or for one strategy' })
+  @ApiResponse({ status: 201, type: MonitorStatusDto })
+  async resumeMonitor(
+    @CurrentUser() user: AuthUser,
+    @Body() dto: ResumeMonitorDto,
+  ): Promise<MonitorStatusDto> {
+    return this.adminService.resumeMonitor(dto, user.address);
+  }
+
+  @Post('strategies/:id/rebalance')
+  @ApiOperation({ summary: "Force a rebalance (triggeredBy: 'admin')" })
+  @ApiResponse({ status: 201, type: QueueJobDto })
+  @ApiResponse({ status: 404, description: 'Strategy not found' })
+  async forceRebalance(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<QueueJobDto> {
+    return this.adminService.forceRebalance(id, user.address);
+  }
+
+  @Get('bot/balances')
+  @ApiOperation({ summary: 'Bot wallet native balance per chain' })
+  @ApiResponse({ status: 200, type: [BotBalanceDto] })
+  async getBotBalances(): Promise<BotBalanceDto[]> {
+    return this.adminService.getBotBalances();
+  }
+
+  @Get('alerts')
+  @ApiOperation({ summary: 'Recent SYSTEM_ALERT notifications' })
+  @ApiResponse({ status: 200, description: 'Alerts, newest first' })
+  async getAlerts(@Query() query: GetAlertsQueryDto) {
+    return this.adminService.getAlerts(query);
+  }
+}
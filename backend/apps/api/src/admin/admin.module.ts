@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { QUEUE_NAMES } from '@app/queue/types';
+import { AdminController } from './admin.controller';
+import { AdminService } from './admin.service';
+
+@Module({
+  imports: [
+    BullModule.registerQueue({
+      name: QUEUE_NAMES.REBALANCE,
+    }),
+  ],
+  controllers: [AdminController],
+  providers: [AdminService],
+})
+export class AdminModule {}
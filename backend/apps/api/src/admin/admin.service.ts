@@ -0,0 +1,233 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Job, Queue } from 'bull';
+import { Address, formatUnits } from 'viem';
+import { PrismaService } from '@app/database';
+import { ChainRegistryService, ChainService } from '@app/blockchain';
+import { QUEUE_NAMES, RebalanceJobData } from '@app/queue/types';
+import {
+  BotBalanceDto,
+  GetAlertsQueryDto,
+  GetQueueJobsQueryDto,
+  MonitorStatusDto,
+  PauseMonitorDto,
+  QueueJobDto,
+  QueueJobState,
+  QueueJobsResponseDto,
+  ResumeMonitorDto,
+} from './dto/admin.dto';
+
+// MonitorPause scope that stops the monitor cron for every strategy
+const GLOBAL_SCOPE = 'global';
+
+@Injectable()
+export class AdminService {
+  private readonly logger = new Logger(AdminService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly chain: ChainService,
+    private readonly registry: ChainRegistryService,
+    private readonly config: ConfigService,
+    @InjectQueue(QUEUE_NAMES.REBALANCE) private readonly rebalanceQueue: Queue<RebalanceJobData>,
+  ) {}
+
+  /**
+   * Rebalance queue jobs in a state (newest first) with counts per state
+   */
+  async getRebalanceJobs(query: GetQueueJobsQueryDto): Promise<QueueJobsResponseDto> {
+    const { state = QueueJobState.FAILED, limit = 50, skip = 0 } = query;
+
+    const [counts, jobs] = await Promise.all([
+      this.rebalanceQueue.getJobCounts(),
+      this.rebalanceQueue.getJobs([state], skip, skip + limit - 1, false),
+    ]);
+
+    return {
+      counts: { ...counts },
+      jobs: jobs.filter(Boolean).map((job) => this.toJobDto(job, state)),
+    };
+  }
+
+  /**
+   * Retry a failed rebalance job
+   */
+  async retryJob(jobId: string, adminAddress: string): Promise<QueueJobDto> {
+    const job = await this.getJob(jobId);
+    if (!(await job.isFailed())) {
+      throw new BadRequestException(`Job ${jobId} is not failed`);
+    }
+
+    await job.retry();
+    this.logger.log(`Admin ${adminAddress} retried rebalance job ${jobId}`);
+
+    return this.toJobDto(job, QueueJobState.WAITING);
+  }
+
+  /**
+   * Remove a rebalance job (active jobs can't be removed)
+   */
+  async removeJob(jobId: string, adminAddress: string): Promise<{ removed: boolean }> {
+    const job = await this.getJob(jobId);
+    if (await job.isActive()) {
+      throw new BadRequestException(`Job ${jobId} is running and can't be removed`);
+    }
+
+    await job.remove();
+    this.logger.log(`Admin ${adminAddress} removed rebalance job ${jobId}`);
+
+    return { removed: true };
+  }
+
+  /**
+   * Global and per-strategy monitor pauses
+   */
+  async getMonitorStatus(): Promise<MonitorStatusDto> {
+    const pauses = await this.prisma.monitorPause.findMany({ orderBy: { createdAt: 'desc' } });
+    const global = pauses.find((pause) => pause.scope === GLOBAL_SCOPE) ?? null;
+    const strategyPauses = pauses.filter((pause) => pause.scope !== GLOBAL_SCOPE);
+
+    const strategies = await this.prisma.strategy.findMany({
+      where: { id: { in: strategyPauses.map((pause) => pause.scope) } },
+      select: { id: true, name: true },
+    });
+    const names = new Map(strategies.map((strategy) => [strategy.id, strategy.name]));
+
+    return {
+      paused: !!global,
+      global,
+      strategies: strategyPauses.map((pause) => ({
+        ...pause,
+        strategyName: names.get(pause.scope) ?? null,
+      })),
+    };
+  }
+
+  /**
+   * Pause the MonitorService cron globally or for one strategy
+   * The bot reads pauses at the start of every monitoring cycle
+   */
+  async pauseMonitor(dto: PauseMonitorDto, adminAddress: string): Promise<MonitorStatusDto> {
+    const scope = dto.strategyId ?? GLOBAL_SCOPE;
+    if (dto.strategyId) {
+      await this.getStrategy(dto.strategyId);
+    }
+
+    await this.prisma.monitorPause.upsert({
+      where: { scope },
+      create: { scope, reason: dto.reason, pausedBy: adminAddress.toLowerCase() },
+      update: { reason: dto.reason, pausedBy: adminAddress.toLowerCase() },
+    });
+
+    this.logger.warn(`Admin ${adminAddress} paused the monitor (${scope})`);
+    return this.getMonitorStatus();
+  }
+
+  /**
+   * Resume the MonitorService cron globally or for one strategy
+   */
+  async resumeMonitor(dto: ResumeMonitorDto, adminAddress: string): Promise<MonitorStatusDto> {
+    const scope = dto.strategyId ?? GLOBAL_SCOPE;
+
+    await this.prisma.monitorPause.deleteMany({ where: { scope } });
+
+    this.logger.log(`Admin ${adminAddress} resumed the monitor (${scope})`);
+    return this.getMonitorStatus();
+  }
+
+  /**
+   * Queue a rebalance regardless of interval, drift or monitor pauses
+   */
+  async forceRebalance(strategyId: string, adminAddress: string): Promise<QueueJobDto> {
+    const strategy = await this.getStrategy(strategyId);
+
+    const jobData: RebalanceJobData = {
+      strategyId: strategy.id,
+      userAddress: strategy.userAddress,
+      chainId: strategy.chainId,
+      drift: 0, // Not evaluated - the executor re-analyzes the portfolio
+      priority: 'high',
+      triggeredBy: 'admin',
+    };
+
+    const job = await this.rebalanceQueue.add('execute-rebalance', jobData, {
+      priority: 1,
+      attempts: 1, // Operator retries explicitly
+    });
+
+    this.logger.warn(`Admin ${adminAddress} forced a rebalance of strategy ${strategyId} (job ${job.id})`);
+    return this.toJobDto(job, QueueJobState.WAITING);
+  }
+
+  /**
+   * Native balance of the bot wallet on every chain
+   */
+  async getBotBalances(): Promise<BotBalanceDto[]> {
+    const address = (this.chain.getBotAddress() ?? this.config.get<string>('bot.address')) as Address;
+    if (!address) {
+      throw new BadRequestException('Bot wallet not configured (set BOT_PRIVATE_KEY or BOT_ADDRESS)');
+    }
+
+    return Promise.all(
+      this.chain.getInitializedChains().map(async (key) => {
+        const { chainId, nativeCurrency } = this.registry.getChain(key);
+        const base = { chain: key, chainId, address, symbol: nativeCurrency.symbol };
+
+        try {
+          const balance = await this.chain.getPublicClient(key).getBalance({ address });
+          return {
+            ...base,
+            balance: balance.toString(),
+            formatted: formatUnits(balance, nativeCurrency.decimals),
+          };
+        } catch (error) {
+          return { ...base, balance: null, formatted: null, error: error.message };
+        }
+      }),
+    );
+  }
+
+  /**
+   * Recent SYSTEM_ALERT notifications (newest first)
+   */
+  async getAlerts(query: GetAlertsQueryDto) {
+    const { limit = 50 } = query;
+
+    return this.prisma.notification.findMany({
+      where: { type: 'SYSTEM_ALERT' },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  private async getJob(jobId: string): Promise<Job<RebalanceJobData>> {
+    const job = await this.rebalanceQueue.getJob(jobId);
+    if (!job) {
+      throw new NotFoundException(`Job ${jobId} not found`);
+    }
+    return job;
+  }
+
+  private async getStrategy(strategyId: string) {
+    const strategy = await this.prisma.strategy.findUnique({ where: { id: strategyId } });
+    if (!strategy) {
+      throw new NotFoundException('Strategy not found');
+    }
+    return strategy;
+  }
+
+  private toJobDto(job: Job<RebalanceJobData>, state: QueueJobState): QueueJobDto {
+    return {
+      id: String(job.id),
+      name: job.name,
+      state,
+      data: job.data,
+      attemptsMade: job.attemptsMade,
+      failedReason: job.failedReason ?? null,
+      timestamp: job.timestamp,
+      processedOn: job.processedOn ?? null,
+      finishedOn: job.finishedOn ?? null,
+    };
+  }
+}
@@ -0,0 +1,149 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsInt, IsOptional, IsString, IsUUID, Max, MaxLength, Min } from 'class-validator';
+import { RebalanceJobData } from '@app/queue/types';
+
+export enum QueueJobState {
+  WAITING = 'waiting',
+  ACTIVE = 'active',
+  DELAYED = 'delayed',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  PAUSED = 'paused',
+}
+
+export class GetQueueJobsQueryDto {
+  @ApiPropertyOptional({ enum: QueueJobState, default: QueueJobState.FAILED })
+  @IsOptional()
+  @IsEnum(QueueJobState)
+  state?: QueueJobState;
+
+  @ApiPropertyOptional({ description: 'Limit results', minimum: 1, maximum: 100, default: 50 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Skip results (pagination)', minimum: 0, default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  skip?: number;
+}
+
+export class QueueJobDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ description: 'Job name (execute-rebalance)' })
+  name: string;
+
+  @ApiProperty({ enum: QueueJobState })
+  state: QueueJobState;
+
+  @ApiProperty({ description: 'RebalanceJobData' })
+  data: RebalanceJobData;
+
+  @ApiProperty()
+  attemptsMade: number;
+
+  @ApiPropertyOptional({ nullable: true })
+  failedReason: string | null;
+
+  @ApiProperty({ description: 'Queued at (ms)' })
+  timestamp: number;
+
+  @ApiPropertyOptional({ description: 'Started at (ms)', nullable: true })
+  processedOn: number | null;
+
+  @ApiPropertyOptional({ description: 'Finished at (ms)', nullable: true })
+  finishedOn: number | null;
+}
+
+export class QueueJobsResponseDto {
+  @ApiProperty({ description: 'Job counts per state' })
+  counts: Record<string, number>;
+
+  @ApiProperty({ type: [QueueJobDto] })
+  jobs: QueueJobDto[];
+}
+
+export class PauseMonitorDto {
+  @ApiPropertyOptional({ description: 'Pause a single strategy (omit to pause the monitor globally)' })
+  @IsOptional()
+  @IsUUID()
+  strategyId?: string;
+
+  @ApiPropertyOptional({ description: 'Shown to other operators' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class ResumeMonitorDto {
+  @ApiPropertyOptional({ description: 'Resume a single strategy (omit to resume globally)' })
+  @IsOptional()
+  @IsUUID()
+  strategyId?: string;
+}
+
+export class MonitorPauseDto {
+  @ApiProperty({ description: "'global' or the strategy ID" })
+  scope: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  strategyName?: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  reason: string | null;
+
+  @ApiProperty()
+  pausedBy: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class MonitorStatusDto {
+  @ApiProperty({ description: 'Monitor cron paused for every strategy' })
+  paused: boolean;
+
+  @ApiPropertyOptional({ type: MonitorPauseDto, nullable: true })
+  global: MonitorPauseDto | null;
+
+  @ApiProperty({ type: [MonitorPauseDto] })
+  strategies: MonitorPauseDto[];
+}
+
+export class BotBalanceDto {
+  @ApiProperty()
+  chain: string;
+
+  @ApiProperty()
+  chainId: number;
+
+  @ApiProperty()
+  address: string;
+
+  @ApiPropertyOptional({ description: 'Native balance (wei)', nullable: true })
+  balance: string | null;
+
+  @ApiPropertyOptional({ description: 'Native balance in whole units', nullable: true })
+  formatted: string | null;
+
+  @ApiProperty()
+  symbol: string;
+
+  @ApiPropertyOptional({ description: 'RPC error when the balance could not be read' })
+  error?: string;
+}
+
+export class GetAlertsQueryDto {
+  @ApiPropertyOptional({ description: 'Limit results', minimum: 1, maximum: 100, default: 50 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,21 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { AnalyticsService } from './analytics.service';
+import { AnalyticsResponseDto, GetAnalyticsQueryDto } from './dto/analytics.dto';
+
+@ApiTags('analytics')
+@Controller('analytics')
+export class AnalyticsController {
+  constructor(private readonly analyticsService: AnalyticsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get platform metrics (TVL, strategies, rebalances, gas saved)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Period summary and daily per-chain history',
+    type: AnalyticsResponseDto,
+  })
+  async getAnalytics(@Query() query: GetAnalyticsQueryDto): Promise<AnalyticsResponseDto> {
+    return this.analyticsService.getAnalytics(query);
+  }
+}
@@ -0,0 +1,93 @@
+import { Injectable } from '@nestjs/common';
+import { Analytics } from '@prisma/client';
+import { formatUnits } from 'viem';
+import { PrismaService } from '@app/database';
+import {
+  AnalyticsDayDto,
+  AnalyticsResponseDto,
+  AnalyticsSummaryDto,
+  GetAnalyticsQueryDto,
+} from './dto/analytics.dto';
+
+@Injectable()
+export class AnalyticsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Daily platform metrics written by the bot's analytics worker
+   */
+  async getAnalytics(query: GetAnalyticsQueryDto): Promise<AnalyticsResponseDto> {
+    const days = query.days ?? 30;
+    const since = new Date();
+    since.setUTCHours(0, 0, 0, 0);
+    since.setUTCDate(since.getUTCDate() - (days - 1));
+
+    const rows = await this.prisma.analytics.findMany({
+      where: {
+        date: { gte: since },
+        ...(query.chainId && { chainId: query.chainId }),
+      },
+      orderBy: [{ date: 'asc' }, { chainId: 'asc' }],
+    });
+
+    const history = rows.map((row) => this.formatDay(row));
+
+    return {
+      summary: this.summarize(history),
+      history,
+    };
+  }
+
+  /**
+   * Snapshot metrics come from each chain's latest day, flow metrics are summed over the period
+   */
+  private summarize(history: AnalyticsDayDto[]): AnalyticsSummaryDto {
+    const latest = new Map<number, AnalyticsDayDto>();
+    history.forEach((day) => latest.set(day.chainId, day));
+    const latestDays = [...latest.values()];
+
+    const totalRebalances = history.reduce((sum, day) => sum + day.totalRebalances, 0);
+    const successfulRebalances = history.reduce((sum, day) => sum + day.successfulRebalances, 0);
+
+    // Weight each day's average by its successful rebalances
+    const avgDriftReduction =
+      successfulRebalances > 0
+        ? history.reduce((sum, day) => sum + day.avgDriftReduction * day.successfulRebalances, 0) /
+          successfulRebalances
+        : 0;
+
+    return {
+      totalValueLockedUSD: latestDays.reduce((sum, day) => sum + day.totalValueLockedUSD, 0),
+      totalStrategies: latestDays.reduce((sum, day) => sum + day.totalStrategies, 0),
+      activeStrategies: latestDays.reduce((sum, day) => sum + day.activeStrategies, 0),
+      totalUsers: latestDays.reduce((sum, day) => sum + day.totalUsers, 0),
+      totalRebalances,
+      successfulRebalances,
+      successRate: totalRebalances > 0 ? (successfulRebalances / totalRebalances) * 100 : 0,
+      avgDriftReduction: Math.round(avgDriftReduction * 100) / 100,
+      totalGasSaved: history
+        .reduce((sum, day) => sum + BigInt(day.totalGasSaved), BigInt(0))
+        .toString(),
+    };
+  }
+
+  /**
+   * Format analytics row for API response
+   */
+  private formatDay(row: Analytics): AnalyticsDayDto {
+    return {
+      chainId: row.chainId,
+      date: row.date,
+      totalStrategies: row.totalStrategies,
+      activeStrategies: row.activeStrategies,
+      totalUsers: row.totalUsers,
+      totalRebalances: row.totalRebalances,
+      successfulRebalances: row.successfulRebalances,
+      successRate:
+        row.totalRebalances > 0 ? (row.successfulRebalances / row.totalRebalances) * 100 : 0,
+      totalValueLockedUSD: Number(formatUnits(row.totalValueLocked, 18)),
+      avgDriftReduction: row.avgDriftReduction.toNumber(),
+      totalGasSaved: row.totalGasSaved.toString(),
+    };
+  }
+}
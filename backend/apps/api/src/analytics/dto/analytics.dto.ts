@@ -0,0 +1,88 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class GetAnalyticsQueryDto {
+  @ApiPropertyOptional({ description: 'Filter by chain ID', example: 10143 })
+  @IsOptional()
+  @IsInt()
+  chainId?: number;
+
+  @ApiPropertyOptional({ description: 'Days of history', minimum: 1, maximum: 365, default: 30 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  days?: number;
+}
+
+export class AnalyticsDayDto {
+  @ApiProperty()
+  chainId: number;
+
+  @ApiProperty({ description: 'Day (UTC midnight)' })
+  date: Date;
+
+  @ApiProperty()
+  totalStrategies: number;
+
+  @ApiProperty()
+  activeStrategies: number;
+
+  @ApiProperty()
+  totalUsers: number;
+
+  @ApiProperty({ description: 'Rebalances executed that day' })
+  totalRebalances: number;
+
+  @ApiProperty()
+  successfulRebalances: number;
+
+  @ApiProperty({ description: 'Successful / total rebalances (%)' })
+  successRate: number;
+
+  @ApiProperty({ description: 'Total value locked (USD)' })
+  totalValueLockedUSD: number;
+
+  @ApiProperty({ description: 'Average drift reduction per rebalance (%)' })
+  avgDriftReduction: number;
+
+  @ApiProperty({ description: 'Gas units saved by batched rebalances' })
+  totalGasSaved: string;
+}
+
+export class AnalyticsSummaryDto {
+  @ApiProperty({ description: 'Latest TVL summed across chains (USD)' })
+  totalValueLockedUSD: number;
+
+  @ApiProperty({ description: 'Latest strategy count summed across chains' })
+  totalStrategies: number;
+
+  @ApiProperty()
+  activeStrategies: number;
+
+  @ApiProperty({ description: 'Latest user count summed across chains' })
+  totalUsers: number;
+
+  @ApiProperty({ description: 'Rebalances in the period' })
+  totalRebalances: number;
+
+  @ApiProperty()
+  successfulRebalances: number;
+
+  @ApiProperty({ description: 'Successful / total rebalances in the period (%)' })
+  successRate: number;
+
+  @ApiProperty({ description: 'Average drift reduction per successful rebalance (%)' })
+  avgDriftReduction: number;
+
+  @ApiProperty({ description: 'Gas units saved in the period' })
+  totalGasSaved: string;
+}
+
+export class AnalyticsResponseDto {
+  @ApiProperty({ type: AnalyticsSummaryDto })
+  summary: AnalyticsSummaryDto;
+
+  @ApiProperty({ type: [AnalyticsDayDto], description: 'Daily rows, oldest first' })
+  history: AnalyticsDayDto[];
+}
@@ -15,6 +15,9 @@ import { DelegationsModule } from './delegations/delegations.module';
 import { TokensModule } from './tokens/tokens.module';
 import { RebalancesModule } from './rebalances/rebalances.module';
 import { AiModule } from './ai/ai.module';
+import { NotificationsApiModule } from './notifications/notifications.module';
+import { AnalyticsApiModule } from './analytics/analytics.module';
+import { AdminModule } from './admin/admin.module';
 
 @Module({
   imports: [
@@ -51,6 +54,9 @@ import { AiModule } from './ai/ai.module';
     TokensModule,
     RebalancesModule,
     AiModule,
+    NotificationsApiModule,
+    AnalyticsApiModule,
+    AdminModule,
   ],
 })
 export class AppModule {}
@@ -64,10 +64,14 @@ export class AuthService {
       }
 
       // Generate new nonce to prevent replay attacks
+      // Wallets listed in ADMIN_ADDRESSES are promoted (never demoted) here
       const newNonce = randomBytes(16).toString('hex');
-      await this.prisma.user.update({
+      const isConfiguredAdmin = this.config
+        .get<string[]>('admin.addresses', [])
+        .includes(address);
+      const { role } = await this.prisma.user.update({
         where: { address },
-        data: { nonce: newNonce },
+        data: { nonce: newNonce, ...(isConfiguredAdmin && { role: 'ADMIN' }) },
       });
 
       // Generate JWT
@@ -75,6 +79,7 @@ export class AuthService {
         sub: address,
         address,
         chainId: siweMessage.chainId,
+        role,
       };
 
       const accessToken = this.jwt.sign(payload);
@@ -84,6 +89,7 @@ export class AuthService {
       return {
         accessToken,
         address,
+        role,
         expiresAt,
       };
     } catch (error) {
@@ -37,6 +37,9 @@ export class AuthResponseDto {
   @ApiProperty({ description: 'User Ethereum address' })
   address: string;
 
+  @ApiProperty({ description: 'User role', enum: ['USER', 'ADMIN'] })
+  role: 'USER' | 'ADMIN';
+
   @ApiProperty({ description: 'Token expiration timestamp' })
   expiresAt: number;
 }
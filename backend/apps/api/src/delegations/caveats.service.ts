@@ -0,0 +1,310 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Hex, hexToBigInt, isHex, size, sliceHex, toFunctionSelector } from 'viem';
+import { PrismaService } from '@app/database';
+import { ChainRegistryService } from '@app/blockchain';
+import {
+  AllowedMethodDto,
+  CaveatConfigDto,
+  DelegationCaveatsDto,
+  SpendLimitDto,
+} from './dto/caveats.dto';
+
+type EnforcerKind = 'timestamp' | 'allowedTargets' | 'allowedMethods' | 'erc20PeriodTransfer';
+
+const DAY_SECONDS = 24 * 60 * 60;
+const NATIVE_TOKEN = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+
+// Calls the RebalanceExecutor makes through the DeleGator: token approval, swaps, (un)wrapping
+const REBALANCE_METHODS = [
+  'approve(address,uint256)',
+  'swapExactTokensForTokens(uint256,uint256,address[],address,uint256)',
+  'swapExactETHForTokens(uint256,address[],address,uint256)',
+  'swapExactTokensForETH(uint256,uint256,address[],address,uint256)',
+  'deposit()',
+  'withdraw(uint256)',
+];
+
+/**
+ * Caveat scope of bot delegations (MetaMask Delegation Framework enforcers)
+ *
+ * Term layouts:
+ * - TimestampEnforcer: uint128 validAfter ++ uint128 validUntil (0 = unbounded)
+ * - AllowedTargetsEnforcer: packed 20-byte addresses
+ * - AllowedMethodsEnforcer: packed 4-byte selectors
+ * - ERC20PeriodTransferEnforcer: address token ++ uint256 periodAmount ++ uint256 periodDuration ++ uint256 startDate
+ */
+@Injectable()
+export class CaveatsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+    private readonly registry: ChainRegistryService,
+  ) {}
+
+  /**
+   * Enforcers, delegate and allowed targets/methods the wizard can choose from
+   */
+  async getCaveatConfig(chainId: number, strategyId?: string): Promise<CaveatConfigDto> {
+    const chain = this.registry.findByChainId(chainId);
+    if (!chain) {
+      throw new BadRequestException(`Chain ID ${chainId} not supported`);
+    }
+
+    const enforcers = {
+      timestamp: this.address(`blockchain.${chain.key}.enforcers.timestamp`),
+      allowedTargets: this.address(`blockchain.${chain.key}.enforcers.allowedTargets`),
+      allowedMethods: this.address(`blockchain.${chain.key}.enforcers.allowedMethods`),
+      erc20PeriodTransfer: this.address(`blockchain.${chain.key}.enforcers.erc20PeriodTransfer`),
+    };
+    const delegate = chain.contracts.executor?.toLowerCase() || null;
+    const wrappedNative = chain.wrappedNative ?? null;
+
+    const signatures = [
+      ...REBALANCE_METHODS,
+      ...this.config.get<string[]>('delegation.extraMethods', []),
+    ];
+
+    return {
+      chainId,
+      delegate,
+      scoped: !!(
+        delegate &&
+        enforcers.timestamp &&
+        enforcers.allowedTargets &&
+        enforcers.allowedMethods
+      ),
+      enforcers,
+      dexRouters: chain.dexRouters.map((router) => router.toLowerCase()),
+      tokens: await this.getStrategyTokens(wrappedNative, strategyId),
+      wrappedNative,
+      methods: signatures.map((signature) => ({
+        selector: toFunctionSelector(signature),
+        signature,
+      })),
+      maxExpiryDays: this.config.get<number>('delegation.maxExpiryDays', 365),
+    };
+  }
+
+  /**
+   * Decode a signed delegation's caveats and check them against the chain's policy
+   * Throws BadRequestException on unknown enforcers, malformed terms or out-of-policy scope
+   */
+  async validate(
+    chainId: number,
+    delegationData: { delegate: string; caveats?: Array<{ enforcer: string; terms: string }> },
+    strategyId?: string,
+  ): Promise<DelegationCaveatsDto> {
+    const config = await this.getCaveatConfig(chainId, strategyId);
+
+    // Without the executor and enforcers nothing could limit what the bot does with it
+    if (!config.scoped) {
+      throw new BadRequestException(
+        `Delegations are not accepted on chain ${chainId}: caveat enforcers are not configured`,
+      );
+    }
+
+    const caveats = this.decode(config, delegationData.caveats ?? []);
+
+    if (delegationData.delegate.toLowerCase() !== config.delegate) {
+      throw new BadRequestException(
+        `Delegate must be the RebalanceExecutor (${config.delegate}), got ${delegationData.delegate}`,
+      );
+    }
+
+    // Expiry
+    if (!caveats.expiresAt) {
+      throw new BadRequestException('Delegation must include an expiry (TimestampEnforcer caveat)');
+    }
+    const expiresAt = new Date(caveats.expiresAt).getTime();
+    if (expiresAt <= Date.now()) {
+      throw new BadRequestException('Delegation expiry is in the past');
+    }
+    if (expiresAt > Date.now() + config.maxExpiryDays * DAY_SECONDS * 1000) {
+      throw new BadRequestException(
+        `Delegation expiry exceeds the ${config.maxExpiryDays}-day maximum`,
+      );
+    }
+
+    // Targets: executor, approved routers and the strategy's tokens
+    if (!caveats.allowedTargets) {
+      throw new BadRequestException(
+        'Delegation must restrict target contracts (AllowedTargetsEnforcer caveat)',
+      );
+    }
+    if (!caveats.allowedTargets.some((target) => config.dexRouters.includes(target))) {
+      throw new BadRequestException('Delegation must allow at least one approved DEX router');
+    }
+    if (caveats.allowedTokens.length > 0 && !strategyId) {
+      throw new BadRequestException(
+        'Token targets can only be checked against a strategy - strategyId is required',
+      );
+    }
+    const unknown = caveats.allowedTokens.filter((token) => !config.tokens.includes(token));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Targets ${unknown.join(', ')} are not approved routers or strategy tokens`,
+      );
+    }
+
+    // Methods: only calls a rebalance makes (no transfer/transferFrom)
+    if (!caveats.allowedMethods) {
+      throw new BadRequestException(
+        'Delegation must restrict callable methods (AllowedMethodsEnforcer caveat)',
+      );
+    }
+    const allowedSelectors = config.methods.map((method) => method.selector);
+    const forbidden = caveats.allowedMethods.filter(
+      (method) => !allowedSelectors.includes(method.selector),
+    );
+    if (forbidden.length > 0) {
+      throw new BadRequestException(
+        `Methods ${forbidden.map((method) => method.selector).join(', ')} are not allowed for delegations`,
+      );
+    }
+
+    // Spend limits
+    for (const limit of caveats.spendLimits) {
+      if (BigInt(limit.periodAmount) === 0n || limit.periodDuration === 0) {
+        throw new BadRequestException(`Spend limit for ${limit.token} must have a non-zero amount and period`);
+      }
+      if (!caveats.allowedTokens.includes(limit.token)) {
+        throw new BadRequestException(`Spend limit token ${limit.token} is not an allowed target`);
+      }
+    }
+
+    return caveats;
+  }
+
+  /**
+   * Decode caveat terms into structured form
+   */
+  private decode(
+    config: CaveatConfigDto,
+    caveats: Array<{ enforcer: string; terms: string }>,
+  ): DelegationCaveatsDto {
+    const kinds = new Map<string, EnforcerKind>(
+      (Object.entries(config.enforcers) as [EnforcerKind, string | null][])
+        .filter(([, address]) => !!address)
+        .map(([kind, address]) => [address, kind]),
+    );
+    const signatures = new Map(config.methods.map((m) => [m.selector, m.signature]));
+
+    const result: DelegationCaveatsDto = {
+      validAfter: null,
+      expiresAt: null,
+      allowedTargets: null,
+      allowedTokens: null,
+      allowedMethods: null,
+      spendLimits: [],
+    };
+    const seen = new Set<EnforcerKind>();
+
+    for (const caveat of caveats) {
+      const kind = kinds.get(caveat.enforcer?.toLowerCase());
+      if (!kind) {
+        throw new BadRequestException(`Unsupported caveat enforcer ${caveat.enforcer}`);
+      }
+      if (!isHex(caveat.terms)) {
+        throw new BadRequestException(`Caveat terms for ${kind} must be hex`);
+      }
+      if (kind !== 'erc20PeriodTransfer' && seen.has(kind)) {
+        throw new BadRequestException(`Duplicate ${kind} caveat`);
+      }
+      seen.add(kind);
+
+      const terms = caveat.terms as Hex;
+      const length = size(terms);
+
+      switch (kind) {
+        case 'timestamp': {
+          this.expectLength(kind, length === 32);
+          const after = Number(hexToBigInt(sliceHex(terms, 0, 16)));
+          const until = Number(hexToBigInt(sliceHex(terms, 16, 32)));
+          result.validAfter = after > 0 ? new Date(after * 1000).toISOString() : null;
+          result.expiresAt = until > 0 ? new Date(until * 1000).toISOString() : null;
+          break;
+        }
+
+        case 'allowedTargets': {
+          this.expectLength(kind, length > 0 && length % 20 === 0);
+          result.allowedTargets = this.chunk(terms, 20);
+          result.allowedTokens = result.allowedTargets.filter(
+            (target) => target !== config.delegate && !config.dexRouters.includes(target),
+          );
+          break;
+        }
+
+        case 'allowedMethods': {
+          this.expectLength(kind, length > 0 && length % 4 === 0);
+          result.allowedMethods = this.chunk(terms, 4).map(
+            (selector): AllowedMethodDto => ({
+              selector,
+              signature: signatures.get(selector) ?? null,
+            }),
+          );
+          break;
+        }
+
+        case 'erc20PeriodTransfer': {
+          this.expectLength(kind, length === 116);
+          const limit: SpendLimitDto = {
+            token: sliceHex(terms, 0, 20).toLowerCase(),
+            periodAmount: hexToBigInt(sliceHex(terms, 20, 52)).toString(),
+            periodDuration: Number(hexToBigInt(sliceHex(terms, 52, 84))),
+            startDate: new Date(Number(hexToBigInt(sliceHex(terms, 84, 116))) * 1000).toISOString(),
+          };
+          if (result.spendLimits.some((existing) => existing.token === limit.token)) {
+            throw new BadRequestException(`Duplicate spend limit for ${limit.token}`);
+          }
+          result.spendLimits.push(limit);
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * ERC-20s of the strategy (native swapped for its wrapped token)
+   */
+  private async getStrategyTokens(
+    wrappedNative: string | null,
+    strategyId?: string,
+  ): Promise<string[]> {
+    if (!strategyId) return [];
+
+    const strategy = await this.prisma.strategy.findUnique({
+      where: { id: strategyId },
+      select: { tokens: true },
+    });
+    if (!strategy) return [];
+
+    return [
+      ...new Set(
+        strategy.tokens.map((token) =>
+          token.toLowerCase() === NATIVE_TOKEN && wrappedNative ? wrappedNative : token.toLowerCase(),
+        ),
+      ),
+    ];
+  }
+
+  private chunk(terms: Hex, bytes: number): string[] {
+    const chunks: string[] = [];
+    for (let start = 0; start < size(terms); start += bytes) {
+      chunks.push(sliceHex(terms, start, start + bytes).toLowerCase());
+    }
+    return chunks;
+  }
+
+  private expectLength(kind: EnforcerKind, valid: boolean) {
+    if (!valid) {
+      throw new BadRequestException(`Malformed ${kind} caveat terms`);
+    }
+  }
+
+  private address(key: string): string | null {
+    return this.config.get<string>(key)?.toLowerCase() || null;
+  }
+}
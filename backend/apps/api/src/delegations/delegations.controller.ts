@@ -22,12 +22,17 @@ import {
   DelegationStatsDto,
   LinkDelegationToStrategyDto,
 } from './dto/delegation.dto';
+import { CaveatConfigDto, GetCaveatConfigQueryDto } from './dto/caveats.dto';
+import { CaveatsService } from './caveats.service';
 
 @ApiTags('delegations')
 @Controller('delegations')
 // @WalletAuth() // TODO: Implement proper Privy token verification with @privy-io/server-auth
 export class DelegationsController {
-  constructor(private readonly delegationsService: DelegationsService) {}
+  constructor(
+    private readonly delegationsService: DelegationsService,
+    private readonly caveatsService: CaveatsService,
+  ) {}
 
   @Post()
   @ApiOperation({
@@ -106,6 +111,17 @@ export class DelegationsController {
     return this.delegationsService.getStats(userAddress);
   }
 
+  @Get('caveat-config')
+  @ApiOperation({
+    summary: 'Get caveat options for scoped delegations',
+    description:
+      'Delegate, caveat enforcers, approved DEX routers, strategy tokens and allowed methods for a chain',
+  })
+  @ApiResponse({ status: 200, type: CaveatConfigDto })
+  async getCaveatConfig(@Query() query: GetCaveatConfigQueryDto): Promise<CaveatConfigDto> {
+    return this.caveatsService.getCaveatConfig(query.chainId, query.strategyId);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get a specific delegation' })
   @ApiQuery({ name: 'userAddress', required: false, type: String })
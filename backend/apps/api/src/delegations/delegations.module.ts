@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
 import { DelegationsController } from './delegations.controller';
 import { DelegationsService } from './delegations.service';
+import { CaveatsService } from './caveats.service';
 
 @Module({
   controllers: [DelegationsController],
-  providers: [DelegationsService],
+  providers: [DelegationsService, CaveatsService],
   exports: [DelegationsService],
 })
 export class DelegationsModule {}
@@ -4,10 +4,11 @@ import {
   BadRequestException,
   ForbiddenException,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '@app/database';
-import { ChainService } from '@app/blockchain';
-import { ConfigService } from '@nestjs/config';
+import { ChainRegistryService, ChainService } from '@app/blockchain';
 import { CreateDelegationDto } from './dto/delegation.dto';
+import { CaveatsService } from './caveats.service';
 import { verifyTypedData } from 'viem';
 import { randomBytes } from 'crypto';
 
@@ -16,19 +17,19 @@ export class DelegationsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly chain: ChainService,
-    private readonly config: ConfigService,
+    private readonly registry: ChainRegistryService,
+    private readonly caveats: CaveatsService,
   ) {}
 
   /**
    * EIP-712 domain for delegation signatures (MetaMask v1.3.0 compatible)
    */
   private getDomain(chainId: number) {
-    // Map chainId to chain name: 10143 = Monad Testnet, 10200 = Monad Mainnet
-    const MONAD_CHAIN_IDS = [10200, 10143];
-    const chainName = MONAD_CHAIN_IDS.includes(chainId) ? 'monad' : 'base';
-    const delegationManagerAddress = this.config.get(
-      `blockchain.${chainName}.contracts.delegationManager`,
-    );
+    const chain = this.registry.findByChainId(chainId);
+    if (!chain) {
+      throw new BadRequestException(`Chain ID ${chainId} not supported`);
+    }
+    const delegationManagerAddress = chain.contracts.delegationManager;
 
     return {
       name: 'DelegationManager',
@@ -166,6 +167,9 @@ export class DelegationsService {
       throw new BadRequestException(`Signature verification failed: ${error.message}`);
     }
 
+    // Decode and check the caveat scope (expiry, targets, methods, spend limits)
+    const caveats = await this.caveats.validate(dto.chainId, dto.delegationData, dto.strategyId);
+
     // Generate unique ID from delegation hash
     const delegationId = randomBytes(16).toString('hex');
 
@@ -188,8 +192,10 @@ export class DelegationsService {
         userAddress: recoveredAddress.toLowerCase(),
         delegateAddress: dto.delegateAddress.toLowerCase(),
         delegationData: dto.delegationData,
+        caveats: caveats as unknown as Prisma.InputJsonValue,
         signature: dto.signature,
         isActive: true,
+        expiresAt: caveats.expiresAt ? new Date(caveats.expiresAt) : null,
       },
     });
 
@@ -281,9 +287,8 @@ export class DelegationsService {
         salt: delegation.delegationData.salt,
         deadline: delegation.delegationData.deadline || 0,
       },
-      contractAddress: this.config.get(
-        `blockchain.${delegation.chainId === 84532 ? 'base' : 'monad'}.contracts.delegationManager`,
-      ),
+      contractAddress:
+        this.registry.findByChainId(delegation.chainId)?.contracts.delegationManager ?? null,
       chainId: delegation.chainId,
     };
   }
@@ -319,7 +324,10 @@ export class DelegationsService {
       );
     }
 
-    // 4. Link delegation to strategy
+    // 4. Token targets must belong to the strategy (unknown when the delegation was created)
+    await this.caveats.validate(delegation.chainId, delegation.delegationData, strategyId);
+
+    // 5. Link delegation to strategy
     const updated = await this.prisma.delegation.update({
       where: { id: delegationId },
       data: { strategyId },
@@ -361,8 +369,10 @@ export class DelegationsService {
       userAddress: delegation.userAddress,
       delegateAddress: delegation.delegateAddress,
       delegationData: delegation.delegationData,
+      caveats: delegation.caveats ?? null,
       signature: delegation.signature,
       isActive: delegation.isActive,
+      expiresAt: delegation.expiresAt ?? null,
       createdAt: delegation.createdAt,
       updatedAt: delegation.updatedAt,
       strategy: delegation.strategy
@@ -0,0 +1,109 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, IsString } from 'class-validator';
+
+export class GetCaveatConfigQueryDto {
+  @ApiProperty({ example: 10143 })
+  @IsInt()
+  chainId: number;
+
+  @ApiPropertyOptional({ description: 'Restrict token targets to this strategy\'s assets' })
+  @IsOptional()
+  @IsString()
+  strategyId?: string;
+}
+
+export class AllowedMethodDto {
+  @ApiProperty({ example: '0x095ea7b3' })
+  selector: string;
+
+  @ApiProperty({ example: 'approve(address,uint256)', nullable: true })
+  signature: string | null;
+}
+
+export class CaveatEnforcersDto {
+  @ApiProperty({ nullable: true, description: 'TimestampEnforcer (expiry)' })
+  timestamp: string | null;
+
+  @ApiProperty({ nullable: true, description: 'AllowedTargetsEnforcer' })
+  allowedTargets: string | null;
+
+  @ApiProperty({ nullable: true, description: 'AllowedMethodsEnforcer' })
+  allowedMethods: string | null;
+
+  @ApiProperty({ nullable: true, description: 'ERC20PeriodTransferEnforcer (per-period spend limit)' })
+  erc20PeriodTransfer: string | null;
+}
+
+export class CaveatConfigDto {
+  @ApiProperty()
+  chainId: number;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Required delegate (RebalanceExecutor) - null when scoped delegations are not configured',
+  })
+  delegate: string | null;
+
+  @ApiProperty({
+    description: 'Whether delegations are accepted on this chain (they must carry expiry, target and method caveats)',
+  })
+  scoped: boolean;
+
+  @ApiProperty({ type: CaveatEnforcersDto })
+  enforcers: CaveatEnforcersDto;
+
+  @ApiProperty({ type: [String], description: 'DEX routers approved on the RebalanceExecutor' })
+  dexRouters: string[];
+
+  @ApiProperty({ type: [String], description: 'Token contracts the delegation may target' })
+  tokens: string[];
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Wrapped native token (stands in for native assets in tokens)',
+  })
+  wrappedNative: string | null;
+
+  @ApiProperty({ type: [AllowedMethodDto], description: 'Function selectors a delegation may allow' })
+  methods: AllowedMethodDto[];
+
+  @ApiProperty()
+  maxExpiryDays: number;
+}
+
+export class SpendLimitDto {
+  @ApiProperty()
+  token: string;
+
+  @ApiProperty({ description: 'Max amount per period (token wei)' })
+  periodAmount: string;
+
+  @ApiProperty({ description: 'Period length (seconds)' })
+  periodDuration: number;
+
+  @ApiProperty({ description: 'First period start (ISO 8601)' })
+  startDate: string;
+}
+
+/**
+ * Structured form of a delegation's caveats - null fields are unrestricted
+ */
+export class DelegationCaveatsDto {
+  @ApiProperty({ nullable: true, description: 'ISO 8601' })
+  validAfter: string | null;
+
+  @ApiProperty({ nullable: true, description: 'ISO 8601' })
+  expiresAt: string | null;
+
+  @ApiProperty({ type: [String], nullable: true })
+  allowedTargets: string[] | null;
+
+  @ApiProperty({ type: [String], nullable: true, description: 'Targets that are neither the executor nor a DEX router' })
+  allowedTokens: string[] | null;
+
+  @ApiProperty({ type: [AllowedMethodDto], nullable: true })
+  allowedMethods: AllowedMethodDto[] | null;
+
+  @ApiProperty({ type: [SpendLimitDto] })
+  spendLimits: SpendLimitDto[];
+}
@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { DelegationCaveatsDto } from './caveats.dto';
 import {
   IsString,
   IsNotEmpty,
@@ -39,7 +40,7 @@ export class CreateDelegationDto {
       delegate: '0x...', // Bot address
       delegator: '0x...', // DeleGator smart account
       authority: '0x0000000000000000000000000000000000000000000000000000000000000000', // Root delegation
-      caveats: [], // Array of restrictions
+      caveats: [], // Caveat enforcers + encoded terms (expiry, targets, methods, spend limits)
       salt: '0x...', // Unique identifier
       deadline: 0, // Expiration timestamp (0 = never expires)
     },
@@ -92,12 +93,22 @@ export class DelegationResponseDto {
   @ApiProperty()
   delegationData: any;
 
+  @ApiProperty({
+    type: DelegationCaveatsDto,
+    nullable: true,
+    description: 'Decoded caveat scope (null for delegations created before caveat decoding)',
+  })
+  caveats: DelegationCaveatsDto | null;
+
   @ApiProperty()
   signature: string;
 
   @ApiProperty()
   isActive: boolean;
 
+  @ApiProperty({ nullable: true })
+  expiresAt: Date | null;
+
   @ApiProperty()
   createdAt: Date;
 
@@ -88,6 +88,7 @@ async function bootstrap() {
     .addTag('delegations', 'ERC-7710 delegations')
     .addTag('rebalances', 'Rebalance history')
     .addTag('analytics', 'Performance analytics')
+    .addTag('notifications', 'User notifications and delivery preferences')
     .build();
 
   const document = SwaggerModule.createDocument(app, swaggerConfig);
@@ -0,0 +1,189 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsEmail,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  IsUUID,
+  Matches,
+  Max,
+  MinLength,
+  Min,
+  ArrayMaxSize,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export enum NotificationType {
+  REBALANCE_COMPLETED = 'REBALANCE_COMPLETED',
+  REBALANCE_FAILED = 'REBALANCE_FAILED',
+  DELEGATION_EXPIRING = 'DELEGATION_EXPIRING',
+  STRATEGY_DRIFT = 'STRATEGY_DRIFT',
+  LOW_GAS_PRICE = 'LOW_GAS_PRICE',
+  SYSTEM_ALERT = 'SYSTEM_ALERT',
+}
+
+export class NotificationResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: NotificationType })
+  type: NotificationType;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty()
+  message: string;
+
+  @ApiPropertyOptional({ description: 'Event details (strategyId, txHash, ...)', nullable: true })
+  data?: Record<string, unknown> | null;
+
+  @ApiProperty()
+  isRead: boolean;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class GetNotificationsQueryDto {
+  @ApiPropertyOptional({ description: 'Only return unread notifications', default: false })
+  @IsOptional()
+  @Transform(({ obj }) => obj.unreadOnly === true || obj.unreadOnly === 'true')
+  @IsBoolean()
+  unreadOnly?: boolean;
+
+  @ApiPropertyOptional({ description: 'Filter by type', enum: NotificationType })
+  @IsOptional()
+  @IsEnum(NotificationType)
+  type?: NotificationType;
+
+  @ApiPropertyOptional({ description: 'Limit results', minimum: 1, maximum: 100, default: 50 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Skip results (pagination)', minimum: 0, default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  skip?: number;
+}
+
+export class MarkNotificationsReadDto {
+  @ApiPropertyOptional({ description: 'Notification IDs to mark as read', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsUUID('all', { each: true })
+  ids?: string[];
+
+  @ApiPropertyOptional({ description: 'Mark every notification as read' })
+  @IsOptional()
+  @IsBoolean()
+  all?: boolean;
+}
+
+export class NotificationPreferencesDto {
+  @ApiProperty({ description: 'Live in-app delivery over the socket' })
+  websocket: boolean;
+
+  @ApiProperty()
+  discord: boolean;
+
+  @ApiProperty()
+  telegram: boolean;
+
+  @ApiProperty()
+  email: boolean;
+
+  @ApiProperty()
+  webhook: boolean;
+
+  @ApiPropertyOptional({ nullable: true })
+  discordWebhookUrl: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  telegramChatId: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  emailAddress: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  webhookUrl: string | null;
+
+  @ApiProperty({ description: 'Whether a webhook signing secret is set (the secret is never returned)' })
+  hasWebhookSecret: boolean;
+
+  @ApiProperty({ enum: NotificationType, isArray: true })
+  mutedTypes: NotificationType[];
+}
+
+export class UpdateNotificationPreferencesDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  websocket?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  discord?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  telegram?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  email?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  webhook?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Discord incoming webhook URL',
+    example: 'https://discord.com/api/webhooks/123/abc',
+  })
+  @IsOptional()
+  @Matches(/^https:\/\/(discord|discordapp)\.com\/api\/webhooks\//, {
+    message: 'discordWebhookUrl must be a Discord webhook URL',
+  })
+  discordWebhookUrl?: string;
+
+  @ApiPropertyOptional({ description: 'Telegram chat ID or @channel', example: '123456789' })
+  @IsOptional()
+  @Matches(/^(-?\d+|@\w{5,})$/, { message: 'telegramChatId must be a chat ID or @channel' })
+  telegramChatId?: string;
+
+  @ApiPropertyOptional({ example: 'me@example.com' })
+  @IsOptional()
+  @IsEmail()
+  emailAddress?: string;
+
+  @ApiPropertyOptional({ description: 'HTTPS endpoint receiving signed JSON POSTs' })
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  webhookUrl?: string;
+
+  @ApiPropertyOptional({ description: 'HMAC-SHA256 signing secret (min 16 chars)' })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  webhookSecret?: string;
+
+  @ApiPropertyOptional({ enum: NotificationType, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(NotificationType, { each: true })
+  mutedTypes?: NotificationType[];
+}
@@ -0,0 +1,56 @@
+import { Body, Controller, Get, Patch, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { WalletAuth } from '@app/common/decorators/wallet-auth.decorator';
+import { AuthUser, CurrentUser } from '@app/common/decorators/current-user.decorator';
+import { NotificationsService } from './notifications.service';
+import {
+  GetNotificationsQueryDto,
+  MarkNotificationsReadDto,
+  NotificationPreferencesDto,
+  NotificationResponseDto,
+  UpdateNotificationPreferencesDto,
+} from './dto/notification.dto';
+
+@ApiTags('notifications')
+@Controller('notifications')
+@WalletAuth()
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get notifications for current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Notifications with total and unread counts',
+    type: [NotificationResponseDto],
+  })
+  async findAll(@CurrentUser() user: AuthUser, @Query() query: GetNotificationsQueryDto) {
+    return this.notificationsService.findAll(user.address, query);
+  }
+
+  @Patch()
+  @ApiOperation({ summary: 'Mark notifications as read' })
+  @ApiResponse({ status: 200, description: 'Number of notifications updated' })
+  @ApiResponse({ status: 400, description: 'Neither ids nor all provided' })
+  async markRead(@CurrentUser() user: AuthUser, @Body() dto: MarkNotificationsReadDto) {
+    return this.notificationsService.markRead(user.address, dto);
+  }
+
+  @Get('preferences')
+  @ApiOperation({ summary: 'Get notification delivery preferences' })
+  @ApiResponse({ status: 200, type: NotificationPreferencesDto })
+  async getPreferences(@CurrentUser() user: AuthUser): Promise<NotificationPreferencesDto> {
+    return this.notificationsService.getPreferences(user.address);
+  }
+
+  @Patch('preferences')
+  @ApiOperation({ summary: 'Update notification delivery preferences' })
+  @ApiResponse({ status: 200, type: NotificationPreferencesDto })
+  @ApiResponse({ status: 400, description: 'Channel enabled without a destination' })
+  async updatePreferences(
+    @CurrentUser() user: AuthUser,
+    @Body() dto: UpdateNotificationPreferencesDto,
+  ): Promise<NotificationPreferencesDto> {
+    return this.notificationsService.updatePreferences(user.address, dto);
+  }
+}
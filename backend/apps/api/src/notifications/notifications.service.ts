@@ -0,0 +1,150 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { NotificationPreference, Prisma } from '@prisma/client';
+import { PrismaService } from '@app/database';
+import { assertPublicUrl } from '@app/common/utils/public-url';
+import {
+  GetNotificationsQueryDto,
+  MarkNotificationsReadDto,
+  NotificationPreferencesDto,
+  NotificationType,
+  UpdateNotificationPreferencesDto,
+} from './dto/notification.dto';
+
+// Channel flag -> setting it requires
+const CHANNEL_TARGETS = {
+  discord: 'discordWebhookUrl',
+  telegram: 'telegramChatId',
+  email: 'emailAddress',
+  webhook: 'webhookUrl',
+} as const;
+
+@Injectable()
+export class NotificationsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Get notifications for a user (newest first)
+   */
+  async findAll(userAddress: string, query: GetNotificationsQueryDto) {
+    const { unreadOnly, type, limit = 50, skip = 0 } = query;
+    const address = userAddress.toLowerCase();
+
+    const where: Prisma.NotificationWhereInput = { userAddress: address };
+
+    if (unreadOnly) {
+      where.isRead = false;
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    const [data, total, unread] = await Promise.all([
+      this.prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: Math.min(limit, 100),
+        skip,
+      }),
+      this.prisma.notification.count({ where }),
+      this.prisma.notification.count({ where: { userAddress: address, isRead: false } }),
+    ]);
+
+    return { data, total, unread };
+  }
+
+  /**
+   * Mark notifications as read (only the caller's own are touched)
+   */
+  async markRead(userAddress: string, dto: MarkNotificationsReadDto) {
+    if (!dto.all && !dto.ids?.length) {
+      throw new BadRequestException('Provide ids or set all to true');
+    }
+
+    const { count } = await this.prisma.notification.updateMany({
+      where: {
+        userAddress: userAddress.toLowerCase(),
+        isRead: false,
+        ...(dto.all ? {} : { id: { in: dto.ids } }),
+      },
+      data: { isRead: true },
+    });
+
+    return { updated: count };
+  }
+
+  /**
+   * Get delivery preferences (defaults when none saved)
+   */
+  async getPreferences(userAddress: string): Promise<NotificationPreferencesDto> {
+    const preference = await this.prisma.notificationPreference.findUnique({
+      where: { userAddress: userAddress.toLowerCase() },
+    });
+
+    return this.formatPreferences(preference);
+  }
+
+  /**
+   * Update delivery preferences
+   * A channel can only be enabled once its destination is set
+   */
+  async updatePreferences(
+    userAddress: string,
+    dto: UpdateNotificationPreferencesDto,
+  ): Promise<NotificationPreferencesDto> {
+    const address = userAddress.toLowerCase();
+
+    const existing = await this.prisma.notificationPreference.findUnique({
+      where: { userAddress: address },
+    });
+    const merged = { ...existing, ...dto };
+
+    for (const [channel, target] of Object.entries(CHANNEL_TARGETS)) {
+      if (merged[channel] && !merged[target]) {
+        throw new BadRequestException(`${target} is required to enable ${channel} notifications`);
+      }
+    }
+
+    if (merged.webhook && !merged.webhookSecret) {
+      throw new BadRequestException('webhookSecret is required to enable webhook notifications');
+    }
+
+    // The bot POSTs to this URL from inside our network
+    if (dto.webhookUrl) {
+      try {
+        await assertPublicUrl(dto.webhookUrl);
+      } catch (error) {
+        throw new BadRequestException(`webhookUrl ${error.message}`);
+      }
+    }
+
+    const preference = await this.prisma.notificationPreference.upsert({
+      where: { userAddress: address },
+      create: { userAddress: address, ...dto },
+      update: dto,
+    });
+
+    return this.formatPreferences(preference);
+  }
+
+  /**
+   * Format preferences for API response (never expose the webhook secret)
+   */
+  private formatPreferences(
+    preference: NotificationPreference | null,
+  ): NotificationPreferencesDto {
+    return {
+      websocket: preference?.websocket ?? true,
+      discord: preference?.discord ?? false,
+      telegram: preference?.telegram ?? false,
+      email: preference?.email ?? false,
+      webhook: preference?.webhook ?? false,
+      discordWebhookUrl: preference?.discordWebhookUrl ?? null,
+      telegramChatId: preference?.telegramChatId ?? null,
+      emailAddress: preference?.emailAddress ?? null,
+      webhookUrl: preference?.webhookUrl ?? null,
+      hasWebhookSecret: !!preference?.webhookSecret,
+      mutedTypes: (preference?.mutedTypes ?? []) as NotificationType[], // Same values as the Prisma enum
+    };
+  }
+}
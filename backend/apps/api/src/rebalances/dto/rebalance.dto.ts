@@ -61,6 +61,116 @@ export class RebalanceResponseDto {
   strategyName?: string;
 }
 
+export class RebalanceSwapDto {
+  @ApiProperty({ description: 'Position in the rebalance call' })
+  index: number;
+
+  @ApiProperty()
+  tokenIn: string;
+
+  @ApiProperty()
+  tokenOut: string;
+
+  @ApiProperty({ description: 'Amount sold (raw token units)' })
+  amountIn: string;
+
+  @ApiProperty({ description: 'Output of the selected quote (raw token units)' })
+  quotedAmountOut: string;
+
+  @ApiProperty({ description: 'Minimum output enforced on-chain (raw token units)' })
+  minAmountOut: string;
+
+  @ApiPropertyOptional({ description: 'Output received (raw token units)', nullable: true })
+  realizedAmountOut: string | null;
+
+  @ApiProperty({ example: 'Monorail' })
+  aggregator: string;
+
+  @ApiPropertyOptional({ description: 'Realized vs. quoted in basis points (negative = better)', nullable: true })
+  slippageBps: number | null;
+
+  @ApiPropertyOptional({ description: 'Price impact (%) reported by the aggregator', nullable: true })
+  priceImpact: number | null;
+}
+
+export class PortfolioSnapshotTokenDto {
+  @ApiProperty()
+  address: string;
+
+  @ApiProperty()
+  symbol: string;
+
+  @ApiProperty({ description: 'Raw token units' })
+  balance: string;
+
+  @ApiProperty()
+  decimals: number;
+
+  @ApiProperty()
+  priceUSD: number;
+
+  @ApiProperty()
+  valueUSD: number;
+
+  @ApiProperty({ description: 'Percent of portfolio value' })
+  currentWeight: number;
+
+  @ApiProperty({ description: 'Percent' })
+  targetWeight: number;
+}
+
+export class PortfolioSnapshotDto {
+  @ApiProperty()
+  totalValueUSD: number;
+
+  @ApiProperty({ description: 'Basis points' })
+  drift: number;
+
+  @ApiProperty({ type: [PortfolioSnapshotTokenDto] })
+  tokens: PortfolioSnapshotTokenDto[];
+}
+
+export class PreflightFailureDto {
+  @ApiProperty({ enum: ['quote', 'balance', 'allowance', 'price_impact', 'slippage', 'simulation'] })
+  check: string;
+
+  @ApiPropertyOptional({ description: 'Swap the check failed on (null = whole rebalance call)', nullable: true })
+  swapIndex: number | null;
+
+  @ApiPropertyOptional()
+  token?: string;
+
+  @ApiProperty()
+  message: string;
+
+  @ApiPropertyOptional()
+  expected?: string;
+
+  @ApiPropertyOptional()
+  actual?: string;
+}
+
+export class RebalanceDetailDto extends RebalanceResponseDto {
+  @ApiProperty({ type: [RebalanceSwapDto] })
+  swaps: RebalanceSwapDto[];
+
+  @ApiPropertyOptional({ description: 'Planned swaps and transfers', nullable: true })
+  executionPlan: Record<string, any> | null;
+
+  @ApiPropertyOptional({ type: PortfolioSnapshotDto, nullable: true })
+  portfolioBefore: PortfolioSnapshotDto | null;
+
+  @ApiPropertyOptional({ type: PortfolioSnapshotDto, nullable: true })
+  portfolioAfter: PortfolioSnapshotDto | null;
+
+  @ApiPropertyOptional({
+    type: [PreflightFailureDto],
+    description: 'Pre-flight checks that stopped a failed rebalance before broadcast',
+    nullable: true,
+  })
+  failureReasons: PreflightFailureDto[] | null;
+}
+
 export class GetRebalancesQueryDto {
   @ApiPropertyOptional({ description: 'Filter by strategy ID' })
   @IsOptional()
@@ -5,6 +5,7 @@ import { CurrentUser } from '@app/common/decorators/current-user.decorator';
 import { RebalancesService } from './rebalances.service';
 import {
   GetRebalancesQueryDto,
+  RebalanceDetailDto,
   RebalanceResponseDto,
   RebalanceStatus,
 } from './dto/rebalance.dto';
@@ -49,18 +50,18 @@ export class RebalancesController {
   }
 
   @Get(':id')
-  @ApiOperation({ summary: 'Get a specific rebalance' })
+  @ApiOperation({ summary: 'Get a specific rebalance with per-swap detail' })
   @ApiResponse({
     status: 200,
-    description: 'Rebalance details',
-    type: RebalanceResponseDto,
+    description: 'Rebalance, swaps (quoted vs. realized) and before/after portfolio',
+    type: RebalanceDetailDto,
   })
   @ApiResponse({ status: 404, description: 'Rebalance not found' })
   @ApiResponse({ status: 403, description: 'Not authorized to view this rebalance' })
   async findOne(
     @CurrentUser() user: any,
     @Param('id') id: string,
-  ): Promise<RebalanceResponseDto> {
+  ): Promise<RebalanceDetailDto> {
     return this.rebalancesService.findOne(id, user.address);
   }
 }
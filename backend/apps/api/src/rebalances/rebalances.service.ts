@@ -2,6 +2,7 @@ import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/commo
 import { PrismaService } from '@app/database';
 import {
   GetRebalancesQueryDto,
+  RebalanceDetailDto,
   RebalanceResponseDto,
   RebalanceStatus,
 } from './dto/rebalance.dto';
@@ -61,9 +62,9 @@ export class RebalancesService {
   }
 
   /**
-   * Get a specific rebalance by ID
+   * Get a specific rebalance by ID with per-swap detail and portfolio snapshots
    */
-  async findOne(id: string, userAddress: string): Promise<RebalanceResponseDto> {
+  async findOne(id: string, userAddress: string): Promise<RebalanceDetailDto> {
     const rebalance = await this.prisma.rebalance.findUnique({
       where: { id },
       include: {
@@ -73,6 +74,9 @@ export class RebalancesService {
             userAddress: true,
           },
         },
+        swaps: {
+          orderBy: { index: 'asc' },
+        },
       },
     });
 
@@ -85,7 +89,25 @@ export class RebalancesService {
       throw new ForbiddenException('You do not own this rebalance');
     }
 
-    return this.formatRebalance(rebalance);
+    return {
+      ...this.formatRebalance(rebalance),
+      swaps: rebalance.swaps.map((swap) => ({
+        index: swap.index,
+        tokenIn: swap.tokenIn,
+        tokenOut: swap.tokenOut,
+        amountIn: swap.amountIn.toFixed(),
+        quotedAmountOut: swap.quotedAmountOut.toFixed(),
+        minAmountOut: swap.minAmountOut.toFixed(),
+        realizedAmountOut: swap.realizedAmountOut?.toFixed() ?? null,
+        aggregator: swap.aggregator,
+        slippageBps: swap.slippageBps,
+        priceImpact: swap.priceImpact,
+      })),
+      executionPlan: rebalance.executionPlan as Record<string, any> | null,
+      portfolioBefore: rebalance.portfolioBefore as unknown as RebalanceDetailDto['portfolioBefore'],
+      portfolioAfter: rebalance.portfolioAfter as unknown as RebalanceDetailDto['portfolioAfter'],
+      failureReasons: rebalance.failureReasons as unknown as RebalanceDetailDto['failureReasons'],
+    };
   }
 
   /**
@@ -0,0 +1,159 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Min,
+  Max,
+} from 'class-validator';
+
+export class BacktestStrategyDto {
+  @ApiProperty({
+    description: 'Price history source: local fixture file or recorded oracle snapshots',
+    enum: ['fixture', 'snapshots'],
+    example: 'fixture',
+  })
+  @IsIn(['fixture', 'snapshots'])
+  source: 'fixture' | 'snapshots';
+
+  @ApiProperty({
+    description: 'Fixture file name in the backtest fixtures directory (.json or .csv)',
+    example: 'weth-usdc-30d.csv',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  fixture?: string;
+
+  @ApiProperty({
+    description: 'Recorded price snapshots (prices keyed by token address or symbol)',
+    example: [
+      { timestamp: 1727740800000, prices: { WETH: 2600, USDC: 1 } },
+      { timestamp: 1727762400000, prices: { WETH: 2450, USDC: 1 } },
+    ],
+    required: false,
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10000)
+  @IsOptional()
+  snapshots?: Array<{ timestamp: number | string; prices: Record<string, number> }>;
+
+  @ApiProperty({
+    description: 'Start of the replay window (unix ms)',
+    example: 1727740800000,
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  from?: number;
+
+  @ApiProperty({
+    description: 'End of the replay window (unix ms)',
+    example: 1730332800000,
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  to?: number;
+
+  @ApiProperty({
+    description: 'Starting portfolio value in USD',
+    example: 10000,
+    required: false,
+  })
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  initialCapitalUSD?: number;
+
+  @ApiProperty({
+    description: 'Swap fee per simulated swap (basis points)',
+    example: 30,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(1000)
+  @IsOptional()
+  feeBps?: number;
+
+  @ApiProperty({
+    description: 'Gas price assumed for each rebalance (gwei)',
+    example: 50,
+    required: false,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  gasPriceGwei?: number;
+
+  @ApiProperty({
+    description: 'Native token price used to value gas (USD)',
+    example: 2000,
+    required: false,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  nativePriceUSD?: number;
+}
+
+export class BacktestResultDto {
+  @ApiProperty({ enum: ['fixture', 'snapshots'] })
+  source: string;
+
+  @ApiProperty({ description: 'First replayed timestamp (unix ms)' })
+  startTimestamp: number;
+
+  @ApiProperty({ description: 'Last replayed timestamp (unix ms)' })
+  endTimestamp: number;
+
+  @ApiProperty({ description: 'Number of price points replayed' })
+  points: number;
+
+  @ApiProperty()
+  initialValueUSD: number;
+
+  @ApiProperty()
+  finalValueUSD: number;
+
+  @ApiProperty()
+  returnPct: number;
+
+  @ApiProperty()
+  rebalanceCount: number;
+
+  @ApiProperty()
+  swapCount: number;
+
+  @ApiProperty()
+  totalFeesUSD: number;
+
+  @ApiProperty()
+  totalGasUSD: number;
+
+  @ApiProperty({ description: 'Largest peak-to-trough decline of the equity curve (%)' })
+  maxDrawdownPct: number;
+
+  @ApiProperty({
+    description: 'Portfolio value and drift (bps) at each price point',
+    example: [{ timestamp: 1727740800000, valueUSD: 10000, drift: 0, rebalanced: false }],
+  })
+  equityCurve: Array<{ timestamp: number; valueUSD: number; drift: number; rebalanced: boolean }>;
+
+  @ApiProperty({ description: 'Simulated swaps' })
+  trades: Array<{
+    timestamp: number;
+    fromToken: string;
+    toToken: string;
+    amountInUSD: number;
+    feeUSD: number;
+    reason: string;
+  }>;
+}
@@ -0,0 +1,159 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class StrategyPnlDto {
+  @ApiProperty({ description: 'Snapshot time (ISO 8601)' })
+  asOf: string;
+
+  @ApiProperty()
+  totalValueUSD: number;
+
+  @ApiProperty({ description: 'Deposits - withdrawals (USD)' })
+  netContributionsUSD: number;
+
+  @ApiProperty({ description: 'Gains locked in by selling, net of trading costs (USD)' })
+  realizedPnlUSD: number;
+
+  @ApiProperty({ description: 'Value - cost basis of current holdings (USD)' })
+  unrealizedPnlUSD: number;
+
+  @ApiProperty({ description: 'Realized + unrealized (USD)' })
+  totalPnlUSD: number;
+
+  @ApiProperty({ description: 'Total P&L as % of net contributions' })
+  totalPnlPercent: number;
+
+  @ApiProperty({ description: 'Time-weighted return (%)' })
+  twr: number;
+
+  @ApiProperty({ description: 'Buy-and-hold of the initial weights (USD)' })
+  benchmarkValueUSD: number;
+
+  @ApiProperty({ description: 'Buy-and-hold time-weighted return (%)' })
+  benchmarkReturn: number;
+
+  @ApiProperty({ description: 'TWR - benchmark return (percentage points)' })
+  excessReturn: number;
+}
+
+export class ValuationPointDto {
+  @ApiProperty()
+  timestamp: string;
+
+  @ApiProperty()
+  totalValueUSD: number;
+
+  @ApiProperty()
+  netContributionsUSD: number;
+
+  @ApiProperty()
+  totalPnlUSD: number;
+
+  @ApiProperty({ description: 'Time-weighted return since the first snapshot (%)' })
+  twr: number;
+
+  @ApiProperty()
+  benchmarkValueUSD: number;
+
+  @ApiProperty({ description: 'Benchmark time-weighted return (%)' })
+  benchmarkReturn: number;
+
+  @ApiProperty({ description: 'A rebalance executed since the previous point' })
+  rebalanced: boolean;
+}
+
+export class StrategyPnlEntryDto extends StrategyPnlDto {
+  @ApiProperty()
+  strategyId: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  chainId: number;
+}
+
+export class PnlTotalsDto {
+  @ApiProperty()
+  totalValueUSD: number;
+
+  @ApiProperty()
+  netContributionsUSD: number;
+
+  @ApiProperty()
+  realizedPnlUSD: number;
+
+  @ApiProperty()
+  unrealizedPnlUSD: number;
+
+  @ApiProperty()
+  totalPnlUSD: number;
+
+  @ApiProperty({ description: 'Total P&L as % of net contributions' })
+  totalPnlPercent: number;
+}
+
+export class UserPnlDto {
+  @ApiProperty({ type: [StrategyPnlEntryDto] })
+  strategies: StrategyPnlEntryDto[];
+
+  @ApiProperty({ type: PnlTotalsDto })
+  totals: PnlTotalsDto;
+}
+
+export class GetSnapshotsQueryDto {
+  @ApiPropertyOptional({ description: 'Days of history', minimum: 1, maximum: 365, default: 30 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  days?: number;
+}
+
+export class StrategyPerformanceDto {
+  @ApiProperty()
+  strategyId: string;
+
+  @ApiProperty()
+  chainId: number;
+
+  @ApiProperty()
+  totalRebalances: number;
+
+  @ApiProperty()
+  successfulRebalances: number;
+
+  @ApiProperty()
+  failedRebalances: number;
+
+  @ApiProperty({ description: 'Successful / total rebalances (%)' })
+  successRate: number;
+
+  @ApiProperty({ description: 'Average drift reduction per successful rebalance (basis points)' })
+  avgDriftReduction: number;
+
+  @ApiProperty({ description: 'Gas used by successful rebalances' })
+  totalGasUsed: string;
+
+  @ApiProperty({ description: 'Gas cost of successful rebalances (wei)' })
+  totalGasCost: string;
+
+  @ApiProperty({ description: 'Gas units saved vs. one standalone transaction per swap' })
+  totalGasSaved: string;
+
+  @ApiProperty({ description: 'Last rebalance (ISO 8601)', nullable: true })
+  lastRebalanceAt: string | null;
+
+  @ApiProperty({ description: 'Current portfolio value (USD)', nullable: true })
+  currentValueUSD: number | null;
+
+  @ApiProperty({ description: 'Current portfolio drift (basis points)', nullable: true })
+  currentDrift: number | null;
+
+  @ApiProperty({
+    type: StrategyPnlDto,
+    nullable: true,
+    description: 'P&L as of the latest valuation snapshot (null until the first one)',
+  })
+  pnl: StrategyPnlDto | null;
+}
@@ -0,0 +1,139 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, Min } from 'class-validator';
+import { StrategyResponseDto } from './strategy.dto';
+
+export class StrategyRevisionDto {
+  @ApiProperty({ description: 'Revision number (1 = as created)' })
+  revision: number;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  tokens: string[];
+
+  @ApiProperty({ description: 'Weights in basis points' })
+  weights: number[];
+
+  @ApiProperty()
+  rebalanceInterval: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  strategyLogic: object | null;
+
+  @ApiProperty({ description: 'Wallet that made the change' })
+  authorAddress: string;
+
+  @ApiProperty({ enum: ['create', 'update', 'rollback'] })
+  source: string;
+
+  @ApiPropertyOptional({ description: 'Revision restored by a rollback', nullable: true })
+  restoredRevision: number | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class RevisionDiffQueryDto {
+  @ApiProperty({ description: 'Base revision' })
+  @IsInt()
+  @Min(1)
+  from: number;
+
+  @ApiProperty({ description: 'Revision compared against the base' })
+  @IsInt()
+  @Min(1)
+  to: number;
+}
+
+export class FieldChangeDto {
+  @ApiProperty({ example: 'rebalanceInterval' })
+  field: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  from: unknown;
+
+  @ApiPropertyOptional({ nullable: true })
+  to: unknown;
+}
+
+export class BlockSummaryDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: ['asset', 'condition', 'action'] })
+  type: string;
+
+  @ApiProperty({ description: 'Token symbol, condition type or action type', example: 'USDC' })
+  label: string;
+}
+
+export class BlockChangeDto extends BlockSummaryDto {
+  @ApiProperty({ type: [FieldChangeDto], description: 'Changed block data fields' })
+  changes: FieldChangeDto[];
+}
+
+export class WeightChangeDto {
+  @ApiProperty()
+  token: string;
+
+  @ApiPropertyOptional({ description: 'Basis points (null = not in the base revision)', nullable: true })
+  from: number | null;
+
+  @ApiPropertyOptional({ description: 'Basis points (null = removed)', nullable: true })
+  to: number | null;
+}
+
+export class StrategyRevisionDiffDto {
+  @ApiProperty()
+  from: number;
+
+  @ApiProperty()
+  to: number;
+
+  @ApiProperty({ type: [FieldChangeDto], description: 'Name and rebalance interval changes' })
+  fields: FieldChangeDto[];
+
+  @ApiProperty({ type: [WeightChangeDto] })
+  weights: WeightChangeDto[];
+
+  @ApiProperty({ type: [BlockSummaryDto] })
+  blocksAdded: BlockSummaryDto[];
+
+  @ApiProperty({ type: [BlockSummaryDto] })
+  blocksRemoved: BlockSummaryDto[];
+
+  @ApiProperty({ type: [BlockChangeDto] })
+  blocksChanged: BlockChangeDto[];
+
+  @ApiProperty({ description: 'Connections added (source block → target block)', example: ['a1 → c1'] })
+  connectionsAdded: string[];
+
+  @ApiProperty({ description: 'Connections removed (source block → target block)', example: ['c1 → x1'] })
+  connectionsRemoved: string[];
+}
+
+export class RegistrySyncDto {
+  @ApiProperty({
+    enum: ['in_sync', 'updated', 'failed', 'skipped'],
+    description: 'skipped = strategy not deployed; failed = owner must call updateStrategy',
+  })
+  status: 'in_sync' | 'updated' | 'failed' | 'skipped';
+
+  @ApiPropertyOptional({ nullable: true })
+  txHash: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  error: string | null;
+}
+
+export class StrategyRollbackDto {
+  @ApiProperty({ type: StrategyResponseDto })
+  strategy: StrategyResponseDto;
+
+  @ApiProperty({ type: StrategyRevisionDto, description: 'Revision written by the rollback' })
+  revision: StrategyRevisionDto;
+
+  @ApiProperty({ type: RegistrySyncDto })
+  registrySync: RegistrySyncDto;
+}
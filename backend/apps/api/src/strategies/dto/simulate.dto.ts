@@ -0,0 +1,139 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SimulationResultDto {
+  @ApiProperty()
+  strategyId: string;
+
+  @ApiProperty()
+  chainId: number;
+
+  @ApiProperty({ description: 'When the simulation ran (ISO 8601)' })
+  simulatedAt: string;
+
+  @ApiProperty({ description: 'Whether the bot would execute right now' })
+  shouldExecute: boolean;
+
+  @ApiProperty({ example: 'Rebalance required: 2 swaps' })
+  reason: string;
+
+  @ApiProperty({ description: 'At least one action has its condition path met' })
+  conditionsMet: boolean;
+
+  @ApiProperty({
+    description: 'Action block ID -> upstream condition path met',
+    example: { 'action-1': true },
+  })
+  actionGates: Record<string, boolean>;
+
+  @ApiProperty({ description: 'Human-readable condition results' })
+  conditionSummary: string;
+
+  @ApiProperty({
+    description:
+      'Price change / moving average conditions without enough price history in the API process - they read as false here but may trigger in the bot',
+    example: [
+      {
+        conditionId: 'condition-1',
+        conditionType: 'priceChange',
+        token: '0x...',
+        description: 'ETH up 5% in 1h',
+      },
+    ],
+  })
+  historyGaps: Array<{
+    conditionId: string;
+    conditionType: string;
+    token: string;
+    description?: string;
+  }>;
+
+  @ApiProperty()
+  totalValueUSD: number;
+
+  @ApiProperty({ description: 'Current portfolio drift (basis points)' })
+  drift: number;
+
+  @ApiProperty({
+    description: 'Planned swaps and transfers (token amounts in wei as strings)',
+    example: {
+      swaps: [
+        {
+          fromToken: '0x...',
+          toToken: '0x...',
+          fromAmount: '1000000000000000000',
+          expectedToAmount: '2500000000',
+          reason: 'rebalance',
+        },
+      ],
+      transfers: [],
+      estimatedGas: '350000',
+    },
+  })
+  executionPlan: {
+    swaps: Array<{
+      fromToken: string;
+      toToken: string;
+      fromAmount: string;
+      expectedToAmount: string;
+      reason: string;
+    }>;
+    transfers: Array<{ token: string; to: string; amount: string }>;
+    estimatedGas: string;
+  };
+
+  @ApiProperty({
+    description: 'DEX quotes for the planned swaps',
+    example: [
+      {
+        fromToken: '0x...',
+        toToken: '0x...',
+        aggregator: 'Monorail',
+        minOutput: '2475000000',
+        priceImpact: 0.12,
+        isWrap: false,
+      },
+    ],
+  })
+  quotes: Array<{
+    fromToken: string;
+    toToken: string;
+    aggregator: string;
+    minOutput: string;
+    priceImpact: number;
+    isWrap: boolean;
+  }>;
+
+  @ApiProperty({ description: 'Set when no route could be quoted', nullable: true })
+  quoteError: string | null;
+
+  @ApiProperty({
+    description: 'Current, expected post-trade and target weights (%)',
+    example: [
+      {
+        address: '0x...',
+        symbol: 'WETH',
+        currentWeight: 62.4,
+        expectedWeight: 50,
+        targetWeight: 50,
+        currentValueUSD: 6240,
+        expectedValueUSD: 5000,
+      },
+    ],
+  })
+  weights: Array<{
+    address: string;
+    symbol: string;
+    currentWeight: number;
+    expectedWeight: number;
+    targetWeight: number;
+    currentValueUSD: number;
+    expectedValueUSD: number;
+  }>;
+
+  @ApiProperty({
+    description: 'Estimated transaction cost, null when nothing would execute (gasCostUSD is null without a fresh native price)',
+    nullable: true,
+    example: { gasLimit: '350000', gasCostWei: '17500000000000000', gasCostUSD: 35 },
+  })
+  gas: { gasLimit: string; gasCostWei: string; gasCostUSD: number | null } | null;
+}
@@ -104,6 +104,15 @@ export class CreateStrategyDto {
 }
 
 export class UpdateStrategyDto {
+  @ApiProperty({
+    description: 'Strategy name',
+    example: 'My Balanced Portfolio',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  name?: string;
+
   @ApiProperty({
     description: 'DeleGator smart contract address for execution',
     example: '0x2E16Fe00258dbf519C59C7C30FA80F22fcFe8421',
@@ -145,6 +154,14 @@ export class UpdateStrategyDto {
   @IsBoolean()
   @IsOptional()
   isActive?: boolean;
+
+  @ApiProperty({
+    description: 'Complete canvas strategy logic (blocks, connections, metadata)',
+    required: false,
+  })
+  @IsObject()
+  @IsOptional()
+  strategyLogic?: object;
 }
 
 export class StrategyResponseDto {
@@ -199,3 +216,17 @@ export class StrategyResponseDto {
   @ApiProperty({ required: false })
   nextRebalance?: Date;
 }
+
+export class ManualRebalanceResponseDto {
+  @ApiProperty({ description: 'Rebalance queue job ID' })
+  jobId: string;
+
+  @ApiProperty()
+  strategyId: string;
+
+  @ApiProperty({ description: 'Earliest time the next manual rebalance is accepted' })
+  nextAllowedAt: Date;
+
+  @ApiProperty({ description: 'Manual rebalances left in the current rate limit window' })
+  remaining: number;
+}
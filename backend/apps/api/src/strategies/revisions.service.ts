@@ -0,0 +1,302 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, Strategy, StrategyRevision } from '@prisma/client';
+import { PrismaService } from '@app/database';
+import { ChainRegistryService, ChainService, StrategyRegistryABI } from '@app/blockchain';
+import { Block, BlockType, CanvasStrategy, Connection } from '@app/strategy';
+import {
+  BlockChangeDto,
+  BlockSummaryDto,
+  FieldChangeDto,
+  RegistrySyncDto,
+  StrategyRevisionDiffDto,
+  StrategyRevisionDto,
+  WeightChangeDto,
+} from './dto/revision.dto';
+
+type RevisionSource = 'create' | 'update' | 'rollback';
+
+// Fields a revision captures - delegator, deployment and pause state are not configuration
+type StrategyConfig = Pick<
+  Strategy,
+  'name' | 'tokens' | 'weights' | 'rebalanceInterval' | 'strategyLogic'
+>;
+
+/**
+ * Strategy revision history
+ *
+ * - Every create/update/rollback that changes the configuration appends an immutable revision
+ * - Diffs compare canvas blocks by id (layout-only moves are ignored), connections and weights
+ * - Rollbacks re-sync StrategyRegistry weights, which only succeeds when the bot wallet
+ *   is the registry owner - otherwise the strategy owner has to call updateStrategy
+ */
+@Injectable()
+export class RevisionsService {
+  private readonly logger = new Logger(RevisionsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly chain: ChainService,
+    private readonly registry: ChainRegistryService,
+  ) {}
+
+  /**
+   * Append a revision for the strategy's current configuration
+   * Updates that left the configuration unchanged write nothing (returns null)
+   * Must run inside the transaction that changed the strategy
+   */
+  async record(
+    tx: Prisma.TransactionClient,
+    strategy: Strategy,
+    authorAddress: string,
+    source: RevisionSource,
+    restoredRevision?: number,
+  ): Promise<StrategyRevision | null> {
+    // Lock the strategy row so concurrent writers number revisions one after another
+    // instead of both taking latest + 1 and failing on the unique index
+    await tx.$queryRaw`SELECT id FROM strategies WHERE id = ${strategy.id} FOR UPDATE`;
+
+    const latest = await tx.strategyRevision.findFirst({
+      where: { strategyId: strategy.id },
+      orderBy: { revision: 'desc' },
+    });
+
+    if (latest && source === 'update' && this.sameConfig(latest, strategy)) {
+      return null;
+    }
+
+    return tx.strategyRevision.create({
+      data: {
+        strategyId: strategy.id,
+        revision: (latest?.revision ?? 0) + 1,
+        name: strategy.name,
+        tokens: strategy.tokens,
+        weights: strategy.weights,
+        rebalanceInterval: strategy.rebalanceInterval,
+        strategyLogic: strategy.strategyLogic ?? Prisma.DbNull,
+        authorAddress: authorAddress.toLowerCase(),
+        source,
+        restoredRevision: restoredRevision ?? null,
+      },
+    });
+  }
+
+  /**
+   * Revisions of a strategy, newest first
+   */
+  async list(strategyId: string): Promise<StrategyRevisionDto[]> {
+    const revisions = await this.prisma.strategyRevision.findMany({
+      where: { strategyId },
+      orderBy: { revision: 'desc' },
+    });
+
+    return revisions.map((revision) => this.formatRevision(revision));
+  }
+
+  async get(strategyId: string, revision: number): Promise<StrategyRevision> {
+    const found = await this.prisma.strategyRevision.findUnique({
+      where: { strategyId_revision: { strategyId, revision } },
+    });
+
+    if (!found) {
+      throw new NotFoundException(`Revision ${revision} not found`);
+    }
+
+    return found;
+  }
+
+  /**
+   * Structural diff from one revision to another
+   */
+  async diff(strategyId: string, from: number, to: number): Promise<StrategyRevisionDiffDto> {
+    const [base, target] = await Promise.all([this.get(strategyId, from), this.get(strategyId, to)]);
+
+    const fields: FieldChangeDto[] = [];
+    if (base.name !== target.name) {
+      fields.push({ field: 'name', from: base.name, to: target.name });
+    }
+    if (base.rebalanceInterval !== target.rebalanceInterval) {
+      fields.push({
+        field: 'rebalanceInterval',
+        from: base.rebalanceInterval.toString(),
+        to: target.rebalanceInterval.toString(),
+      });
+    }
+
+    const baseBlocks = this.getBlocks(base.strategyLogic);
+    const targetBlocks = this.getBlocks(target.strategyLogic);
+
+    const blocksAdded = [...targetBlocks.values()]
+      .filter((block) => !baseBlocks.has(block.id))
+      .map((block) => this.summarizeBlock(block));
+    const blocksRemoved = [...baseBlocks.values()]
+      .filter((block) => !targetBlocks.has(block.id))
+      .map((block) => this.summarizeBlock(block));
+
+    const blocksChanged: BlockChangeDto[] = [];
+    for (const block of targetBlocks.values()) {
+      const previous = baseBlocks.get(block.id);
+      if (!previous) continue;
+
+      const changes = this.diffObjects(
+        { type: previous.type, ...previous.data },
+        { type: block.type, ...block.data },
+      );
+      if (changes.length > 0) {
+        blocksChanged.push({ ...this.summarizeBlock(block), changes });
+      }
+    }
+
+    const baseConnections = this.getConnections(base.strategyLogic);
+    const targetConnections = this.getConnections(target.strategyLogic);
+
+    return {
+      from,
+      to,
+      fields,
+      weights: this.diffWeights(base, target),
+      blocksAdded,
+      blocksRemoved,
+      blocksChanged,
+      connectionsAdded: [...targetConnections].filter((c) => !baseConnections.has(c)),
+      connectionsRemoved: [...baseConnections].filter((c) => !targetConnections.has(c)),
+    };
+  }
+
+  /**
+   * Push the strategy's tokens/weights to StrategyRegistry when they differ on-chain
+   */
+  async syncRegistry(strategy: Strategy): Promise<RegistrySyncDto> {
+    const chain = this.registry.findByChainId(strategy.chainId);
+    const registryAddress = chain?.contracts.registry;
+
+    if (!strategy.isDeployed || !strategy.delegatorAddress || !registryAddress) {
+      return { status: 'skipped', txHash: null, error: null };
+    }
+
+    const delegator = strategy.delegatorAddress as `0x${string}`;
+
+    try {
+      const publicClient = this.chain.getPublicClient(chain.key);
+      const onChain = (await publicClient.readContract({
+        address: registryAddress,
+        abi: StrategyRegistryABI,
+        functionName: 'getStrategy',
+        args: [delegator, strategy.strategyId],
+        authorizationList: undefined,
+      })) as { tokens: readonly string[]; weights: readonly bigint[] };
+
+      const inSync =
+        onChain.tokens.length === strategy.tokens.length &&
+        onChain.tokens.every(
+          (token, i) =>
+            token.toLowerCase() === strategy.tokens[i].toLowerCase() &&
+            Number(onChain.weights[i]) === strategy.weights[i],
+        );
+      if (inSync) {
+        return { status: 'in_sync', txHash: null, error: null };
+      }
+
+      const walletClient = this.chain.getWalletClient(chain.key);
+      const txHash = await walletClient.writeContract({
+        address: registryAddress,
+        abi: StrategyRegistryABI,
+        functionName: 'updateStrategy',
+        args: [
+          delegator,
+          strategy.strategyId,
+          strategy.tokens as `0x${string}`[],
+          strategy.weights.map((weight) => BigInt(weight)),
+        ],
+        account: walletClient.account,
+        chain: walletClient.chain,
+      });
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+      if (receipt.status !== 'success') {
+        return { status: 'failed', txHash, error: 'updateStrategy reverted' };
+      }
+
+      this.logger.log(`Re-synced registry weights of strategy ${strategy.id} (${txHash})`);
+      return { status: 'updated', txHash, error: null };
+    } catch (error) {
+      this.logger.warn(`Registry sync failed for strategy ${strategy.id}: ${error.message}`);
+      return { status: 'failed', txHash: null, error: error.shortMessage ?? error.message };
+    }
+  }
+
+  formatRevision(revision: StrategyRevision): StrategyRevisionDto {
+    return {
+      revision: revision.revision,
+      name: revision.name,
+      tokens: revision.tokens,
+      weights: revision.weights,
+      rebalanceInterval: revision.rebalanceInterval.toString(),
+      strategyLogic: (revision.strategyLogic as object) ?? null,
+      authorAddress: revision.authorAddress,
+      source: revision.source,
+      restoredRevision: revision.restoredRevision,
+      createdAt: revision.createdAt,
+    };
+  }
+
+  private sameConfig(revision: StrategyConfig, strategy: StrategyConfig): boolean {
+    return (
+      revision.name === strategy.name &&
+      revision.rebalanceInterval === strategy.rebalanceInterval &&
+      JSON.stringify(revision.tokens) === JSON.stringify(strategy.tokens) &&
+      JSON.stringify(revision.weights) === JSON.stringify(strategy.weights) &&
+      JSON.stringify(revision.strategyLogic ?? null) === JSON.stringify(strategy.strategyLogic ?? null)
+    );
+  }
+
+  private diffWeights(base: StrategyRevision, target: StrategyRevision): WeightChangeDto[] {
+    const weightsOf = (revision: StrategyRevision) =>
+      new Map(revision.tokens.map((token, i) => [token.toLowerCase(), revision.weights[i]]));
+    const baseWeights = weightsOf(base);
+    const targetWeights = weightsOf(target);
+
+    return [...new Set([...baseWeights.keys(), ...targetWeights.keys()])]
+      .map((token) => ({
+        token,
+        from: baseWeights.get(token) ?? null,
+        to: targetWeights.get(token) ?? null,
+      }))
+      .filter((change) => change.from !== change.to);
+  }
+
+  private diffObjects(
+    base: Record<string, unknown>,
+    target: Record<string, unknown>,
+  ): FieldChangeDto[] {
+    return [...new Set([...Object.keys(base), ...Object.keys(target)])]
+      .filter((field) => JSON.stringify(base[field]) !== JSON.stringify(target[field]))
+      .map((field) => ({ field, from: base[field] ?? null, to: target[field] ?? null }));
+  }
+
+  private getBlocks(strategyLogic: Prisma.JsonValue): Map<string, Block> {
+    const blocks = this.asCanvas(strategyLogic)?.blocks ?? [];
+    return new Map(blocks.map((block) => [block.id, block]));
+  }
+
+  private getConnections(strategyLogic: Prisma.JsonValue): Set<string> {
+    const connections: Connection[] = this.asCanvas(strategyLogic)?.connections ?? [];
+    return new Set(
+      connections.map((connection) => `${connection.source?.blockId} → ${connection.target?.blockId}`),
+    );
+  }
+
+  private summarizeBlock(block: Block): BlockSummaryDto {
+    const label =
+      block.type === BlockType.ASSET
+        ? block.data?.symbol
+        : block.type === BlockType.CONDITION
+          ? block.data?.conditionType
+          : block.data?.actionType;
+    return { id: block.id, type: block.type, label: label ?? block.type };
+  }
+
+  // Stored canvases are only checked by the parser when evaluated - fields may be missing
+  private asCanvas(strategyLogic: Prisma.JsonValue): Partial<CanvasStrategy> | null {
+    return strategyLogic as unknown as Partial<CanvasStrategy> | null;
+  }
+}
@@ -9,6 +9,7 @@ import {
   Query,
   HttpCode,
   HttpStatus,
+  ParseIntPipe,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
 import { WalletAuth } from '@app/common/decorators/wallet-auth.decorator';
@@ -19,7 +20,22 @@ import {
   CreateStrategyDto,
   UpdateStrategyDto,
   StrategyResponseDto,
+  ManualRebalanceResponseDto,
 } from './dto/strategy.dto';
+import { BacktestStrategyDto, BacktestResultDto } from './dto/backtest.dto';
+import { SimulationResultDto } from './dto/simulate.dto';
+import {
+  StrategyPerformanceDto,
+  ValuationPointDto,
+  UserPnlDto,
+  GetSnapshotsQueryDto,
+} from './dto/performance.dto';
+import {
+  StrategyRevisionDto,
+  StrategyRevisionDiffDto,
+  RevisionDiffQueryDto,
+  StrategyRollbackDto,
+} from './dto/revision.dto';
 
 @ApiTags('strategies')
 @Controller('strategies')
@@ -56,6 +72,17 @@ export class StrategiesController {
     return this.strategiesService.findAll(user.address, chainId ? +chainId : undefined);
   }
 
+  @Get('pnl')
+  @ApiOperation({ summary: 'Get latest P&L of all strategies for current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Per-strategy P&L and dollar totals',
+    type: UserPnlDto,
+  })
+  async getPnl(@CurrentUser() user: any): Promise<UserPnlDto> {
+    return this.strategiesService.getPnl(user.address);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get a specific strategy' })
   @ApiResponse({
@@ -88,6 +115,185 @@ export class StrategiesController {
     return this.strategiesService.update(id, user.address, updateStrategyDto);
   }
 
+  @Post(':id/pause')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Pause a strategy (the bot stops monitoring it)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Strategy paused',
+    type: StrategyResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Strategy not found' })
+  async pause(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+  ): Promise<StrategyResponseDto> {
+    return this.strategiesService.pause(id, user.address);
+  }
+
+  @Post(':id/resume')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resume a paused strategy' })
+  @ApiResponse({
+    status: 200,
+    description: 'Strategy resumed',
+    type: StrategyResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Strategy not found' })
+  async resume(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+  ): Promise<StrategyResponseDto> {
+    return this.strategiesService.resume(id, user.address);
+  }
+
+  @Post(':id/rebalance')
+  @ApiOperation({ summary: 'Queue a rebalance now' })
+  @ApiResponse({
+    status: 201,
+    description: 'Rebalance queued',
+    type: ManualRebalanceResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Strategy paused or not deployed' })
+  @ApiResponse({ status: 404, description: 'Strategy not found' })
+  @ApiResponse({ status: 429, description: 'Cooldown or rate limit not elapsed' })
+  async rebalance(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+  ): Promise<ManualRebalanceResponseDto> {
+    return this.strategiesService.triggerRebalance(id, user.address);
+  }
+
+  @Post(':id/backtest')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Backtest strategy logic against historical prices' })
+  @ApiResponse({
+    status: 200,
+    description: 'Backtest results',
+    type: BacktestResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid price source or strategy logic' })
+  @ApiResponse({ status: 404, description: 'Strategy not found' })
+  async backtest(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Body() backtestDto: BacktestStrategyDto,
+  ): Promise<BacktestResultDto> {
+    return this.strategiesService.backtest(id, user.address, backtestDto);
+  }
+
+  @Post(':id/simulate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Simulate strategy against the current portfolio without executing' })
+  @ApiResponse({
+    status: 200,
+    description: 'Execution plan, quotes, expected weights and gas estimate',
+    type: SimulationResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Strategy logic could not be evaluated' })
+  @ApiResponse({ status: 404, description: 'Strategy not found' })
+  async simulate(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+  ): Promise<SimulationResultDto> {
+    return this.strategiesService.simulate(id, user.address);
+  }
+
+  @Get(':id/performance')
+  @ApiOperation({ summary: 'Get strategy rebalance performance and current value' })
+  @ApiResponse({
+    status: 200,
+    description: 'Rebalance success rate, drift reduction, gas and valuation',
+    type: StrategyPerformanceDto,
+  })
+  @ApiResponse({ status: 404, description: 'Strategy not found' })
+  async getPerformance(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+  ): Promise<StrategyPerformanceDto> {
+    return this.strategiesService.getPerformance(id, user.address);
+  }
+
+  @Get(':id/snapshots')
+  @ApiOperation({ summary: 'Get strategy valuation history' })
+  @ApiResponse({
+    status: 200,
+    description: 'Value, P&L and TWR vs. buy-and-hold, oldest first',
+    type: [ValuationPointDto],
+  })
+  @ApiResponse({ status: 404, description: 'Strategy not found' })
+  async getSnapshots(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Query() query: GetSnapshotsQueryDto,
+  ): Promise<ValuationPointDto[]> {
+    return this.strategiesService.getSnapshots(id, user.address, query.days);
+  }
+
+  @Get(':id/revisions')
+  @ApiOperation({ summary: 'Get strategy revision history' })
+  @ApiResponse({
+    status: 200,
+    description: 'Revisions, newest first',
+    type: [StrategyRevisionDto],
+  })
+  @ApiResponse({ status: 404, description: 'Strategy not found' })
+  async getRevisions(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+  ): Promise<StrategyRevisionDto[]> {
+    return this.strategiesService.getRevisions(id, user.address);
+  }
+
+  @Get(':id/revisions/diff')
+  @ApiOperation({ summary: 'Compare two strategy revisions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Blocks added/removed/changed, connection and weight changes',
+    type: StrategyRevisionDiffDto,
+  })
+  @ApiResponse({ status: 404, description: 'Strategy or revision not found' })
+  async diffRevisions(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Query() query: RevisionDiffQueryDto,
+  ): Promise<StrategyRevisionDiffDto> {
+    return this.strategiesService.diffRevisions(id, user.address, query.from, query.to);
+  }
+
+  @Get(':id/revisions/:revision')
+  @ApiOperation({ summary: 'Get a strategy revision' })
+  @ApiResponse({
+    status: 200,
+    description: 'Revision details',
+    type: StrategyRevisionDto,
+  })
+  @ApiResponse({ status: 404, description: 'Strategy or revision not found' })
+  async getRevision(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Param('revision', ParseIntPipe) revision: number,
+  ): Promise<StrategyRevisionDto> {
+    return this.strategiesService.getRevision(id, user.address, revision);
+  }
+
+  @Post(':id/revisions/:revision/rollback')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Roll a strategy back to a previous revision' })
+  @ApiResponse({
+    status: 200,
+    description: 'Restored strategy, the rollback revision and the StrategyRegistry sync result',
+    type: StrategyRollbackDto,
+  })
+  @ApiResponse({ status: 404, description: 'Strategy or revision not found' })
+  async rollback(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Param('revision', ParseIntPipe) revision: number,
+  ): Promise<StrategyRollbackDto> {
+    return this.strategiesService.rollback(id, user.address, revision);
+  }
+
   @Delete(':id')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Deactivate a strategy' })
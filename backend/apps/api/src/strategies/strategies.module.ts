@@ -1,10 +1,22 @@
 import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { QUEUE_NAMES } from '@app/queue/types';
 import { StrategiesController } from './strategies.controller';
 import { StrategiesService } from './strategies.service';
+import { RevisionsService } from './revisions.service';
+import { AnalyticsModule, BacktestModule, SimulationModule } from '@app/strategy';
 
 @Module({
+  imports: [
+    BullModule.registerQueue({
+      name: QUEUE_NAMES.REBALANCE,
+    }),
+    BacktestModule,
+    SimulationModule,
+    AnalyticsModule,
+  ],
   controllers: [StrategiesController],
-  providers: [StrategiesService],
+  providers: [StrategiesService, RevisionsService],
   exports: [StrategiesService],
 })
 export class StrategiesModule {}
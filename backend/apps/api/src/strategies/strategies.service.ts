@@ -1,20 +1,53 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
   BadRequestException,
   ForbiddenException,
+  HttpException,
+  HttpStatus,
 } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Job, Queue } from 'bull';
+import { parseAbi } from 'viem';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '@app/database';
-import { ChainService } from '@app/blockchain';
+import { ChainRegistryService, ChainService } from '@app/blockchain';
+import { EventChannel, EventsService } from '@app/events';
+import { NotificationsGateway } from '@app/notifications';
+import { QUEUE_NAMES, RebalanceJobData } from '@app/queue/types';
 import { CreateStrategyDto, UpdateStrategyDto } from './dto/strategy.dto';
+import { BacktestStrategyDto } from './dto/backtest.dto';
 import { ConfigService } from '@nestjs/config';
+import {
+  AnalyticsService,
+  BacktestService,
+  SimulationService,
+  ValuationService,
+} from '@app/strategy';
+import { RevisionsService } from './revisions.service';
+
+const REBALANCER_CONFIG_ABI = parseAbi([
+  'function getMinRebalanceInterval() view returns (uint256)',
+]);
 
 @Injectable()
 export class StrategiesService {
+  private readonly logger = new Logger(StrategiesService.name);
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly chain: ChainService,
+    private readonly registry: ChainRegistryService,
     private readonly config: ConfigService,
+    private readonly backtestService: BacktestService,
+    private readonly simulationService: SimulationService,
+    private readonly analyticsService: AnalyticsService,
+    private readonly valuationService: ValuationService,
+    private readonly events: EventsService,
+    private readonly notifications: NotificationsGateway,
+    private readonly revisions: RevisionsService,
+    @InjectQueue(QUEUE_NAMES.REBALANCE) private readonly rebalanceQueue: Queue<RebalanceJobData>,
   ) {}
 
   /**
@@ -33,15 +66,14 @@ export class StrategiesService {
     }
 
     // Get blockchain client
-    // Map chainId to chain name: 10143 = Monad Testnet, 10200 = Monad Mainnet
-    const MONAD_CHAIN_IDS = [10200, 10143];
-    const chainName = MONAD_CHAIN_IDS.includes(dto.chainId) ? 'monad' : 'base';
-    const client = this.chain.getPublicClient(chainName);
+    const chain = this.registry.findByChainId(dto.chainId);
+    if (!chain) {
+      throw new BadRequestException(`Chain ID ${dto.chainId} not supported`);
+    }
+    const client = this.chain.getPublicClient(chain.key);
 
     // Get StrategyRegistry contract address
-    const registryAddress = this.config.get(
-      `blockchain.${chainName}.contracts.strategyRegistry`,
-    );
+    const registryAddress = chain.contracts.registry;
 
     // Use provided strategyId (from frontend on-chain deployment) OR generate one
     // Frontend should deploy on-chain FIRST, then pass the strategyId here
@@ -57,25 +89,30 @@ export class StrategiesService {
       },
     });
 
-    // Save to database
-    const strategy = await this.prisma.strategy.create({
-      data: {
-        chainId: dto.chainId,
-        strategyId,
-        userAddress: userAddress.toLowerCase(),
-        name: dto.name || `Strategy ${Date.now()}`,
-        tokens: dto.tokens.map((t) => t.toLowerCase()),
-        weights: dto.weights,
-        rebalanceInterval: BigInt(dto.rebalanceInterval),
-        delegatorAddress: dto.delegatorAddress?.toLowerCase() || null,
-        strategyLogic: dto.strategyLogic || null,
-        version: '1.0',
-        isActive: true,
-        // Mark as deployed if strategyId was provided (meaning frontend deployed on-chain first)
-        isDeployed: !!dto.strategyId,
-        // Save deployment transaction hash if provided
-        deployTxHash: dto.deployTxHash || null,
-      },
+    // Save to database with its first revision
+    const strategy = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.strategy.create({
+        data: {
+          chainId: dto.chainId,
+          strategyId,
+          userAddress: userAddress.toLowerCase(),
+          name: dto.name || `Strategy ${Date.now()}`,
+          tokens: dto.tokens.map((t) => t.toLowerCase()),
+          weights: dto.weights,
+          rebalanceInterval: BigInt(dto.rebalanceInterval),
+          delegatorAddress: dto.delegatorAddress?.toLowerCase() || null,
+          strategyLogic: dto.strategyLogic || null,
+          version: '1.0',
+          isActive: true,
+          // Mark as deployed if strategyId was provided (meaning frontend deployed on-chain first)
+          isDeployed: !!dto.strategyId,
+          // Save deployment transaction hash if provided
+          deployTxHash: dto.deployTxHash || null,
+        },
+      });
+
+      await this.revisions.record(tx, created, userAddress, 'create');
+      return created;
     });
 
     return this.formatStrategy(strategy);
@@ -152,20 +189,115 @@ export class StrategiesService {
       }
     }
 
-    // Update in database
-    const updated = await this.prisma.strategy.update({
-      where: { id },
-      data: {
-        ...(dto.delegatorAddress && { delegatorAddress: dto.delegatorAddress.toLowerCase() }),
-        ...(dto.weights && { weights: dto.weights }),
-        ...(dto.rebalanceInterval && { rebalanceInterval: BigInt(dto.rebalanceInterval) }),
-        ...(dto.isActive !== undefined && { isActive: dto.isActive }),
-      },
+    // Update in database - configuration changes append a revision
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const changed = await tx.strategy.update({
+        where: { id },
+        data: {
+          ...(dto.name && { name: dto.name }),
+          ...(dto.delegatorAddress && { delegatorAddress: dto.delegatorAddress.toLowerCase() }),
+          ...(dto.weights && { weights: dto.weights }),
+          ...(dto.rebalanceInterval && { rebalanceInterval: BigInt(dto.rebalanceInterval) }),
+          ...(dto.isActive !== undefined && { isActive: dto.isActive }),
+          ...(dto.strategyLogic && { strategyLogic: dto.strategyLogic as Prisma.InputJsonValue }),
+        },
+      });
+
+      await this.revisions.record(tx, changed, userAddress, 'update');
+      return changed;
     });
 
     return this.formatStrategy(updated);
   }
 
+  /**
+   * Revision history, newest first
+   */
+  async getRevisions(id: string, userAddress: string) {
+    // Verify ownership
+    await this.findOne(id, userAddress);
+
+    return this.revisions.list(id);
+  }
+
+  async getRevision(id: string, userAddress: string, revision: number) {
+    // Verify ownership
+    await this.findOne(id, userAddress);
+
+    return this.revisions.formatRevision(await this.revisions.get(id, revision));
+  }
+
+  /**
+   * Blocks, connections and weights changed between two revisions
+   */
+  async diffRevisions(id: string, userAddress: string, from: number, to: number) {
+    // Verify ownership
+    await this.findOne(id, userAddress);
+
+    return this.revisions.diff(id, from, to);
+  }
+
+  /**
+   * Restore a revision's configuration as a new revision and re-sync registry weights
+   */
+  async rollback(id: string, userAddress: string, revision: number) {
+    // Verify ownership
+    await this.findOne(id, userAddress);
+
+    const target = await this.revisions.get(id, revision);
+
+    const { updated, written } = await this.prisma.$transaction(async (tx) => {
+      const restored = await tx.strategy.update({
+        where: { id },
+        data: {
+          name: target.name,
+          tokens: target.tokens,
+          weights: target.weights,
+          rebalanceInterval: target.rebalanceInterval,
+          strategyLogic: target.strategyLogic ?? Prisma.DbNull,
+        },
+      });
+
+      const rollbackRevision = await this.revisions.record(tx, restored, userAddress, 'rollback', revision);
+      return { updated: restored, written: rollbackRevision };
+    });
+
+    const registrySync = await this.revisions.syncRegistry(updated);
+
+    const timestamp = new Date().toISOString();
+
+    await this.events
+      .publish(EventChannel.STRATEGY_UPDATED, {
+        strategyId: id,
+        userAddress: updated.userAddress,
+        changes: {
+          weights: updated.weights,
+          rebalanceInterval: Number(updated.rebalanceInterval),
+          revision: written.revision,
+        },
+        source: 'api',
+        timestamp,
+      })
+      .catch(() => undefined); // Logged by EventsService - the rollback itself succeeded
+
+    this.notifications.emitStrategyUpdated(updated.userAddress, {
+      strategyId: id,
+      revision: written.revision,
+      restoredRevision: revision,
+      timestamp,
+    });
+
+    this.logger.log(
+      `User ${userAddress} rolled strategy ${id} back to revision ${revision} (registry: ${registrySync.status})`,
+    );
+
+    return {
+      strategy: this.formatStrategy(updated),
+      revision: this.revisions.formatRevision(written),
+      registrySync,
+    };
+  }
+
   /**
    * Delete a strategy
    */
@@ -182,6 +314,321 @@ export class StrategiesService {
     return { success: true, message: 'Strategy deactivated successfully' };
   }
 
+  /**
+   * Stop the bot from monitoring a strategy
+   */
+  async pause(id: string, userAddress: string) {
+    return this.setActive(id, userAddress, false);
+  }
+
+  /**
+   * Resume monitoring a paused strategy
+   */
+  async resume(id: string, userAddress: string) {
+    return this.setActive(id, userAddress, true);
+  }
+
+  /**
+   * Queue a user-triggered rebalance
+   * Enforces the chain's RebalancerConfig min interval per strategy and a per-user rate limit
+   */
+  async triggerRebalance(id: string, userAddress: string) {
+    const strategy = await this.prisma.strategy.findUnique({
+      where: { id },
+      include: { rebalances: { orderBy: { createdAt: 'desc' }, take: 1 } },
+    });
+
+    if (!strategy) {
+      throw new NotFoundException('Strategy not found');
+    }
+    if (strategy.userAddress !== userAddress.toLowerCase()) {
+      throw new ForbiddenException('You do not own this strategy');
+    }
+    if (!strategy.isActive) {
+      throw new BadRequestException('Strategy is paused - resume it before rebalancing');
+    }
+    if (!strategy.isDeployed || !strategy.delegatorAddress) {
+      throw new BadRequestException('Strategy must be deployed with a DeleGator account');
+    }
+
+    const pause = await this.prisma.monitorPause.findFirst({
+      where: { scope: { in: ['global', id] } },
+    });
+    if (pause) {
+      throw new BadRequestException('Rebalancing is paused by an operator');
+    }
+
+    // Cooldown since the last rebalance attempt
+    const minInterval = await this.getMinRebalanceInterval(strategy.chainId);
+    const lastRebalance = strategy.rebalances[0]?.createdAt;
+    if (lastRebalance) {
+      const nextAllowedAt = lastRebalance.getTime() + minInterval * 1000;
+      if (nextAllowedAt > Date.now()) {
+        throw new HttpException(
+          `Strategy was rebalanced recently - try again in ${Math.ceil((nextAllowedAt - Date.now()) / 1000)}s`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+
+    // Covers jobs that are queued but haven't produced a Rebalance row yet
+    // Taken before the quota so a duplicate request doesn't use up a manual rebalance
+    const lockKey = `manual-rebalance:strategy:${id}`;
+    const redis = this.rebalanceQueue.client;
+    // EX must be positive - a zero cooldown still holds the lock for a second
+    const lockSeconds = Math.max(1, minInterval);
+    const locked = await redis.set(lockKey, Date.now().toString(), 'EX', lockSeconds, 'NX');
+    if (!locked) {
+      throw new HttpException(
+        'A rebalance was already requested for this strategy',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const jobData: RebalanceJobData = {
+      strategyId: strategy.id,
+      userAddress: strategy.userAddress,
+      chainId: strategy.chainId,
+      drift: 0, // Not evaluated - the executor re-analyzes the portfolio
+      priority: 'medium',
+      triggeredBy: 'user',
+    };
+
+    // Nothing was queued unless add() succeeds - release the lock and give the quota back
+    let remaining: number | undefined;
+    let job: Job<RebalanceJobData>;
+    try {
+      remaining = await this.consumeManualRebalance(userAddress);
+      job = await this.rebalanceQueue.add('execute-rebalance', jobData, {
+        priority: 5,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+      });
+    } catch (error) {
+      await redis.del(lockKey).catch(() => undefined);
+      if (remaining !== undefined) {
+        await this.refundManualRebalance(userAddress).catch(() => undefined);
+      }
+      throw error;
+    }
+
+    this.notifications.emitRebalanceQueued(strategy.userAddress, {
+      strategyId: strategy.id,
+      drift: 0,
+      timestamp: new Date().toISOString(),
+    });
+
+    this.logger.log(`User ${userAddress} queued a rebalance of strategy ${id} (job ${job.id})`);
+
+    return {
+      jobId: String(job.id),
+      strategyId: strategy.id,
+      nextAllowedAt: new Date(Date.now() + minInterval * 1000),
+      remaining,
+    };
+  }
+
+  /**
+   * Backtest strategy logic against historical prices
+   */
+  async backtest(id: string, userAddress: string, dto: BacktestStrategyDto) {
+    // Verify ownership
+    const strategy = await this.findOne(id, userAddress);
+
+    if (!strategy.strategyLogic) {
+      throw new BadRequestException('Strategy has no canvas logic to backtest');
+    }
+
+    if (dto.source === 'fixture' && !dto.fixture) {
+      throw new BadRequestException('fixture is required when source is "fixture"');
+    }
+
+    if (dto.source === 'snapshots' && !dto.snapshots?.length) {
+      throw new BadRequestException('snapshots are required when source is "snapshots"');
+    }
+
+    if (dto.from !== undefined && dto.to !== undefined && dto.from > dto.to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    try {
+      return await this.backtestService.run(strategy.strategyLogic, {
+        chainId: strategy.chainId,
+        prices: {
+          source: dto.source,
+          fixture: dto.fixture,
+          snapshots: dto.snapshots,
+        },
+        from: dto.from,
+        to: dto.to,
+        initialCapitalUSD: dto.initialCapitalUSD ?? 10000,
+        feeBps: dto.feeBps ?? this.config.get<number>('backtest.defaultFeeBps', 30),
+        gasPriceGwei: dto.gasPriceGwei ?? this.config.get<number>('backtest.gasPriceGwei', 50),
+        nativePriceUSD:
+          dto.nativePriceUSD ?? this.config.get<number>('backtest.nativePriceUSD', 2000),
+        rebalanceIntervalSeconds: Number(strategy.rebalanceInterval),
+      });
+    } catch (error) {
+      throw new BadRequestException(`Backtest failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Dry-run strategy against the current on-chain portfolio
+   * Returns the plan, quotes, expected weights and gas - no transaction is sent
+   */
+  async simulate(id: string, userAddress: string) {
+    // Verify ownership
+    const strategy = await this.findOne(id, userAddress);
+
+    if (!strategy.strategyLogic) {
+      throw new BadRequestException('Strategy has no canvas logic to simulate');
+    }
+
+    try {
+      return await this.simulationService.simulate({
+        ...strategy,
+        user: { address: strategy.userAddress },
+      });
+    } catch (error) {
+      throw new BadRequestException(`Simulation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Rebalance track record and current valuation
+   */
+  async getPerformance(id: string, userAddress: string) {
+    // Verify ownership
+    const strategy = await this.findOne(id, userAddress);
+
+    return this.analyticsService.getStrategyPerformance(strategy);
+  }
+
+  /**
+   * Valuation history (value, P&L, TWR vs. buy-and-hold), oldest first
+   */
+  async getSnapshots(id: string, userAddress: string, days = 30) {
+    // Verify ownership
+    await this.findOne(id, userAddress);
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    return this.valuationService.getHistory(id, since);
+  }
+
+  /**
+   * Latest P&L of every strategy the user owns
+   */
+  async getPnl(userAddress: string) {
+    return this.valuationService.getUserPnl(userAddress);
+  }
+
+  /**
+   * Flip isActive and broadcast STRATEGY_UPDATED (no-op when already in that state)
+   */
+  private async setActive(id: string, userAddress: string, isActive: boolean) {
+    const strategy = await this.findOne(id, userAddress);
+    if (strategy.isActive === isActive) {
+      return strategy;
+    }
+
+    const updated = await this.prisma.strategy.update({
+      where: { id },
+      data: { isActive },
+    });
+
+    const timestamp = new Date().toISOString();
+
+    await this.events
+      .publish(EventChannel.STRATEGY_UPDATED, {
+        strategyId: id,
+        userAddress: updated.userAddress,
+        changes: { isActive },
+        source: 'api',
+        timestamp,
+      })
+      .catch(() => undefined); // Logged by EventsService - the update itself succeeded
+
+    this.notifications.emitStrategyUpdated(updated.userAddress, {
+      strategyId: id,
+      isActive,
+      timestamp,
+    });
+
+    return this.formatStrategy(updated);
+  }
+
+  /**
+   * Min seconds between rebalances from the chain's RebalancerConfig
+   */
+  private async getMinRebalanceInterval(chainId: number): Promise<number> {
+    const fallback = this.config.get<number>('manualRebalance.minInterval', 3600);
+    const chain = this.registry.findByChainId(chainId);
+    if (!chain?.contracts.config) {
+      return fallback;
+    }
+
+    try {
+      const interval = await this.chain.getPublicClient(chain.key).readContract({
+        address: chain.contracts.config,
+        abi: REBALANCER_CONFIG_ABI,
+        functionName: 'getMinRebalanceInterval',
+        authorizationList: undefined,
+      });
+      return Number(interval);
+    } catch (error) {
+      this.logger.warn(`Failed to read min rebalance interval on ${chain.key}: ${error.message}`);
+      return fallback;
+    }
+  }
+
+  /**
+   * Count a manual rebalance against the user's window, returns how many are left
+   * Rejected requests don't count
+   */
+  private async consumeManualRebalance(userAddress: string): Promise<number> {
+    const limit = this.config.get<number>('manualRebalance.limit', 5);
+    const window = this.config.get<number>('manualRebalance.window', 3600);
+    const key = this.manualRebalanceKey(userAddress);
+
+    const redis = this.rebalanceQueue.client;
+    const count = await redis.incr(key);
+    if (count === 1) {
+      await redis.expire(key, window);
+    }
+
+    if (count > limit) {
+      await redis.decr(key);
+      const ttl = await redis.ttl(key);
+      throw new HttpException(
+        `Manual rebalance limit reached (${limit} per ${window}s) - try again in ${ttl}s`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    return limit - count;
+  }
+
+  /**
+   * Give back a manual rebalance consumed by a request that queued nothing
+   */
+  private async refundManualRebalance(userAddress: string): Promise<void> {
+    const redis = this.rebalanceQueue.client;
+    const key = this.manualRebalanceKey(userAddress);
+
+    // The window may have expired in between - never leave a negative count behind
+    if ((await redis.decr(key)) < 0) {
+      await redis.del(key);
+    }
+  }
+
+  private manualRebalanceKey(userAddress: string): string {
+    return `manual-rebalance:user:${userAddress.toLowerCase()}`;
+  }
+
   /**
    * Format strategy for API response
    */
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { QUEUE_NAMES } from '@app/queue/types';
+import { AnalyticsModule } from '@app/strategy';
+import { AnalyticsProcessor } from './analytics.processor';
+import { AnalyticsScheduler } from './analytics.scheduler';
+
+/**
+ * Analytics worker
+ * Consumes the analytics queue and schedules the daily per-chain rollups
+ */
+@Module({
+  imports: [
+    AnalyticsModule,
+    BullModule.registerQueue({
+      name: QUEUE_NAMES.ANALYTICS,
+    }),
+  ],
+  providers: [AnalyticsProcessor, AnalyticsScheduler],
+})
+export class AnalyticsWorkerModule {}
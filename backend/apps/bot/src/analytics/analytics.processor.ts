@@ -0,0 +1,72 @@
+import { Processor, Process, OnQueueError } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { PrismaService } from '@app/database';
+import { QUEUE_NAMES, JOB_NAMES, AnalyticsJobData } from '@app/queue/types';
+import { AnalyticsService, ValuationService } from '@app/strategy';
+
+@Processor(QUEUE_NAMES.ANALYTICS)
+export class AnalyticsProcessor {
+  private readonly logger = new Logger(AnalyticsProcessor.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly analytics: AnalyticsService,
+    private readonly valuation: ValuationService,
+  ) {}
+
+  /**
+   * Indexed event - refresh the chain's DB-derived metrics for the event's day
+   * TVL needs RPC reads, so it's left to the scheduled job
+   */
+  @Process(JOB_NAMES.UPDATE_ANALYTICS)
+  async handleUpdate(job: Job<{ eventName: string; chainId: number; timestamp: string }>) {
+    const { chainId, timestamp } = job.data;
+    const date = timestamp ? new Date(timestamp) : new Date();
+
+    await this.analytics.calculatePerformance(chainId, date);
+    await this.analytics.calculateGasSavings(chainId, date);
+  }
+
+  @Process(JOB_NAMES.CALCULATE_TVL)
+  async handleTvl(job: Job<AnalyticsJobData>) {
+    await this.analytics.calculateTvl(job.data.chainId, this.getDate(job.data));
+  }
+
+  @Process(JOB_NAMES.CALCULATE_PERFORMANCE)
+  async handlePerformance(job: Job<AnalyticsJobData>) {
+    await this.analytics.calculatePerformance(job.data.chainId, this.getDate(job.data));
+  }
+
+  @Process(JOB_NAMES.CALCULATE_GAS_SAVINGS)
+  async handleGasSavings(job: Job<AnalyticsJobData>) {
+    await this.analytics.calculateGasSavings(job.data.chainId, this.getDate(job.data));
+  }
+
+  /**
+   * Value one strategy (after a rebalance) or every active strategy (scheduled)
+   */
+  @Process(JOB_NAMES.SNAPSHOT_VALUATION)
+  async handleSnapshot(job: Job<AnalyticsJobData>) {
+    const { strategyId, chainId } = job.data;
+
+    if (!strategyId) {
+      await this.valuation.snapshotAll(chainId);
+      return;
+    }
+
+    const strategy = await this.prisma.strategy.findUnique({ where: { id: strategyId } });
+    if (strategy) {
+      await this.valuation.takeSnapshot(strategy);
+    }
+  }
+
+  @OnQueueError()
+  onError(error: Error) {
+    this.logger.error(`Analytics queue error: ${error.message}`, error.stack);
+  }
+
+  private getDate(data: AnalyticsJobData): Date {
+    return data.date ? new Date(data.date) : new Date();
+  }
+}
@@ -0,0 +1,65 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { QUEUE_NAMES, JOB_NAMES, AnalyticsJobData } from '@app/queue/types';
+import { AnalyticsService } from '@app/strategy';
+
+@Injectable()
+export class AnalyticsScheduler {
+  private readonly logger = new Logger(AnalyticsScheduler.name);
+
+  constructor(
+    private readonly analytics: AnalyticsService,
+    @InjectQueue(QUEUE_NAMES.ANALYTICS) private readonly analyticsQueue: Queue,
+  ) {}
+
+  /**
+   * Refresh today's row for every chain each hour
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async scheduleHourly() {
+    await this.enqueueAll(new Date());
+  }
+
+  /**
+   * Value every active strategy for the P&L time series
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async scheduleSnapshots() {
+    try {
+      await this.enqueue(JOB_NAMES.SNAPSHOT_VALUATION, { type: 'valuation' });
+    } catch (error) {
+      this.logger.error(`Failed to queue valuation snapshots: ${error.message}`, error.stack);
+    }
+  }
+
+  /**
+   * Close out yesterday's row shortly after midnight UTC
+   */
+  @Cron('5 0 * * *', { timeZone: 'UTC' })
+  async scheduleDailyClose() {
+    await this.enqueueAll(new Date(Date.now() - 24 * 60 * 60 * 1000));
+  }
+
+  private async enqueueAll(date: Date) {
+    try {
+      const chainIds = await this.analytics.getChainIds();
+
+      for (const chainId of chainIds) {
+        const day = date.toISOString();
+        await this.enqueue(JOB_NAMES.CALCULATE_PERFORMANCE, { type: 'performance', chainId, date: day });
+        await this.enqueue(JOB_NAMES.CALCULATE_GAS_SAVINGS, { type: 'gas-savings', chainId, date: day });
+        await this.enqueue(JOB_NAMES.CALCULATE_TVL, { type: 'tvl', chainId, date: day });
+      }
+
+      this.logger.debug(`Queued analytics for ${chainIds.length} chains (${date.toISOString()})`);
+    } catch (error) {
+      this.logger.error(`Failed to queue analytics: ${error.message}`, error.stack);
+    }
+  }
+
+  private enqueue(name: string, data: AnalyticsJobData) {
+    return this.analyticsQueue.add(name, data);
+  }
+}
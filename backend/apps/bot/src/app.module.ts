@@ -8,12 +8,12 @@ import { BlockchainModule } from '@app/blockchain';
 import { QueueModule } from '@app/queue';
 import { NotificationsModule } from '@app/notifications';
 import { EventsModule } from '@app/events';
+import { DexModule, GasModule, StrategyModule } from '@app/strategy';
 import { MonitorModule } from './monitor/monitor.module';
 import { ExecutorModule } from './executor/executor.module';
-import { DexModule } from './dex/dex.module';
-import { GasModule } from './gas/gas.module';
 import { MevModule } from './mev/mev.module';
-import { StrategyModule } from './strategy/strategy.module';
+import { NotifierModule } from './notifier/notifier.module';
+import { AnalyticsWorkerModule } from './analytics/analytics-worker.module';
 
 @Module({
   imports: [
@@ -41,6 +41,8 @@ import { StrategyModule } from './strategy/strategy.module';
     GasModule,
     MevModule,
     StrategyModule,
+    NotifierModule,
+    AnalyticsWorkerModule,
   ],
 })
 export class AppModule {}
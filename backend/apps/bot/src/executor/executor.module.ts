@@ -2,22 +2,23 @@ import { Module } from '@nestjs/common';
 import { BullModule } from '@nestjs/bull';
 import { QUEUE_NAMES } from '@app/queue/types';
 import { ExecutorProcessor } from './executor.processor';
-import { DexModule } from '../dex/dex.module';
-import { GasModule } from '../gas/gas.module';
+import { RebalanceAuditService } from './rebalance-audit.service';
+import { DexModule, GasModule, StrategyModule } from '@app/strategy';
 import { MevModule } from '../mev/mev.module';
-import { StrategyModule } from '../strategy/strategy.module';
 
 @Module({
   imports: [
-    BullModule.registerQueue({
-      name: QUEUE_NAMES.REBALANCE,
-    }),
+    BullModule.registerQueue(
+      { name: QUEUE_NAMES.REBALANCE },
+      { name: QUEUE_NAMES.NOTIFICATIONS },
+      { name: QUEUE_NAMES.ANALYTICS },
+    ),
     DexModule,
     GasModule,
     MevModule,
     StrategyModule,
   ],
-  providers: [ExecutorProcessor],
+  providers: [ExecutorProcessor, RebalanceAuditService],
   exports: [ExecutorProcessor],
 })
 export class ExecutorModule {}
@@ -1,18 +1,35 @@
-import { Processor, Process, OnQueueError, OnQueueFailed } from '@nestjs/bull';
+import { Processor, Process, OnQueueError, OnQueueFailed, InjectQueue } from '@nestjs/bull';
 import { Logger } from '@nestjs/common';
-import { Job } from 'bull';
+import { Job, Queue } from 'bull';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '@app/database';
-import { ChainService } from '@app/blockchain';
+import { ChainRegistryService, ChainService } from '@app/blockchain';
+import { SupportedChain } from '@app/blockchain/chains';
 import { ConfigService } from '@nestjs/config';
 import { NotificationsGateway } from '@app/notifications';
-import { QUEUE_NAMES, RebalanceJobData } from '@app/queue/types';
-import { DexService } from '../dex/dex.service';
-import { GasService } from '../gas/gas.service';
+import {
+  QUEUE_NAMES,
+  JOB_NAMES,
+  RebalanceJobData,
+  NotificationJobData,
+  AnalyticsJobData,
+} from '@app/queue/types';
+import {
+  DexService,
+  GasService,
+  PreflightError,
+  StrategyEngineService,
+  StrategyEvaluationResult,
+} from '@app/strategy';
 import { MevService } from '../mev/mev.service';
-import { StrategyEngineService } from '../strategy/strategy-engine.service';
-import { encodeAbiParameters, parseAbiParameters, encodeFunctionData } from 'viem';
+import { RebalanceAuditService } from './rebalance-audit.service';
+import {
+  encodeAbiParameters,
+  parseAbiParameters,
+  encodeFunctionData,
+  WaitForTransactionReceiptTimeoutError,
+} from 'viem';
 import { RebalanceExecutorABI } from '../contracts/abis';
-import { CONTRACTS } from '../contracts/addresses';
 
 @Processor(QUEUE_NAMES.REBALANCE)
 export class ExecutorProcessor {
@@ -21,12 +38,16 @@ export class ExecutorProcessor {
   constructor(
     private readonly prisma: PrismaService,
     private readonly chain: ChainService,
+    private readonly registry: ChainRegistryService,
     private readonly config: ConfigService,
     private readonly notifications: NotificationsGateway,
     private readonly strategyEngine: StrategyEngineService,
     private readonly dex: DexService,
     private readonly gas: GasService,
     private readonly mev: MevService,
+    private readonly audit: RebalanceAuditService,
+    @InjectQueue(QUEUE_NAMES.NOTIFICATIONS) private readonly notificationQueue: Queue,
+    @InjectQueue(QUEUE_NAMES.ANALYTICS) private readonly analyticsQueue: Queue,
   ) {}
 
   /**
@@ -35,12 +56,24 @@ export class ExecutorProcessor {
   @Process('execute-rebalance')
   async handleRebalance(job: Job<RebalanceJobData>) {
     const { strategyId, userAddress, chainId, drift } = job.data;
-    const chainName = chainId === 10143 ? 'monad' : 'base';
+    const chainName = this.registry.getChainKey(chainId);
 
     this.logger.log(
       `Processing rebalance job ${job.id} for strategy ${strategyId} (drift: ${drift / 100}%)`,
     );
 
+    this.notifications.emitRebalanceStarted(userAddress, {
+      strategyId,
+      drift: drift / 100,
+      timestamp: new Date().toISOString(),
+    });
+
+    let intentId: string | undefined;
+    // Kept for the audit trail of failed attempts
+    let evaluation: StrategyEvaluationResult | null = null;
+    let swaps: any[] = [];
+    let account: string | undefined;
+
     try {
       // 1. Get strategy details
       const strategy = await this.prisma.strategy.findUnique({
@@ -48,7 +81,12 @@ export class ExecutorProcessor {
         include: {
           user: true,
           delegations: {
-            where: { isActive: true },
+            // Expired delegations would revert in the TimestampEnforcer
+            where: {
+              isActive: true,
+              OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+            },
+            orderBy: { createdAt: 'desc' },
             take: 1,
           },
         },
@@ -63,7 +101,7 @@ export class ExecutorProcessor {
       }
 
       // 2. Evaluate strategy and generate execution plan
-      const evaluation = await this.strategyEngine.evaluateStrategy(
+      evaluation = await this.strategyEngine.evaluateStrategy(
         strategy.strategyLogic,
         strategy,
       );
@@ -101,11 +139,8 @@ export class ExecutorProcessor {
       // 5. Get optimal swap routes from DEX aggregators
       // IMPORTANT: Pass DeleGator address NOT user EOA
       // Swaps must be sent to/from the DeleGator smart account where funds are stored!
-      const swaps = await this.dex.getOptimalSwaps(
-        evaluation.executionPlan,
-        chainName,
-        strategy.delegatorAddress || strategy.userAddress, // Fallback for safety
-      );
+      account = strategy.delegatorAddress || strategy.userAddress; // Fallback for safety
+      swaps = await this.dex.getOptimalSwaps(evaluation.executionPlan, chainName, account);
 
       // 6. Build rebalance transaction args
       // NOTE: totalValue is always 0 because bot doesn't send native tokens
@@ -240,28 +275,64 @@ export class ExecutorProcessor {
         return; // Skip normal rebalance execution
       }
 
-      // Normal mode: Simulate contract call first
-      const { request } = await publicClient.simulateContract({
-        address: to,
+      // Normal mode: Pre-flight checks and eth_call simulation first
+      const data = encodeFunctionData({
         abi: RebalanceExecutorABI,
         functionName: 'rebalance',
         args,
-        value: totalValue, // Send native tokens if swapping from native
-        account: walletClient.account,
-        authorizationList: undefined,
       } as any);
 
-      this.logger.log('Simulation successful, sending transaction...');
+      const preflight = await this.dex.preflight(swaps, chainName, account, {
+        to,
+        data,
+        value: totalValue,
+        from: walletClient.account.address,
+      });
+
+      if (!preflight.passed) {
+        throw new PreflightError(preflight.failures);
+      }
+
+      this.logger.log('Pre-flight passed, sending transaction...');
 
-      // 9. Send transaction
-      const txHash = await walletClient.writeContract(request);
+      // 9. Send transaction through MEV protection (private relay / intent tracking)
+      const gasLimit = await publicClient.estimateGas({
+        account: walletClient.account,
+        to,
+        data,
+        value: totalValue,
+      });
+      const fees = await publicClient.estimateFeesPerGas();
+
+      const submission = await this.mev.protectTransaction(
+        {
+          to,
+          data,
+          value: totalValue,
+          gas: gasLimit,
+          maxFeePerGas: fees.maxFeePerGas,
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+        },
+        chainName,
+        { strategyId, userAddress, chainId },
+      );
+      const txHash = submission.txHash;
+      intentId = submission.intentId;
 
       this.logger.log(`Rebalance transaction sent: ${txHash}`);
 
       // 10. Wait for confirmation
       const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
 
-      if (receipt.status === 'success') {
+      if (receipt.status !== 'success') {
+        throw new Error(`Transaction reverted: ${txHash}`);
+      }
+
+      // The swaps are on-chain from here: a bookkeeping error must not mark the rebalance
+      // failed or let Bull retry it into a second transaction
+      try {
+        if (intentId) await this.mev.settleIntent(intentId, true);
+
         // 8. Save rebalance record
         const gasCost = receipt.gasUsed * receipt.effectiveGasPrice;
         const botAddress = walletClient.account.address;
@@ -269,6 +340,7 @@ export class ExecutorProcessor {
         // Calculate drift AFTER rebalance execution
         this.logger.log('Calculating driftAfter by re-analyzing portfolio...');
         let driftAfter = BigInt(drift); // Default to original drift if re-analysis fails
+        let portfolioAfter: StrategyEvaluationResult['portfolioState'] | undefined;
 
         try {
           // Re-evaluate portfolio state after swaps executed
@@ -278,6 +350,7 @@ export class ExecutorProcessor {
           );
 
           if (evaluationAfter && evaluationAfter.portfolioState) {
+            portfolioAfter = evaluationAfter.portfolioState;
             driftAfter = BigInt(evaluationAfter.portfolioState.drift);
             this.logger.log(
               `Drift reduced: ${drift / 100}% → ${Number(driftAfter) / 100}% (${((drift - Number(driftAfter)) / drift * 100).toFixed(1)}% improvement)`,
@@ -304,6 +377,14 @@ export class ExecutorProcessor {
             status: 'SUCCESS',
             executedBy: botAddress,
             executedAt: new Date(),
+            ...this.audit.buildAudit({
+              plan: evaluation.executionPlan,
+              portfolioBefore: evaluation.portfolioState,
+              portfolioAfter,
+              swaps,
+              receipt,
+              account,
+            }),
           },
         });
 
@@ -317,11 +398,41 @@ export class ExecutorProcessor {
           timestamp: new Date().toISOString(),
         });
 
+        await this.notificationQueue.add(JOB_NAMES.SEND_NOTIFICATION, {
+          userAddress,
+          type: 'REBALANCE_COMPLETED',
+          title: 'Rebalance completed',
+          message: `Strategy rebalanced with ${swaps.length} swap(s). Drift ${(drift / 100).toFixed(2)}% → ${(Number(driftAfter) / 100).toFixed(2)}%.`,
+          data: { strategyId, chainId, txHash },
+        } as NotificationJobData);
+
+        // Value the post-trade portfolio so the swaps get their own P&L period
+        await this.analyticsQueue.add(JOB_NAMES.SNAPSHOT_VALUATION, {
+          type: 'valuation',
+          strategyId,
+        } as AnalyticsJobData);
+
         this.logger.log(`Rebalance completed successfully: ${txHash}`);
-      } else {
-        throw new Error(`Transaction reverted: ${txHash}`);
+      } catch (error) {
+        this.logger.error(
+          `Rebalance ${txHash} confirmed but recording it failed: ${error.message}`,
+          error.stack,
+        );
       }
     } catch (error) {
+      // Submitted but not confirmed in time: the transaction can still be mined, so it is
+      // neither a failure nor safe to retry. The intent stays EXECUTING until the sweeper
+      // or a late receipt settles it.
+      if (error instanceof WaitForTransactionReceiptTimeoutError) {
+        this.logger.warn(
+          `Rebalance for strategy ${strategyId} not confirmed in time, not retrying` +
+            (intentId ? ` (intent ${intentId} left executing)` : '') +
+            `: ${error.shortMessage}`,
+        );
+        await job.discard();
+        throw error;
+      }
+
       // Enhanced error logging to capture full contract revert details
       this.logger.error('=== REBALANCE ERROR DETAILS ===');
       this.logger.error(`Strategy ID: ${strategyId}`);
@@ -357,6 +468,11 @@ export class ExecutorProcessor {
         error.stack,
       );
 
+      // Reverted or never submitted
+      if (intentId) {
+        await this.mev.settleIntent(intentId, false, error.message).catch(() => undefined);
+      }
+
       // Save failed rebalance
       const botWalletClient = this.chain.getWalletClient(chainName);
       const botAddress = botWalletClient.account.address;
@@ -382,8 +498,18 @@ export class ExecutorProcessor {
           swapsExecuted: 0,
           status: 'FAILED',
           errorMessage: error.message,
+          failureReasons:
+            error instanceof PreflightError
+              ? (error.failures as unknown as Prisma.InputJsonValue)
+              : undefined,
           executedBy: botAddress,
           executedAt: new Date(),
+          // Plan and quotes as far as execution got - nothing was realized
+          ...this.audit.buildAudit({
+            plan: evaluation?.executionPlan,
+            portfolioBefore: evaluation?.portfolioState,
+            swaps,
+          }),
         },
       });
 
@@ -395,6 +521,17 @@ export class ExecutorProcessor {
         timestamp: new Date().toISOString(),
       });
 
+      // Only tell the user once Bull has no retries left
+      if (job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+        await this.notificationQueue.add(JOB_NAMES.SEND_NOTIFICATION, {
+          userAddress,
+          type: 'REBALANCE_FAILED',
+          title: 'Rebalance failed',
+          message: `Rebalance failed after ${job.attemptsMade + 1} attempt(s): ${error.message}`,
+          data: { strategyId, chainId, txHash: failedTxHash },
+        } as NotificationJobData);
+      }
+
       throw error; // Re-throw for Bull retry mechanism
     }
   }
@@ -407,7 +544,7 @@ export class ExecutorProcessor {
     strategy: any,
     delegation: any,
     swaps: any[],
-    chainName: 'monad' | 'base',
+    chainName: SupportedChain,
   ): Promise<{
     args: any[];
     to: `0x${string}`;
@@ -479,7 +616,7 @@ export class ExecutorProcessor {
       '0x0100000000000000000000000000000000000000000000000000000000000000' as `0x${string}`;
 
     // 5. Get executor address
-    const executorAddress = CONTRACTS[chainName].executor;
+    const executorAddress = this.registry.getChain(chainName).contracts.executor;
 
     return {
       to: executorAddress,
@@ -0,0 +1,120 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { erc20Abi, parseEventLogs, TransactionReceipt } from 'viem';
+import { ExecutionPlan, PortfolioState } from '@app/strategy';
+
+const NATIVE_TOKEN = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Rebalance Audit
+ * Turns the plan, selected quotes and receipt of a rebalance into the
+ * RebalanceSwap rows and portfolio snapshots stored with the Rebalance
+ */
+@Injectable()
+export class RebalanceAuditService {
+  /**
+   * Nested create data for prisma.rebalance.create
+   * receipt is omitted for failed rebalances - swaps are then recorded as quoted only
+   */
+  buildAudit(params: {
+    plan?: ExecutionPlan;
+    portfolioBefore?: PortfolioState;
+    portfolioAfter?: PortfolioState;
+    swaps: any[];
+    receipt?: TransactionReceipt;
+    account?: string;
+  }): Pick<
+    Prisma.RebalanceCreateInput,
+    'executionPlan' | 'portfolioBefore' | 'portfolioAfter' | 'swaps'
+  > {
+    const { plan, portfolioBefore, portfolioAfter, swaps, receipt, account } = params;
+    const realized = receipt && account ? this.getRealizedOutputs(receipt, swaps, account) : [];
+
+    return {
+      executionPlan: plan ? this.toJson(plan) : undefined,
+      portfolioBefore: portfolioBefore ? this.toJson(this.snapshot(portfolioBefore)) : undefined,
+      portfolioAfter: portfolioAfter ? this.toJson(this.snapshot(portfolioAfter)) : undefined,
+      swaps: {
+        create: swaps.map((swap, index) => {
+          const quoted = BigInt(swap.quotedOutput ?? swap.minOutput ?? 0);
+          const realizedOut = realized[index] ?? null;
+
+          return {
+            index,
+            tokenIn: swap.fromToken.toLowerCase(),
+            tokenOut: swap.toToken.toLowerCase(),
+            amountIn: (swap.fromAmount ?? 0n).toString(),
+            quotedAmountOut: quoted.toString(),
+            minAmountOut: BigInt(swap.minOutput ?? 0).toString(),
+            realizedAmountOut: realizedOut?.toString() ?? null,
+            aggregator: swap.aggregator ?? 'unknown',
+            slippageBps:
+              realizedOut !== null && quoted > 0n
+                ? Number(((quoted - realizedOut) * 10000n) / quoted)
+                : null,
+            priceImpact: typeof swap.priceImpact === 'number' ? swap.priceImpact : null,
+          };
+        }),
+      },
+    };
+  }
+
+  /**
+   * Realized output per swap from ERC-20 Transfer logs into the account
+   * Inflows of a token are split across the swaps that bought it, pro rata to their quotes
+   * Native outputs don't emit Transfer logs and stay null
+   */
+  getRealizedOutputs(receipt: TransactionReceipt, swaps: any[], account: string): (bigint | null)[] {
+    const inflows = new Map<string, bigint>();
+    const transfers = parseEventLogs({ abi: erc20Abi, eventName: 'Transfer', logs: receipt.logs });
+
+    for (const log of transfers) {
+      if (log.args.to.toLowerCase() !== account.toLowerCase()) continue;
+      const token = log.address.toLowerCase();
+      inflows.set(token, (inflows.get(token) ?? 0n) + log.args.value);
+    }
+
+    return swaps.map((swap) => {
+      // WETH9-style deposit() emits Deposit, not Transfer - wrapping is 1:1
+      if (swap.isWrap) return BigInt(swap.fromAmount ?? 0);
+
+      const token = swap.toToken.toLowerCase();
+      if (token === NATIVE_TOKEN) return null;
+
+      const buyers = swaps.filter((other) => !other.isWrap && other.toToken.toLowerCase() === token);
+      const totalQuoted = buyers.reduce((sum, other) => sum + BigInt(other.quotedOutput ?? 0), 0n);
+      const inflow = inflows.get(token) ?? 0n;
+
+      if (buyers.length === 1 || totalQuoted === 0n) {
+        return inflow / BigInt(buyers.length);
+      }
+      return (inflow * BigInt(swap.quotedOutput ?? 0)) / totalQuoted;
+    });
+  }
+
+  /**
+   * Portfolio state without the bigint balances
+   */
+  private snapshot(state: PortfolioState) {
+    return {
+      totalValueUSD: state.totalValueUSD,
+      drift: state.drift,
+      tokens: state.tokens.map((token) => ({
+        address: token.address.toLowerCase(),
+        symbol: token.symbol,
+        balance: token.balance.toString(),
+        decimals: token.decimals,
+        priceUSD: token.priceUSD,
+        valueUSD: token.valueUSD,
+        currentWeight: token.currentWeight,
+        targetWeight: token.targetWeight,
+      })),
+    };
+  }
+
+  private toJson(value: unknown): Prisma.InputJsonValue {
+    return JSON.parse(
+      JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v)),
+    ) as Prisma.InputJsonValue;
+  }
+}
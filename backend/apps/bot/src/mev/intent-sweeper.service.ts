@@ -0,0 +1,82 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { IntentStatus } from '@prisma/client';
+import { PrismaService } from '@app/database';
+import { ChainService } from '@app/blockchain';
+
+/**
+ * Expires intents that outlived their deadline
+ * Submitted intents are checked on-chain first - a receipt settles them instead
+ */
+@Injectable()
+export class IntentSweeperService {
+  private readonly logger = new Logger(IntentSweeperService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly chain: ChainService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async sweepExpiredIntents() {
+    const now = new Date();
+
+    // Never submitted
+    const { count: expiredPending } = await this.prisma.intent.updateMany({
+      where: { status: IntentStatus.PENDING, expiresAt: { lte: now } },
+      data: { status: IntentStatus.EXPIRED },
+    });
+
+    // Submitted but never settled (executor crashed or gave up waiting)
+    const executing = await this.prisma.intent.findMany({
+      where: { status: IntentStatus.EXECUTING, expiresAt: { lte: now } },
+    });
+
+    let expiredExecuting = 0;
+    for (const intent of executing) {
+      try {
+        const status = await this.getOnChainStatus(intent.chainId, intent.executedTxHash);
+
+        await this.prisma.intent.updateMany({
+          where: { id: intent.id, status: IntentStatus.EXECUTING },
+          data: {
+            status,
+            executedAt: status === IntentStatus.EXECUTED ? now : undefined,
+            errorMessage:
+              status === IntentStatus.FAILED ? 'Transaction reverted' : undefined,
+          },
+        });
+
+        if (status === IntentStatus.EXPIRED) expiredExecuting++;
+      } catch (error) {
+        this.logger.warn(`Failed to sweep intent ${intent.id}: ${error.message}`);
+      }
+    }
+
+    if (expiredPending + executing.length > 0) {
+      this.logger.log(
+        `Swept intents: ${expiredPending} pending expired, ` +
+          `${expiredExecuting}/${executing.length} submitted expired`,
+      );
+    }
+  }
+
+  /**
+   * Outcome of a submitted transaction - EXPIRED when it never landed
+   */
+  private async getOnChainStatus(
+    chainId: number,
+    txHash: string | null,
+  ): Promise<IntentStatus> {
+    if (!txHash) return IntentStatus.EXPIRED;
+
+    const receipt = await this.chain
+      .getPublicClientById(chainId)
+      .getTransactionReceipt({ hash: txHash as `0x${string}` })
+      .catch(() => null); // Not mined
+
+    if (!receipt) return IntentStatus.EXPIRED;
+
+    return receipt.status === 'success' ? IntentStatus.EXECUTED : IntentStatus.FAILED;
+  }
+}
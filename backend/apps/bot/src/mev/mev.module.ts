@@ -1,8 +1,11 @@
 import { Module } from '@nestjs/common';
 import { MevService } from './mev.service';
+import { IntentSweeperService } from './intent-sweeper.service';
+import { PrivateRpcRelay } from './relays/private-rpc.relay';
+import { BundleRelay } from './relays/bundle.relay';
 
 @Module({
-  providers: [MevService],
+  providers: [MevService, IntentSweeperService, PrivateRpcRelay, BundleRelay],
   exports: [MevService],
 })
 export class MevModule {}
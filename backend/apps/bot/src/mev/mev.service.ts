@@ -1,129 +1,217 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { IntentStatus } from '@prisma/client';
+import { Hex } from 'viem';
 import { PrismaService } from '@app/database';
 import { ChainService } from '@app/blockchain';
 import { SupportedChain } from '@app/blockchain/chains';
-import { randomBytes } from 'crypto';
-
-interface TransactionRequest {
-  to: `0x${string}`;
-  data: `0x${string}`;
-  gas: bigint;
-  maxFeePerGas: bigint;
-  maxPriorityFeePerGas: bigint;
-}
-
+import { PrivateRelay } from './relays/private-relay';
+import { PrivateRpcRelay } from './relays/private-rpc.relay';
+import { BundleRelay } from './relays/bundle.relay';
+import {
+  MevContext,
+  ProtectedSubmission,
+  TransactionRequest,
+} from './types/mev.types';
+
+/**
+ * MEV-protected transaction submission
+ *
+ * Transactions are signed by the bot and sent through the configured private relay
+ * when the chain has one, otherwise broadcast publicly after a random delay.
+ * With intents enabled every submission is tracked as an Intent:
+ * PENDING → EXECUTING (submitted) → EXECUTED | FAILED, or EXPIRED by IntentSweeperService.
+ */
 @Injectable()
 export class MevService {
   private readonly logger = new Logger(MevService.name);
+  private readonly relays: PrivateRelay[];
 
   constructor(
     private readonly config: ConfigService,
     private readonly prisma: PrismaService,
     private readonly chain: ChainService,
-  ) {}
+    privateRpc: PrivateRpcRelay,
+    bundle: BundleRelay,
+  ) {
+    this.relays = [privateRpc, bundle];
+  }
 
   /**
-   * Protect transaction from MEV
+   * Sign and submit a transaction with MEV protection
+   * Throws if the transaction couldn't be submitted (the intent is marked FAILED)
    */
   async protectTransaction(
     tx: TransactionRequest,
     chain: SupportedChain,
-  ): Promise<TransactionRequest> {
+    context: MevContext,
+  ): Promise<ProtectedSubmission> {
     const enableFlashbots = this.config.get<boolean>('mev.enableFlashbots', false);
     const enableIntents = this.config.get<boolean>('mev.enableIntents', false);
 
     this.logger.debug(
-      `Protecting transaction on ${chain} (Flashbots: ${enableFlashbots}, Intents: ${enableIntents})`,
+      `Protecting transaction for strategy ${context.strategyId} on ${chain} ` +
+        `(Private relay: ${enableFlashbots}, Intents: ${enableIntents})`,
     );
 
-    // Strategy 1: Flashbots RPC (private mempool)
-    if (enableFlashbots && chain === 'base') {
-      return this.sendViaFlashbots(tx, chain);
+    // An intent that can't be claimed is left PENDING for the sweeper to expire
+    const intentId = enableIntents ? await this.createIntent(tx, context) : undefined;
+    if (intentId) await this.claimIntent(intentId);
+
+    try {
+      const signedTx = await this.signTransaction(tx, chain);
+      const relay = enableFlashbots ? this.getRelay(chain) : null;
+      const submission = relay
+        ? await this.sendViaRelay(signedTx, chain, relay)
+        : await this.sendWithRandomDelay(signedTx, chain);
+
+      if (intentId) {
+        await this.prisma.intent.update({
+          where: { id: intentId },
+          data: { executedTxHash: submission.txHash },
+        });
+      }
+
+      this.logger.log(
+        `Transaction ${submission.txHash} submitted via ${submission.route}` +
+          (submission.relay ? ` ${submission.relay} relay` : ' mempool'),
+      );
+
+      return { ...submission, intentId };
+    } catch (error) {
+      if (intentId) await this.settleIntent(intentId, false, error.message);
+      throw error;
     }
-
-    // Strategy 2: Intent-based (ERC-8001)
-    if (enableIntents) {
-      return this.sendViaIntent(tx, chain);
-    }
-
-    // Fallback: Public mempool with randomized timing
-    return this.sendWithRandomDelay(tx);
   }
 
   /**
-   * Send transaction via Flashbots RPC
+   * Record the on-chain outcome of a submitted intent
+   * A late receipt can still settle an intent the sweeper already expired
    */
-  private async sendViaFlashbots(
-    tx: TransactionRequest,
-    chain: SupportedChain,
-  ): Promise<TransactionRequest> {
-    const flashbotsRpc = this.config.get<string>('mev.flashbotsRpc');
+  async settleIntent(intentId: string, success: boolean, errorMessage?: string) {
+    const { count } = await this.prisma.intent.updateMany({
+      where: {
+        id: intentId,
+        status: { in: [IntentStatus.EXECUTING, IntentStatus.EXPIRED] },
+      },
+      data: {
+        status: success ? IntentStatus.EXECUTED : IntentStatus.FAILED,
+        errorMessage: success ? null : errorMessage,
+        executedAt: success ? new Date() : undefined,
+      },
+    });
 
-    if (!flashbotsRpc) {
-      this.logger.warn('Flashbots RPC not configured, using public mempool');
-      return tx;
+    if (count === 0) {
+      this.logger.debug(`Intent ${intentId} was already settled`);
     }
-
-    // TODO: Implement Flashbots bundle submission
-    // https://docs.flashbots.net/flashbots-protect/rpc/quick-start
-    this.logger.log('Sending transaction via Flashbots...');
-
-    // For now, return original tx
-    // In production, this would modify the RPC endpoint
-    return tx;
   }
 
   /**
-   * Send transaction as intent (ERC-8001)
+   * Create a PENDING intent for the caller's strategy
    */
-  private async sendViaIntent(
-    tx: TransactionRequest,
-    chain: SupportedChain,
-  ): Promise<TransactionRequest> {
-    const intentManagerAddress = this.config.get<string>(
-      `blockchain.${chain}.contracts.intentManager`,
-    );
+  private async createIntent(tx: TransactionRequest, context: MevContext): Promise<string> {
+    const ttlMs = this.config.get<number>('mev.intentTtlSeconds', 300) * 1000;
+    const expiresAt = new Date(Date.now() + ttlMs);
 
-    if (!intentManagerAddress) {
-      this.logger.warn('Intent manager not deployed, using direct execution');
-      return tx;
-    }
-
-    this.logger.log('Creating intent for MEV-protected execution...');
-
-    // Create intent record
-    const intentId = randomBytes(16).toString('hex');
-    await this.prisma.intent.create({
+    const intent = await this.prisma.intent.create({
       data: {
-        id: intentId,
-        userAddress: '0x0000000000000000000000000000000000000000', // TODO: Pass userAddress from caller
-        strategyId: '0', // TODO: Pass strategyId from caller
-        chainId: chain === 'monad' ? 10143 : 84532,
+        userAddress: context.userAddress.toLowerCase(),
+        strategyId: context.strategyId,
+        chainId: context.chainId,
         intentData: {
           target: tx.to,
           calldata: tx.data,
-          value: '0',
-          deadline: Date.now() + 5 * 60 * 1000, // 5 minute deadline
+          value: (tx.value ?? 0n).toString(),
+          deadline: expiresAt.getTime(),
         },
-        status: 'PENDING',
-        expiresAt: new Date(Date.now() + 5 * 60 * 1000), // 5 minute expiry
+        status: IntentStatus.PENDING,
+        expiresAt,
+      },
+    });
+
+    this.logger.debug(`Created intent ${intent.id} for strategy ${context.strategyId}`);
+
+    return intent.id;
+  }
+
+  /**
+   * PENDING → EXECUTING, refusing intents past their deadline
+   */
+  private async claimIntent(intentId: string) {
+    const { count } = await this.prisma.intent.updateMany({
+      where: {
+        id: intentId,
+        status: IntentStatus.PENDING,
+        expiresAt: { gt: new Date() },
       },
+      data: { status: IntentStatus.EXECUTING },
     });
 
-    // TODO: Implement intent submission to IntentManager
-    // This allows solvers to compete for best execution
-    // See: https://eips.ethereum.org/EIPS/eip-8001
+    if (count === 0) {
+      throw new Error(`Intent ${intentId} expired before submission`);
+    }
+  }
+
+  private getRelay(chain: SupportedChain): PrivateRelay | null {
+    const mode = this.config.get<string>('mev.relayMode', 'rpc');
+    const relay = this.relays.find((r) => r.mode === mode);
 
-    return tx;
+    if (!relay?.isConfigured(chain)) {
+      this.logger.warn(`No ${mode} relay configured for ${chain}, using public mempool`);
+      return null;
+    }
+
+    return relay;
   }
 
   /**
-   * Add random delay to avoid predictable timing
+   * Bot-signed EIP-1559 transaction (nonce and chain id filled from the node)
+   */
+  private async signTransaction(tx: TransactionRequest, chain: SupportedChain): Promise<Hex> {
+    const walletClient = this.chain.getWalletClient(chain);
+
+    const request = await walletClient.prepareTransactionRequest({
+      account: walletClient.account,
+      chain: walletClient.chain,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value ?? 0n,
+      gas: tx.gas,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+    } as any);
+
+    return walletClient.signTransaction(request as any);
+  }
+
+  /**
+   * Send through the private relay, optionally falling back to the public mempool
+   */
+  private async sendViaRelay(
+    signedTx: Hex,
+    chain: SupportedChain,
+    relay: PrivateRelay,
+  ): Promise<Omit<ProtectedSubmission, 'intentId'>> {
+    try {
+      const txHash = await relay.submit(signedTx, chain);
+      return { txHash, route: 'private', relay: relay.mode };
+    } catch (error) {
+      if (!this.config.get<boolean>('mev.publicFallback', false)) {
+        throw new Error(`Private relay submission failed: ${error.message}`);
+      }
+
+      this.logger.warn(`Private relay failed (${error.message}), falling back to public mempool`);
+      return this.sendWithRandomDelay(signedTx, chain);
+    }
+  }
+
+  /**
+   * Public broadcast with a random delay to avoid predictable timing
    */
   private async sendWithRandomDelay(
-    tx: TransactionRequest,
-  ): Promise<TransactionRequest> {
+    signedTx: Hex,
+    chain: SupportedChain,
+  ): Promise<Omit<ProtectedSubmission, 'intentId'>> {
     // Add 0-3 second random delay
     const delayMs = Math.floor(Math.random() * 3000);
 
@@ -131,7 +219,11 @@ export class MevService {
 
     await new Promise((resolve) => setTimeout(resolve, delayMs));
 
-    return tx;
+    const txHash = await this.chain
+      .getPublicClient(chain)
+      .sendRawTransaction({ serializedTransaction: signedTx });
+
+    return { txHash, route: 'public' };
   }
 
   /**
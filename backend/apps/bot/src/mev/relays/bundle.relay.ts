@@ -0,0 +1,62 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Hex, keccak256, toHex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { ChainService } from '@app/blockchain';
+import { SupportedChain } from '@app/blockchain/chains';
+import { PrivateRelay, postJsonRpc } from './private-relay';
+
+/**
+ * Bundle relay (Flashbots-style eth_sendBundle)
+ * The transaction is sent as a one-tx bundle for each of the next few blocks;
+ * it never reaches the public mempool, so a missed bundle simply never lands
+ */
+@Injectable()
+export class BundleRelay implements PrivateRelay {
+  readonly mode = 'bundle' as const;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly chain: ChainService,
+  ) {}
+
+  isConfigured(chain: SupportedChain): boolean {
+    return (
+      !!this.config.get<string>('mev.relayUrl') &&
+      this.config.get<string[]>('mev.relayChains', []).includes(chain)
+    );
+  }
+
+  async submit(signedTx: Hex, chain: SupportedChain): Promise<Hex> {
+    const url = this.config.get<string>('mev.relayUrl');
+    const timeoutMs = this.config.get<number>('mev.relayTimeoutMs', 10000);
+    const targetBlocks = this.config.get<number>('mev.bundleBlocks', 3);
+    const currentBlock = await this.chain.getPublicClient(chain).getBlockNumber();
+
+    for (let i = 1n; i <= BigInt(targetBlocks); i++) {
+      await postJsonRpc(
+        url,
+        'eth_sendBundle',
+        [{ txs: [signedTx], blockNumber: toHex(currentBlock + i) }],
+        timeoutMs,
+        (body) => this.signBody(body),
+      );
+    }
+
+    return keccak256(signedTx);
+  }
+
+  /**
+   * X-Flashbots-Signature: <address>:<EIP-191 signature of keccak256(body)>
+   * Omitted without an auth key (mock relays don't check it)
+   */
+  private async signBody(body: string): Promise<Record<string, string>> {
+    const authKey = this.config.get<string>('mev.relayAuthKey');
+    if (!authKey) return {};
+
+    const account = privateKeyToAccount(authKey as Hex);
+    const signature = await account.signMessage({ message: keccak256(toHex(body)) });
+
+    return { 'X-Flashbots-Signature': `${account.address}:${signature}` };
+  }
+}
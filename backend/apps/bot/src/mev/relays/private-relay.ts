@@ -0,0 +1,47 @@
+import axios from 'axios';
+import { Hex } from 'viem';
+import { SupportedChain } from '@app/blockchain/chains';
+import { RelayMode } from '../types/mev.types';
+
+/**
+ * Pluggable private submission transport
+ * Relays must throw when the transaction isn't accepted so the caller can fall back
+ */
+export interface PrivateRelay {
+  readonly mode: RelayMode;
+
+  /**
+   * Whether the relay can submit on this chain (server config)
+   */
+  isConfigured(chain: SupportedChain): boolean;
+
+  /**
+   * Submit a signed transaction, returns its hash
+   */
+  submit(signedTx: Hex, chain: SupportedChain): Promise<Hex>;
+}
+
+/**
+ * POST a JSON-RPC call, unwrapping the result or throwing the relay's error
+ * signBody derives auth headers from the exact serialized payload
+ */
+export async function postJsonRpc<T>(
+  url: string,
+  method: string,
+  params: unknown[],
+  timeoutMs: number,
+  signBody?: (body: string) => Promise<Record<string, string>>,
+): Promise<T> {
+  const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method, params });
+  const headers = signBody ? await signBody(body) : {};
+  const response = await axios.post(url, body, {
+    headers: { 'Content-Type': 'application/json', ...headers },
+    timeout: timeoutMs,
+  });
+
+  if (response.data?.error) {
+    throw new Error(`${method} rejected: ${response.data.error.message ?? JSON.stringify(response.data.error)}`);
+  }
+
+  return response.data?.result as T;
+}
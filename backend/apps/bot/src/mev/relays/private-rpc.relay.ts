@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Hex } from 'viem';
+import { SupportedChain } from '@app/blockchain/chains';
+import { PrivateRelay, postJsonRpc } from './private-relay';
+
+/**
+ * Private RPC endpoint (Flashbots Protect, MEV Blocker, a local mock relay...)
+ * Accepts a plain eth_sendRawTransaction and keeps it out of the public mempool
+ */
+@Injectable()
+export class PrivateRpcRelay implements PrivateRelay {
+  readonly mode = 'rpc' as const;
+
+  constructor(private readonly config: ConfigService) {}
+
+  isConfigured(chain: SupportedChain): boolean {
+    return (
+      !!this.config.get<string>('mev.relayUrl') &&
+      this.config.get<string[]>('mev.relayChains', []).includes(chain)
+    );
+  }
+
+  async submit(signedTx: Hex, chain: SupportedChain): Promise<Hex> {
+    return postJsonRpc<Hex>(
+      this.config.get<string>('mev.relayUrl'),
+      'eth_sendRawTransaction',
+      [signedTx],
+      this.config.get<number>('mev.relayTimeoutMs', 10000),
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * MEV Protection Types
+ */
+
+import { Hex } from 'viem';
+
+export type RelayMode = 'rpc' | 'bundle';
+
+/**
+ * Unsigned transaction the bot wants to land without exposure to the public mempool
+ */
+export interface TransactionRequest {
+  to: `0x${string}`;
+  data: `0x${string}`;
+  gas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  value?: bigint;
+}
+
+/**
+ * Who the transaction is executed for - recorded on the Intent
+ */
+export interface MevContext {
+  strategyId: string;
+  userAddress: string;
+  chainId: number;
+}
+
+export interface ProtectedSubmission {
+  txHash: Hex;
+  route: 'private' | 'public';
+  relay?: RelayMode;
+  intentId?: string; // Set when intents are enabled
+}
@@ -2,13 +2,16 @@ import { Module } from '@nestjs/common';
 import { BullModule } from '@nestjs/bull';
 import { QUEUE_NAMES } from '@app/queue/types';
 import { MonitorService } from './monitor.service';
-import { StrategyModule } from '../strategy/strategy.module';
+import { StrategyModule } from '@app/strategy';
 
 @Module({
   imports: [
     BullModule.registerQueue({
       name: QUEUE_NAMES.REBALANCE,
     }),
+    BullModule.registerQueue({
+      name: QUEUE_NAMES.NOTIFICATIONS,
+    }),
     StrategyModule,
   ],
   providers: [MonitorService],
@@ -6,8 +6,8 @@ import { PrismaService } from '@app/database';
 import { ChainService } from '@app/blockchain';
 import { ConfigService } from '@nestjs/config';
 import { NotificationsGateway } from '@app/notifications';
-import { QUEUE_NAMES, RebalanceJobData } from '@app/queue/types';
-import { StrategyEngineService } from '../strategy/strategy-engine.service';
+import { JOB_NAMES, NotificationJobData, QUEUE_NAMES, RebalanceJobData } from '@app/queue/types';
+import { StrategyEngineService } from '@app/strategy';
 
 @Injectable()
 export class MonitorService {
@@ -21,6 +21,7 @@ export class MonitorService {
     private readonly notifications: NotificationsGateway,
     private readonly strategyEngine: StrategyEngineService,
     @InjectQueue(QUEUE_NAMES.REBALANCE) private readonly rebalanceQueue: Queue,
+    @InjectQueue(QUEUE_NAMES.NOTIFICATIONS) private readonly notificationQueue: Queue,
   ) {}
 
   /**
@@ -38,9 +39,17 @@ export class MonitorService {
     try {
       this.logger.debug('Starting strategy monitoring cycle');
 
+      // Pauses set by operators through the admin API
+      const pauses = await this.prisma.monitorPause.findMany();
+      if (pauses.some((pause) => pause.scope === 'global')) {
+        this.logger.warn('Monitor paused globally by an admin, skipping cycle');
+        return;
+      }
+
       // Get all active strategies with delegatorAddress (no delegation required)
       const strategies = await this.prisma.strategy.findMany({
         where: {
+          id: { notIn: pauses.map((pause) => pause.scope) },
           isActive: true,
           isDeployed: true, // CRITICAL: Only monitor strategies that are deployed on-chain
           delegatorAddress: {
@@ -56,7 +65,9 @@ export class MonitorService {
         },
       });
 
-      this.logger.log(`Monitoring ${strategies.length} active strategies`);
+      this.logger.log(
+        `Monitoring ${strategies.length} active strategies${pauses.length ? ` (${pauses.length} paused)` : ''}`,
+      );
 
       for (const strategy of strategies) {
         await this.checkStrategy(strategy);
@@ -150,7 +161,7 @@ export class MonitorService {
     });
 
     // Notify user via WebSocket
-    this.notifications.emitRebalanceStarted(strategy.userAddress, {
+    this.notifications.emitRebalanceQueued(strategy.userAddress, {
       strategyId: strategy.id,
       drift: drift / 100, // Convert to percentage
       timestamp: new Date().toISOString(),
@@ -185,6 +196,35 @@ export class MonitorService {
         error: error.message,
         timestamp: new Date().toISOString(),
       });
+
+      await this.alertAdmins('Bot worker health check failed', error.message);
+    }
+  }
+
+  /**
+   * Queue a SYSTEM_ALERT notification for every admin
+   */
+  private async alertAdmins(title: string, message: string) {
+    try {
+      const admins = await this.prisma.user.findMany({
+        where: { role: 'ADMIN' },
+        select: { address: true },
+      });
+
+      await Promise.all(
+        admins.map(({ address }) =>
+          this.notificationQueue.add(JOB_NAMES.SEND_NOTIFICATION, {
+            userAddress: address,
+            type: 'SYSTEM_ALERT',
+            title,
+            message,
+            data: { source: 'monitor', timestamp: new Date().toISOString() },
+          } as NotificationJobData),
+        ),
+      );
+    } catch (error) {
+      // The database or Redis is likely what failed the health check
+      this.logger.error(`Failed to alert admins: ${error.message}`);
     }
   }
 }
@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Notification, NotificationPreference } from '@prisma/client';
+import axios from 'axios';
+import { NotificationChannelAdapter } from './notification-channel';
+
+const FAILURE_TYPES = ['REBALANCE_FAILED', 'SYSTEM_ALERT'];
+
+/**
+ * Discord incoming webhook (URL supplied by the user)
+ */
+@Injectable()
+export class DiscordChannel implements NotificationChannelAdapter {
+  readonly channel = 'discord' as const;
+
+  constructor(private readonly config: ConfigService) {}
+
+  isConfigured(preference: NotificationPreference | null): boolean {
+    return !!preference?.discordWebhookUrl;
+  }
+
+  async send(notification: Notification, preference: NotificationPreference): Promise<void> {
+    await axios.post(
+      preference.discordWebhookUrl,
+      {
+        embeds: [
+          {
+            title: notification.title,
+            description: notification.message,
+            color: FAILURE_TYPES.includes(notification.type) ? 0xdc2626 : 0x16a34a,
+            timestamp: notification.createdAt.toISOString(),
+          },
+        ],
+      },
+      { timeout: this.config.get<number>('notifications.httpTimeoutMs', 10000) },
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Notification, NotificationPreference } from '@prisma/client';
+import { createTransport, Transporter } from 'nodemailer';
+import { NotificationChannelAdapter } from './notification-channel';
+
+/**
+ * SMTP email (server SMTP settings, address supplied by the user)
+ */
+@Injectable()
+export class EmailChannel implements NotificationChannelAdapter {
+  readonly channel = 'email' as const;
+
+  private transporter: Transporter | null = null;
+
+  constructor(private readonly config: ConfigService) {}
+
+  isConfigured(preference: NotificationPreference | null): boolean {
+    return !!this.config.get<string>('notifications.smtp.host') && !!preference?.emailAddress;
+  }
+
+  async send(notification: Notification, preference: NotificationPreference): Promise<void> {
+    await this.getTransporter().sendMail({
+      from: this.config.get<string>('notifications.smtp.from'),
+      to: preference.emailAddress,
+      subject: notification.title,
+      text: notification.message,
+    });
+  }
+
+  /**
+   * Lazily create the SMTP transport (pooled connection)
+   */
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      const user = this.config.get<string>('notifications.smtp.user');
+
+      this.transporter = createTransport({
+        host: this.config.get<string>('notifications.smtp.host'),
+        port: this.config.get<number>('notifications.smtp.port', 587),
+        secure: this.config.get<boolean>('notifications.smtp.secure', false),
+        auth: user ? { user, pass: this.config.get<string>('notifications.smtp.pass') } : undefined,
+        pool: true,
+      });
+    }
+
+    return this.transporter;
+  }
+}
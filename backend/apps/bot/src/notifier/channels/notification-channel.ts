@@ -0,0 +1,17 @@
+import { Notification, NotificationPreference } from '@prisma/client';
+import { NotificationChannel } from '@app/queue/types';
+
+/**
+ * Pluggable delivery channel
+ * Adapters must throw on delivery failure so the processor can log it per channel
+ */
+export interface NotificationChannelAdapter {
+  readonly channel: NotificationChannel;
+
+  /**
+   * Whether the adapter can deliver to this user (server config + user settings)
+   */
+  isConfigured(preference: NotificationPreference | null): boolean;
+
+  send(notification: Notification, preference: NotificationPreference | null): Promise<void>;
+}
@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Notification, NotificationPreference } from '@prisma/client';
+import axios from 'axios';
+import { NotificationChannelAdapter } from './notification-channel';
+
+/**
+ * Telegram Bot API (server bot token, chat ID supplied by the user)
+ */
+@Injectable()
+export class TelegramChannel implements NotificationChannelAdapter {
+  readonly channel = 'telegram' as const;
+
+  constructor(private readonly config: ConfigService) {}
+
+  isConfigured(preference: NotificationPreference | null): boolean {
+    return !!this.config.get<string>('monitoring.telegramBotToken') && !!preference?.telegramChatId;
+  }
+
+  async send(notification: Notification, preference: NotificationPreference): Promise<void> {
+    const token = this.config.get<string>('monitoring.telegramBotToken');
+
+    await axios.post(
+      `https://api.telegram.org/bot${token}/sendMessage`,
+      {
+        chat_id: preference.telegramChatId,
+        text: `${notification.title}\n\n${notification.message}`,
+        disable_web_page_preview: true,
+      },
+      { timeout: this.config.get<number>('notifications.httpTimeoutMs', 10000) },
+    );
+  }
+}
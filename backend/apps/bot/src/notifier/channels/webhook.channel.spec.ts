@@ -0,0 +1,55 @@
+import { ConfigService } from '@nestjs/config';
+import { Notification, NotificationPreference } from '@prisma/client';
+import axios from 'axios';
+import { WebhookChannel } from './webhook.channel';
+
+jest.mock('axios');
+
+const notification = {
+  id: 'notification-1',
+  type: 'REBALANCE_EXECUTED',
+  title: 'Rebalance executed',
+  message: 'Strategy 1 rebalanced',
+  data: null,
+  createdAt: new Date('2025-10-20T09:00:00Z'),
+} as unknown as Notification;
+
+const preferenceFor = (webhookUrl: string) =>
+  ({ webhookUrl, webhookSecret: 'a-very-long-signing-secret' }) as NotificationPreference;
+
+describe('WebhookChannel', () => {
+  const channel = new WebhookChannel(new ConfigService());
+  const post = axios.post as jest.Mock;
+
+  beforeEach(() => post.mockReset().mockResolvedValue({ status: 200 }));
+
+  it.each([
+    'https://127.0.0.1/hook',
+    'https://localhost/hook',
+    'https://169.254.169.254/latest/meta-data/',
+    'https://10.0.0.5/hook',
+    'https://[::1]/hook',
+    'https://[fd00::1]/hook',
+    'https://[::ffff:192.168.1.1]/hook',
+  ])('refuses to POST to internal URL %s', async (url) => {
+    await expect(channel.send(notification, preferenceFor(url))).rejects.toThrow(
+      /private or internal address/,
+    );
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('posts signed payloads to public hosts without following redirects', async () => {
+    await channel.send(notification, preferenceFor('https://93.184.216.34/hook'));
+
+    expect(post).toHaveBeenCalledWith(
+      'https://93.184.216.34/hook',
+      expect.any(String),
+      expect.objectContaining({
+        maxRedirects: 0,
+        headers: expect.objectContaining({
+          'X-Rebased-Signature': expect.stringMatching(/^sha256=[0-9a-f]{64}$/),
+        }),
+      }),
+    );
+  });
+});
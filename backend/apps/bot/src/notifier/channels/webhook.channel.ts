@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Notification, NotificationPreference } from '@prisma/client';
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { Agent } from 'https';
+import { assertPublicUrl, publicOnlyLookup } from '@app/common/utils/public-url';
+import { NotificationChannelAdapter } from './notification-channel';
+
+/**
+ * Generic HTTP webhook signed with the user's secret
+ *
+ * Receivers verify: X-Rebased-Signature = "sha256=" + HMAC_SHA256(secret, `${X-Rebased-Timestamp}.${rawBody}`)
+ * The URL is user-supplied: internal hosts are refused and redirects are not followed
+ */
+@Injectable()
+export class WebhookChannel implements NotificationChannelAdapter {
+  readonly channel = 'webhook' as const;
+
+  // Re-checks every resolved address at connect time (DNS rebinding)
+  private readonly agent = new Agent({ lookup: publicOnlyLookup });
+
+  constructor(private readonly config: ConfigService) {}
+
+  isConfigured(preference: NotificationPreference | null): boolean {
+    return !!preference?.webhookUrl && !!preference?.webhookSecret;
+  }
+
+  async send(notification: Notification, preference: NotificationPreference): Promise<void> {
+    try {
+      await assertPublicUrl(preference.webhookUrl);
+    } catch (error) {
+      throw new Error(`Refusing webhook delivery: webhookUrl ${error.message}`);
+    }
+
+    const body = JSON.stringify({
+      id: notification.id,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      data: notification.data,
+      createdAt: notification.createdAt.toISOString(),
+    });
+    const timestamp = Date.now().toString();
+
+    await axios.post(preference.webhookUrl, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Rebased-Timestamp': timestamp,
+        'X-Rebased-Signature': `sha256=${this.sign(preference.webhookSecret, timestamp, body)}`,
+      },
+      timeout: this.config.get<number>('notifications.httpTimeoutMs', 10000),
+      maxRedirects: 0,
+      httpsAgent: this.agent,
+    });
+  }
+
+  private sign(secret: string, timestamp: string, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+}
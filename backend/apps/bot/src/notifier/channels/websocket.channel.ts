@@ -0,0 +1,22 @@
+import { Injectable } from '@nestjs/common';
+import { Notification } from '@prisma/client';
+import { NotificationsGateway } from '@app/notifications';
+import { NotificationChannelAdapter } from './notification-channel';
+
+/**
+ * In-app delivery to the user's socket room
+ */
+@Injectable()
+export class WebsocketChannel implements NotificationChannelAdapter {
+  readonly channel = 'websocket' as const;
+
+  constructor(private readonly gateway: NotificationsGateway) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    this.gateway.emitNotification(notification.userAddress, notification);
+  }
+}
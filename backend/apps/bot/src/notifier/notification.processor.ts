@@ -0,0 +1,131 @@
+import { Processor, Process, OnQueueError } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { NotificationPreference, NotificationType } from '@prisma/client';
+import { PrismaService } from '@app/database';
+import {
+  QUEUE_NAMES,
+  JOB_NAMES,
+  NotificationChannel,
+  NotificationJobData,
+} from '@app/queue/types';
+import { NotificationChannelAdapter } from './channels/notification-channel';
+import { WebsocketChannel } from './channels/websocket.channel';
+import { DiscordChannel } from './channels/discord.channel';
+import { TelegramChannel } from './channels/telegram.channel';
+import { EmailChannel } from './channels/email.channel';
+import { WebhookChannel } from './channels/webhook.channel';
+
+// Users without saved preferences get in-app delivery only
+const DEFAULT_CHANNELS: NotificationChannel[] = ['websocket'];
+
+@Processor(QUEUE_NAMES.NOTIFICATIONS)
+export class NotificationProcessor {
+  private readonly logger = new Logger(NotificationProcessor.name);
+  private readonly adapters: NotificationChannelAdapter[];
+
+  constructor(
+    private readonly prisma: PrismaService,
+    websocket: WebsocketChannel,
+    discord: DiscordChannel,
+    telegram: TelegramChannel,
+    email: EmailChannel,
+    webhook: WebhookChannel,
+  ) {
+    this.adapters = [websocket, discord, telegram, email, webhook];
+  }
+
+  /**
+   * Persist notification and fan out to the user's channels
+   */
+  @Process(JOB_NAMES.SEND_NOTIFICATION)
+  async handleSend(job: Job<NotificationJobData>) {
+    await this.deliver(job.data);
+  }
+
+  /**
+   * Deliver a batch of notifications (one failure doesn't block the rest)
+   */
+  @Process(JOB_NAMES.SEND_BATCH_NOTIFICATIONS)
+  async handleSendBatch(job: Job<NotificationJobData[]>) {
+    for (const data of job.data) {
+      try {
+        await this.deliver(data);
+      } catch (error) {
+        this.logger.error(`Failed to deliver notification to ${data.userAddress}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * The inbox row is written first; channel failures are logged, not retried,
+   * so a flaky webhook can't duplicate the notification
+   */
+  private async deliver(data: NotificationJobData) {
+    const userAddress = data.userAddress.toLowerCase();
+
+    const notification = await this.prisma.notification.create({
+      data: {
+        userAddress,
+        type: data.type as NotificationType,
+        title: data.title,
+        message: data.message,
+        data: data.data,
+      },
+    });
+
+    const preference = await this.prisma.notificationPreference.findUnique({
+      where: { userAddress },
+    });
+
+    if (preference?.mutedTypes.includes(notification.type)) {
+      this.logger.debug(`Notification ${notification.id} muted (${notification.type})`);
+      return;
+    }
+
+    const channels = this.resolveChannels(preference, data.channels);
+    const adapters = this.adapters.filter(
+      (adapter) => channels.includes(adapter.channel) && adapter.isConfigured(preference),
+    );
+
+    const results = await Promise.allSettled(
+      adapters.map((adapter) => adapter.send(notification, preference)),
+    );
+
+    const delivered: NotificationChannel[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        delivered.push(adapters[i].channel);
+      } else {
+        this.logger.warn(
+          `${adapters[i].channel} delivery failed for notification ${notification.id}: ${result.reason?.message}`,
+        );
+      }
+    });
+
+    this.logger.log(
+      `Notification ${notification.id} (${notification.type}) delivered via ${delivered.join(', ') || 'inbox only'}`,
+    );
+  }
+
+  /**
+   * User-enabled channels, optionally narrowed by the job
+   */
+  private resolveChannels(
+    preference: NotificationPreference | null,
+    requested?: NotificationChannel[],
+  ): NotificationChannel[] {
+    const enabled = preference
+      ? (['websocket', 'discord', 'telegram', 'email', 'webhook'] as NotificationChannel[]).filter(
+          (channel) => preference[channel],
+        )
+      : DEFAULT_CHANNELS;
+
+    return requested ? enabled.filter((channel) => requested.includes(channel)) : enabled;
+  }
+
+  @OnQueueError()
+  onError(error: Error) {
+    this.logger.error(`Queue error: ${error.message}`, error.stack);
+  }
+}
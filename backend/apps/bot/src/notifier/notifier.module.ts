@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { QUEUE_NAMES } from '@app/queue/types';
+import { NotificationProcessor } from './notification.processor';
+import { WebsocketChannel } from './channels/websocket.channel';
+import { DiscordChannel } from './channels/discord.channel';
+import { TelegramChannel } from './channels/telegram.channel';
+import { EmailChannel } from './channels/email.channel';
+import { WebhookChannel } from './channels/webhook.channel';
+
+/**
+ * Notification delivery worker
+ * Consumes the notifications queue and fans out to channel adapters
+ */
+@Module({
+  imports: [
+    BullModule.registerQueue({
+      name: QUEUE_NAMES.NOTIFICATIONS,
+    }),
+  ],
+  providers: [
+    NotificationProcessor,
+    WebsocketChannel,
+    DiscordChannel,
+    TelegramChannel,
+    EmailChannel,
+    WebhookChannel,
+  ],
+})
+export class NotifierModule {}
@@ -1,14 +1,9 @@
 import { Module } from '@nestjs/common';
-import { BullModule } from '@nestjs/bull';
-import { QUEUE_NAMES } from '@app/queue/types';
+import { SyncModule } from '../sync/sync.module';
 import { BackfillService } from './backfill.service';
 
 @Module({
-  imports: [
-    BullModule.registerQueue({
-      name: QUEUE_NAMES.INDEXER,
-    }),
-  ],
+  imports: [SyncModule],
   providers: [BackfillService],
   exports: [BackfillService],
 })
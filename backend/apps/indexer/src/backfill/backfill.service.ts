@@ -1,148 +1,85 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { InjectQueue } from '@nestjs/bull';
-import { Queue } from 'bull';
 import { ChainService } from '@app/blockchain';
-import { PrismaService } from '@app/database';
-import { ConfigService } from '@nestjs/config';
-import { QUEUE_NAMES, IndexerJobData } from '@app/queue/types';
 import { SupportedChain } from '@app/blockchain/chains';
+import { LogSyncService } from '../sync/log-sync.service';
 
+/**
+ * Backfill Service
+ * Re-scans historical ranges through the same checkpoints as the listener
+ * Progress is persisted per batch - after a crash, resume() continues from the last checkpoint
+ */
 @Injectable()
 export class BackfillService {
   private readonly logger = new Logger(BackfillService.name);
-  private isBackfilling = false;
+  private readonly running = new Set<SupportedChain>();
+  private readonly pauseRequested = new Set<SupportedChain>();
 
   constructor(
     private readonly chain: ChainService,
-    private readonly prisma: PrismaService,
-    private readonly config: ConfigService,
-    @InjectQueue(QUEUE_NAMES.INDEXER) private readonly indexerQueue: Queue,
+    private readonly logSync: LogSyncService,
   ) {}
 
   /**
    * Backfill historical events for a chain
+   * fromBlock rewinds the checkpoints - already indexed events are skipped by their unique key
    */
   async backfillChain(
     chain: SupportedChain,
     fromBlock?: bigint,
     toBlock?: bigint,
   ): Promise<{ eventsProcessed: number; blocksScanned: number }> {
-    if (this.isBackfilling) {
-      throw new Error('Backfill already in progress');
+    if (this.running.has(chain)) {
+      throw new Error(`Backfill already in progress for ${chain}`);
     }
 
-    this.isBackfilling = true;
+    this.running.add(chain);
+    this.pauseRequested.delete(chain);
 
     try {
-      this.logger.log(`Starting backfill for ${chain}`);
-
-      const client = this.chain.getPublicClient(chain);
-      const currentBlock = await client.getBlockNumber();
+      if (fromBlock !== undefined) {
+        await this.logSync.rewind(chain, fromBlock);
+      }
 
-      // Determine block range
-      const startBlock = fromBlock || this.getDeploymentBlock(chain);
-      const endBlock = toBlock || currentBlock;
+      const startBlock = (await this.logSync.getLatestIndexedBlock(chain)) + 1n;
+      const endBlock = toBlock ?? (await this.logSync.getSafeBlock(chain));
 
       this.logger.log(
-        `Backfilling ${chain} from block ${startBlock} to ${endBlock} (${endBlock - startBlock + 1n} blocks)`,
+        `Backfilling ${chain} from block ${startBlock} to ${endBlock}`,
       );
 
-      const batchSize = 1000n; // Process 1000 blocks at a time
-      let eventsProcessed = 0;
-      let blocksScanned = 0;
-
-      for (let block = startBlock; block <= endBlock; block += batchSize) {
-        const toBlockBatch = block + batchSize - 1n > endBlock ? endBlock : block + batchSize - 1n;
-
-        this.logger.debug(`Processing blocks ${block} to ${toBlockBatch}`);
-
-        const events = await this.fetchEventsInRange(chain, block, toBlockBatch);
-
-        // Queue events for processing
-        for (const event of events) {
-          await this.indexerQueue.add('process-event', event);
-          eventsProcessed++;
-        }
-
-        blocksScanned += Number(toBlockBatch - block + 1n);
-
-        // Small delay to avoid rate limiting
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      }
+      const { events, blocks } = await this.logSync.syncChain(chain, endBlock, () =>
+        this.pauseRequested.has(chain),
+      );
 
       this.logger.log(
-        `Backfill complete for ${chain}: ${eventsProcessed} events, ${blocksScanned} blocks`,
+        `Backfill ${this.pauseRequested.has(chain) ? 'paused' : 'complete'} for ${chain}: ${events} events, ${blocks} blocks`,
       );
 
-      return { eventsProcessed, blocksScanned };
+      return { eventsProcessed: events, blocksScanned: blocks };
     } finally {
-      this.isBackfilling = false;
+      this.running.delete(chain);
     }
   }
 
   /**
-   * Fetch events in a block range
-   */
-  private async fetchEventsInRange(
-    chain: SupportedChain,
-    fromBlock: bigint,
-    toBlock: bigint,
-  ): Promise<IndexerJobData[]> {
-    const client = this.chain.getPublicClient(chain);
-    const chainId = chain === 'monad' ? 10143 : 84532;
-
-    // Get contract addresses
-    const contracts = [
-      this.config.get(`blockchain.${chain}.contracts.strategyRegistry`),
-      this.config.get(`blockchain.${chain}.contracts.delegationManager`),
-      this.config.get(`blockchain.${chain}.contracts.delegateExecutor`),
-    ].filter(Boolean);
-
-    const events: IndexerJobData[] = [];
-
-    // TODO: Use viem's getLogs with proper ABIs
-    // For now, return empty array (needs actual implementation with contract ABIs)
-
-    this.logger.debug(
-      `Fetched ${events.length} events from blocks ${fromBlock}-${toBlock}`,
-    );
-
-    return events;
-  }
-
-  /**
-   * Get deployment block for a chain
-   */
-  private getDeploymentBlock(chain: SupportedChain): bigint {
-    // Return the block where contracts were deployed
-    // TODO: Store deployment blocks in config
-    return chain === 'monad' ? 0n : 0n;
-  }
-
-  /**
-   * Backfill specific contract events
+   * Backfill a single indexed contract
    */
   async backfillContract(
     chain: SupportedChain,
     contractAddress: string,
-    eventName: string,
     fromBlock?: bigint,
     toBlock?: bigint,
   ) {
-    this.logger.log(
-      `Backfilling ${eventName} events from ${contractAddress} on ${chain}`,
-    );
-
-    const client = this.chain.getPublicClient(chain);
-    const currentBlock = await client.getBlockNumber();
+    this.logger.log(`Backfilling ${contractAddress} on ${chain}`);
 
-    const startBlock = fromBlock || this.getDeploymentBlock(chain);
-    const endBlock = toBlock || currentBlock;
+    if (fromBlock !== undefined) {
+      await this.logSync.rewind(chain, fromBlock, contractAddress);
+    }
 
-    // TODO: Implement specific event backfill using viem's getLogs
-    // with contract address and event signature
+    const endBlock = toBlock ?? (await this.logSync.getSafeBlock(chain));
+    const { events } = await this.logSync.syncContractAddress(chain, contractAddress, endBlock);
 
-    this.logger.log(`Backfill complete for ${eventName} on ${contractAddress}`);
+    this.logger.log(`Backfill complete for ${contractAddress}: ${events} events`);
   }
 
   /**
@@ -156,32 +93,31 @@ export class BackfillService {
   }> {
     const client = this.chain.getPublicClient(chain);
     const currentBlock = await client.getBlockNumber();
-
-    // TODO: Query database for latest indexed block
-    const latestIndexedBlock = 0n;
+    const latestIndexedBlock = await this.logSync.getLatestIndexedBlock(chain);
 
     return {
-      isBackfilling: this.isBackfilling,
+      isBackfilling: this.running.has(chain),
       currentBlock,
       latestIndexedBlock,
-      remainingBlocks: currentBlock - latestIndexedBlock,
+      remainingBlocks: currentBlock > latestIndexedBlock ? currentBlock - latestIndexedBlock : 0n,
     };
   }
 
   /**
-   * Pause backfill
+   * Pause backfill (stops after the current batch)
    */
-  pause() {
-    this.logger.warn('Backfill paused');
-    this.isBackfilling = false;
+  pause(chain?: SupportedChain) {
+    this.logger.warn(`Backfill paused${chain ? ` for ${chain}` : ''}`);
+    for (const running of chain ? [chain] : [...this.running]) {
+      this.pauseRequested.add(running);
+    }
   }
 
   /**
-   * Resume backfill
+   * Resume backfill from the persisted checkpoints
    */
   async resume(chain: SupportedChain) {
     this.logger.log('Resuming backfill...');
-    const progress = await this.getProgress(chain);
-    await this.backfillChain(chain, progress.latestIndexedBlock + 1n);
+    await this.backfillChain(chain);
   }
 }
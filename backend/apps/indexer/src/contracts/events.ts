@@ -0,0 +1,38 @@
+import { parseAbi } from 'viem';
+import { ChainContracts } from '@app/blockchain/chains';
+
+/**
+ * Event ABIs the indexer ingests
+ * Signatures match contract/src (StrategyRegistry, RebalanceExecutor) and the
+ * MetaMask Delegation Framework DelegationManager
+ */
+
+export const StrategyRegistryEvents = parseAbi([
+  'event StrategyCreated(address indexed delegator, address indexed owner, uint256 indexed strategyId, string name, address[] tokens, uint256[] weights)',
+  'event StrategyUpdated(address indexed delegator, uint256 indexed strategyId, address[] tokens, uint256[] weights)',
+  'event StrategyPaused(address indexed delegator, uint256 indexed strategyId)',
+  'event StrategyDeleted(address indexed delegator, uint256 indexed strategyId)',
+]);
+
+export const DelegationManagerEvents = parseAbi([
+  'struct Caveat { address enforcer; bytes terms; bytes args; }',
+  'struct Delegation { address delegate; address delegator; bytes32 authority; Caveat[] caveats; uint256 salt; bytes signature; }',
+  'event DisabledDelegation(bytes32 indexed delegationHash, address indexed delegator, address indexed delegate, Delegation delegation)',
+]);
+
+export const RebalanceExecutorEvents = parseAbi([
+  'event RebalanceExecuted(address indexed user, uint256 indexed strategyId, uint256 timestamp, uint256 drift, uint256 gasReimbursed)',
+  'event RebalanceFailed(address indexed user, uint256 indexed strategyId, string reason)',
+]);
+
+export interface IndexedContract {
+  name: string;
+  contract: keyof ChainContracts; // Address comes from the chain registry
+  events: typeof StrategyRegistryEvents | typeof DelegationManagerEvents | typeof RebalanceExecutorEvents;
+}
+
+export const INDEXED_CONTRACTS: IndexedContract[] = [
+  { name: 'StrategyRegistry', contract: 'registry', events: StrategyRegistryEvents },
+  { name: 'DelegationManager', contract: 'delegationManager', events: DelegationManagerEvents },
+  { name: 'RebalanceExecutor', contract: 'executor', events: RebalanceExecutorEvents },
+];
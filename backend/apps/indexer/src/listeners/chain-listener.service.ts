@@ -1,151 +1,80 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import { InjectQueue } from '@nestjs/bull';
-import { Queue } from 'bull';
-import { ChainService } from '@app/blockchain';
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { QUEUE_NAMES, IndexerJobData } from '@app/queue/types';
+import { ChainRegistryService, ChainService } from '@app/blockchain';
 import { SupportedChain } from '@app/blockchain/chains';
-
+import { LogSyncService } from '../sync/log-sync.service';
+import { ReorgService } from '../sync/reorg.service';
+
+/**
+ * Chain Listener
+ * Polls each chain's head and indexes every block once it has enough confirmations
+ * Progress lives in indexer_checkpoints, so a restart resumes where the last run stopped
+ */
 @Injectable()
-export class ChainListenerService implements OnModuleInit {
+export class ChainListenerService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(ChainListenerService.name);
-  private isListening = false;
+  private readonly timers: NodeJS.Timeout[] = [];
+  private readonly polling = new Set<SupportedChain>();
 
   constructor(
     private readonly chain: ChainService,
+    private readonly registry: ChainRegistryService,
     private readonly config: ConfigService,
-    @InjectQueue(QUEUE_NAMES.INDEXER) private readonly indexerQueue: Queue,
+    private readonly logSync: LogSyncService,
+    private readonly reorg: ReorgService,
   ) {}
 
   async onModuleInit() {
-    // Start listening to both chains
-    await this.startListening('monad');
-    await this.startListening('base');
+    // Start listening to every chain with an RPC client
+    for (const chain of this.chain.getInitializedChains()) {
+      await this.startListening(chain);
+    }
+  }
+
+  onModuleDestroy() {
+    this.timers.forEach((timer) => clearInterval(timer));
   }
 
   /**
    * Start listening to events on a chain
    */
   private async startListening(chain: SupportedChain) {
-    this.logger.log(`Starting event listener for ${chain}`);
-
-    const client = this.chain.getPublicClient(chain);
-    const chainId = chain === 'monad' ? 10143 : 84532;
-
-    // Get contract addresses
-    const strategyRegistry = this.config.get(
-      `blockchain.${chain}.contracts.strategyRegistry`,
-    );
-    const delegationManager = this.config.get(
-      `blockchain.${chain}.contracts.delegationManager`,
-    );
-    const delegateExecutor = this.config.get(
-      `blockchain.${chain}.contracts.delegateExecutor`,
-    );
-
-    // Listen to StrategyRegistry events
-    await this.watchContract(
-      chain,
-      strategyRegistry as `0x${string}`,
-      'StrategyRegistry',
-      [
-        'StrategyCreated',
-        'StrategyUpdated',
-        'StrategyDeactivated',
-        'RebalanceThresholdUpdated',
-      ],
-    );
+    const { confirmations } = this.registry.getChain(chain);
+    this.logger.log(`Starting event listener for ${chain} (${confirmations} confirmations)`);
 
-    // Listen to DelegationManager events
-    await this.watchContract(
-      chain,
-      delegationManager as `0x${string}`,
-      'DelegationManager',
-      ['DelegationCreated', 'DelegationRevoked', 'DelegationExecuted'],
-    );
+    // Events stored before a crash but never processed
+    const requeued = await this.logSync.queuePending(chain);
+    if (requeued > 0) {
+      this.logger.log(`Requeued ${requeued} unprocessed events on ${chain}`);
+    }
 
-    // Listen to DelegateExecutor events
-    await this.watchContract(
-      chain,
-      delegateExecutor as `0x${string}`,
-      'DelegateExecutor',
-      ['RebalanceExecuted', 'RebalanceFailed', 'SwapExecuted'],
-    );
+    const pollInterval = this.config.get<number>('indexer.pollInterval', 3000);
+    this.timers.push(setInterval(() => this.poll(chain), pollInterval));
   }
 
   /**
-   * Watch events from a specific contract
+   * Check for reorgs, then index up to the latest final block
    */
-  private async watchContract(
-    chain: SupportedChain,
-    address: `0x${string}`,
-    contractName: string,
-    events: string[],
-  ) {
-    const client = this.chain.getPublicClient(chain);
-    const chainId = chain === 'monad' ? 10143 : 84532;
-
-    // TODO: Use viem's watchContractEvent with actual ABIs
-    // For now, set up a polling mechanism
-
-    this.logger.log(
-      `Watching ${contractName} on ${chain} for events: ${events.join(', ')}`,
-    );
-
-    // Poll for new blocks every 3 seconds
-    const pollInterval = 3000;
-
-    setInterval(async () => {
-      try {
-        const currentBlock = await client.getBlockNumber();
-
-        // TODO: Replace with actual event watching using viem
-        // client.watchContractEvent({
-        //   address,
-        //   abi: CONTRACT_ABI,
-        //   eventName: 'EventName',
-        //   onLogs: (logs) => this.handleLogs(logs, chain)
-        // })
+  private async poll(chain: SupportedChain) {
+    // Previous poll (or a long catch-up) still running
+    if (this.polling.has(chain)) return;
+    this.polling.add(chain);
 
-        // For now, just log the current block
-        this.logger.debug(
-          `${chain} current block: ${currentBlock}`,
-        );
-      } catch (error) {
-        this.logger.error(
-          `Error polling ${chain}: ${error.message}`,
-        );
-      }
-    }, pollInterval);
-  }
-
-  /**
-   * Handle contract event logs
-   */
-  private async handleLogs(logs: any[], chain: SupportedChain) {
-    for (const log of logs) {
-      try {
-        const jobData: IndexerJobData = {
-          chainId: chain === 'monad' ? 10143 : 84532,
-          eventName: log.eventName,
-          blockNumber: log.blockNumber,
-          transactionHash: log.transactionHash,
-          logIndex: log.logIndex ?? 0,
-          data: log.args,
-        };
+    try {
+      await this.reorg.check(chain);
 
-        // Queue event for processing
-        await this.indexerQueue.add('process-event', jobData);
+      const safeBlock = await this.logSync.getSafeBlock(chain);
+      const { events } = await this.logSync.syncChain(chain, safeBlock);
 
-        this.logger.debug(
-          `Queued ${log.eventName} event from ${chain} (block ${log.blockNumber})`,
-        );
-      } catch (error) {
-        this.logger.error(
-          `Error handling log: ${error.message}`,
-          error.stack,
-        );
+      if (events > 0) {
+        this.logger.debug(`Queued ${events} events from ${chain} (up to block ${safeBlock})`);
       }
+    } catch (error) {
+      this.logger.error(
+        `Error polling ${chain}: ${error.message}`,
+      );
+    } finally {
+      this.polling.delete(chain);
     }
   }
 
@@ -153,31 +82,23 @@ export class ChainListenerService implements OnModuleInit {
    * Get latest indexed block for a chain
    */
   async getLatestIndexedBlock(chain: SupportedChain): Promise<bigint> {
-    // TODO: Query database for last indexed block
-    // For now, return 0
-    return 0n;
+    return this.logSync.getLatestIndexedBlock(chain);
   }
 
   /**
    * Health check for listeners
    */
-  async healthCheck(): Promise<{ monad: boolean; base: boolean }> {
-    try {
-      const monadClient = this.chain.getPublicClient('monad');
-      const baseClient = this.chain.getPublicClient('base');
-
-      const [monadBlock, baseBlock] = await Promise.all([
-        monadClient.getBlockNumber().catch(() => null),
-        baseClient.getBlockNumber().catch(() => null),
-      ]);
+  async healthCheck(): Promise<Record<SupportedChain, boolean>> {
+    const chains = this.chain.getInitializedChains();
+    const blocks = await Promise.all(
+      chains.map((chain) =>
+        this.chain
+          .getPublicClient(chain)
+          .getBlockNumber()
+          .catch(() => null),
+      ),
+    );
 
-      return {
-        monad: monadBlock !== null,
-        base: baseBlock !== null,
-      };
-    } catch (error) {
-      this.logger.error(`Health check failed: ${error.message}`);
-      return { monad: false, base: false };
-    }
+    return Object.fromEntries(chains.map((chain, i) => [chain, blocks[i] !== null]));
   }
 }
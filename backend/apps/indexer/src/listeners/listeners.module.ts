@@ -1,14 +1,9 @@
 import { Module } from '@nestjs/common';
-import { BullModule } from '@nestjs/bull';
-import { QUEUE_NAMES } from '@app/queue/types';
+import { SyncModule } from '../sync/sync.module';
 import { ChainListenerService } from './chain-listener.service';
 
 @Module({
-  imports: [
-    BullModule.registerQueue({
-      name: QUEUE_NAMES.INDEXER,
-    }),
-  ],
+  imports: [SyncModule],
   providers: [ChainListenerService],
   exports: [ChainListenerService],
 })
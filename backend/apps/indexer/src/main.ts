@@ -1,5 +1,6 @@
 import { NestFactory } from '@nestjs/core';
 import { Logger } from '@nestjs/common';
+import { ChainRegistryService, ChainService } from '@app/blockchain';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
@@ -10,8 +11,12 @@ async function bootstrap() {
   await app.init();
 
   logger.log('📡 Indexer Worker started successfully');
-  logger.log('🔗 Monad listener: Active');
-  logger.log('🔗 Base listener: Active');
+  // ChainListenerService only starts on enabled chains that have an RPC client
+  const listening = app.get(ChainService).getInitializedChains();
+  for (const chain of app.get(ChainRegistryService).getChains()) {
+    const status = listening.includes(chain.key) ? 'Active' : 'Inactive (no RPC client)';
+    logger.log(`🔗 ${chain.name} listener: ${status}`);
+  }
   logger.log('⚙️  Event processors: Ready');
   logger.log('📊 Backfill service: Standby');
 }
@@ -1,12 +1,32 @@
 import { Processor, Process } from '@nestjs/bull';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bull';
+import { ChainEvent, Prisma } from '@prisma/client';
 import { PrismaService } from '@app/database';
 import { NotificationsGateway } from '@app/notifications';
-import { QUEUE_NAMES, IndexerJobData } from '@app/queue/types';
+import { QUEUE_NAMES, JOB_NAMES, IndexerJobData } from '@app/queue/types';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
 
+// Strategies created directly on-chain don't emit an interval - editable through the API
+const DEFAULT_REBALANCE_INTERVAL = 86400n;
+
+/**
+ * Row written by a handler, reverted when its block is orphaned
+ * previous holds overwritten fields (bigints as strings, dates as ISO strings)
+ */
+interface EventEffect {
+  model: 'strategy' | 'delegation' | 'rebalance';
+  id: string;
+  created?: boolean;
+  previous?: Record<string, unknown>;
+}
+
+interface HandlerResult {
+  effects: EventEffect[];
+  after?: () => void; // Runs once the transaction committed (websocket notifications)
+}
+
 @Processor(QUEUE_NAMES.INDEXER)
 export class EventProcessor {
   private readonly logger = new Logger(EventProcessor.name);
@@ -19,51 +39,44 @@ export class EventProcessor {
 
   /**
    * Process blockchain events
+   * The event is claimed and its handler runs in one transaction, so replays are no-ops
    */
   @Process('process-event')
   async handleEvent(job: Job<IndexerJobData>) {
-    const { chainId, eventName, blockNumber, transactionHash, data } = job.data;
+    const { eventId, chainId, eventName, blockNumber } = job.data;
 
     this.logger.log(
       `Processing ${eventName} event from chain ${chainId} (block ${blockNumber})`,
     );
 
     try {
-      switch (eventName) {
-        case 'StrategyCreated':
-          await this.handleStrategyCreated(data, chainId, transactionHash);
-          break;
-
-        case 'StrategyUpdated':
-          await this.handleStrategyUpdated(data, chainId, transactionHash);
-          break;
-
-        case 'StrategyDeactivated':
-          await this.handleStrategyDeactivated(data, chainId, transactionHash);
-          break;
-
-        case 'DelegationCreated':
-          await this.handleDelegationCreated(data, chainId, transactionHash);
-          break;
-
-        case 'DelegationRevoked':
-          await this.handleDelegationRevoked(data, chainId, transactionHash);
-          break;
-
-        case 'RebalanceExecuted':
-          await this.handleRebalanceExecuted(data, chainId, transactionHash);
-          break;
-
-        case 'RebalanceFailed':
-          await this.handleRebalanceFailed(data, chainId, transactionHash);
-          break;
+      const result = await this.prisma.$transaction(async (tx) => {
+        // Claim - an already processed (or rolled back) event matches nothing
+        const { count } = await tx.chainEvent.updateMany({
+          where: { id: eventId, processedAt: null },
+          data: { processedAt: new Date(), error: null },
+        });
+        if (count === 0) return null;
+
+        const event = await tx.chainEvent.findUnique({ where: { id: eventId } });
+        const outcome = await this.apply(tx, event);
+
+        await tx.chainEvent.update({
+          where: { id: eventId },
+          data: { effects: outcome.effects as unknown as Prisma.InputJsonValue },
+        });
+        return outcome;
+      });
 
-        default:
-          this.logger.warn(`Unknown event type: ${eventName}`);
+      if (!result) {
+        this.logger.debug(`Skipping ${eventName} (${eventId}): already processed`);
+        return;
       }
 
+      result.after?.();
+
       // Queue analytics update
-      await this.analyticsQueue.add('update-analytics', {
+      await this.analyticsQueue.add(JOB_NAMES.UPDATE_ANALYTICS, {
         eventName,
         chainId,
         timestamp: new Date(),
@@ -73,221 +86,403 @@ export class EventProcessor {
         `Error processing ${eventName}: ${error.message}`,
         error.stack,
       );
+      await this.prisma.chainEvent
+        .updateMany({ where: { id: eventId }, data: { error: error.message } })
+        .catch(() => undefined);
       throw error;
     }
   }
 
   /**
-   * Handle StrategyCreated event
+   * Undo the rows an event's handler wrote (reorg rollback)
    */
-  private async handleStrategyCreated(data: any, chainId: number, txHash: string) {
-    const { strategyId, user, tokens, weights, rebalanceInterval } = data;
+  async revert(tx: Prisma.TransactionClient, event: ChainEvent) {
+    const effects = (event.effects ?? []) as unknown as EventEffect[];
+
+    for (const { model, id, created, previous } of [...effects].reverse()) {
+      switch (model) {
+        case 'strategy':
+          if (created) {
+            await tx.strategy.deleteMany({ where: { id } });
+          } else {
+            await tx.strategy.updateMany({ where: { id }, data: previous });
+          }
+          break;
+
+        case 'delegation':
+          await tx.delegation.updateMany({ where: { id }, data: previous });
+          break;
+
+        case 'rebalance':
+          if (created) {
+            await tx.rebalance.deleteMany({ where: { id } });
+          } else {
+            await tx.rebalance.updateMany({
+              where: { id },
+              data: { ...previous, drift: BigInt(previous.drift as string) },
+            });
+          }
+          break;
+      }
+    }
+
+    this.logger.log(`Reverted ${event.eventName} (tx ${event.txHash}, log ${event.logIndex})`);
+  }
+
+  private async apply(tx: Prisma.TransactionClient, event: ChainEvent): Promise<HandlerResult> {
+    const { chainId, eventName, txHash } = event;
+    const data = event.args as any;
+
+    switch (eventName) {
+      case 'StrategyCreated':
+        return this.handleStrategyCreated(tx, data, chainId, txHash);
 
-    await this.prisma.strategy.upsert({
+      case 'StrategyUpdated':
+        return this.handleStrategyUpdated(tx, data, chainId);
+
+      case 'StrategyPaused':
+      case 'StrategyDeleted':
+        return this.handleStrategyDeactivated(tx, data, chainId);
+
+      case 'DisabledDelegation':
+        return this.handleDelegationRevoked(tx, data);
+
+      case 'RebalanceExecuted':
+        return this.handleRebalanceExecuted(tx, data, chainId, txHash);
+
+      case 'RebalanceFailed':
+        return this.handleRebalanceFailed(tx, data, chainId, txHash);
+
+      default:
+        this.logger.warn(`Unknown event type: ${eventName}`);
+        return { effects: [] };
+    }
+  }
+
+  /**
+   * Handle StrategyCreated event
+   */
+  private async handleStrategyCreated(
+    tx: Prisma.TransactionClient,
+    data: any,
+    chainId: number,
+    txHash: string,
+  ): Promise<HandlerResult> {
+    const { strategyId, owner, delegator, name, tokens, weights } = data;
+    const userAddress = String(owner).toLowerCase();
+
+    // Strategies deployed through the API already exist
+    const existing = await tx.strategy.findUnique({
       where: {
         userAddress_strategyId_chainId: {
-          userAddress: user.toLowerCase(),
+          userAddress,
           strategyId: BigInt(strategyId),
           chainId,
         },
       },
-      create: {
+      select: { id: true },
+    });
+    if (existing) return { effects: [] };
+
+    await tx.user.upsert({
+      where: { address: userAddress },
+      create: { address: userAddress },
+      update: {},
+    });
+
+    const strategy = await tx.strategy.create({
+      data: {
         chainId,
         strategyId: BigInt(strategyId),
-        userAddress: String(user).toLowerCase(),
-        name: `Strategy ${strategyId}`,
+        userAddress,
+        delegatorAddress: String(delegator).toLowerCase(),
+        name: name || `Strategy ${strategyId}`,
         tokens: tokens.map((t: string) => String(t).toLowerCase()),
-        weights: weights.map((w: number) => Number(w)),
-        rebalanceInterval: BigInt(rebalanceInterval),
+        weights: weights.map((w: string) => Number(w)),
+        rebalanceInterval: DEFAULT_REBALANCE_INTERVAL,
         isActive: true,
+        isDeployed: true,
+        deployTxHash: txHash,
       },
-      update: {},
     });
 
-    this.notifications.broadcastSystemMessage('New strategy created', {
-      strategyId: strategyId.toString(),
-      user,
-      chainId,
-    });
+    this.logger.log(`Indexed StrategyCreated: ${strategyId} for ${userAddress}`);
 
-    this.logger.log(`Indexed StrategyCreated: ${strategyId} for ${user}`);
+    return {
+      effects: [{ model: 'strategy', id: strategy.id, created: true }],
+      after: () =>
+        this.notifications.broadcastSystemMessage('New strategy created', {
+          strategyId: strategyId.toString(),
+          user: userAddress,
+          chainId,
+        }),
+    };
   }
 
   /**
    * Handle StrategyUpdated event
    */
-  private async handleStrategyUpdated(data: any, chainId: number, txHash: string) {
-    const { strategyId, weights, rebalanceInterval } = data;
-
-    await this.prisma.strategy.updateMany({
+  private async handleStrategyUpdated(
+    tx: Prisma.TransactionClient,
+    data: any,
+    chainId: number,
+  ): Promise<HandlerResult> {
+    const { strategyId, tokens, weights } = data;
+
+    const strategies = await tx.strategy.findMany({
       where: {
         strategyId: BigInt(strategyId),
         chainId,
       },
-      data: {
-        weights,
-        rebalanceInterval: BigInt(rebalanceInterval),
-      },
+      select: { id: true, tokens: true, weights: true },
     });
 
+    for (const strategy of strategies) {
+      await tx.strategy.update({
+        where: { id: strategy.id },
+        data: {
+          tokens: tokens.map((t: string) => String(t).toLowerCase()),
+          weights: weights.map((w: string) => Number(w)),
+        },
+      });
+    }
+
     this.logger.log(`Indexed StrategyUpdated: ${strategyId}`);
+
+    return {
+      effects: strategies.map((strategy) => ({
+        model: 'strategy',
+        id: strategy.id,
+        previous: { tokens: strategy.tokens, weights: strategy.weights },
+      })),
+    };
   }
 
   /**
-   * Handle StrategyDeactivated event
+   * Handle StrategyPaused / StrategyDeleted events
    */
-  private async handleStrategyDeactivated(data: any, chainId: number, txHash: string) {
+  private async handleStrategyDeactivated(
+    tx: Prisma.TransactionClient,
+    data: any,
+    chainId: number,
+  ): Promise<HandlerResult> {
     const { strategyId } = data;
 
-    await this.prisma.strategy.updateMany({
+    const strategies = await tx.strategy.findMany({
       where: {
         strategyId: BigInt(strategyId),
         chainId,
+        isActive: true,
       },
+      select: { id: true },
+    });
+
+    await tx.strategy.updateMany({
+      where: { id: { in: strategies.map((strategy) => strategy.id) } },
       data: {
         isActive: false,
       },
     });
 
     this.logger.log(`Indexed StrategyDeactivated: ${strategyId}`);
-  }
-
-  /**
-   * Handle DelegationCreated event
-   */
-  private async handleDelegationCreated(data: any, chainId: number, txHash: string) {
-    const { delegationHash, user, delegate, strategyId } = data;
-
-    // Find the strategy
-    const strategy = await this.prisma.strategy.findFirst({
-      where: {
-        strategyId: BigInt(strategyId),
-        chainId,
-        userAddress: user.toLowerCase(),
-      },
-    });
 
-    if (strategy) {
-      await this.prisma.delegation.upsert({
-        where: { id: delegationHash },
-        create: {
-          id: delegationHash,
-          chainId,
-          strategyId: strategy.id,
-          userAddress: user.toLowerCase(),
-          delegateAddress: delegate.toLowerCase(),
-          delegationData: data,
-          signature: data.signature || '',
-          isActive: true,
-        },
-        update: {
-          isActive: true,
-        },
-      });
-
-      this.logger.log(`Indexed DelegationCreated: ${delegationHash}`);
-    }
+    return {
+      effects: strategies.map((strategy) => ({
+        model: 'strategy',
+        id: strategy.id,
+        previous: { isActive: true },
+      })),
+    };
   }
 
   /**
-   * Handle DelegationRevoked event
+   * Handle DisabledDelegation event
    */
-  private async handleDelegationRevoked(data: any, chainId: number, txHash: string) {
+  private async handleDelegationRevoked(
+    tx: Prisma.TransactionClient,
+    data: any,
+  ): Promise<HandlerResult> {
     const { delegationHash } = data;
 
-    await this.prisma.delegation.update({
+    const delegation = await tx.delegation.findUnique({
       where: { id: delegationHash },
-      data: { isActive: false },
+      select: { id: true, isActive: true, revokedAt: true },
+    });
+    if (!delegation) return { effects: [] };
+
+    await tx.delegation.update({
+      where: { id: delegationHash },
+      data: { isActive: false, revokedAt: delegation.revokedAt ?? new Date() },
     });
 
     this.logger.log(`Indexed DelegationRevoked: ${delegationHash}`);
+
+    return {
+      effects: [
+        {
+          model: 'delegation',
+          id: delegation.id,
+          previous: {
+            isActive: delegation.isActive,
+            revokedAt: delegation.revokedAt?.toISOString() ?? null,
+          },
+        },
+      ],
+    };
   }
 
   /**
    * Handle RebalanceExecuted event
    */
-  private async handleRebalanceExecuted(data: any, chainId: number, txHash: string) {
-    const { strategyId, drift, gasUsed, executor } = data;
+  private async handleRebalanceExecuted(
+    tx: Prisma.TransactionClient,
+    data: any,
+    chainId: number,
+    txHash: string,
+  ): Promise<HandlerResult> {
+    const { strategyId, drift, timestamp } = data;
 
     // Find the strategy
-    const strategy = await this.prisma.strategy.findFirst({
+    const strategy = await tx.strategy.findFirst({
       where: {
         strategyId: BigInt(strategyId),
         chainId,
       },
     });
+    if (!strategy) return { effects: [] };
 
-    if (strategy) {
-      await this.prisma.rebalance.create({
-        data: {
-          strategyId: strategy.id,
-          chainId,
-          userAddress: strategy.userAddress,
-          txHash,
-          drift: BigInt(drift),
-          gasUsed: BigInt(gasUsed),
-          gasPrice: 0n, // TODO: Get from transaction receipt
-          gasCost: 0n,
-          swapsExecuted: 0,
-          status: 'SUCCESS',
-          executedAt: new Date(),
-        },
+    const executedAt = new Date(Number(timestamp) * 1000);
+
+    // The bot records its own transactions - confirm the row instead of duplicating it
+    const existing = await tx.rebalance.findUnique({ where: { txHash } });
+    if (existing) {
+      await tx.rebalance.update({
+        where: { id: existing.id },
+        data: { status: 'SUCCESS', drift: BigInt(drift), executedAt },
       });
 
-      // Notify user via WebSocket
-      this.notifications.emitRebalanceCompleted(strategy.userAddress, {
+      this.logger.log(`Confirmed RebalanceExecuted: ${strategyId} (tx: ${txHash})`);
+
+      return {
+        effects: [
+          {
+            model: 'rebalance',
+            id: existing.id,
+            previous: {
+              status: existing.status,
+              drift: existing.drift.toString(),
+              executedAt: existing.executedAt.toISOString(),
+            },
+          },
+        ],
+      };
+    }
+
+    const rebalance = await tx.rebalance.create({
+      data: {
         strategyId: strategy.id,
+        chainId,
+        userAddress: strategy.userAddress,
         txHash,
-        drift: Number(drift) / 100,
-        gasUsed: gasUsed.toString(),
-        timestamp: new Date().toISOString(),
-      });
+        drift: BigInt(drift),
+        gasUsed: 0n, // TODO: Get from transaction receipt
+        gasPrice: 0n,
+        gasCost: 0n,
+        swapsExecuted: 0,
+        status: 'SUCCESS',
+        executedAt,
+      },
+    });
 
-      this.logger.log(`Indexed RebalanceExecuted: ${strategyId} (tx: ${txHash})`);
-    }
+    this.logger.log(`Indexed RebalanceExecuted: ${strategyId} (tx: ${txHash})`);
+
+    return {
+      effects: [{ model: 'rebalance', id: rebalance.id, created: true }],
+      // Notify user via WebSocket
+      after: () =>
+        this.notifications.emitRebalanceCompleted(strategy.userAddress, {
+          strategyId: strategy.id,
+          txHash,
+          drift: Number(drift) / 100,
+          gasUsed: '0',
+          timestamp: executedAt.toISOString(),
+        }),
+    };
   }
 
   /**
    * Handle RebalanceFailed event
    */
-  private async handleRebalanceFailed(data: any, chainId: number, txHash: string) {
+  private async handleRebalanceFailed(
+    tx: Prisma.TransactionClient,
+    data: any,
+    chainId: number,
+    txHash: string,
+  ): Promise<HandlerResult> {
     const { strategyId, reason } = data;
 
     // Find the strategy
-    const strategy = await this.prisma.strategy.findFirst({
+    const strategy = await tx.strategy.findFirst({
       where: {
         strategyId: BigInt(strategyId),
         chainId,
       },
     });
+    if (!strategy) return { effects: [] };
 
-    if (strategy) {
-      await this.prisma.rebalance.create({
-        data: {
-          strategyId: strategy.id,
-          chainId,
-          userAddress: strategy.userAddress,
-          txHash: txHash || '',
-          drift: 0n,
-          gasUsed: 0n,
-          gasPrice: 0n,
-          gasCost: 0n,
-          swapsExecuted: 0,
-          status: 'FAILED',
-          errorMessage: String(reason),
-          executedAt: new Date(),
-        },
+    const existing = await tx.rebalance.findUnique({ where: { txHash } });
+    if (existing) {
+      await tx.rebalance.update({
+        where: { id: existing.id },
+        data: { status: 'FAILED', errorMessage: String(reason) },
       });
 
-      // Notify user of failure
-      this.notifications.emitRebalanceCompleted(strategy.userAddress, {
+      this.logger.log(`Confirmed RebalanceFailed: ${strategyId} (tx: ${txHash})`);
+
+      return {
+        effects: [
+          {
+            model: 'rebalance',
+            id: existing.id,
+            previous: {
+              status: existing.status,
+              drift: existing.drift.toString(),
+              errorMessage: existing.errorMessage,
+            },
+          },
+        ],
+      };
+    }
+
+    const rebalance = await tx.rebalance.create({
+      data: {
         strategyId: strategy.id,
-        success: false,
-        error: reason,
-        timestamp: new Date().toISOString(),
-      });
+        chainId,
+        userAddress: strategy.userAddress,
+        txHash,
+        drift: 0n,
+        gasUsed: 0n,
+        gasPrice: 0n,
+        gasCost: 0n,
+        swapsExecuted: 0,
+        status: 'FAILED',
+        errorMessage: String(reason),
+        executedAt: new Date(),
+      },
+    });
 
-      this.logger.log(`Indexed RebalanceFailed: ${strategyId}`);
-    }
+    this.logger.log(`Indexed RebalanceFailed: ${strategyId}`);
+
+    return {
+      effects: [{ model: 'rebalance', id: rebalance.id, created: true }],
+      // Notify user of failure
+      after: () =>
+        this.notifications.emitRebalanceCompleted(strategy.userAddress, {
+          strategyId: strategy.id,
+          success: false,
+          error: reason,
+          timestamp: new Date().toISOString(),
+        }),
+    };
   }
 }
@@ -0,0 +1,294 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { AbiEvent, Address } from 'viem';
+import { ChainEvent, IndexerCheckpoint, Prisma } from '@prisma/client';
+import { ChainRegistryService, ChainService } from '@app/blockchain';
+import { SupportedChain } from '@app/blockchain/chains';
+import { PrismaService } from '@app/database';
+import { QUEUE_NAMES, JOB_NAMES, IndexerJobData } from '@app/queue/types';
+import { INDEXED_CONTRACTS } from '../contracts/events';
+
+interface ContractTarget {
+  name: string;
+  address: Address;
+  events: readonly AbiEvent[];
+}
+
+export interface SyncResult {
+  events: number;
+  blocks: number;
+}
+
+/**
+ * Log Sync Service
+ * Scans indexed contracts from their persisted checkpoint and stores decoded logs in chain_events
+ *
+ * Each batch inserts its events and advances the checkpoint in one transaction, so a crash
+ * never skips blocks. Events are unique on (chainId, txHash, logIndex): re-scanning a range
+ * (restart, backfill, reorg rewind) never duplicates them.
+ */
+@Injectable()
+export class LogSyncService {
+  private readonly logger = new Logger(LogSyncService.name);
+
+  constructor(
+    private readonly chain: ChainService,
+    private readonly registry: ChainRegistryService,
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+    @InjectQueue(QUEUE_NAMES.INDEXER) private readonly indexerQueue: Queue,
+  ) {}
+
+  /**
+   * Highest block considered final (head minus the chain's confirmation depth)
+   */
+  async getSafeBlock(chain: SupportedChain): Promise<bigint> {
+    const head = await this.chain.getPublicClient(chain).getBlockNumber();
+    const confirmations = BigInt(this.registry.getChain(chain).confirmations);
+    return head > confirmations ? head - confirmations : 0n;
+  }
+
+  /**
+   * Scan every indexed contract of a chain up to toBlock
+   * shouldStop is checked between batches (backfill pause)
+   */
+  async syncChain(
+    chain: SupportedChain,
+    toBlock: bigint,
+    shouldStop?: () => boolean,
+  ): Promise<SyncResult> {
+    const result: SyncResult = { events: 0, blocks: 0 };
+
+    for (const target of this.getTargets(chain)) {
+      const synced = await this.syncContract(chain, target, toBlock, shouldStop);
+      result.events += synced.events;
+      result.blocks = Math.max(result.blocks, synced.blocks);
+    }
+
+    return result;
+  }
+
+  /**
+   * Scan a single contract (by address) up to toBlock
+   */
+  async syncContractAddress(
+    chain: SupportedChain,
+    address: string,
+    toBlock: bigint,
+    shouldStop?: () => boolean,
+  ): Promise<SyncResult> {
+    const target = this.getTargets(chain).find(
+      (candidate) => candidate.address === address.toLowerCase(),
+    );
+    if (!target) {
+      throw new Error(`${address} is not an indexed contract on ${chain}`);
+    }
+    return this.syncContract(chain, target, toBlock, shouldStop);
+  }
+
+  /**
+   * Move checkpoints at or above block back to block - 1 so the range is scanned again
+   */
+  async rewind(chain: SupportedChain, block: bigint, address?: string): Promise<void> {
+    const { chainId } = this.registry.getChain(chain);
+    const target = block - 1n;
+    const blockHash =
+      target >= 0n
+        ? (await this.chain.getPublicClient(chain).getBlock({ blockNumber: target })).hash
+        : '';
+
+    // Contracts without a checkpoint start from the chain's start block anyway
+    for (const { address: contract } of this.getTargets(chain)) {
+      await this.getCheckpoint(chain, contract);
+    }
+
+    const { count } = await this.prisma.indexerCheckpoint.updateMany({
+      where: {
+        chainId,
+        blockNumber: { gte: block },
+        ...(address && { contract: address.toLowerCase() }),
+      },
+      data: { blockNumber: target, blockHash },
+    });
+
+    this.logger.log(`Rewound ${count} checkpoints on ${chain} to block ${target}`);
+  }
+
+  /**
+   * Lowest checkpoint of the chain's contracts - every block up to it is indexed
+   */
+  async getLatestIndexedBlock(chain: SupportedChain): Promise<bigint> {
+    const { chainId, startBlock } = this.registry.getChain(chain);
+    const addresses = this.getTargets(chain).map((target) => target.address);
+
+    const checkpoints = await this.prisma.indexerCheckpoint.findMany({
+      where: { chainId, contract: { in: addresses } },
+    });
+    if (checkpoints.length < addresses.length) {
+      return startBlock - 1n;
+    }
+
+    return checkpoints.reduce(
+      (lowest, checkpoint) => (checkpoint.blockNumber < lowest ? checkpoint.blockNumber : lowest),
+      checkpoints[0]?.blockNumber ?? startBlock - 1n,
+    );
+  }
+
+  /**
+   * Queue unprocessed events of a chain (e.g. stored before a crash)
+   */
+  async queuePending(chain: SupportedChain): Promise<number> {
+    const { chainId } = this.registry.getChain(chain);
+    return this.queueEvents({ chainId, processedAt: null });
+  }
+
+  private async syncContract(
+    chain: SupportedChain,
+    target: ContractTarget,
+    toBlock: bigint,
+    shouldStop?: () => boolean,
+  ): Promise<SyncResult> {
+    const client = this.chain.getPublicClient(chain);
+    const { chainId } = this.registry.getChain(chain);
+    const batchSize = BigInt(this.config.get<number>('indexer.batchSize', 1000));
+
+    let checkpoint = await this.getCheckpoint(chain, target.address);
+    const result: SyncResult = { events: 0, blocks: 0 };
+
+    while (checkpoint.blockNumber < toBlock && !shouldStop?.()) {
+      const fromBlock = checkpoint.blockNumber + 1n;
+      const endBlock = fromBlock + batchSize - 1n < toBlock ? fromBlock + batchSize - 1n : toBlock;
+
+      const [logs, block] = await Promise.all([
+        client.getLogs({
+          address: target.address,
+          events: target.events,
+          fromBlock,
+          toBlock: endBlock,
+          strict: true,
+        }),
+        client.getBlock({ blockNumber: endBlock }),
+      ]);
+
+      const advanced = await this.prisma.$transaction(async (tx) => {
+        // Only advance from the checkpoint we read - a reorg rollback or another worker may have moved it
+        const { count } = await tx.indexerCheckpoint.updateMany({
+          where: { id: checkpoint.id, blockNumber: checkpoint.blockNumber },
+          data: { blockNumber: endBlock, blockHash: block.hash },
+        });
+        if (count === 0) return false;
+
+        if (logs.length > 0) {
+          await tx.chainEvent.createMany({
+            data: logs.map((log) => ({
+              chainId,
+              txHash: log.transactionHash,
+              logIndex: log.logIndex,
+              blockNumber: log.blockNumber,
+              blockHash: log.blockHash,
+              contract: target.address,
+              eventName: log.eventName,
+              args: this.toJson(log.args),
+            })),
+            skipDuplicates: true,
+          });
+        }
+        return true;
+      });
+
+      if (!advanced) {
+        this.logger.warn(
+          `${target.name} checkpoint on ${chain} moved during sync - resuming on the next run`,
+        );
+        break;
+      }
+
+      result.events += await this.queueEvents({
+        chainId,
+        contract: target.address,
+        blockNumber: { gte: fromBlock, lte: endBlock },
+        processedAt: null,
+      });
+      result.blocks += Number(endBlock - fromBlock + 1n);
+      checkpoint = { ...checkpoint, blockNumber: endBlock, blockHash: block.hash };
+
+      if (logs.length > 0) {
+        this.logger.debug(
+          `${target.name} on ${chain}: ${logs.length} events in blocks ${fromBlock}-${endBlock}`,
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Checkpoint of a contract, created just before the chain's start block
+   */
+  private async getCheckpoint(chain: SupportedChain, contract: Address): Promise<IndexerCheckpoint> {
+    const { chainId, startBlock } = this.registry.getChain(chain);
+
+    return this.prisma.indexerCheckpoint.upsert({
+      where: { chainId_contract: { chainId, contract } },
+      create: { chainId, contract, blockNumber: startBlock - 1n, blockHash: '' },
+      update: {},
+    });
+  }
+
+  /**
+   * Queue events in block order, one job per event (job ID = event ID)
+   */
+  private async queueEvents(where: Prisma.ChainEventWhereInput): Promise<number> {
+    const events = await this.prisma.chainEvent.findMany({
+      where,
+      orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+    });
+
+    for (const event of events) {
+      await this.enqueue(event);
+    }
+
+    return events.length;
+  }
+
+  private async enqueue(event: ChainEvent) {
+    // Failed jobs are kept (removeOnFail: false) and would swallow a re-add with the same ID
+    const existing = await this.indexerQueue.getJob(event.id);
+    if (existing && (await existing.isFailed())) {
+      await existing.retry();
+      return;
+    }
+
+    const jobData: IndexerJobData = {
+      eventId: event.id,
+      chainId: event.chainId,
+      eventName: event.eventName,
+      blockNumber: Number(event.blockNumber),
+      transactionHash: event.txHash,
+      logIndex: event.logIndex,
+    };
+
+    await this.indexerQueue.add(JOB_NAMES.PROCESS_EVENT, jobData, { jobId: event.id });
+  }
+
+  private getTargets(chain: SupportedChain): ContractTarget[] {
+    const { contracts } = this.registry.getChain(chain);
+
+    return INDEXED_CONTRACTS.filter(({ contract }) => !!contracts[contract]).map(
+      ({ name, contract, events }) => ({
+        name,
+        address: contracts[contract].toLowerCase() as Address,
+        events,
+      }),
+    );
+  }
+
+  // Decoded args hold bigints - store them as strings
+  private toJson(args: unknown): Prisma.InputJsonValue {
+    return JSON.parse(
+      JSON.stringify(args, (_, value) => (typeof value === 'bigint' ? value.toString() : value)),
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BlockNotFoundError, PublicClient } from 'viem';
+import { ChainRegistryService, ChainService } from '@app/blockchain';
+import { SupportedChain } from '@app/blockchain/chains';
+import { PrismaService } from '@app/database';
+import { EventProcessor } from '../processors/event.processor';
+
+/**
+ * Reorg Service
+ * Detects reorgs from checkpoint block hashes and rolls back what orphaned blocks produced
+ *
+ * Rollback:
+ * 1. Rewind to INDEXER_REORG_DEPTH blocks below the mismatched checkpoint
+ * 2. Events in that window whose block hash is no longer canonical are orphaned:
+ *    unprocessed ones are dropped, processed ones have their effects reverted (newest first)
+ * 3. Checkpoints move back to the rewind block - the next sync re-scans the window and
+ *    re-ingests transactions that landed in the new canonical blocks
+ */
+@Injectable()
+export class ReorgService {
+  private readonly logger = new Logger(ReorgService.name);
+
+  constructor(
+    private readonly chain: ChainService,
+    private readonly registry: ChainRegistryService,
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+    private readonly events: EventProcessor,
+  ) {}
+
+  /**
+   * Compare checkpoint hashes with the canonical chain, rolling back on mismatch
+   * Returns true when a reorg was handled
+   */
+  async check(chain: SupportedChain): Promise<boolean> {
+    const { chainId } = this.registry.getChain(chain);
+    const client = this.chain.getPublicClient(chain);
+
+    const checkpoints = await this.prisma.indexerCheckpoint.findMany({
+      where: { chainId, blockHash: { not: '' } },
+      orderBy: { blockNumber: 'desc' },
+    });
+
+    const verified = new Map<bigint, string | null>();
+    for (const checkpoint of checkpoints) {
+      if (!verified.has(checkpoint.blockNumber)) {
+        verified.set(checkpoint.blockNumber, await this.getBlockHash(client, checkpoint.blockNumber));
+      }
+
+      const canonical = verified.get(checkpoint.blockNumber);
+      if (canonical !== checkpoint.blockHash) {
+        this.logger.warn(
+          `Reorg detected on ${chain}: block ${checkpoint.blockNumber} was ${checkpoint.blockHash}, now ${canonical ?? 'missing'}`,
+        );
+        await this.rollback(chain, checkpoint.blockNumber);
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Undo events from orphaned blocks within reorgDepth of forkBlock and rewind checkpoints
+   */
+  async rollback(chain: SupportedChain, forkBlock: bigint): Promise<void> {
+    const { chainId, startBlock } = this.registry.getChain(chain);
+    const client = this.chain.getPublicClient(chain);
+    const reorgDepth = BigInt(this.config.get<number>('indexer.reorgDepth', 64));
+
+    const floor = startBlock - 1n;
+    const rewindTo = forkBlock - reorgDepth > floor ? forkBlock - reorgDepth : floor;
+    const rewindHash = rewindTo >= 0n ? (await this.getBlockHash(client, rewindTo)) ?? '' : '';
+
+    // Blocks in the window that produced events - orphaned if their hash is no longer canonical
+    const blocks = await this.prisma.chainEvent.findMany({
+      where: { chainId, blockNumber: { gt: rewindTo } },
+      select: { blockNumber: true, blockHash: true },
+      distinct: ['blockNumber', 'blockHash'],
+    });
+    const orphaned: string[] = [];
+    for (const block of blocks) {
+      if ((await this.getBlockHash(client, block.blockNumber)) !== block.blockHash) {
+        orphaned.push(block.blockHash);
+      }
+    }
+
+    const { dropped, reverted } = await this.prisma.$transaction(
+      async (tx) => {
+        // Unprocessed events have no effects (a handler committing meanwhile is waited on)
+        const { count: dropped } = await tx.chainEvent.deleteMany({
+          where: { chainId, blockHash: { in: orphaned }, processedAt: null },
+        });
+
+        const processed = await tx.chainEvent.findMany({
+          where: { chainId, blockHash: { in: orphaned } },
+          orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }],
+        });
+        for (const event of processed) {
+          await this.events.revert(tx, event);
+        }
+        await tx.chainEvent.deleteMany({
+          where: { id: { in: processed.map((event) => event.id) } },
+        });
+
+        await tx.indexerCheckpoint.updateMany({
+          where: { chainId, blockNumber: { gt: rewindTo } },
+          data: { blockNumber: rewindTo, blockHash: rewindHash },
+        });
+
+        return { dropped, reverted: processed.length };
+      },
+      { timeout: 60000 },
+    );
+
+    this.logger.warn(
+      `Rolled back ${chain} to block ${rewindTo}: ${orphaned.length} orphaned blocks, ${reverted} events reverted, ${dropped} dropped`,
+    );
+  }
+
+  /**
+   * Canonical hash of a block, null when the chain no longer has it
+   */
+  private async getBlockHash(client: PublicClient, blockNumber: bigint): Promise<string | null> {
+    try {
+      const block = await client.getBlock({ blockNumber });
+      return block.hash;
+    } catch (error) {
+      if (error instanceof BlockNotFoundError) return null;
+      throw error;
+    }
+  }
+}
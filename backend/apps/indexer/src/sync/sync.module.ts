@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { QUEUE_NAMES } from '@app/queue/types';
+import { ProcessorsModule } from '../processors/processors.module';
+import { LogSyncService } from './log-sync.service';
+import { ReorgService } from './reorg.service';
+
+@Module({
+  imports: [
+    BullModule.registerQueue({
+      name: QUEUE_NAMES.INDEXER,
+    }),
+    ProcessorsModule,
+  ],
+  providers: [LogSyncService, ReorgService],
+  exports: [LogSyncService, ReorgService],
+})
+export class SyncModule {}
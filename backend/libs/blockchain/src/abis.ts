@@ -0,0 +1,44 @@
+/**
+ * Contract ABIs shared across apps
+ * Only includes the functions the apps call
+ */
+
+export const StrategyRegistryABI = [
+  {
+    type: 'function',
+    name: 'getStrategy',
+    inputs: [
+      { name: 'user', type: 'address', internalType: 'address' },
+      { name: 'strategyId', type: 'uint256', internalType: 'uint256' },
+    ],
+    outputs: [
+      {
+        name: 'strategy',
+        type: 'tuple',
+        internalType: 'struct StrategyLibrary.Strategy',
+        components: [
+          { name: 'id', type: 'uint256', internalType: 'uint256' },
+          { name: 'tokens', type: 'address[]', internalType: 'address[]' },
+          { name: 'weights', type: 'uint256[]', internalType: 'uint256[]' },
+          { name: 'rebalanceInterval', type: 'uint256', internalType: 'uint256' },
+          { name: 'lastRebalanceTime', type: 'uint256', internalType: 'uint256' },
+          { name: 'isActive', type: 'bool', internalType: 'bool' },
+          { name: 'name', type: 'string', internalType: 'string' },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'updateStrategy',
+    inputs: [
+      { name: 'delegator', type: 'address', internalType: 'address' },
+      { name: 'strategyId', type: 'uint256', internalType: 'uint256' },
+      { name: 'tokens', type: 'address[]', internalType: 'address[]' },
+      { name: 'weights', type: 'uint256[]', internalType: 'uint256[]' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+] as const;
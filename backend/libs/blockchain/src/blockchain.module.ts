@@ -1,10 +1,11 @@
 import { Module, Global } from '@nestjs/common';
+import { ChainRegistryService } from './chain-registry.service';
 import { ChainService } from './chain.service';
 import { PythOracleService } from './pyth-oracle.service';
 
 @Global()
 @Module({
-  providers: [ChainService, PythOracleService],
-  exports: [ChainService, PythOracleService],
+  providers: [ChainRegistryService, ChainService, PythOracleService],
+  exports: [ChainRegistryService, ChainService, PythOracleService],
 })
 export class BlockchainModule {}
@@ -0,0 +1,232 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { Address } from 'viem';
+import {
+  BUILTIN_CHAINS,
+  ChainContracts,
+  ChainDefinition,
+  DexAdapter,
+  PriceOracleAdapter,
+  SupportedChain,
+  toViemChain,
+} from './chains';
+
+// Entry of chains.json (LI.FI chain list format) - only the fields the registry uses
+interface ChainsFileEntry {
+  key: string;
+  chainType: string;
+  name: string;
+  id: number;
+  mainnet: boolean;
+  multicallAddress?: string;
+  metamask?: {
+    blockExplorerUrls?: string[];
+    nativeCurrency?: { name: string; symbol: string; decimals: number };
+    rpcUrls?: string[];
+  };
+}
+
+// Per-chain env config (see chainConfig() in @app/config/configuration)
+interface ChainEnvConfig {
+  chainId?: number;
+  name?: string;
+  rpcUrl?: string;
+  startBlock?: number;
+  confirmations?: number;
+  contracts?: ChainContracts;
+  dexRouters?: string[];
+  dexAdapter?: string;
+  uniswapV2Router?: string;
+  wrappedNative?: string;
+  priceOracle?: string;
+  priceOracleAdapter?: string;
+}
+
+const DEX_ADAPTERS: DexAdapter[] = ['monorail', 'aggregators', 'uniswap-v2'];
+const PRICE_ORACLE_ADAPTERS: PriceOracleAdapter[] = ['pyth', 'none'];
+const DEFAULT_CONFIRMATIONS = 12;
+
+/**
+ * Chain Registry
+ * Single source of chain definitions for the bot, API and indexer
+ *
+ * Each enabled chain (CHAINS=monad,base,anvil) is merged from, lowest precedence first:
+ * - chains.json (EVM mainnets: name, native currency, multicall, explorer, public RPC)
+ * - BUILTIN_CHAINS (testnets and local anvil, default DEX/oracle adapters)
+ * - {KEY}_* env vars (RPC, contracts, routers, adapters)
+ */
+@Injectable()
+export class ChainRegistryService {
+  private readonly logger = new Logger(ChainRegistryService.name);
+  private readonly chains = new Map<SupportedChain, ChainDefinition>();
+  private readonly keysByChainId = new Map<number, SupportedChain>();
+
+  constructor(private readonly config: ConfigService) {
+    const metadata = this.loadChainsFile(
+      this.config.get<string>('chains.definitionsFile', 'chains.json'),
+    );
+
+    for (const key of this.config.get<string[]>('chains.enabled', ['monad', 'base'])) {
+      const env = this.config.get<ChainEnvConfig>(`blockchain.${key}`, {});
+      if (!env.chainId) {
+        this.logger.warn(`Chain ${key} skipped: set ${key.toUpperCase()}_CHAIN_ID`);
+        continue;
+      }
+      if (this.keysByChainId.has(env.chainId)) {
+        this.logger.warn(
+          `Chain ${key} skipped: chain ID ${env.chainId} already registered as ${this.keysByChainId.get(env.chainId)}`,
+        );
+        continue;
+      }
+
+      const definition = this.buildDefinition(key, env, metadata.get(env.chainId));
+      this.chains.set(key, definition);
+      this.keysByChainId.set(definition.chainId, key);
+    }
+
+    this.logger.log(
+      `Registered ${this.chains.size} chains: ${[...this.chains.values()]
+        .map((chain) => `${chain.key} (${chain.chainId})`)
+        .join(', ')}`,
+    );
+  }
+
+  /**
+   * All enabled chains
+   */
+  getChains(): ChainDefinition[] {
+    return [...this.chains.values()];
+  }
+
+  /**
+   * Chain definition by key
+   */
+  getChain(key: SupportedChain): ChainDefinition {
+    const chain = this.chains.get(key);
+    if (!chain) {
+      throw new Error(`Chain ${key} is not configured`);
+    }
+    return chain;
+  }
+
+  /**
+   * Chain definition by chain ID, null when the chain isn't enabled
+   */
+  findByChainId(chainId: number): ChainDefinition | null {
+    const key = this.keysByChainId.get(chainId);
+    return key ? this.chains.get(key) : null;
+  }
+
+  /**
+   * Chain definition by chain ID
+   */
+  getChainByChainId(chainId: number): ChainDefinition {
+    const chain = this.findByChainId(chainId);
+    if (!chain) {
+      throw new Error(`Chain ID ${chainId} not supported`);
+    }
+    return chain;
+  }
+
+  /**
+   * Registry key of a chain ID (replaces chainId === 10143 ? 'monad' : 'base')
+   */
+  getChainKey(chainId: number): SupportedChain {
+    return this.getChainByChainId(chainId).key;
+  }
+
+  isSupported(chainId: number): boolean {
+    return this.keysByChainId.has(chainId);
+  }
+
+  private buildDefinition(
+    key: SupportedChain,
+    env: ChainEnvConfig,
+    metadata?: ChainsFileEntry,
+  ): ChainDefinition {
+    const builtin = BUILTIN_CHAINS[env.chainId] ?? {};
+    const fromFile: Partial<ChainDefinition> = metadata
+      ? {
+          name: metadata.name,
+          testnet: !metadata.mainnet,
+          rpcUrl: metadata.metamask?.rpcUrls?.[0],
+          nativeCurrency: metadata.metamask?.nativeCurrency,
+          multicall: metadata.multicallAddress as Address,
+          explorerUrl: metadata.metamask?.blockExplorerUrls?.[0]?.replace(/\/$/, ''),
+        }
+      : {};
+
+    const dexAdapter = this.pick(env.dexAdapter, DEX_ADAPTERS, key, 'DEX_ADAPTER');
+    const priceOracleAdapter = this.pick(
+      env.priceOracleAdapter,
+      PRICE_ORACLE_ADAPTERS,
+      key,
+      'PRICE_ORACLE_ADAPTER',
+    );
+    const priceOracleAddress =
+      (env.priceOracle as Address) ?? builtin.priceOracle?.address;
+
+    const definition: Omit<ChainDefinition, 'viemChain'> = {
+      key,
+      chainId: env.chainId,
+      name: env.name ?? builtin.name ?? fromFile.name ?? key,
+      testnet: builtin.testnet ?? fromFile.testnet ?? false,
+      rpcUrl: env.rpcUrl ?? builtin.rpcUrl ?? fromFile.rpcUrl,
+      startBlock: BigInt(env.startBlock ?? 0),
+      confirmations: env.confirmations ?? builtin.confirmations ?? DEFAULT_CONFIRMATIONS,
+      nativeCurrency: builtin.nativeCurrency ??
+        fromFile.nativeCurrency ?? { name: 'Ether', symbol: 'ETH', decimals: 18 },
+      wrappedNative: ((env.wrappedNative as Address) ?? builtin.wrappedNative)?.toLowerCase() as Address,
+      multicall: builtin.multicall ?? fromFile.multicall,
+      explorerUrl: builtin.explorerUrl ?? fromFile.explorerUrl,
+      contracts: env.contracts ?? {},
+      dexAdapter: dexAdapter ?? builtin.dexAdapter ?? 'aggregators',
+      dexRouters: (env.dexRouters ?? []) as Address[],
+      uniswapV2Router: (env.uniswapV2Router as Address) ?? builtin.uniswapV2Router,
+      priceOracle: {
+        adapter: priceOracleAdapter ?? (priceOracleAddress ? 'pyth' : 'none'),
+        address: priceOracleAddress,
+      },
+    };
+
+    return { ...definition, viemChain: toViemChain(definition) };
+  }
+
+  /**
+   * EVM entries of chains.json by chain ID (empty when the file is missing)
+   */
+  private loadChainsFile(file: string): Map<number, ChainsFileEntry> {
+    const path = resolve(process.cwd(), file);
+    if (!existsSync(path)) {
+      this.logger.warn(`Chain definitions file ${path} not found - using built-in metadata only`);
+      return new Map();
+    }
+
+    try {
+      const { chains } = JSON.parse(readFileSync(path, 'utf8')) as { chains: ChainsFileEntry[] };
+      return new Map(
+        chains.filter((chain) => chain.chainType === 'EVM').map((chain) => [chain.id, chain]),
+      );
+    } catch (error) {
+      this.logger.error(`Failed to load chain definitions from ${path}: ${error.message}`);
+      return new Map();
+    }
+  }
+
+  private pick<T extends string>(
+    value: string | undefined,
+    allowed: T[],
+    key: SupportedChain,
+    variable: string,
+  ): T | undefined {
+    if (!value) return undefined;
+    if (!allowed.includes(value as T)) {
+      throw new Error(
+        `${key.toUpperCase()}_${variable} must be one of ${allowed.join(', ')} (got ${value})`,
+      );
+    }
+    return value as T;
+  }
+}
@@ -12,7 +12,8 @@ import {
   Account,
 } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
-import { monadTestnet, baseSepoliaTestnet, SupportedChain, getChainById } from './chains';
+import { SupportedChain } from './chains';
+import { ChainRegistryService } from './chain-registry.service';
 
 interface ChainClients {
   public: PublicClient;
@@ -26,7 +27,10 @@ export class ChainService implements OnModuleInit {
   private clients = new Map<SupportedChain, ChainClients>();
   private account: Account | null = null;
 
-  constructor(private config: ConfigService) {}
+  constructor(
+    private config: ConfigService,
+    private readonly registry: ChainRegistryService,
+  ) {}
 
   async onModuleInit() {
     this.logger.log('Initializing blockchain clients...');
@@ -42,56 +46,33 @@ export class ChainService implements OnModuleInit {
       }
     }
 
-    // Initialize Monad
-    try {
-      const monadRpc = this.config.get<string>('blockchain.monad.rpcUrl');
-      if (monadRpc) {
-        const publicClient = createPublicClient({
-          chain: monadTestnet,
-          transport: http(monadRpc),
-        });
-
-        const walletClient = createWalletClient({
-          chain: monadTestnet,
-          transport: http(monadRpc),
-          account: this.account,
-        });
-
-        this.clients.set('monad', {
-          public: publicClient as any,
-          wallet: walletClient as any,
-          chain: monadTestnet,
-        });
-        this.logger.log('✅ Monad Testnet client initialized');
+    for (const definition of this.registry.getChains()) {
+      if (!definition.rpcUrl) {
+        this.logger.warn(`⚠️  No RPC URL for ${definition.name} - set ${definition.key.toUpperCase()}_RPC_URL`);
+        continue;
       }
-    } catch (error) {
-      this.logger.error('❌ Failed to initialize Monad client', error);
-    }
 
-    // Initialize Base
-    try {
-      const baseRpc = this.config.get<string>('blockchain.base.rpcUrl');
-      if (baseRpc) {
+      try {
         const publicClient = createPublicClient({
-          chain: baseSepoliaTestnet,
-          transport: http(baseRpc),
+          chain: definition.viemChain,
+          transport: http(definition.rpcUrl),
         });
 
         const walletClient = createWalletClient({
-          chain: baseSepoliaTestnet,
-          transport: http(baseRpc),
+          chain: definition.viemChain,
+          transport: http(definition.rpcUrl),
           account: this.account,
         });
 
-        this.clients.set('base', {
+        this.clients.set(definition.key, {
           public: publicClient as any,
           wallet: walletClient as any,
-          chain: baseSepoliaTestnet,
+          chain: definition.viemChain,
         });
-        this.logger.log('✅ Base Sepolia client initialized');
+        this.logger.log(`✅ ${definition.name} client initialized`);
+      } catch (error) {
+        this.logger.error(`❌ Failed to initialize ${definition.name} client`, error);
       }
-    } catch (error) {
-      this.logger.error('❌ Failed to initialize Base client', error);
     }
 
     this.logger.log(`Blockchain clients initialized for ${this.clients.size} chains`);
@@ -112,11 +93,7 @@ export class ChainService implements OnModuleInit {
    * Get public client by chain ID
    */
   getPublicClientById(chainId: number): PublicClient {
-    const chain = getChainById(chainId);
-    if (!chain) {
-      throw new Error(`Chain ID ${chainId} not supported`);
-    }
-    return this.getPublicClient(chain);
+    return this.getPublicClient(this.registry.getChainKey(chainId));
   }
 
   /**
@@ -137,11 +114,7 @@ export class ChainService implements OnModuleInit {
    * Get wallet client by chain ID
    */
   getWalletClientById(chainId: number): WalletClient {
-    const chain = getChainById(chainId);
-    if (!chain) {
-      throw new Error(`Chain ID ${chainId} not supported`);
-    }
-    return this.getWalletClient(chain);
+    return this.getWalletClient(this.registry.getChainKey(chainId));
   }
 
   /**
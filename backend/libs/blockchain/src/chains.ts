@@ -1,86 +1,117 @@
-import { defineChain } from 'viem';
+import { Address, Chain, defineChain } from 'viem';
 
 /**
- * Monad Testnet Chain Definition
+ * Chain key from the registry (e.g. 'monad', 'base', 'anvil')
+ * Enabled chains are listed in the CHAINS env var
  */
-export const monadTestnet = defineChain({
-  id: 10143,
-  name: 'Monad Testnet',
-  network: 'monad-testnet',
-  nativeCurrency: {
-    decimals: 18,
-    name: 'Monad',
-    symbol: 'MONAD',
-  },
-  rpcUrls: {
-    default: {
-      http: [process.env.MONAD_RPC_URL || 'https://testnet.monad.xyz'],
-    },
-    public: {
-      http: [process.env.MONAD_RPC_URL || 'https://testnet.monad.xyz'],
-    },
-  },
-  blockExplorers: {
-    default: { name: 'Monad Explorer', url: 'https://testnet.monadexplorer.com' },
-  },
-  testnet: true,
-});
+export type SupportedChain = string;
 
 /**
- * Base Sepolia Testnet Chain Definition
+ * How the bot routes swaps on a chain
+ * - monorail: Monorail aggregator with direct Uniswap V2 fallback
+ * - aggregators: best quote from 1inch, 0x, ParaSwap and Uniswap V2
+ * - uniswap-v2: direct Uniswap V2 router only (local/test chains)
  */
-export const baseSepoliaTestnet = defineChain({
-  id: 84532,
-  name: 'Base Sepolia',
-  network: 'base-sepolia',
-  nativeCurrency: {
-    decimals: 18,
-    name: 'Ethereum',
-    symbol: 'ETH',
-  },
-  rpcUrls: {
-    default: {
-      http: [process.env.BASE_RPC_URL || 'https://sepolia.base.org'],
-    },
-    public: {
-      http: [process.env.BASE_RPC_URL || 'https://sepolia.base.org'],
-    },
-  },
-  blockExplorers: {
-    default: { name: 'Basescan', url: 'https://sepolia.basescan.org' },
-  },
-  testnet: true,
-});
+export type DexAdapter = 'monorail' | 'aggregators' | 'uniswap-v2';
 
-export type SupportedChain = 'monad' | 'base';
+/**
+ * Where token USD prices come from
+ * - pyth: OUR PythOracle wrapper (getPrice(token) scaled to 18 decimals)
+ * - none: no oracle deployed, prices fall back to $1
+ */
+export type PriceOracleAdapter = 'pyth' | 'none';
 
-export const CHAIN_CONFIGS = {
-  monad: {
-    chain: monadTestnet,
-    chainId: 10143,
+export interface ChainContracts {
+  registry?: Address;
+  executor?: Address;
+  oracle?: Address;
+  uniswapHelper?: Address;
+  config?: Address;
+  delegationManager?: Address;
+}
+
+export interface ChainDefinition {
+  key: SupportedChain;
+  chainId: number;
+  name: string;
+  testnet: boolean;
+  rpcUrl?: string;
+  startBlock: bigint; // First block the indexer scans (contract deployment)
+  confirmations: number; // Blocks behind head before the indexer treats a block as final
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  wrappedNative?: Address; // Stands in for the native token in swaps and delegations
+  multicall?: Address;
+  explorerUrl?: string;
+  contracts: ChainContracts;
+  dexAdapter: DexAdapter;
+  dexRouters: Address[]; // RebalanceExecutor.approvedDEXs
+  uniswapV2Router?: Address;
+  priceOracle: { adapter: PriceOracleAdapter; address?: Address };
+  viemChain: Chain;
+}
+
+/**
+ * Metadata for chains missing from chains.json (testnets and local anvil)
+ * chains.json and env config take precedence
+ */
+export const BUILTIN_CHAINS: Record<number, Partial<ChainDefinition>> = {
+  10143: {
     name: 'Monad Testnet',
-    nativeCurrency: 'MONAD',
+    testnet: true,
+    rpcUrl: 'https://testnet-rpc.monad.xyz',
+    nativeCurrency: { name: 'Monad', symbol: 'MON', decimals: 18 },
+    wrappedNative: '0xb5a30b0fdc5ea94a52fdc42e3e9760cb8449fb37',
+    multicall: '0xcA11bde05977b3631167028862bE2a173976CA11',
+    explorerUrl: 'https://testnet.monadexplorer.com',
+    confirmations: 3,
+    dexAdapter: 'monorail',
+    uniswapV2Router: '0xfb8e1c3b833f9e67a71c859a132cf783b645e436',
+    priceOracle: { adapter: 'pyth', address: '0xf1B7083a8E624038Befe432EEBBF2a8f3aa47D22' },
   },
-  base: {
-    chain: baseSepoliaTestnet,
-    chainId: 84532,
+  84532: {
     name: 'Base Sepolia',
-    nativeCurrency: 'ETH',
+    testnet: true,
+    rpcUrl: 'https://sepolia.base.org',
+    nativeCurrency: { name: 'Ethereum', symbol: 'ETH', decimals: 18 },
+    wrappedNative: '0x4200000000000000000000000000000000000006',
+    multicall: '0xcA11bde05977b3631167028862bE2a173976CA11',
+    explorerUrl: 'https://sepolia.basescan.org',
+    confirmations: 10,
+    dexAdapter: 'aggregators',
+    uniswapV2Router: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+    priceOracle: { adapter: 'pyth', address: '0xe21e88f31a639d661e2d50D3c9E5DF1B1E3acff2' },
+  },
+  31337: {
+    name: 'Anvil',
+    testnet: true,
+    rpcUrl: 'http://127.0.0.1:8545',
+    confirmations: 0,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    dexAdapter: 'uniswap-v2',
+    priceOracle: { adapter: 'none' },
   },
 };
 
 /**
- * Get chain config by chain ID
+ * Build the viem chain object for a registry definition
  */
-export function getChainById(chainId: number): SupportedChain | null {
-  if (chainId === 10143) return 'monad';
-  if (chainId === 84532) return 'base';
-  return null;
-}
+export function toViemChain(definition: Omit<ChainDefinition, 'viemChain'>): Chain {
+  const rpcUrls = definition.rpcUrl ? [definition.rpcUrl] : [];
 
-/**
- * Get chain config by name
- */
-export function getChainConfig(chain: SupportedChain) {
-  return CHAIN_CONFIGS[chain];
+  return defineChain({
+    id: definition.chainId,
+    name: definition.name,
+    nativeCurrency: definition.nativeCurrency,
+    rpcUrls: {
+      default: { http: rpcUrls },
+      public: { http: rpcUrls },
+    },
+    blockExplorers: definition.explorerUrl
+      ? { default: { name: `${definition.name} Explorer`, url: definition.explorerUrl } }
+      : undefined,
+    contracts: definition.multicall
+      ? { multicall3: { address: definition.multicall } }
+      : undefined,
+    testnet: definition.testnet,
+  });
 }
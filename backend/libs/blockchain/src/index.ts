@@ -1,4 +1,6 @@
+export * from './abis';
 export * from './blockchain.module';
+export * from './chain-registry.service';
 export * from './chain.service';
 export * from './chains';
 export * from './pyth-oracle.service';
@@ -1,6 +1,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { ChainService } from './chain.service';
+import { ChainRegistryService } from './chain-registry.service';
+import { SupportedChain } from './chains';
 
 /**
  * Pyth Oracle Service
@@ -11,30 +13,12 @@ import { ChainService } from './chain.service';
  * - OUR PythOracle is configured via setPriceFeed() with Pyth feed IDs
  * - OUR PythOracle handles stablecoin fallbacks and price scaling
  * - Returns prices in USD scaled from 18 decimals
+ * - Wrapper address per chain comes from the chain registry ({KEY}_PRICE_ORACLE)
  */
 @Injectable()
 export class PythOracleService {
   private readonly logger = new Logger(PythOracleService.name);
 
-  // OUR PythOracle wrapper contracts (NOT Pyth Network's native contracts)
-  // These are configured with setPriceFeed() and have stablecoin fallback logic
-  private readonly PYTH_CONTRACTS = {
-    monad: '0xf1B7083a8E624038Befe432EEBBF2a8f3aa47D22', // OUR PythOracle wrapper (Monad)
-    base: '0xe21e88f31a639d661e2d50D3c9E5DF1B1E3acff2',   // OUR PythOracle wrapper (Base)
-  };
-
-  // Token address to symbol mapping (Monad testnet)
-  private readonly TOKEN_SYMBOLS_MONAD: Record<string, string> = {
-    '0xb5a30b0fdc5ea94a52fdc42e3e9760cb8449fb37': 'WETH', // Wrapped MON (treated as ETH for pricing)
-    '0x534b2f3a21130d7a60830c2df862319e593943a3': 'USDC', // Circle CCTP USDC
-  };
-
-  // Token address to symbol mapping (Base)
-  private readonly TOKEN_SYMBOLS_BASE: Record<string, string> = {
-    '0x4200000000000000000000000000000000000006': 'WETH',
-    // Add Base tokens here
-  };
-
   // OUR PythOracle ABI (getPrice returns uint256 scaled to 18 decimals)
   private readonly PYTH_ABI = [
     {
@@ -44,37 +28,54 @@ export class PythOracleService {
       stateMutability: 'view',
       type: 'function',
     },
+    {
+      inputs: [{ internalType: 'address', name: 'token', type: 'address' }],
+      name: '_getPythPriceExternal',
+      outputs: [
+        {
+          components: [
+            { internalType: 'int64', name: 'price', type: 'int64' },
+            { internalType: 'uint64', name: 'conf', type: 'uint64' },
+            { internalType: 'int32', name: 'expo', type: 'int32' },
+            { internalType: 'uint256', name: 'publishTime', type: 'uint256' },
+          ],
+          internalType: 'struct PythStructs.Price',
+          name: '',
+          type: 'tuple',
+        },
+      ],
+      stateMutability: 'view',
+      type: 'function',
+    },
   ] as const;
 
   constructor(
     private readonly chain: ChainService,
+    private readonly registry: ChainRegistryService,
     private readonly config: ConfigService,
   ) {}
 
   /**
    * Get token price in USD from OUR PythOracle wrapper
    * @param tokenAddress Token contract address
-   * @param chainName Chain name ('monad' or 'base')
+   * @param chainName Chain registry key
    * @returns Price in USD (e.g., 2500.45 for ETH)
    */
   async getTokenPrice(
     tokenAddress: string,
-    chainName: 'monad' | 'base',
+    chainName: SupportedChain,
   ): Promise<number> {
-    // Get token symbol for logging (declare at function scope for catch block access)
-    const symbol = this.getTokenSymbol(tokenAddress, chainName);
-
     try {
       // Fetch price from OUR PythOracle wrapper (no need for feed IDs - just pass token address)
       const price = await this.fetchPythPrice(tokenAddress, chainName);
 
-      this.logger.debug(`Pyth price for ${tokenAddress} (${symbol || 'unknown'}): $${price.toFixed(2)}`);
+      this.logger.debug(`Pyth price for ${tokenAddress} on ${chainName}: $${price.toFixed(2)}`);
       return price;
     } catch (error) {
       // Handle price feed not found (OUR PythOracle returns $1 for stablecoins automatically)
       if (error.message?.includes('0x19abf40e') || error.message?.includes('NoFeedConfigured')) {
         this.logger.warn(
-          `Pyth price feed not available for ${symbol || tokenAddress} on ${chainName}, using fallback $1`,
+          `Pyth price feed not available for ${tokenAddress} on ${chainName}, using fallback $1`,
         );
         // For stablecoins, $1 is a reasonable fallback
         return 1.0;
@@ -93,7 +94,7 @@ export class PythOracleService {
    */
   async getTokenPrices(
     tokenAddresses: string[],
-    chainName: 'monad' | 'base',
+    chainName: SupportedChain,
   ): Promise<Map<string, number>> {
     const priceMap = new Map<string, number>();
 
@@ -107,6 +108,46 @@ export class PythOracleService {
     return priceMap;
   }
 
+  /**
+   * Get the raw Pyth price with its confidence and publish time
+   * Throws instead of falling back - callers decide what a missing price means
+   * Stablecoins without a feed are priced $1 by the wrapper (publishTime = now, confidence 0)
+   */
+  async getPriceData(
+    tokenAddress: string,
+    chainName: SupportedChain,
+  ): Promise<{ priceUSD: number; confidence: number; publishTime: number }> {
+    const { priceOracle } = this.registry.getChain(chainName);
+    if (priceOracle.adapter !== 'pyth' || !priceOracle.address) {
+      throw new Error(`No price oracle configured for ${chainName}`);
+    }
+
+    const client = this.chain.getPublicClient(chainName);
+
+    try {
+      const result = (await client.readContract({
+        address: priceOracle.address,
+        abi: this.PYTH_ABI,
+        functionName: '_getPythPriceExternal',
+        args: [tokenAddress as `0x${string}`],
+        authorizationList: undefined,
+      } as any)) as { price: bigint; conf: bigint; expo: number; publishTime: bigint };
+
+      const scale = 10 ** result.expo;
+      const priceUSD = Number(result.price) * scale;
+
+      return {
+        priceUSD,
+        confidence: priceUSD > 0 ? (Number(result.conf) * scale) / priceUSD : 1, // Ratio of price
+        publishTime: Number(result.publishTime),
+      };
+    } catch (error) {
+      // No feed (or stale) - getPrice() still succeeds for configured stablecoins
+      const priceUSD = await this.fetchPythPrice(tokenAddress, chainName);
+      return { priceUSD, confidence: 0, publishTime: Math.floor(Date.now() / 1000) };
+    }
+  }
+
   /**
    * Fetch price from OUR PythOracle wrapper
    * @param tokenAddress Token contract address
@@ -115,10 +156,15 @@ export class PythOracleService {
    */
   private async fetchPythPrice(
     tokenAddress: string,
-    chainName: 'monad' | 'base',
+    chainName: SupportedChain,
   ): Promise<number> {
+    const { priceOracle } = this.registry.getChain(chainName);
+    if (priceOracle.adapter !== 'pyth' || !priceOracle.address) {
+      throw new Error(`No price oracle configured for ${chainName}`);
+    }
+
     const client = this.chain.getPublicClient(chainName);
-    const pythContract = this.PYTH_CONTRACTS[chainName] as `0x${string}`;
+    const pythContract = priceOracle.address;
 
     // Call OUR PythOracle's getPrice(address) function
     const result = await client.readContract({
@@ -139,38 +185,20 @@ export class PythOracleService {
     return priceUSD;
   }
 
-  /**
-   * Get token symbol from address
-   */
-  private getTokenSymbol(
-    tokenAddress: string,
-    chainName: 'monad' | 'base',
-  ): string | null {
-    const lowerAddress = tokenAddress.toLowerCase();
-
-    const symbolMap =
-      chainName === 'monad'
-        ? this.TOKEN_SYMBOLS_MONAD
-        : this.TOKEN_SYMBOLS_BASE;
-
-    return symbolMap[lowerAddress] || null;
-  }
-
   /**
    * Health check: verify OUR PythOracle is accessible
    */
-  async healthCheck(chainName: 'monad' | 'base'): Promise<boolean> {
+  async healthCheck(chainName: SupportedChain): Promise<boolean> {
     try {
-      // Try to fetch WETH price as health check
-      const tokenMap = chainName === 'monad' ? this.TOKEN_SYMBOLS_MONAD : this.TOKEN_SYMBOLS_BASE;
-      const wethAddress = Object.keys(tokenMap).find(addr => tokenMap[addr] === 'WETH');
+      // Try to fetch the wrapped native price as health check
+      const { wrappedNative } = this.registry.getChain(chainName);
 
-      if (!wethAddress) {
-        this.logger.warn(`No WETH address configured for ${chainName}`);
+      if (!wrappedNative) {
+        this.logger.warn(`No wrapped native token configured for ${chainName}`);
         return false;
       }
 
-      const price = await this.fetchPythPrice(wethAddress, chainName);
+      const price = await this.fetchPythPrice(wrappedNative, chainName);
       return price > 0;
     } catch (error) {
       this.logger.warn(`Pyth health check failed on ${chainName}: ${error.message}`);
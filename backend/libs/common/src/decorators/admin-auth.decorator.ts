@@ -0,0 +1,12 @@
+import { applyDecorators, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiForbiddenResponse } from '@nestjs/swagger';
+import { WalletAuthGuard } from '../guards/wallet-auth.guard';
+import { AdminGuard } from '../guards/admin.guard';
+
+export function AdminAuth() {
+  return applyDecorators(
+    UseGuards(WalletAuthGuard, AdminGuard),
+    ApiBearerAuth(),
+    ApiForbiddenResponse({ description: 'Admin access required' }),
+  );
+}
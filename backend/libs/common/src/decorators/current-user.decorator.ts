@@ -1,4 +1,16 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+
+/**
+ * JWT payload WalletAuthGuard attaches to the request
+ * role is as of sign-in - AdminGuard re-reads it from the database
+ */
+export interface AuthUser {
+  sub: string;
+  address: string;
+  chainId: number;
+  role: UserRole;
+}
 
 export const CurrentUser = createParamDecorator(
   (data: string | undefined, ctx: ExecutionContext) => {
@@ -0,0 +1,31 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { PrismaService } from '@app/database';
+
+/**
+ * Requires the ADMIN role - runs after WalletAuthGuard (needs request.user)
+ * The role is read from the database so a demotion applies to existing tokens
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  constructor(private prisma: PrismaService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const address = request.user?.address;
+
+    if (!address) {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { address: address.toLowerCase() },
+      select: { role: true },
+    });
+
+    if (user?.role !== 'ADMIN') {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    return true;
+  }
+}
@@ -1,9 +1,14 @@
 // Decorators
 export * from './decorators/current-user.decorator';
 export * from './decorators/wallet-auth.decorator';
+export * from './decorators/admin-auth.decorator';
 
 // Guards
 export * from './guards/wallet-auth.guard';
+export * from './guards/admin.guard';
 
 // Pipes
 export * from './pipes/address-validation.pipe';
+
+// Utils
+export * from './utils/public-url';
@@ -0,0 +1,98 @@
+import { lookup } from 'dns';
+import { lookup as lookupAsync } from 'dns/promises';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+/**
+ * Addresses a user-supplied URL must never reach from inside our network:
+ * loopback, RFC 1918, CGNAT, link-local (cloud metadata), ULA, multicast and reserved
+ * BlockList matches IPv4-mapped IPv6 (::ffff:a.b.c.d) against the IPv4 rules
+ */
+const INTERNAL_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([network, prefix]: [string, number]) =>
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv4'),
+);
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([network, prefix]: [string, number]) =>
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv6'),
+);
+
+export function isInternalAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true; // Not an IP - never treat as safe
+
+  return INTERNAL_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Resolve a URL's host and reject it unless it is HTTPS and every address is public
+ * Throws with a user-facing reason
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('is not a valid URL');
+  }
+
+  if (parsed.protocol !== 'https:') {
+    throw new Error('must use https');
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(host)
+      ? [host]
+      : (await lookupAsync(host, { all: true, verbatim: true })).map((entry) => entry.address);
+  } catch {
+    throw new Error(`host ${host} could not be resolved`);
+  }
+
+  const internal = addresses.find((address) => isInternalAddress(address));
+  if (internal) {
+    throw new Error(`host ${host} resolves to a private or internal address (${internal})`);
+  }
+}
+
+/**
+ * dns.lookup replacement for HTTP agents: fails the connection if the host
+ * resolves to an internal address, so DNS rebinding after assertPublicUrl can't bypass it
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true, verbatim: true }, (error, entries) => {
+    if (error) return callback(error, undefined, undefined);
+
+    const internal = entries.find((entry) => isInternalAddress(entry.address));
+    if (internal) {
+      return callback(
+        new Error(`host ${hostname} resolves to a private or internal address (${internal.address})`),
+        undefined,
+        undefined,
+      );
+    }
+
+    if (options.all) {
+      return callback(null, entries);
+    }
+    callback(null, entries[0].address, entries[0].family);
+  });
+};
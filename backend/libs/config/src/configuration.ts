@@ -1,3 +1,52 @@
+const list = (value: string | undefined, separator = ',') =>
+  (value || '').split(separator).map((item) => item.trim()).filter(Boolean);
+
+// Chain IDs of well-known chain keys - any other key needs {KEY}_CHAIN_ID
+const DEFAULT_CHAIN_IDS: Record<string, number> = {
+  monad: 10143,
+  base: 84532,
+  anvil: 31337,
+};
+
+/**
+ * Per-chain settings read from {KEY}_* env vars (e.g. MONAD_RPC_URL, ANVIL_EXECUTOR)
+ * Unset values fall back to chains.json / built-in metadata in the chain registry
+ */
+const chainConfig = (key: string) => {
+  const prefix = key.toUpperCase();
+  const env = (name: string) => process.env[`${prefix}_${name}`] || undefined;
+
+  return {
+    chainId: parseInt(env('CHAIN_ID'), 10) || DEFAULT_CHAIN_IDS[key],
+    name: env('CHAIN_NAME'),
+    rpcUrl: env('RPC_URL'),
+    startBlock: parseInt(env('START_BLOCK'), 10) || 0,
+    confirmations: env('CONFIRMATIONS') ? parseInt(env('CONFIRMATIONS'), 10) : undefined, // Blocks until final
+    contracts: {
+      registry: env('REGISTRY'),
+      executor: env('EXECUTOR'),
+      oracle: env('ORACLE'),
+      uniswapHelper: env('UNISWAP_HELPER'),
+      config: env('CONFIG'),
+      delegationManager: env('DELEGATION_MANAGER'),
+    },
+    // MetaMask Delegation Framework caveat enforcers (stateless - shared across managers)
+    enforcers: {
+      timestamp: env('TIMESTAMP_ENFORCER'),
+      allowedTargets: env('ALLOWED_TARGETS_ENFORCER'),
+      allowedMethods: env('ALLOWED_METHODS_ENFORCER'),
+      erc20PeriodTransfer: env('ERC20_PERIOD_TRANSFER_ENFORCER'),
+    },
+    dexRouters: list(env('DEX_ROUTERS')), // RebalanceExecutor.approvedDEXs
+    dexAdapter: env('DEX_ADAPTER'), // 'monorail' | 'aggregators' | 'uniswap-v2'
+    uniswapV2Router: process.env[`UNISWAP_V2_ROUTER_${prefix}`] || undefined,
+    wrappedNative: env('WRAPPED_NATIVE'),
+    usdQuoteToken: env('USD_QUOTE_TOKEN'), // Stablecoin the Uniswap V2 TWAP prices against
+    priceOracle: env('PRICE_ORACLE'), // OUR PythOracle wrapper
+    priceOracleAdapter: env('PRICE_ORACLE_ADAPTER'), // 'pyth' | 'none'
+  };
+};
+
 export default () => ({
   port: parseInt(process.env.PORT, 10) || 3000,
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -17,42 +66,67 @@ export default () => ({
     expiresIn: process.env.JWT_EXPIRES_IN || '7d',
   },
 
-  blockchain: {
-    monad: {
-      rpcUrl: process.env.MONAD_RPC_URL,
-      chainId: 10143,
-      startBlock: parseInt(process.env.MONAD_START_BLOCK, 10) || 0,
-      contracts: {
-        registry: process.env.MONAD_REGISTRY,
-        executor: process.env.MONAD_EXECUTOR,
-        oracle: process.env.MONAD_ORACLE,
-        uniswapHelper: process.env.MONAD_UNISWAP_HELPER,
-        config: process.env.MONAD_CONFIG,
-        delegationManager: process.env.MONAD_DELEGATION_MANAGER,
-      },
-    },
-    base: {
-      rpcUrl: process.env.BASE_RPC_URL,
-      chainId: 84532,
-      startBlock: parseInt(process.env.BASE_START_BLOCK, 10) || 0,
-      contracts: {
-        registry: process.env.BASE_REGISTRY,
-        executor: process.env.BASE_EXECUTOR,
-        oracle: process.env.BASE_ORACLE,
-        uniswapHelper: process.env.BASE_UNISWAP_HELPER,
-        config: process.env.BASE_CONFIG,
-        delegationManager: process.env.BASE_DELEGATION_MANAGER,
-      },
-    },
+  // Wallets promoted to the ADMIN role when they sign in
+  admin: {
+    addresses: list(process.env.ADMIN_ADDRESSES).map((address) => address.toLowerCase()),
+  },
+
+  // Chain registry: keys of the enabled chains, metadata from the definitions file
+  chains: {
+    enabled: list(process.env.CHAINS || 'monad,base'),
+    definitionsFile: process.env.CHAINS_FILE || 'chains.json',
   },
 
+  blockchain: Object.fromEntries(
+    list(process.env.CHAINS || 'monad,base').map((key) => [key, chainConfig(key)]),
+  ),
+
   bot: {
     privateKey: process.env.BOT_PRIVATE_KEY,
+    address: process.env.BOT_ADDRESS, // Shown in the admin API when the key isn't loaded
     monitoringInterval: parseInt(process.env.MONITORING_INTERVAL, 10) || 30000,
     maxSlippageBps: parseInt(process.env.MAX_SLIPPAGE_BPS, 10) || 100,
+    maxPriceImpact: parseFloat(process.env.MAX_PRICE_IMPACT || '3'), // Percent, oracle-priced
     gasReimbursement: process.env.GAS_REIMBURSEMENT || '0.01',
     maxGasPrice: BigInt(process.env.MAX_GAS_PRICE || '500000000000'), // 500 gwei default for testnet
     gasPriceMultiplier: parseFloat(process.env.GAS_PRICE_MULTIPLIER || '1.1'),
+    priceHistorySize: parseInt(process.env.PRICE_HISTORY_SIZE, 10) || 2880, // Samples kept per token
+    priceHistoryMinIntervalMs:
+      parseInt(process.env.PRICE_HISTORY_MIN_INTERVAL_MS, 10) || 60000, // Coalesce samples closer than this
+  },
+
+  // User-triggered rebalances (POST /strategies/:id/rebalance)
+  manualRebalance: {
+    limit: parseInt(process.env.MANUAL_REBALANCE_LIMIT, 10) || 5, // Per user per window
+    window: parseInt(process.env.MANUAL_REBALANCE_WINDOW, 10) || 3600, // Seconds
+    // Cooldown when the chain's RebalancerConfig can't be read
+    minInterval: parseInt(process.env.MANUAL_REBALANCE_MIN_INTERVAL, 10) || 3600,
+  },
+
+  // Token USD prices (bot PricesService)
+  prices: {
+    priority: list(process.env.PRICE_PROVIDERS || 'pyth,uniswap-v2-twap'), // First fresh source wins
+    // Per-token override: 0xtoken=uniswap-v2-twap|pyth;0xother=static
+    tokenPriority: Object.fromEntries(
+      list(process.env.PRICE_PROVIDER_OVERRIDES, ';').map((entry) => {
+        const [token, providers] = entry.split('=');
+        return [token.trim().toLowerCase(), list(providers, '|')];
+      }),
+    ),
+    maxAgeSeconds: parseInt(process.env.PRICE_MAX_AGE_SECONDS, 10) || 300, // Older quotes are stale
+    maxConfidenceBps: parseInt(process.env.PRICE_MAX_CONFIDENCE_BPS, 10) || 200, // Confidence interval / price
+    maxDeviationBps: parseInt(process.env.PRICE_MAX_DEVIATION_BPS, 10) || 300, // Cross-source alert threshold
+    alertCooldownSeconds: parseInt(process.env.PRICE_ALERT_COOLDOWN_SECONDS, 10) || 3600, // Per token
+    cacheTtlMs: parseInt(process.env.PRICE_CACHE_TTL_MS, 10) || 10000,
+    twapWindowSeconds: parseInt(process.env.PRICE_TWAP_WINDOW_SECONDS, 10) || 1800,
+    twapMinSeconds: parseInt(process.env.PRICE_TWAP_MIN_SECONDS, 10) || 300, // Observation span before a TWAP is served
+    // Static/fixture prices: 0xtoken=1.00,0xother=2500
+    static: Object.fromEntries(
+      list(process.env.STATIC_PRICES).map((entry) => {
+        const [token, price] = entry.split('=');
+        return [token.trim().toLowerCase(), parseFloat(price)];
+      }),
+    ),
   },
 
   dex: {
@@ -66,6 +140,10 @@ export default () => ({
     zeroxApiUrl: process.env.ZEROX_API_URL || 'https://api.0x.org',
     zeroxExchangeProxy: process.env.ZEROX_EXCHANGE_PROXY,
     paraswapAugustus: process.env.PARASWAP_AUGUSTUS,
+    // Order routing - hub tokens are the chain's wrapped native and USD quote token
+    enableHubRouting: process.env.ENABLE_HUB_ROUTING !== 'false',
+    enableSplitting: process.env.ENABLE_ORDER_SPLITTING !== 'false',
+    splitMinPriceImpact: parseFloat(process.env.SPLIT_MIN_PRICE_IMPACT || '0.5'), // %
   },
 
   mev: {
@@ -73,6 +151,37 @@ export default () => ({
     flashbotsRpc: process.env.FLASHBOTS_RPC || 'https://rpc.flashbots.net',
     enableIntents: process.env.ENABLE_INTENTS === 'true',
     enableTee: process.env.ENABLE_TEE === 'true',
+    relayMode: process.env.MEV_RELAY_MODE || 'rpc', // 'rpc' (eth_sendRawTransaction) | 'bundle' (eth_sendBundle)
+    relayUrl: process.env.MEV_RELAY_URL || process.env.FLASHBOTS_RPC || 'https://rpc.flashbots.net',
+    relayChains: list(process.env.MEV_RELAY_CHAINS || 'base'),
+    relayAuthKey: process.env.MEV_RELAY_AUTH_KEY, // Signs X-Flashbots-Signature for bundle relays
+    relayTimeoutMs: parseInt(process.env.MEV_RELAY_TIMEOUT_MS, 10) || 10000,
+    bundleBlocks: parseInt(process.env.MEV_BUNDLE_BLOCKS, 10) || 3, // Blocks a bundle targets
+    publicFallback: process.env.MEV_PUBLIC_FALLBACK === 'true', // Broadcast publicly if the relay rejects
+    intentTtlSeconds: parseInt(process.env.MEV_INTENT_TTL_SECONDS, 10) || 300,
+  },
+
+  delegation: {
+    maxExpiryDays: parseInt(process.env.DELEGATION_MAX_EXPIRY_DAYS, 10) || 365,
+    // Extra function signatures delegations may allow (aggregator swap entrypoints)
+    extraMethods: list(process.env.DELEGATION_EXTRA_METHODS, ';'),
+  },
+
+  backtest: {
+    fixturesDir: process.env.BACKTEST_FIXTURES_DIR || 'fixtures/prices',
+    defaultFeeBps: parseInt(process.env.BACKTEST_FEE_BPS, 10) || 30,
+    gasPriceGwei: parseFloat(process.env.BACKTEST_GAS_PRICE_GWEI || '50'),
+    nativePriceUSD: parseFloat(process.env.BACKTEST_NATIVE_PRICE_USD || '2000'),
+  },
+
+  indexer: {
+    pollInterval: parseInt(process.env.INDEXER_POLL_INTERVAL, 10) || 3000, // ms between head polls
+    batchSize: parseInt(process.env.INDEXER_BATCH_SIZE, 10) || 1000, // Blocks per eth_getLogs call
+    reorgDepth: parseInt(process.env.INDEXER_REORG_DEPTH, 10) || 64, // Blocks rewound when a reorg is detected
+  },
+
+  analytics: {
+    baselineSwapGas: parseInt(process.env.ANALYTICS_BASELINE_SWAP_GAS, 10) || 150000, // Gas of one standalone swap tx
   },
 
   gasOracle: {
@@ -89,6 +198,18 @@ export default () => ({
     telegramChatId: process.env.TELEGRAM_CHAT_ID,
   },
 
+  notifications: {
+    httpTimeoutMs: parseInt(process.env.NOTIFICATION_HTTP_TIMEOUT_MS, 10) || 10000, // Discord/Telegram/webhook calls
+    smtp: {
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT, 10) || 587,
+      secure: process.env.SMTP_SECURE === 'true', // TLS on connect (port 465)
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      from: process.env.SMTP_FROM || 'Rebased <notifications@rebased.local>',
+    },
+  },
+
   rateLimit: {
     ttl: parseInt(process.env.THROTTLE_TTL, 10) || 60,
     limit: parseInt(process.env.THROTTLE_LIMIT, 10) || 100,
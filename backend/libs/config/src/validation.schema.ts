@@ -18,11 +18,15 @@ export const validationSchema = Joi.object({
   JWT_SECRET: Joi.string().required(),
   JWT_EXPIRES_IN: Joi.string().default('7d'),
 
+  // Chain registry (per-chain {KEY}_* vars are read by configuration.ts)
+  CHAINS: Joi.string().default('monad,base'),
+  CHAINS_FILE: Joi.string().default('chains.json'),
+
   // Blockchain - Monad
-  MONAD_RPC_URL: Joi.string().required(),
+  MONAD_RPC_URL: Joi.string().optional().allow(''),
   MONAD_START_BLOCK: Joi.number().default(0),
 
-  // Blockchain - Base (optional - currently only Monad is actively used)
+  // Blockchain - Base
   BASE_RPC_URL: Joi.string().optional().allow(''),
   BASE_START_BLOCK: Joi.number().default(0),
 
@@ -30,18 +34,36 @@ export const validationSchema = Joi.object({
   BOT_PRIVATE_KEY: Joi.string().pattern(/^0x[a-fA-F0-9]{64}$/).optional().allow('', '0x...'),
   MONITORING_INTERVAL: Joi.number().default(30000),
   MAX_SLIPPAGE_BPS: Joi.number().default(100),
+  MAX_PRICE_IMPACT: Joi.number().default(3),
+
+  // Prices
+  PRICE_PROVIDERS: Joi.string().default('pyth,uniswap-v2-twap'),
+  PRICE_MAX_AGE_SECONDS: Joi.number().default(300),
+  PRICE_MAX_CONFIDENCE_BPS: Joi.number().default(200),
+  PRICE_MAX_DEVIATION_BPS: Joi.number().default(300),
 
   // DEX
   ENABLE_1INCH: Joi.boolean().default(true),
   ENABLE_0X: Joi.boolean().default(true),
   ENABLE_PARASWAP: Joi.boolean().default(true),
   FALLBACK_UNISWAP: Joi.boolean().default(true),
+  ENABLE_HUB_ROUTING: Joi.boolean().default(true),
+  ENABLE_ORDER_SPLITTING: Joi.boolean().default(true),
+  SPLIT_MIN_PRICE_IMPACT: Joi.number().min(0).default(0.5),
 
   // MEV
   ENABLE_FLASHBOTS: Joi.boolean().default(false),
   FLASHBOTS_RPC: Joi.string().default('https://rpc.flashbots.net'),
   ENABLE_INTENTS: Joi.boolean().default(false),
   ENABLE_TEE: Joi.boolean().default(false),
+  MEV_RELAY_MODE: Joi.string().valid('rpc', 'bundle').default('rpc'),
+  MEV_RELAY_URL: Joi.string().optional().allow(''),
+  MEV_RELAY_CHAINS: Joi.string().default('base'),
+  MEV_RELAY_AUTH_KEY: Joi.string().pattern(/^0x[a-fA-F0-9]{64}$/).optional().allow(''),
+  MEV_BUNDLE_BLOCKS: Joi.number().default(3),
+  MEV_RELAY_TIMEOUT_MS: Joi.number().default(10000),
+  MEV_PUBLIC_FALLBACK: Joi.boolean().default(false),
+  MEV_INTENT_TTL_SECONDS: Joi.number().default(300),
 
   // Monitoring
   LOG_LEVEL: Joi.string()
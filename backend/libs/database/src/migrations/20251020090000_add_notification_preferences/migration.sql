@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "userAddress" TEXT NOT NULL,
+    "websocket" BOOLEAN NOT NULL DEFAULT true,
+    "discord" BOOLEAN NOT NULL DEFAULT false,
+    "telegram" BOOLEAN NOT NULL DEFAULT false,
+    "email" BOOLEAN NOT NULL DEFAULT false,
+    "webhook" BOOLEAN NOT NULL DEFAULT false,
+    "discordWebhookUrl" TEXT,
+    "telegramChatId" TEXT,
+    "emailAddress" TEXT,
+    "webhookUrl" TEXT,
+    "webhookSecret" TEXT,
+    "mutedTypes" "NotificationType"[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("userAddress")
+);
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_userAddress_fkey" FOREIGN KEY ("userAddress") REFERENCES "users"("address") ON DELETE CASCADE ON UPDATE CASCADE;
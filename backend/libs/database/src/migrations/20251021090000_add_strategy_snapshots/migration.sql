@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "strategy_snapshots" (
+    "id" TEXT NOT NULL,
+    "strategyId" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "totalValueUSD" DECIMAL(65,30) NOT NULL,
+    "netFlowUSD" DECIMAL(65,30) NOT NULL,
+    "netContributionsUSD" DECIMAL(65,30) NOT NULL,
+    "realizedPnlUSD" DECIMAL(65,30) NOT NULL,
+    "unrealizedPnlUSD" DECIMAL(65,30) NOT NULL,
+    "twrIndex" DECIMAL(65,30) NOT NULL,
+    "benchmarkValueUSD" DECIMAL(65,30) NOT NULL,
+    "benchmarkIndex" DECIMAL(65,30) NOT NULL,
+    "holdings" JSONB NOT NULL,
+    "rebalanced" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "strategy_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "strategy_snapshots_strategyId_timestamp_idx" ON "strategy_snapshots"("strategyId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "strategy_snapshots_timestamp_idx" ON "strategy_snapshots"("timestamp");
+
+-- AddForeignKey
+ALTER TABLE "strategy_snapshots" ADD CONSTRAINT "strategy_snapshots_strategyId_fkey" FOREIGN KEY ("strategyId") REFERENCES "strategies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "indexer_checkpoints" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "contract" TEXT NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "indexer_checkpoints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "chain_events" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "contract" TEXT NOT NULL,
+    "eventName" TEXT NOT NULL,
+    "args" JSONB NOT NULL,
+    "effects" JSONB,
+    "error" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chain_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "indexer_checkpoints_chainId_contract_key" ON "indexer_checkpoints"("chainId", "contract");
+
+-- CreateIndex
+CREATE INDEX "chain_events_chainId_blockNumber_idx" ON "chain_events"("chainId", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "chain_events_processedAt_idx" ON "chain_events"("processedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chain_events_chainId_txHash_logIndex_key" ON "chain_events"("chainId", "txHash", "logIndex");
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "rebalances" ADD COLUMN     "executionPlan" JSONB,
+ADD COLUMN     "portfolioBefore" JSONB,
+ADD COLUMN     "portfolioAfter" JSONB;
+
+-- CreateTable
+CREATE TABLE "rebalance_swaps" (
+    "id" TEXT NOT NULL,
+    "rebalanceId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "tokenIn" TEXT NOT NULL,
+    "tokenOut" TEXT NOT NULL,
+    "amountIn" DECIMAL(78,0) NOT NULL,
+    "quotedAmountOut" DECIMAL(78,0) NOT NULL,
+    "minAmountOut" DECIMAL(78,0) NOT NULL,
+    "realizedAmountOut" DECIMAL(78,0),
+    "aggregator" TEXT NOT NULL,
+    "slippageBps" INTEGER,
+    "priceImpact" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rebalance_swaps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rebalance_swaps_rebalanceId_index_key" ON "rebalance_swaps"("rebalanceId", "index");
+
+-- AddForeignKey
+ALTER TABLE "rebalance_swaps" ADD CONSTRAINT "rebalance_swaps_rebalanceId_fkey" FOREIGN KEY ("rebalanceId") REFERENCES "rebalances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
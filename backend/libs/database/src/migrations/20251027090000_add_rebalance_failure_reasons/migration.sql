@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "rebalances" ADD COLUMN     "failureReasons" JSONB;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "strategy_revisions" (
+    "id" TEXT NOT NULL,
+    "strategyId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "tokens" TEXT[],
+    "weights" INTEGER[],
+    "rebalanceInterval" BIGINT NOT NULL,
+    "strategyLogic" JSONB,
+    "authorAddress" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "restoredRevision" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "strategy_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "strategy_revisions_strategyId_revision_key" ON "strategy_revisions"("strategyId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "strategy_revisions" ADD CONSTRAINT "strategy_revisions_strategyId_fkey" FOREIGN KEY ("strategyId") REFERENCES "strategies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: current configuration of existing strategies becomes revision 1
+INSERT INTO "strategy_revisions" ("id", "strategyId", "revision", "name", "tokens", "weights", "rebalanceInterval", "strategyLogic", "authorAddress", "source", "createdAt")
+SELECT gen_random_uuid()::text, "id", 1, "name", "tokens", "weights", "rebalanceInterval", "strategyLogic", "userAddress", 'create', "updatedAt"
+FROM "strategies";
@@ -14,6 +14,7 @@ export enum EventChannel {
   EVENT_INDEXED = 'event:indexed',
   GAS_PRICE_UPDATED = 'gas:updated',
   SYSTEM_ALERT = 'system:alert',
+  SOCKET_MESSAGE = 'socket:message',
 }
 
 /**
@@ -42,6 +43,7 @@ export interface StrategyUpdatedEvent extends BaseEvent {
     weights?: number[];
     rebalanceInterval?: number;
     isActive?: boolean;
+    revision?: number; // Set by rollbacks
   };
 }
 
@@ -124,6 +126,17 @@ export interface SystemAlertEvent extends BaseEvent {
   details?: any;
 }
 
+/**
+ * Socket.IO message relayed to the API, the only process clients connect to
+ * userAddress is null for broadcasts
+ */
+export interface SocketMessageEvent {
+  timestamp: string;
+  userAddress: string | null;
+  event: string;
+  data: unknown;
+}
+
 /**
  * Union type of all events
  */
@@ -138,4 +151,5 @@ export type EventPayload =
   | RebalanceCompletedEvent
   | EventIndexedEvent
   | GasPriceUpdatedEvent
-  | SystemAlertEvent;
+  | SystemAlertEvent
+  | SocketMessageEvent;
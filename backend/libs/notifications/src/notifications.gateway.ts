@@ -1,73 +1,235 @@
 import {
   WebSocketGateway,
   WebSocketServer,
+  OnGatewayInit,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  SubscribeMessage,
+  ConnectedSocket,
+  MessageBody,
+  WsException,
 } from '@nestjs/websockets';
-import { Server, Socket } from 'socket.io';
-import { Logger } from '@nestjs/common';
+import { Namespace, Server, Socket } from 'socket.io';
+import { Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { PrismaService } from '@app/database';
+import { EventChannel, EventsService, SocketMessageEvent } from '@app/events';
 
 @WebSocketGateway({ cors: true, namespace: '/' })
-export class NotificationsGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class NotificationsGateway
+  implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect, OnApplicationBootstrap
+{
   @WebSocketServer()
   server: Server;
 
   private readonly logger = new Logger(NotificationsGateway.name);
 
+  constructor(
+    private readonly jwt: JwtService,
+    private readonly prisma: PrismaService,
+    private readonly events: EventsService,
+  ) {}
+
+  /**
+   * Deliver relayed messages to this process's sockets
+   * Only the API listens, so the bot and indexer reach clients through here.
+   * Subscribed at bootstrap because EventsService connects in onModuleInit.
+   */
+  async onApplicationBootstrap() {
+    await this.events.subscribe(EventChannel.SOCKET_MESSAGE, (payload) => {
+      this.deliver(payload as SocketMessageEvent);
+    });
+  }
+
+  /**
+   * Authenticate every handshake with the same JWT as WalletAuthGuard
+   * Rejected clients receive a connect_error with the reason
+   */
+  afterInit(namespace: Namespace) {
+    namespace.use((client, next) => {
+      const token = this.extractToken(client);
+
+      if (!token) {
+        return next(new Error('No authentication token provided'));
+      }
+
+      try {
+        client.data.user = this.jwt.verify(token);
+        next();
+      } catch (error) {
+        next(new Error('Invalid or expired token'));
+      }
+    });
+  }
+
+  /**
+   * Join the authenticated socket to its user room
+   */
   handleConnection(client: Socket) {
-    this.logger.log(`Client connected: ${client.id}`);
+    const address = client.data.user.address.toLowerCase();
+    client.join(this.userRoom(address));
+
+    this.logger.log(`Client connected: ${client.id} (${address})`);
   }
 
   handleDisconnect(client: Socket) {
     this.logger.log(`Client disconnected: ${client.id}`);
   }
 
+  /**
+   * Join a strategy room (owner only)
+   */
+  @SubscribeMessage('subscribe')
+  async handleSubscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { strategyId: string },
+  ) {
+    const address = client.data.user.address.toLowerCase();
+
+    if (!body?.strategyId) {
+      throw new WsException('strategyId is required');
+    }
+
+    const strategy = await this.prisma.strategy.findUnique({
+      where: { id: body.strategyId },
+      select: { userAddress: true },
+    });
+
+    if (!strategy || strategy.userAddress !== address) {
+      throw new WsException('Strategy not found');
+    }
+
+    client.join(this.strategyRoom(body.strategyId));
+
+    return { strategyId: body.strategyId, subscribed: true };
+  }
+
+  /**
+   * Leave a strategy room
+   */
+  @SubscribeMessage('unsubscribe')
+  handleUnsubscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { strategyId: string },
+  ) {
+    if (!body?.strategyId) {
+      throw new WsException('strategyId is required');
+    }
+
+    client.leave(this.strategyRoom(body.strategyId));
+
+    return { strategyId: body.strategyId, subscribed: false };
+  }
+
+  /**
+   * Emit rebalance queued event (the executor hasn't picked the job up yet)
+   */
+  emitRebalanceQueued(userAddress: string, data: any) {
+    this.relay(userAddress, 'rebalance:queued', data);
+  }
+
   /**
    * Emit rebalance started event
    */
   emitRebalanceStarted(userAddress: string, data: any) {
-    this.server.to(`user:${userAddress}`).emit('rebalance:started', data);
+    this.relay(userAddress, 'rebalance:started', data);
   }
 
   /**
    * Emit rebalance completed event
    */
   emitRebalanceCompleted(userAddress: string, data: any) {
-    this.server.to(`user:${userAddress}`).emit('rebalance:completed', data);
+    this.relay(userAddress, 'rebalance:completed', data);
   }
 
   /**
    * Emit rebalance failed event
    */
   emitRebalanceFailed(userAddress: string, data: any) {
-    this.server.to(`user:${userAddress}`).emit('rebalance:failed', data);
+    this.relay(userAddress, 'rebalance:failed', data);
   }
 
   /**
    * Emit strategy updated event
    */
   emitStrategyUpdated(userAddress: string, data: any) {
-    this.server.to(`user:${userAddress}`).emit('strategy:updated', data);
+    this.relay(userAddress, 'strategy:updated', data);
   }
 
   /**
    * Emit delegation event
    */
   emitDelegationEvent(userAddress: string, event: string, data: any) {
-    this.server.to(`user:${userAddress}`).emit(`delegation:${event}`, data);
+    this.relay(userAddress, `delegation:${event}`, data);
   }
 
   /**
    * Emit notification
    */
   emitNotification(userAddress: string, notification: any) {
-    this.server.to(`user:${userAddress}`).emit('notification', notification);
+    this.relay(userAddress, 'notification', notification);
   }
 
   /**
    * Broadcast system message
    */
   broadcastSystemMessage(message: string, data?: any) {
-    this.server.emit('system:message', { message, data, timestamp: Date.now() });
+    this.relay(null, 'system:message', { message, data, timestamp: Date.now() });
+  }
+
+  /**
+   * Publish through Redis instead of emitting locally, whichever process calls
+   */
+  private relay(userAddress: string | null, event: string, data: unknown) {
+    const message: SocketMessageEvent = {
+      timestamp: new Date().toISOString(),
+      userAddress,
+      event,
+      data,
+    };
+
+    this.events
+      .publish(EventChannel.SOCKET_MESSAGE, message)
+      .catch(() => undefined); // Logged by EventsService
+  }
+
+  private deliver({ userAddress, event, data }: SocketMessageEvent) {
+    if (userAddress) {
+      this.to(userAddress, data).emit(event, data);
+    } else {
+      this.server.emit(event, data);
+    }
+  }
+
+  /**
+   * Target the user room plus the strategy room when the payload names one
+   * Socket.IO delivers once per socket even if it is in both rooms
+   */
+  private to(userAddress: string, data: any) {
+    const rooms = [this.userRoom(userAddress.toLowerCase())];
+    if (data?.strategyId) {
+      rooms.push(this.strategyRoom(data.strategyId));
+    }
+    return this.server.to(rooms);
+  }
+
+  private userRoom(address: string): string {
+    return `user:${address}`;
+  }
+
+  private strategyRoom(strategyId: string): string {
+    return `strategy:${strategyId}`;
+  }
+
+  /**
+   * Token from socket.io auth payload, falling back to the Authorization header
+   */
+  private extractToken(client: Socket): string | undefined {
+    if (client.handshake.auth?.token) {
+      return client.handshake.auth.token;
+    }
+
+    const [type, token] = client.handshake.headers.authorization?.split(' ') ?? [];
+    return type === 'Bearer' ? token : undefined;
   }
 }
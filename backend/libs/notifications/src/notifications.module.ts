@@ -1,8 +1,19 @@
 import { Module, Global } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
 import { NotificationsGateway } from './notifications.gateway';
 
 @Global()
 @Module({
+  imports: [
+    // Same secret as the API's WalletAuthGuard (bot/indexer don't register JwtModule)
+    JwtModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => ({
+        secret: config.get<string>('jwt.secret'),
+      }),
+    }),
+  ],
   providers: [NotificationsGateway],
   exports: [NotificationsGateway],
 })
@@ -14,34 +14,40 @@ export interface RebalanceJobData {
  * Indexer Job Data
  */
 export interface IndexerJobData {
+  eventId: string; // chain_events row - the processor reads args from it
   chainId: number;
   eventName: string;
-  blockNumber: bigint;
+  blockNumber: number;
   transactionHash: string;
   logIndex: number;
-  data: any;
 }
 
 /**
  * Analytics Job Data
  */
 export interface AnalyticsJobData {
-  type: 'tvl' | 'performance' | 'gas-savings' | 'drift';
+  type: 'tvl' | 'performance' | 'gas-savings' | 'drift' | 'valuation';
   chainId?: number;
   strategyId?: string;
   userAddress?: string;
+  date?: string; // ISO date of the day to (re)compute, defaults to today (UTC)
 }
 
+/**
+ * Notification delivery channels
+ */
+export type NotificationChannel = 'websocket' | 'discord' | 'telegram' | 'email' | 'webhook';
+
 /**
  * Notification Job Data
  */
 export interface NotificationJobData {
   userAddress: string;
-  type: string;
+  type: string; // NotificationType enum value
   title: string;
   message: string;
   data?: any;
-  channels?: ('websocket' | 'discord' | 'telegram')[];
+  channels?: NotificationChannel[]; // Restrict delivery; defaults to the user's enabled channels
 }
 
 /**
@@ -67,9 +73,11 @@ export const JOB_NAMES = {
   BACKFILL_EVENTS: 'backfill',
 
   // Analytics jobs
+  UPDATE_ANALYTICS: 'update-analytics',
   CALCULATE_TVL: 'calculate-tvl',
   CALCULATE_PERFORMANCE: 'calculate-performance',
   CALCULATE_GAS_SAVINGS: 'calculate-gas-savings',
+  SNAPSHOT_VALUATION: 'snapshot-valuation',
 
   // Notification jobs
   SEND_NOTIFICATION: 'send',
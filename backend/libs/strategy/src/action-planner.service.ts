@@ -8,6 +8,9 @@ import {
 } from './types/strategy-logic.types';
 import { StrategyParserService } from './strategy-parser.service';
 
+// Imbalances below this are left alone
+const REBALANCE_DUST_USD = 1;
+
 @Injectable()
 export class ActionPlannerService {
   private readonly logger = new Logger(ActionPlannerService.name);
@@ -16,11 +19,12 @@ export class ActionPlannerService {
 
   /**
    * Generate execution plan based on strategy actions
+   * Only actions whose upstream condition path is met (actionGates) are planned
    */
   async generateExecutionPlan(
     strategy: CanvasStrategy,
     portfolioState: PortfolioState,
-    conditionsMet: boolean,
+    actionGates: Map<string, boolean>,
   ): Promise<ExecutionPlan> {
     const actionBlocks = this.parser.getActionBlocks(strategy);
 
@@ -38,8 +42,18 @@ export class ActionPlannerService {
 
     const swaps: SwapPlan[] = [];
     const transfers: ExecutionPlan['transfers'] = [];
+    const skippedActions: ActionBlock[] = [];
 
     for (const action of actionBlocks) {
+      // Actions with no upstream conditions are always open
+      if (actionGates.get(action.id) === false) {
+        this.logger.debug(
+          `Skipping ${action.data.actionType} action ${action.id}: conditions not met`,
+        );
+        skippedActions.push(action);
+        continue;
+      }
+
       switch (action.data.actionType) {
         case 'rebalance':
           // Generate swaps to rebalance portfolio
@@ -71,24 +85,10 @@ export class ActionPlannerService {
     const estimatedGas =
       BigInt(swaps.length * 150000 + transfers.length * 50000);
 
-    // Separate rebalance swaps from conditional actions
-    // Rebalance = portfolio maintenance (always execute)
-    // Transfers/Swaps = tactical actions (require conditions)
-    const hasRebalanceSwaps = swaps.some((s) => s.reason === 'rebalance');
-    const hasConditionalActions =
-      swaps.some((s) => s.reason === 'swap_action') || transfers.length > 0;
-
-    // Rebalance always executes (portfolio maintenance)
-    // Other actions require conditions to be met
-    const shouldExecute =
-      hasRebalanceSwaps || (conditionsMet && hasConditionalActions);
+    // Every planned swap/transfer already passed its own condition path
+    const shouldExecute = swaps.length > 0 || transfers.length > 0;
 
-    const reason = this.getExecutionReason(
-      conditionsMet,
-      swaps,
-      transfers,
-      hasRebalanceSwaps,
-    );
+    const reason = this.getExecutionReason(swaps, transfers, skippedActions);
 
     return {
       swaps,
@@ -101,6 +101,12 @@ export class ActionPlannerService {
 
   /**
    * Plan swaps needed to rebalance portfolio to target weights
+   *
+   * Every USD of excess is moved to a token that is short, in as few swaps as possible:
+   * - A seller and buyer whose imbalances match (within $1) settle in one swap
+   * - The rest is matched greedily, largest seller with largest buyer, carrying the
+   *   remainder forward - at most (sellers + buyers - 1) swaps and nothing left over
+   * Intermediate hops (e.g. via WETH/USDC) are chosen by the DEX router, not here
    */
   private planRebalanceSwaps(
     portfolioState: PortfolioState,
@@ -110,10 +116,8 @@ export class ActionPlannerService {
     const targetWeights = this.parser.getTargetWeights(strategy);
 
     // Calculate which tokens to sell and which to buy
-    const adjustments: Array<{
-      token: PortfolioState['tokens'][0];
-      deltaUSD: number; // Negative = sell, positive = buy
-    }> = [];
+    const sellers: Array<{ token: PortfolioState['tokens'][0]; remainingUSD: number; remainingBalance: bigint }> = [];
+    const buyers: Array<{ token: PortfolioState['tokens'][0]; remainingUSD: number }> = [];
 
     portfolioState.tokens.forEach((token) => {
       const targetWeight = targetWeights.get(token.address) || 0;
@@ -121,50 +125,76 @@ export class ActionPlannerService {
         (portfolioState.totalValueUSD * targetWeight) / 100;
       const deltaUSD = targetValueUSD - token.valueUSD;
 
-      if (Math.abs(deltaUSD) > 1) {
-        // Only adjust if difference > $1
-        adjustments.push({ token, deltaUSD });
+      // Only adjust if difference > $1
+      if (deltaUSD < -REBALANCE_DUST_USD) {
+        sellers.push({ token, remainingUSD: -deltaUSD, remainingBalance: token.balance });
+      } else if (deltaUSD > REBALANCE_DUST_USD) {
+        buyers.push({ token, remainingUSD: deltaUSD });
       }
     });
 
-    // Sort by delta (most oversold first, then most overbought)
-    adjustments.sort((a, b) => a.deltaUSD - b.deltaUSD);
-
-    // Match oversold with overbought tokens
-    const toSell = adjustments.filter((a) => a.deltaUSD < 0);
-    const toBuy = adjustments.filter((a) => a.deltaUSD > 0);
-
-    for (let i = 0; i < Math.min(toSell.length, toBuy.length); i++) {
-      const sellToken = toSell[i].token;
-      const buyToken = toBuy[i].token;
-      const amountUSD = Math.min(
-        Math.abs(toSell[i].deltaUSD),
-        toBuy[i].deltaUSD,
-      );
-
-      // Convert USD to token amounts
-      const fromAmount = this.usdToTokenAmount(
-        amountUSD,
-        sellToken.priceUSD,
-        sellToken.decimals,
+    const addSwap = (
+      seller: (typeof sellers)[0],
+      buyer: (typeof buyers)[0],
+      amountUSD: number,
+    ) => {
+      seller.remainingUSD -= amountUSD;
+      buyer.remainingUSD -= amountUSD;
+
+      // Convert USD to token amounts (never sell more than the balance left)
+      const fromAmount = this.minBigInt(
+        this.usdToTokenAmount(amountUSD, seller.token.priceUSD, seller.token.decimals),
+        seller.remainingBalance,
       );
       const expectedToAmount = this.usdToTokenAmount(
         amountUSD,
-        buyToken.priceUSD,
-        buyToken.decimals,
+        buyer.token.priceUSD,
+        buyer.token.decimals,
       );
+      if (fromAmount === 0n) return;
+      seller.remainingBalance -= fromAmount;
 
       swaps.push({
-        fromToken: sellToken.address,
-        toToken: buyToken.address,
+        fromToken: seller.token.address,
+        toToken: buyer.token.address,
         fromAmount,
         expectedToAmount,
         reason: 'rebalance',
       });
 
       this.logger.debug(
-        `Planned swap: ${sellToken.symbol} → ${buyToken.symbol} ($${amountUSD.toFixed(2)})`,
+        `Planned swap: ${seller.token.symbol} → ${buyer.token.symbol} ($${amountUSD.toFixed(2)})`,
       );
+    };
+
+    // Pass 1: exact matches settle a seller and a buyer in one swap
+    for (const seller of sellers) {
+      const buyer = buyers.find(
+        (b) =>
+          b.remainingUSD > REBALANCE_DUST_USD &&
+          Math.abs(b.remainingUSD - seller.remainingUSD) <= REBALANCE_DUST_USD,
+      );
+      if (buyer) addSwap(seller, buyer, Math.min(seller.remainingUSD, buyer.remainingUSD));
+    }
+
+    // Pass 2: greedy largest-to-largest on what is left
+    const open = <T extends { remainingUSD: number }>(side: T[]) =>
+      side
+        .filter((entry) => entry.remainingUSD > REBALANCE_DUST_USD)
+        .sort((a, b) => b.remainingUSD - a.remainingUSD);
+
+    const remainingSellers = open(sellers);
+    const remainingBuyers = open(buyers);
+    let i = 0;
+    let j = 0;
+
+    while (i < remainingSellers.length && j < remainingBuyers.length) {
+      const seller = remainingSellers[i];
+      const buyer = remainingBuyers[j];
+      addSwap(seller, buyer, Math.min(seller.remainingUSD, buyer.remainingUSD));
+
+      if (seller.remainingUSD <= REBALANCE_DUST_USD) i++;
+      if (buyer.remainingUSD <= REBALANCE_DUST_USD) j++;
     }
 
     return swaps;
@@ -285,33 +315,31 @@ export class ActionPlannerService {
     return BigInt(Math.floor(tokenAmount * 10 ** decimals));
   }
 
+  private minBigInt(a: bigint, b: bigint): bigint {
+    return a < b ? a : b;
+  }
+
   /**
    * Get human-readable execution reason
    */
   private getExecutionReason(
-    conditionsMet: boolean,
     swaps: SwapPlan[],
     transfers: ExecutionPlan['transfers'],
-    hasRebalanceSwaps: boolean,
+    skippedActions: ActionBlock[],
   ): string {
-    // Special case: Rebalance executing even though conditions not met
-    if (hasRebalanceSwaps && !conditionsMet) {
-      const rebalanceCount = swaps.filter((s) => s.reason === 'rebalance').length;
-      return `Executing ${rebalanceCount} rebalance swap(s) (conditions not met, other actions skipped)`;
-    }
-
-    if (!conditionsMet) {
-      return 'Conditions not met';
-    }
+    const skipped =
+      skippedActions.length > 0
+        ? ` (${skippedActions.length} action(s) skipped, conditions not met)`
+        : '';
 
     if (swaps.length === 0 && transfers.length === 0) {
-      return 'No actions required';
+      return skippedActions.length > 0 ? 'Conditions not met' : 'No actions required';
     }
 
     const parts: string[] = [];
     if (swaps.length > 0) parts.push(`${swaps.length} swap(s)`);
     if (transfers.length > 0) parts.push(`${transfers.length} transfer(s)`);
 
-    return `Executing: ${parts.join(', ')}`;
+    return `Executing: ${parts.join(', ')}${skipped}`;
   }
 }
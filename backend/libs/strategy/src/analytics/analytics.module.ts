@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { StrategyModule } from '../strategy.module';
+import { AnalyticsService } from './analytics.service';
+import { ValuationService } from './valuation.service';
+
+/**
+ * Platform metrics, per-strategy performance and valuation snapshots
+ * Self-contained (no queues, no wallet) so the API can import it directly
+ */
+@Module({
+  imports: [StrategyModule],
+  providers: [AnalyticsService, ValuationService],
+  exports: [AnalyticsService, ValuationService],
+})
+export class AnalyticsModule {}
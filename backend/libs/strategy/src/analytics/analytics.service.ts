@@ -0,0 +1,238 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, Rebalance, RebalanceStatus } from '@prisma/client';
+import { parseUnits } from 'viem';
+import { PrismaService } from '@app/database';
+import { StrategyEngineService } from '../strategy-engine.service';
+import { ValuationService } from './valuation.service';
+import { RebalanceSummary, StrategyPerformance } from './types/analytics.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class AnalyticsService {
+  private readonly logger = new Logger(AnalyticsService.name);
+  private readonly baselineSwapGas: bigint;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+    private readonly strategyEngine: StrategyEngineService,
+    private readonly valuation: ValuationService,
+  ) {
+    this.baselineSwapGas = BigInt(this.config.get<number>('analytics.baselineSwapGas', 150000));
+  }
+
+  /**
+   * Chains that have at least one strategy
+   */
+  async getChainIds(): Promise<number[]> {
+    const chains = await this.prisma.strategy.findMany({
+      distinct: ['chainId'],
+      select: { chainId: true },
+    });
+    return chains.map((chain) => chain.chainId);
+  }
+
+  /**
+   * Strategy/user counts (current) and rebalance outcomes (executed that day)
+   */
+  async calculatePerformance(chainId: number, date: Date = new Date()) {
+    const [totalStrategies, activeStrategies, users, rebalances] = await Promise.all([
+      this.prisma.strategy.count({ where: { chainId } }),
+      this.prisma.strategy.count({ where: { chainId, isActive: true } }),
+      this.prisma.strategy.findMany({
+        where: { chainId },
+        distinct: ['userAddress'],
+        select: { userAddress: true },
+      }),
+      this.getRebalancesForDay(chainId, date),
+    ]);
+    const summary = this.summarizeRebalances(rebalances);
+
+    await this.upsertDay(chainId, date, {
+      totalStrategies,
+      activeStrategies,
+      totalUsers: users.length,
+      totalRebalances: summary.totalRebalances,
+      successfulRebalances: summary.successfulRebalances,
+      avgDriftReduction: (summary.avgDriftReduction / 100).toFixed(2), // Stored as %
+    });
+
+    this.logger.debug(
+      `Chain ${chainId}: ${activeStrategies}/${totalStrategies} active strategies, ` +
+        `${summary.successfulRebalances}/${summary.totalRebalances} successful rebalances`,
+    );
+  }
+
+  /**
+   * Gas saved by the day's batched rebalances
+   */
+  async calculateGasSavings(chainId: number, date: Date = new Date()) {
+    const rebalances = await this.getRebalancesForDay(chainId, date);
+    const { totalGasSaved } = this.summarizeRebalances(rebalances);
+
+    await this.upsertDay(chainId, date, { totalGasSaved });
+
+    this.logger.debug(`Chain ${chainId}: ${totalGasSaved} gas saved`);
+  }
+
+  /**
+   * Total USD value held by the chain's active, deployed strategies
+   * Strategies are valued one at a time - a failing RPC skips that strategy only
+   */
+  async calculateTvl(chainId: number, date: Date = new Date()) {
+    const strategies = await this.prisma.strategy.findMany({
+      where: {
+        chainId,
+        isActive: true,
+        isDeployed: true,
+        delegatorAddress: { not: null },
+      },
+    });
+
+    let totalValueUSD = 0;
+    let valued = 0;
+    for (const strategy of strategies) {
+      if (!strategy.strategyLogic) continue;
+
+      try {
+        const portfolio = await this.strategyEngine.getPortfolioState(
+          strategy.strategyLogic,
+          strategy,
+        );
+        if (!portfolio) continue;
+
+        totalValueUSD += portfolio.totalValueUSD;
+        valued++;
+      } catch (error) {
+        this.logger.warn(`Failed to value strategy ${strategy.id}: ${error.message}`);
+      }
+    }
+
+    await this.upsertDay(chainId, date, {
+      totalValueLocked: parseUnits(totalValueUSD.toFixed(6), 18),
+    });
+
+    this.logger.log(
+      `Chain ${chainId}: TVL $${totalValueUSD.toFixed(2)} across ${valued}/${strategies.length} strategies`,
+    );
+  }
+
+  /**
+   * Lifetime rebalance performance, current valuation and P&L of one strategy
+   */
+  async getStrategyPerformance(dbStrategy: any): Promise<StrategyPerformance> {
+    const rebalances = await this.prisma.rebalance.findMany({
+      where: { strategyId: dbStrategy.id },
+      orderBy: { executedAt: 'desc' },
+    });
+    const summary = this.summarizeRebalances(rebalances);
+
+    let currentValueUSD: number | null = null;
+    let currentDrift: number | null = null;
+    if (dbStrategy.strategyLogic) {
+      try {
+        const portfolio = await this.strategyEngine.getPortfolioState(
+          dbStrategy.strategyLogic,
+          dbStrategy,
+        );
+        currentValueUSD = portfolio?.totalValueUSD ?? null;
+        currentDrift = portfolio?.drift ?? null;
+      } catch (error) {
+        this.logger.warn(`Failed to value strategy ${dbStrategy.id}: ${error.message}`);
+      }
+    }
+
+    const pnl = await this.valuation.getLatestPnl(dbStrategy.id);
+
+    return {
+      strategyId: dbStrategy.id,
+      chainId: dbStrategy.chainId,
+      totalRebalances: summary.totalRebalances,
+      successfulRebalances: summary.successfulRebalances,
+      failedRebalances: summary.failedRebalances,
+      successRate: summary.successRate,
+      avgDriftReduction: summary.avgDriftReduction,
+      totalGasUsed: summary.totalGasUsed.toString(),
+      totalGasCost: summary.totalGasCost.toString(),
+      totalGasSaved: summary.totalGasSaved.toString(),
+      lastRebalanceAt: rebalances[0]?.executedAt.toISOString() ?? null,
+      currentValueUSD: currentValueUSD ?? pnl?.totalValueUSD ?? null,
+      currentDrift,
+      pnl,
+    };
+  }
+
+  /**
+   * Aggregate rebalances the same way as GET /rebalances/stats
+   * Gas saved per successful rebalance = swaps × standalone swap gas - gas actually used
+   */
+  private summarizeRebalances(rebalances: Rebalance[]): RebalanceSummary {
+    const successful = rebalances.filter((r) => r.status === RebalanceStatus.SUCCESS);
+    const failed = rebalances.filter((r) => r.status === RebalanceStatus.FAILED);
+    const withDriftAfter = successful.filter((r) => r.driftAfter !== null);
+
+    const avgDriftReduction =
+      withDriftAfter.length > 0
+        ? withDriftAfter.reduce(
+            (sum, r) => sum + Number(r.drift) - Number(r.driftAfter),
+            0,
+          ) / withDriftAfter.length
+        : 0;
+
+    let totalGasUsed = 0n;
+    let totalGasCost = 0n;
+    let totalGasSaved = 0n;
+    for (const rebalance of successful) {
+      totalGasUsed += rebalance.gasUsed;
+      totalGasCost += rebalance.gasCost;
+
+      const baseline = BigInt(rebalance.swapsExecuted) * this.baselineSwapGas;
+      if (baseline > rebalance.gasUsed) {
+        totalGasSaved += baseline - rebalance.gasUsed;
+      }
+    }
+
+    return {
+      totalRebalances: rebalances.length,
+      successfulRebalances: successful.length,
+      failedRebalances: failed.length,
+      successRate: rebalances.length > 0 ? (successful.length / rebalances.length) * 100 : 0,
+      avgDriftReduction: Math.round(avgDriftReduction),
+      totalGasUsed,
+      totalGasCost,
+      totalGasSaved,
+    };
+  }
+
+  private getRebalancesForDay(chainId: number, date: Date) {
+    const day = this.startOfDay(date);
+    return this.prisma.rebalance.findMany({
+      where: {
+        chainId,
+        executedAt: { gte: day, lt: new Date(day.getTime() + DAY_MS) },
+      },
+    });
+  }
+
+  /**
+   * Each job only writes its own columns of the (chainId, day) row
+   */
+  private async upsertDay(
+    chainId: number,
+    date: Date,
+    data: Omit<Prisma.AnalyticsUncheckedCreateInput, 'chainId' | 'date'>,
+  ) {
+    const day = this.startOfDay(date);
+    await this.prisma.analytics.upsert({
+      where: { chainId_date: { chainId, date: day } },
+      create: { chainId, date: day, ...data },
+      update: data,
+    });
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+}
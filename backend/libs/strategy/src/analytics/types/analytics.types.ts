@@ -0,0 +1,96 @@
+/**
+ * Analytics Types
+ * Daily rollups, per-strategy performance and P&L valuation snapshots
+ */
+
+export interface RebalanceSummary {
+  totalRebalances: number;
+  successfulRebalances: number;
+  failedRebalances: number;
+  successRate: number; // Percentage
+  avgDriftReduction: number; // Basis points, over successful rebalances with driftAfter
+  totalGasUsed: bigint;
+  totalGasCost: bigint; // Wei
+  totalGasSaved: bigint; // Gas units vs. one standalone tx per swap
+}
+
+/**
+ * Per-strategy performance - JSON safe (bigints as strings)
+ */
+export interface StrategyPerformance {
+  strategyId: string;
+  chainId: number;
+  totalRebalances: number;
+  successfulRebalances: number;
+  failedRebalances: number;
+  successRate: number; // Percentage
+  avgDriftReduction: number; // Basis points
+  totalGasUsed: string;
+  totalGasCost: string; // Wei
+  totalGasSaved: string; // Gas units
+  lastRebalanceAt: string | null;
+  currentValueUSD: number | null; // Null when the portfolio can't be valued
+  currentDrift: number | null; // Basis points
+  pnl: StrategyPnl | null; // Null until the first valuation snapshot
+}
+
+/**
+ * One token inside a StrategySnapshot.holdings array
+ */
+export interface SnapshotHolding {
+  address: string;
+  symbol: string;
+  decimals: number;
+  balance: string; // Wei
+  priceUSD: number;
+  valueUSD: number;
+  costBasisUSD: number; // Average-cost basis of the units still held
+  initialWeight: number; // Percentage - fixed when the token is first seen
+  benchmarkUnits: number; // Token units held by the buy-and-hold benchmark
+}
+
+/**
+ * Profit and loss as of the latest valuation snapshot
+ */
+export interface StrategyPnl {
+  asOf: string;
+  totalValueUSD: number;
+  netContributionsUSD: number; // Deposits - withdrawals
+  realizedPnlUSD: number;
+  unrealizedPnlUSD: number;
+  totalPnlUSD: number; // Realized + unrealized = value - net contributions
+  totalPnlPercent: number; // Of net contributions
+  twr: number; // Time-weighted return (%)
+  benchmarkValueUSD: number;
+  benchmarkReturn: number; // Buy-and-hold time-weighted return (%)
+  excessReturn: number; // TWR - benchmark (percentage points)
+}
+
+/**
+ * One point of a strategy's valuation history
+ */
+export interface ValuationPoint {
+  timestamp: string;
+  totalValueUSD: number;
+  netContributionsUSD: number;
+  totalPnlUSD: number;
+  twr: number; // Percentage
+  benchmarkValueUSD: number;
+  benchmarkReturn: number; // Percentage
+  rebalanced: boolean;
+}
+
+/**
+ * Latest P&L of every snapshotted strategy a user owns
+ */
+export interface UserPnl {
+  strategies: (StrategyPnl & { strategyId: string; name: string; chainId: number })[];
+  totals: {
+    totalValueUSD: number;
+    netContributionsUSD: number;
+    realizedPnlUSD: number;
+    unrealizedPnlUSD: number;
+    totalPnlUSD: number;
+    totalPnlPercent: number;
+  };
+}
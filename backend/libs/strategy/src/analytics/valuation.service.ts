@@ -0,0 +1,312 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma, RebalanceStatus, StrategySnapshot } from '@prisma/client';
+import { PrismaService } from '@app/database';
+import { StrategyEngineService } from '../strategy-engine.service';
+import { PortfolioState } from '../types/strategy-logic.types';
+import {
+  SnapshotHolding,
+  StrategyPnl,
+  UserPnl,
+  ValuationPoint,
+} from './types/analytics.types';
+
+/**
+ * Strategy valuation snapshots and P&L accounting
+ *
+ * Each snapshot values the portfolio at Pyth prices and carries the books forward
+ * from the previous one. Balance changes between snapshots are classified as:
+ * - No rebalance in between: deposits/withdrawals (external flows)
+ * - Rebalance in between: trades. Buying more than was sold is treated as a deposit,
+ *   selling more than was bought as trading cost (fees, slippage, transfer actions)
+ * Realized P&L uses average cost per token; TWR removes flows from each period's return.
+ */
+@Injectable()
+export class ValuationService {
+  private readonly logger = new Logger(ValuationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly strategyEngine: StrategyEngineService,
+  ) {}
+
+  /**
+   * Snapshot every active, deployed strategy (one failure doesn't block the rest)
+   */
+  async snapshotAll(chainId?: number) {
+    const strategies = await this.prisma.strategy.findMany({
+      where: {
+        isActive: true,
+        isDeployed: true,
+        delegatorAddress: { not: null },
+        ...(chainId && { chainId }),
+      },
+    });
+
+    let taken = 0;
+    for (const strategy of strategies) {
+      try {
+        if (await this.takeSnapshot(strategy)) taken++;
+      } catch (error) {
+        this.logger.warn(`Failed to snapshot strategy ${strategy.id}: ${error.message}`);
+      }
+    }
+
+    this.logger.log(`Valuation snapshots: ${taken}/${strategies.length} strategies`);
+  }
+
+  /**
+   * Value one strategy and append a snapshot
+   * Returns null when the strategy has no logic to derive its assets from
+   */
+  async takeSnapshot(dbStrategy: any): Promise<StrategySnapshot | null> {
+    if (!dbStrategy.strategyLogic) return null;
+
+    const portfolio = await this.strategyEngine.getPortfolioState(
+      dbStrategy.strategyLogic,
+      dbStrategy,
+    );
+    if (!portfolio) return null;
+
+    const previous = await this.prisma.strategySnapshot.findFirst({
+      where: { strategyId: dbStrategy.id },
+      orderBy: { timestamp: 'desc' },
+    });
+
+    const rebalanced = previous
+      ? (await this.prisma.rebalance.count({
+          where: {
+            strategyId: dbStrategy.id,
+            status: RebalanceStatus.SUCCESS,
+            executedAt: { gt: previous.timestamp },
+          },
+        })) > 0
+      : false;
+
+    const snapshot = await this.prisma.strategySnapshot.create({
+      data: {
+        strategyId: dbStrategy.id,
+        chainId: dbStrategy.chainId,
+        ...this.computeAccounting(previous, portfolio, rebalanced),
+      },
+    });
+
+    this.logger.debug(
+      `Snapshot ${dbStrategy.id}: $${portfolio.totalValueUSD.toFixed(2)}` +
+        (rebalanced ? ' (after rebalance)' : ''),
+    );
+
+    return snapshot;
+  }
+
+  /**
+   * P&L as of the latest snapshot
+   */
+  async getLatestPnl(strategyId: string): Promise<StrategyPnl | null> {
+    const snapshot = await this.prisma.strategySnapshot.findFirst({
+      where: { strategyId },
+      orderBy: { timestamp: 'desc' },
+    });
+
+    return snapshot ? this.toPnl(snapshot) : null;
+  }
+
+  /**
+   * Valuation history since a date, oldest first
+   */
+  async getHistory(strategyId: string, since: Date): Promise<ValuationPoint[]> {
+    const snapshots = await this.prisma.strategySnapshot.findMany({
+      where: { strategyId, timestamp: { gte: since } },
+      orderBy: { timestamp: 'asc' },
+    });
+
+    return snapshots.map((snapshot) => {
+      const pnl = this.toPnl(snapshot);
+      return {
+        timestamp: pnl.asOf,
+        totalValueUSD: pnl.totalValueUSD,
+        netContributionsUSD: pnl.netContributionsUSD,
+        totalPnlUSD: pnl.totalPnlUSD,
+        twr: pnl.twr,
+        benchmarkValueUSD: pnl.benchmarkValueUSD,
+        benchmarkReturn: pnl.benchmarkReturn,
+        rebalanced: snapshot.rebalanced,
+      };
+    });
+  }
+
+  /**
+   * Latest P&L of each of the user's strategies, plus dollar totals
+   * Returns aren't summed - TWR is only meaningful per strategy
+   */
+  async getUserPnl(userAddress: string): Promise<UserPnl> {
+    const snapshots = await this.prisma.strategySnapshot.findMany({
+      where: { strategy: { userAddress: userAddress.toLowerCase() } },
+      distinct: ['strategyId'],
+      orderBy: [{ strategyId: 'asc' }, { timestamp: 'desc' }],
+      include: { strategy: { select: { name: true } } },
+    });
+
+    const strategies = snapshots.map((snapshot) => ({
+      strategyId: snapshot.strategyId,
+      name: snapshot.strategy.name,
+      chainId: snapshot.chainId,
+      ...this.toPnl(snapshot),
+    }));
+
+    const sum = (key: keyof StrategyPnl) =>
+      strategies.reduce((total, strategy) => total + (strategy[key] as number), 0);
+    const netContributionsUSD = sum('netContributionsUSD');
+    const totalPnlUSD = sum('totalPnlUSD');
+
+    return {
+      strategies,
+      totals: {
+        totalValueUSD: sum('totalValueUSD'),
+        netContributionsUSD,
+        realizedPnlUSD: sum('realizedPnlUSD'),
+        unrealizedPnlUSD: sum('unrealizedPnlUSD'),
+        totalPnlUSD,
+        totalPnlPercent: netContributionsUSD > 0 ? (totalPnlUSD / netContributionsUSD) * 100 : 0,
+      },
+    };
+  }
+
+  /**
+   * Carry the previous snapshot's books forward to the current portfolio
+   */
+  private computeAccounting(
+    previous: StrategySnapshot | null,
+    portfolio: PortfolioState,
+    rebalanced: boolean,
+  ): Omit<Prisma.StrategySnapshotUncheckedCreateInput, 'strategyId' | 'chainId'> {
+    const before = new Map<string, SnapshotHolding>(
+      ((previous?.holdings as unknown as SnapshotHolding[]) ?? []).map((h) => [h.address, h]),
+    );
+    const current = new Map(portfolio.tokens.map((t) => [t.address.toLowerCase(), t]));
+    const addresses = new Set([...before.keys(), ...current.keys()]);
+
+    let flowUSD = 0;
+    let realizedUSD = 0;
+    let boughtUSD = 0;
+    let soldUSD = 0;
+    const holdings: SnapshotHolding[] = [];
+
+    for (const address of addresses) {
+      const held = before.get(address);
+      const token = current.get(address);
+      const decimals = token?.decimals ?? held.decimals;
+      const priceUSD = token?.priceUSD ?? held.priceUSD; // Token removed from the strategy
+      const balance = token?.balance ?? 0n;
+
+      const unitsBefore = held ? Number(BigInt(held.balance)) / 10 ** decimals : 0;
+      const units = Number(balance) / 10 ** decimals;
+      const delta = units - unitsBefore;
+      let costBasisUSD = held?.costBasisUSD ?? 0;
+
+      if (delta > 0) {
+        costBasisUSD += delta * priceUSD;
+        if (rebalanced) boughtUSD += delta * priceUSD;
+        else flowUSD += delta * priceUSD;
+      } else if (delta < 0) {
+        const avgCost = unitsBefore > 0 ? costBasisUSD / unitsBefore : 0;
+        realizedUSD += (priceUSD - avgCost) * -delta;
+        costBasisUSD -= avgCost * -delta;
+        if (rebalanced) soldUSD += priceUSD * -delta;
+        else flowUSD -= priceUSD * -delta;
+      }
+
+      holdings.push({
+        address,
+        symbol: token?.symbol ?? held.symbol,
+        decimals,
+        balance: balance.toString(),
+        priceUSD,
+        valueUSD: units * priceUSD,
+        costBasisUSD,
+        initialWeight: held?.initialWeight ?? token?.targetWeight ?? 0,
+        benchmarkUnits: held?.benchmarkUnits ?? 0,
+      });
+    }
+
+    if (rebalanced) {
+      const netBoughtUSD = boughtUSD - soldUSD;
+      if (netBoughtUSD >= 0) flowUSD += netBoughtUSD;
+      else realizedUSD += netBoughtUSD;
+    }
+
+    const benchmarkValueUSD = this.applyBenchmarkFlow(holdings, flowUSD);
+
+    const totalValueUSD = holdings.reduce((sum, h) => sum + h.valueUSD, 0);
+    const costBasisUSD = holdings.reduce((sum, h) => sum + h.costBasisUSD, 0);
+    const previousValue = previous ? previous.totalValueUSD.toNumber() : 0;
+    const previousBenchmark = previous ? previous.benchmarkValueUSD.toNumber() : 0;
+
+    // Period growth factors with the flow stripped out (flat when starting from zero)
+    const growth = previousValue > 0 ? Math.max(0, (totalValueUSD - flowUSD) / previousValue) : 1;
+    const benchmarkGrowth =
+      previousBenchmark > 0 ? Math.max(0, (benchmarkValueUSD - flowUSD) / previousBenchmark) : 1;
+
+    return {
+      totalValueUSD,
+      netFlowUSD: flowUSD,
+      netContributionsUSD: (previous ? previous.netContributionsUSD.toNumber() : 0) + flowUSD,
+      realizedPnlUSD: (previous ? previous.realizedPnlUSD.toNumber() : 0) + realizedUSD,
+      unrealizedPnlUSD: totalValueUSD - costBasisUSD,
+      twrIndex: (previous ? previous.twrIndex.toNumber() : 1) * growth,
+      benchmarkValueUSD,
+      benchmarkIndex: (previous ? previous.benchmarkIndex.toNumber() : 1) * benchmarkGrowth,
+      holdings: holdings.filter(
+        (h) => h.balance !== '0' || h.benchmarkUnits > 0,
+      ) as unknown as Prisma.InputJsonValue,
+      rebalanced,
+    };
+  }
+
+  /**
+   * Deposits buy the initial weights at current prices, withdrawals sell pro rata
+   * Mutates benchmarkUnits and returns the benchmark's value after the flow
+   */
+  private applyBenchmarkFlow(holdings: SnapshotHolding[], flowUSD: number): number {
+    const valueBefore = holdings.reduce((sum, h) => sum + h.benchmarkUnits * h.priceUSD, 0);
+
+    if (flowUSD > 0) {
+      const priced = holdings.filter((h) => h.priceUSD > 0);
+      const totalWeight = priced.reduce((sum, h) => sum + h.initialWeight, 0);
+      priced.forEach((h) => {
+        const share = totalWeight > 0 ? h.initialWeight / totalWeight : 1 / priced.length;
+        h.benchmarkUnits += (flowUSD * share) / h.priceUSD;
+      });
+    } else if (flowUSD < 0) {
+      const remaining = valueBefore > 0 ? Math.max(0, (valueBefore + flowUSD) / valueBefore) : 0;
+      holdings.forEach((h) => {
+        h.benchmarkUnits *= remaining;
+      });
+    }
+
+    return holdings.reduce((sum, h) => sum + h.benchmarkUnits * h.priceUSD, 0);
+  }
+
+  private toPnl(snapshot: StrategySnapshot): StrategyPnl {
+    const totalValueUSD = snapshot.totalValueUSD.toNumber();
+    const netContributionsUSD = snapshot.netContributionsUSD.toNumber();
+    const realizedPnlUSD = snapshot.realizedPnlUSD.toNumber();
+    const unrealizedPnlUSD = snapshot.unrealizedPnlUSD.toNumber();
+    const totalPnlUSD = realizedPnlUSD + unrealizedPnlUSD;
+    const twr = (snapshot.twrIndex.toNumber() - 1) * 100;
+    const benchmarkReturn = (snapshot.benchmarkIndex.toNumber() - 1) * 100;
+
+    return {
+      asOf: snapshot.timestamp.toISOString(),
+      totalValueUSD,
+      netContributionsUSD,
+      realizedPnlUSD,
+      unrealizedPnlUSD,
+      totalPnlUSD,
+      totalPnlPercent: netContributionsUSD > 0 ? (totalPnlUSD / netContributionsUSD) * 100 : 0,
+      twr,
+      benchmarkValueUSD: snapshot.benchmarkValueUSD.toNumber(),
+      benchmarkReturn,
+      excessReturn: twr - benchmarkReturn,
+    };
+  }
+}
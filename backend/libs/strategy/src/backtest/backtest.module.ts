@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { StrategyModule } from '../strategy.module';
+import { BacktestService } from './backtest.service';
+import { FixturePriceSource } from './price-sources/fixture-price.source';
+import { SnapshotPriceSource } from './price-sources/snapshot-price.source';
+
+/**
+ * Offline strategy backtesting
+ * Self-contained (no queues, no wallet) so the API can import it directly
+ */
+@Module({
+  imports: [ConfigModule, StrategyModule],
+  providers: [BacktestService, FixturePriceSource, SnapshotPriceSource],
+  exports: [BacktestService],
+})
+export class BacktestModule {}
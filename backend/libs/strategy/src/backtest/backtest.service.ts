@@ -0,0 +1,302 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { StrategyEngineService } from '../strategy-engine.service';
+import { PortfolioState } from '../types/strategy-logic.types';
+import { PriceHistoryStore } from '../price-history.service';
+import { FixturePriceSource } from './price-sources/fixture-price.source';
+import { SnapshotPriceSource } from './price-sources/snapshot-price.source';
+import {
+  BacktestOptions,
+  BacktestResult,
+  BacktestTrade,
+  EquityPoint,
+  PriceHistorySource,
+  PricePoint,
+  PriceSourceKind,
+} from './types/backtest.types';
+
+type TokenInfo = Pick<
+  PortfolioState['tokens'][0],
+  'address' | 'symbol' | 'decimals' | 'targetWeight'
+>;
+
+/**
+ * Backtest Service
+ *
+ * Replays a canvas strategy over a historical price series through the same
+ * StrategyEngine pipeline the bot uses live (Parser → Analyzer → Evaluator → Planner).
+ * Balances are simulated; every step mirrors MonitorService + ExecutorProcessor:
+ * - rebalance only once the interval has elapsed AND drift >= threshold
+ * - execute whatever the planner returns when shouldExecute is true
+ */
+@Injectable()
+export class BacktestService {
+  private readonly logger = new Logger(BacktestService.name);
+  private readonly sources: Map<PriceSourceKind, PriceHistorySource>;
+
+  constructor(
+    private readonly strategyEngine: StrategyEngineService,
+    fixtureSource: FixturePriceSource,
+    snapshotSource: SnapshotPriceSource,
+  ) {
+    this.sources = new Map<PriceSourceKind, PriceHistorySource>([
+      [fixtureSource.kind, fixtureSource],
+      [snapshotSource.kind, snapshotSource],
+    ]);
+  }
+
+  /**
+   * Run a backtest for strategy logic over the requested price series
+   */
+  async run(strategyLogicJson: any, options: BacktestOptions): Promise<BacktestResult> {
+    const source = this.sources.get(options.prices.source);
+    if (!source) {
+      throw new Error(`Unknown price source: ${options.prices.source}`);
+    }
+
+    const series = (await source.load(options.prices)).filter(
+      (point) =>
+        (options.from === undefined || point.timestamp >= options.from) &&
+        (options.to === undefined || point.timestamp <= options.to),
+    );
+
+    if (series.length === 0) {
+      throw new Error('No price points in the requested range');
+    }
+
+    const trigger = this.strategyEngine.getRebalanceTrigger(strategyLogicJson);
+    const intervalMs =
+      (options.rebalanceIntervalSeconds ?? (trigger?.interval || 0) * 60) * 1000;
+
+    // Discover strategy assets (address, decimals, target weight) from an empty portfolio
+    const probe = await this.strategyEngine.evaluateSnapshot(
+      strategyLogicJson,
+      new Map(),
+      new Map(),
+    );
+    if (!probe) {
+      throw new Error('Strategy logic is invalid and cannot be backtested');
+    }
+
+    const tokens: TokenInfo[] = probe.portfolioState.tokens.map((t) => ({
+      address: t.address,
+      symbol: t.symbol,
+      decimals: t.decimals,
+      targetWeight: t.targetWeight,
+    }));
+
+    this.logger.log(
+      `Backtesting ${tokens.map((t) => t.symbol).join('/')} over ${series.length} points ` +
+      `(${options.prices.source}, interval ${intervalMs / 1000}s, drift threshold ${trigger?.driftThreshold ?? 'n/a'}bps)`,
+    );
+
+    // Start fully allocated at target weights, as if deployed at the first point
+    const lastPrices = new Map<string, number>();
+    let prices = this.resolvePrices(series[0], tokens, lastPrices);
+    const balances = new Map<string, bigint>();
+    tokens.forEach((token) => {
+      const valueUSD = (options.initialCapitalUSD * token.targetWeight) / 100;
+      balances.set(
+        token.address,
+        this.usdToTokenAmount(valueUSD, prices.get(token.address), token.decimals),
+      );
+    });
+
+    // Lookback conditions (priceChange, movingAverage) read replayed history only
+    const priceHistory = new PriceHistoryStore(series.length);
+
+    const equityCurve: EquityPoint[] = [];
+    const trades: BacktestTrade[] = [];
+    let lastRebalanceAt = series[0].timestamp;
+    let rebalanceCount = 0;
+    let totalFeesUSD = 0;
+    let totalGasUSD = 0;
+    let peakValue = 0;
+    let maxDrawdownPct = 0;
+
+    for (const point of series) {
+      prices = this.resolvePrices(point, tokens, lastPrices);
+      prices.forEach((price, token) =>
+        priceHistory.record(options.chainId, token, price, point.timestamp),
+      );
+
+      const context = {
+        timestamp: point.timestamp,
+        gasPriceGwei: options.gasPriceGwei,
+        chainId: options.chainId,
+        priceHistory,
+      };
+
+      let evaluation = await this.strategyEngine.evaluateSnapshot(
+        strategyLogicJson,
+        balances,
+        prices,
+        context,
+      );
+      if (!evaluation) {
+        throw new Error(`Strategy evaluation failed at ${new Date(point.timestamp).toISOString()}`);
+      }
+
+      const intervalElapsed = point.timestamp - lastRebalanceAt >= intervalMs;
+      const driftExceeded =
+        !!trigger && evaluation.portfolioState.drift >= trigger.driftThreshold;
+      let rebalanced = false;
+
+      if (intervalElapsed && driftExceeded && evaluation.shouldExecute) {
+        const { executionPlan } = evaluation;
+
+        for (const swap of executionPlan.swaps) {
+          const trade = this.applySwap(swap, tokens, balances, prices, options.feeBps);
+          if (trade) {
+            trades.push({ ...trade, timestamp: point.timestamp });
+            totalFeesUSD += trade.feeUSD;
+          }
+        }
+
+        // Transfers leave the portfolio entirely
+        for (const transfer of executionPlan.transfers) {
+          const current = balances.get(transfer.token) || 0n;
+          balances.set(
+            transfer.token,
+            current > transfer.amount ? current - transfer.amount : 0n,
+          );
+        }
+
+        totalGasUSD +=
+          Number(executionPlan.estimatedGas) *
+          options.gasPriceGwei *
+          1e-9 *
+          options.nativePriceUSD;
+        rebalanceCount++;
+        lastRebalanceAt = point.timestamp;
+        rebalanced = true;
+
+        // Re-evaluate to capture post-trade value and drift
+        evaluation =
+          (await this.strategyEngine.evaluateSnapshot(
+            strategyLogicJson,
+            balances,
+            prices,
+            context,
+          )) || evaluation;
+      }
+
+      const valueUSD = evaluation.portfolioState.totalValueUSD;
+      peakValue = Math.max(peakValue, valueUSD);
+      if (peakValue > 0) {
+        maxDrawdownPct = Math.max(maxDrawdownPct, ((peakValue - valueUSD) / peakValue) * 100);
+      }
+
+      equityCurve.push({
+        timestamp: point.timestamp,
+        valueUSD,
+        drift: evaluation.portfolioState.drift,
+        rebalanced,
+      });
+    }
+
+    const initialValueUSD = equityCurve[0].valueUSD;
+    const finalValueUSD = equityCurve[equityCurve.length - 1].valueUSD;
+
+    this.logger.log(
+      `Backtest finished: $${initialValueUSD.toFixed(2)} → $${finalValueUSD.toFixed(2)}, ` +
+      `${rebalanceCount} rebalance(s), max drawdown ${maxDrawdownPct.toFixed(2)}%`,
+    );
+
+    return {
+      source: options.prices.source,
+      startTimestamp: series[0].timestamp,
+      endTimestamp: series[series.length - 1].timestamp,
+      points: series.length,
+      initialValueUSD,
+      finalValueUSD,
+      returnPct:
+        initialValueUSD > 0 ? ((finalValueUSD - initialValueUSD) / initialValueUSD) * 100 : 0,
+      rebalanceCount,
+      swapCount: trades.length,
+      totalFeesUSD,
+      totalGasUSD,
+      maxDrawdownPct,
+      equityCurve,
+      trades,
+    };
+  }
+
+  /**
+   * Resolve prices for strategy tokens at a point
+   * Series may key prices by address or symbol; missing prices carry forward
+   */
+  private resolvePrices(
+    point: PricePoint,
+    tokens: TokenInfo[],
+    lastPrices: Map<string, number>,
+  ): Map<string, number> {
+    const prices = new Map<string, number>();
+
+    for (const token of tokens) {
+      const price =
+        point.prices[token.address] ??
+        point.prices[token.symbol.toLowerCase()] ??
+        lastPrices.get(token.address);
+
+      if (price === undefined) {
+        throw new Error(
+          `No price for ${token.symbol} (${token.address}) at ${new Date(point.timestamp).toISOString()}`,
+        );
+      }
+
+      lastPrices.set(token.address, price);
+      prices.set(token.address, price);
+    }
+
+    return prices;
+  }
+
+  /**
+   * Fill a planned swap at the point's prices, charging the swap fee on input
+   */
+  private applySwap(
+    swap: { fromToken: string; toToken: string; fromAmount: bigint; reason: BacktestTrade['reason'] },
+    tokens: TokenInfo[],
+    balances: Map<string, bigint>,
+    prices: Map<string, number>,
+    feeBps: number,
+  ): Omit<BacktestTrade, 'timestamp'> | null {
+    const from = tokens.find((t) => t.address === swap.fromToken);
+    const to = tokens.find((t) => t.address === swap.toToken);
+    if (!from || !to) {
+      this.logger.warn(`Skipping swap outside strategy assets: ${swap.fromToken} → ${swap.toToken}`);
+      return null;
+    }
+
+    const available = balances.get(from.address) || 0n;
+    const fromAmount = swap.fromAmount > available ? available : swap.fromAmount;
+    if (fromAmount === 0n) return null;
+
+    const amountInUSD = (Number(fromAmount) / 10 ** from.decimals) * prices.get(from.address);
+    const feeUSD = (amountInUSD * feeBps) / 10000;
+    const toAmount = this.usdToTokenAmount(
+      amountInUSD - feeUSD,
+      prices.get(to.address),
+      to.decimals,
+    );
+
+    balances.set(from.address, available - fromAmount);
+    balances.set(to.address, (balances.get(to.address) || 0n) + toAmount);
+
+    return {
+      fromToken: from.address,
+      toToken: to.address,
+      amountInUSD,
+      feeUSD,
+      reason: swap.reason,
+    };
+  }
+
+  /**
+   * Convert USD amount to token amount
+   */
+  private usdToTokenAmount(usdAmount: number, priceUSD: number, decimals: number): bigint {
+    if (!priceUSD) return 0n;
+    return BigInt(Math.floor((usdAmount / priceUSD) * 10 ** decimals));
+  }
+}
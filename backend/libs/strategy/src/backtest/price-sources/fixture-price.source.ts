@@ -0,0 +1,88 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFile } from 'fs/promises';
+import { extname, resolve, sep } from 'path';
+import {
+  PriceHistorySource,
+  PricePoint,
+  PriceSeriesRequest,
+} from '../types/backtest.types';
+import { normalizePricePoints } from './price-points';
+
+/**
+ * Local fixture price source
+ *
+ * Reads price history from files in the fixtures directory:
+ * - JSON: [{ "timestamp": 1710000000000, "prices": { "WETH": 3500, "USDC": 1 } }, ...]
+ * - CSV:  header `timestamp,<token>,<token>...` where token is an address or symbol
+ */
+@Injectable()
+export class FixturePriceSource implements PriceHistorySource {
+  readonly kind = 'fixture' as const;
+  private readonly logger = new Logger(FixturePriceSource.name);
+
+  constructor(private readonly config: ConfigService) {}
+
+  async load(request: PriceSeriesRequest): Promise<PricePoint[]> {
+    if (!request.fixture) {
+      throw new Error('A fixture file name is required for the fixture price source');
+    }
+
+    const fixturesDir = resolve(
+      this.config.get<string>('backtest.fixturesDir', 'fixtures/prices'),
+    );
+    const filePath = resolve(fixturesDir, request.fixture);
+
+    // Never read outside the fixtures directory
+    if (!filePath.startsWith(fixturesDir + sep)) {
+      throw new Error(`Invalid fixture name: ${request.fixture}`);
+    }
+
+    let raw: string;
+    try {
+      raw = await readFile(filePath, 'utf8');
+    } catch (error) {
+      throw new Error(`Fixture ${request.fixture} not found`);
+    }
+
+    const points =
+      extname(filePath).toLowerCase() === '.csv'
+        ? this.parseCsv(raw)
+        : normalizePricePoints(JSON.parse(raw));
+
+    this.logger.debug(`Loaded ${points.length} price points from ${request.fixture}`);
+    return points;
+  }
+
+  /**
+   * Parse CSV with a timestamp column followed by one column per token
+   */
+  private parseCsv(raw: string): PricePoint[] {
+    const lines = raw
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0 && !line.startsWith('#'));
+
+    if (lines.length < 2) {
+      throw new Error('CSV fixture must have a header and at least one row');
+    }
+
+    const header = lines[0].split(',').map((h) => h.trim());
+    if (header[0].toLowerCase() !== 'timestamp') {
+      throw new Error('CSV fixture must start with a timestamp column');
+    }
+
+    const rows = lines.slice(1).map((line) => {
+      const cells = line.split(',').map((c) => c.trim());
+      const prices: Record<string, string> = {};
+      header.slice(1).forEach((token, i) => {
+        if (cells[i + 1] !== undefined && cells[i + 1] !== '') {
+          prices[token] = cells[i + 1];
+        }
+      });
+      return { timestamp: cells[0], prices };
+    });
+
+    return normalizePricePoints(rows);
+  }
+}
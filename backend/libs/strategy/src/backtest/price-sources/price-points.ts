@@ -0,0 +1,48 @@
+import { PricePoint } from '../types/backtest.types';
+
+/**
+ * Normalize a timestamp given as Unix seconds, Unix ms or an ISO string to Unix ms
+ */
+export function toTimestampMs(value: number | string): number {
+  if (typeof value === 'number') {
+    return value < 1e12 ? value * 1000 : value;
+  }
+
+  const numeric = Number(value);
+  if (!Number.isNaN(numeric)) return toTimestampMs(numeric);
+
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Normalize raw price points: ms timestamps, lowercase keys, numeric prices,
+ * sorted oldest first
+ */
+export function normalizePricePoints(raw: any[]): PricePoint[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('Price history must be an array of { timestamp, prices }');
+  }
+
+  return raw
+    .map((point) => {
+      if (!point || point.timestamp === undefined || !point.prices) {
+        throw new Error('Each price point needs a timestamp and prices');
+      }
+
+      const prices: Record<string, number> = {};
+      for (const [key, price] of Object.entries(point.prices)) {
+        const value = Number(price);
+        if (!Number.isFinite(value) || value < 0) {
+          throw new Error(`Invalid price for ${key}: ${price}`);
+        }
+        prices[key.toLowerCase()] = value;
+      }
+
+      return { timestamp: toTimestampMs(point.timestamp), prices };
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
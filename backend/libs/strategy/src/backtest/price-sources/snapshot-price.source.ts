@@ -0,0 +1,24 @@
+import { Injectable } from '@nestjs/common';
+import {
+  PriceHistorySource,
+  PricePoint,
+  PriceSeriesRequest,
+} from '../types/backtest.types';
+import { normalizePricePoints } from './price-points';
+
+/**
+ * Recorded oracle snapshot price source
+ * Replays snapshots supplied by the caller (e.g. exported PythOracle readings)
+ */
+@Injectable()
+export class SnapshotPriceSource implements PriceHistorySource {
+  readonly kind = 'snapshots' as const;
+
+  async load(request: PriceSeriesRequest): Promise<PricePoint[]> {
+    if (!request.snapshots || request.snapshots.length === 0) {
+      throw new Error('At least one price snapshot is required');
+    }
+
+    return normalizePricePoints(request.snapshots);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Backtest Types
+ * Inputs and outputs for replaying canvas strategies over historical prices
+ */
+
+// ============================================
+// PRICE HISTORY
+// ============================================
+
+export interface PricePoint {
+  timestamp: number; // Unix ms
+  prices: Record<string, number>; // Token address or symbol (lowercase) -> USD price
+}
+
+/**
+ * Price point as supplied by callers/fixtures (timestamp in seconds, ms or ISO string)
+ */
+export interface RawPricePoint {
+  timestamp: number | string;
+  prices: Record<string, number>;
+}
+
+export type PriceSourceKind = 'fixture' | 'snapshots';
+
+export interface PriceSeriesRequest {
+  source: PriceSourceKind;
+  fixture?: string; // File name inside the fixtures directory (.json or .csv)
+  snapshots?: RawPricePoint[]; // Recorded oracle snapshots supplied by the caller
+}
+
+/**
+ * Pluggable price history provider
+ * Implementations must work offline - no RPC or HTTP calls
+ */
+export interface PriceHistorySource {
+  readonly kind: PriceSourceKind;
+  load(request: PriceSeriesRequest): Promise<PricePoint[]>;
+}
+
+// ============================================
+// BACKTEST RUN
+// ============================================
+
+export interface BacktestOptions {
+  chainId: number;
+  prices: PriceSeriesRequest;
+  from?: number; // Unix ms (inclusive)
+  to?: number; // Unix ms (inclusive)
+  initialCapitalUSD: number;
+  feeBps: number; // Swap fee charged on each swap input
+  gasPriceGwei: number;
+  nativePriceUSD: number;
+  rebalanceIntervalSeconds?: number; // Falls back to the rebalance block interval
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  valueUSD: number;
+  drift: number; // Basis points, after any rebalance at this step
+  rebalanced: boolean;
+}
+
+export interface BacktestTrade {
+  timestamp: number;
+  fromToken: string;
+  toToken: string;
+  amountInUSD: number;
+  feeUSD: number;
+  reason: 'rebalance' | 'swap_action';
+}
+
+export interface BacktestResult {
+  source: PriceSourceKind;
+  startTimestamp: number;
+  endTimestamp: number;
+  points: number;
+  initialValueUSD: number;
+  finalValueUSD: number;
+  returnPct: number;
+  rebalanceCount: number;
+  swapCount: number;
+  totalFeesUSD: number;
+  totalGasUSD: number;
+  maxDrawdownPct: number;
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+}
@@ -0,0 +1,440 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  CanvasStrategy,
+  ConditionBlock,
+  EvaluationContext,
+  HistoryGap,
+  PortfolioState,
+  TimeWindow,
+} from './types/strategy-logic.types';
+import { StrategyParserService } from './strategy-parser.service';
+
+@Injectable()
+export class ConditionEvaluatorService {
+  private readonly logger = new Logger(ConditionEvaluatorService.name);
+
+  constructor(private readonly parser: StrategyParserService) {}
+
+  /**
+   * Evaluate the upstream condition path of every action block
+   * validateStrategy allows one condition per action (combinators live on condition
+   * blocks); if several slip through they are ANDed. Actions with no upstream
+   * conditions are unconditional
+   */
+  evaluateActionGates(
+    strategy: CanvasStrategy,
+    portfolioState: PortfolioState,
+    context: EvaluationContext,
+  ): Map<string, boolean> {
+    const conditionResults = new Map<string, boolean>();
+    const gates = new Map<string, boolean>();
+
+    for (const action of this.parser.getActionBlocks(strategy)) {
+      const upstream = this.parser.getUpstreamConditions(strategy, action.id);
+
+      // Evaluate every path (no short-circuit) so each condition gets logged once
+      const results = upstream.map((condition) =>
+        this.evaluateConditionPath(
+          strategy,
+          condition,
+          portfolioState,
+          context,
+          conditionResults,
+          new Set(),
+        ),
+      );
+
+      gates.set(action.id, results.every((result) => result));
+    }
+
+    this.logger.debug(
+      `Action gates: ${[...gates.entries()].map(([id, open]) => `${id}=${open}`).join(', ') || 'none'}`,
+    );
+
+    return gates;
+  }
+
+  /**
+   * Evaluate a condition block and, recursively, the conditions wired into it
+   * Upstream results are memoized so shared branches are evaluated once
+   */
+  private evaluateConditionPath(
+    strategy: CanvasStrategy,
+    condition: ConditionBlock,
+    portfolioState: PortfolioState,
+    context: EvaluationContext,
+    results: Map<string, boolean>,
+    visiting: Set<string>,
+  ): boolean {
+    if (results.has(condition.id)) return results.get(condition.id);
+
+    // Cycles are rejected by validateStrategy; never loop if one slips through
+    if (visiting.has(condition.id)) {
+      this.logger.warn(`Condition cycle detected at ${condition.id}`);
+      return false;
+    }
+    visiting.add(condition.id);
+
+    const own = this.evaluateCondition(strategy, condition, portfolioState, context);
+    const upstream = this.parser
+      .getUpstreamConditions(strategy, condition.id)
+      .map((input) =>
+        this.evaluateConditionPath(
+          strategy,
+          input,
+          portfolioState,
+          context,
+          results,
+          visiting,
+        ),
+      );
+
+    const combined =
+      condition.data.combinator === 'OR'
+        ? own || upstream.some((result) => result)
+        : own && upstream.every((result) => result);
+    const result = condition.data.negate ? !combined : combined;
+
+    visiting.delete(condition.id);
+    results.set(condition.id, result);
+
+    return result;
+  }
+
+  /**
+   * Evaluate single condition block
+   */
+  private evaluateCondition(
+    strategy: CanvasStrategy,
+    condition: ConditionBlock,
+    portfolioState: PortfolioState,
+    context: EvaluationContext,
+  ): boolean {
+    const { conditionType, operator, valueUSD } = condition.data;
+
+    let actualValue: number | null;
+
+    // Get actual value based on condition type
+    switch (conditionType) {
+      case 'price':
+        actualValue = this.evaluatePriceCondition(
+          strategy,
+          condition,
+          portfolioState,
+        );
+        break;
+
+      case 'portfolioValue':
+        actualValue = portfolioState.totalValueUSD;
+        break;
+
+      case 'assetValue':
+        actualValue = this.evaluateAssetValueCondition(
+          strategy,
+          condition,
+          portfolioState,
+        );
+        break;
+
+      case 'drift':
+        actualValue = portfolioState.drift;
+        break;
+
+      case 'priceChange':
+        actualValue = this.evaluatePriceChangeCondition(
+          strategy,
+          condition,
+          portfolioState,
+          context,
+        );
+        break;
+
+      case 'movingAverage':
+        actualValue = this.evaluateMovingAverageCondition(
+          strategy,
+          condition,
+          portfolioState,
+          context,
+        );
+        break;
+
+      case 'timeWindow': {
+        // Boolean condition: operator/value don't apply
+        const inWindow = this.isInTimeWindow(condition.data.timeWindow, context.timestamp);
+        this.logger.debug(
+          `Condition: timeWindow at ${new Date(context.timestamp).toISOString()} => ${inWindow}`,
+        );
+        return inWindow;
+      }
+
+      case 'gasPrice':
+        actualValue = context.gasPriceGwei;
+        if (actualValue === null) {
+          this.logger.warn(`Gas price unavailable for condition ${condition.id}`);
+        }
+        break;
+
+      default:
+        this.logger.warn(`Unknown condition type: ${conditionType}`);
+        return false;
+    }
+
+    // Unresolvable asset or missing market data: never treat as a real value
+    if (actualValue === null) {
+      return false;
+    }
+
+    // Apply operator
+    const result = this.applyOperator(actualValue, operator, valueUSD);
+
+    this.logger.debug(
+      `Condition: ${conditionType} ${operator} ${valueUSD} => actual: ${actualValue.toFixed(2)} => ${result}`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Evaluate price condition
+   * Checks price of connected asset block
+   */
+  private evaluatePriceCondition(
+    strategy: CanvasStrategy,
+    condition: ConditionBlock,
+    portfolioState: PortfolioState,
+  ): number | null {
+    const token = this.findConditionToken(strategy, condition, portfolioState);
+    return token ? token.priceUSD : null;
+  }
+
+  /**
+   * Evaluate asset value condition
+   * Checks USD value of specific asset in portfolio
+   */
+  private evaluateAssetValueCondition(
+    strategy: CanvasStrategy,
+    condition: ConditionBlock,
+    portfolioState: PortfolioState,
+  ): number | null {
+    const token = this.findConditionToken(strategy, condition, portfolioState);
+    return token ? token.valueUSD : null;
+  }
+
+  /**
+   * Evaluate price change condition
+   * % change of connected asset's price versus lookbackMinutes ago
+   */
+  private evaluatePriceChangeCondition(
+    strategy: CanvasStrategy,
+    condition: ConditionBlock,
+    portfolioState: PortfolioState,
+    context: EvaluationContext,
+  ): number | null {
+    const token = this.findConditionToken(strategy, condition, portfolioState);
+    if (!token) return null;
+
+    const pastPrice = this.getHistoricalPrice(condition, token.address, context);
+    if (!pastPrice) {
+      this.logger.debug(
+        `Not enough price history for ${token.symbol} (${condition.data.lookbackMinutes}m lookback)`,
+      );
+      return null;
+    }
+
+    return ((token.priceUSD - pastPrice) / pastPrice) * 100;
+  }
+
+  /**
+   * Evaluate moving average condition
+   * % deviation of connected asset's price from its N-sample moving average
+   */
+  private evaluateMovingAverageCondition(
+    strategy: CanvasStrategy,
+    condition: ConditionBlock,
+    portfolioState: PortfolioState,
+    context: EvaluationContext,
+  ): number | null {
+    const token = this.findConditionToken(strategy, condition, portfolioState);
+    if (!token) return null;
+
+    const average = this.getHistoricalPrice(condition, token.address, context);
+    if (!average) {
+      this.logger.debug(
+        `Not enough price history for ${token.symbol} (${condition.data.maPeriods}-period MA)`,
+      );
+      return null;
+    }
+
+    return ((token.priceUSD - average) / average) * 100;
+  }
+
+  /**
+   * Reference price a lookback condition compares against
+   * priceChange: price lookbackMinutes ago; movingAverage: N-sample average
+   */
+  private getHistoricalPrice(
+    condition: ConditionBlock,
+    token: string,
+    context: EvaluationContext,
+  ): number | null {
+    if (condition.data.conditionType === 'priceChange') {
+      const lookbackMs = (condition.data.lookbackMinutes || 0) * 60 * 1000;
+      return context.priceHistory.getPriceAt(
+        context.chainId,
+        token,
+        context.timestamp - lookbackMs,
+      );
+    }
+
+    return context.priceHistory.getMovingAverage(
+      context.chainId,
+      token,
+      condition.data.maPeriods || 0,
+    );
+  }
+
+  /**
+   * Lookback conditions the context's price history can't answer yet
+   * They evaluate as false, so callers without the bot's live history
+   * (API simulations) surface them instead of reporting a silent miss
+   */
+  getHistoryGaps(
+    strategy: CanvasStrategy,
+    portfolioState: PortfolioState,
+    context: EvaluationContext,
+  ): HistoryGap[] {
+    return this.parser
+      .getConditionBlocks(strategy)
+      .filter(
+        (condition) =>
+          condition.data.conditionType === 'priceChange' ||
+          condition.data.conditionType === 'movingAverage',
+      )
+      .flatMap((condition) => {
+        // Unwired assets are a validation problem, not missing history
+        const token = this.findConditionToken(strategy, condition, portfolioState);
+        if (!token || this.getHistoricalPrice(condition, token.address, context)) {
+          return [];
+        }
+
+        return [
+          {
+            conditionId: condition.id,
+            conditionType: condition.data.conditionType,
+            token: token.address,
+            description: condition.data.description,
+          },
+        ];
+      });
+  }
+
+  /**
+   * Check whether a timestamp falls inside a UTC time window
+   * Windows where endHour < startHour wrap past midnight
+   */
+  private isInTimeWindow(window: TimeWindow | undefined, timestamp: number): boolean {
+    if (!window) return false;
+
+    const date = new Date(timestamp);
+    const day = date.getUTCDay();
+    const hour = date.getUTCHours();
+    const { startHour, endHour, daysOfWeek } = window;
+
+    const inHours =
+      startHour < endHour
+        ? hour >= startHour && hour < endHour
+        : hour >= startHour || hour < endHour;
+
+    if (!inHours) return false;
+    if (!daysOfWeek || daysOfWeek.length === 0) return true;
+
+    // A wrapped window belongs to the day it started on
+    const windowDay = startHour > endHour && hour < endHour ? (day + 6) % 7 : day;
+    return daysOfWeek.includes(windowDay);
+  }
+
+  /**
+   * Find the portfolio token for the asset block wired into a condition
+   */
+  private findConditionToken(
+    strategy: CanvasStrategy,
+    condition: ConditionBlock,
+    portfolioState: PortfolioState,
+  ): PortfolioState['tokens'][0] | null {
+    const address = this.parser.resolveConditionAsset(strategy, condition);
+    if (!address) {
+      this.logger.warn(
+        `Condition ${condition.id} is not connected to exactly one asset block`,
+      );
+      return null;
+    }
+
+    const token = portfolioState.tokens.find((t) => t.address === address);
+    if (!token) {
+      this.logger.warn(
+        `Condition ${condition.id} asset ${address} not found in portfolio`,
+      );
+      return null;
+    }
+
+    return token;
+  }
+
+  /**
+   * Apply comparison operator
+   */
+  private applyOperator(
+    actualValue: number,
+    operator: 'GT' | 'LT',
+    targetValue: number,
+  ): boolean {
+    switch (operator) {
+      case 'GT':
+        return actualValue > targetValue;
+      case 'LT':
+        return actualValue < targetValue;
+      default:
+        this.logger.warn(`Unknown operator: ${operator}`);
+        return false;
+    }
+  }
+
+  /**
+   * Get human-readable explanation of condition evaluation
+   */
+  getConditionSummary(
+    strategy: CanvasStrategy,
+    portfolioState: PortfolioState,
+    context: EvaluationContext,
+  ): string {
+    const conditionBlocks = this.parser.getConditionBlocks(strategy);
+
+    if (conditionBlocks.length === 0) {
+      return 'No conditions';
+    }
+
+    const results = new Map<string, boolean>();
+    const lines: string[] = [];
+
+    conditionBlocks.forEach((condition) => {
+      const result = this.evaluateConditionPath(
+        strategy,
+        condition,
+        portfolioState,
+        context,
+        results,
+        new Set(),
+      );
+      const status = result ? '✓' : '✗';
+      const desc = condition.data.description || 'Condition';
+      const logic = [
+        condition.data.combinator === 'OR' ? 'OR' : null,
+        condition.data.negate ? 'NOT' : null,
+      ].filter(Boolean);
+
+      lines.push(`  ${status} ${desc}${logic.length > 0 ? ` [${logic.join(', ')}]` : ''}`);
+    });
+
+    return lines.join('\n');
+  }
+}
@@ -3,9 +3,11 @@ import { BlockchainModule } from '@app/blockchain';
 import { DexService } from './dex.service';
 import { UniswapV2Service } from './uniswap-v2.service';
 import { MonorailService } from './monorail.service';
+import { PricesModule } from '../prices/prices.module';
+import { GasModule } from '../gas/gas.module';
 
 @Module({
-  imports: [BlockchainModule],
+  imports: [BlockchainModule, PricesModule, GasModule],
   providers: [DexService, UniswapV2Service, MonorailService],
   exports: [DexService],
 })
@@ -0,0 +1,1239 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ChainRegistryService, ChainService } from '@app/blockchain';
+import { SupportedChain } from '@app/blockchain/chains';
+import { ExecutionPlan, SwapPlan } from '../types/strategy-logic.types';
+import { PreflightIssue, PreflightResult, RebalanceCall } from './types/preflight.types';
+import axios, { AxiosInstance } from 'axios';
+import { BaseError, erc20Abi } from 'viem';
+import { UniswapV2Service } from './uniswap-v2.service';
+import { MonorailService } from './monorail.service';
+import { PricesService } from '../prices/prices.service';
+import { GasService } from '../gas/gas.service';
+
+const NATIVE_TOKEN = '0x0000000000000000000000000000000000000000';
+
+// Order splitting: shares of the order quoted per source, and how many sources are tried
+const SPLIT_PERCENTS = [25, 50, 75];
+const SPLIT_MAX_SOURCES = 3;
+
+type QuoteSource = '1inch' | '0x' | 'paraswap' | 'uniswap' | 'monorail';
+
+interface SwapQuote {
+  aggregator: string;
+  source?: QuoteSource; // Set by getQuotes
+  fromToken: string;
+  toToken: string;
+  fromAmount: bigint;
+  toAmount: bigint;
+  target: string;  // Contract to call
+  calldata: string;  // Transaction calldata
+  value?: string; // Native value sent with the call
+  estimatedGas: bigint;
+  priceImpact: number;
+}
+
+/**
+ * One way of filling a planned swap - each leg becomes a swap in the rebalance() batch
+ */
+interface SwapRoute {
+  legs: SwapQuote[];
+  toAmount: bigint; // Quoted output in the planned swap's toToken
+  gas: bigint;
+  label: string;
+}
+
+interface Quote1inch {
+  toAmount: string;
+  tx: {
+    to: string;
+    data: string;
+    value: string;
+    gas: number;
+  };
+  protocols?: any[];
+}
+
+interface Quote0x {
+  sellAmount: string;
+  buyAmount: string;
+  to: string;
+  data: string;
+  value: string;
+  gas: string;
+  gasPrice: string;
+  estimatedPriceImpact: string;
+}
+
+interface ParaswapPriceRoute {
+  destAmount: string;
+  srcAmount: string;
+  priceRoute: {
+    destAmount: string;
+    srcAmount: string;
+  };
+}
+
+interface ParaswapTransaction {
+  to: string;
+  data: string;
+  value: string;
+}
+
+@Injectable()
+export class DexService {
+  private readonly logger = new Logger(DexService.name);
+  private readonly axios1inch: AxiosInstance;
+  private readonly axios0x: AxiosInstance;
+  private readonly axiosParaswap: AxiosInstance;
+
+  // Rate limiting: Track last request time for each aggregator
+  private lastRequest = {
+    '1inch': 0,
+    '0x': 0,
+    'paraswap': 0,
+  };
+
+  // Minimum delay between requests (ms)
+  private readonly rateLimits = {
+    '1inch': 1000, // 1 req/sec
+    '0x': 500, // 2 req/sec
+    'paraswap': 500, // 2 req/sec
+  };
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly chain: ChainService,
+    private readonly registry: ChainRegistryService,
+    private readonly uniswapV2: UniswapV2Service,
+    private readonly monorail: MonorailService,
+    private readonly prices: PricesService,
+    private readonly gas: GasService,
+  ) {
+    // 1inch client with auth
+    const api1inchKey = this.config.get<string>('dex.1inchApiKey');
+    this.axios1inch = axios.create({
+      baseURL: 'https://api.1inch.dev',
+      headers: api1inchKey ? { Authorization: `Bearer ${api1inchKey}` } : {},
+      timeout: 10000,
+    });
+
+    // 0x client with auth
+    const api0xKey = this.config.get<string>('dex.0xApiKey');
+    this.axios0x = axios.create({
+      baseURL: 'https://api.0x.org',
+      headers: api0xKey ? { '0x-api-key': api0xKey } : {},
+      timeout: 10000,
+    });
+
+    // ParaSwap client (no auth required)
+    this.axiosParaswap = axios.create({
+      baseURL: 'https://apiv5.paraswap.io',
+      timeout: 10000,
+    });
+  }
+
+  /**
+   * Get optimal swap routes from execution plan
+   * Fetches quotes from every source the chain supports and routes each planned swap
+   * (direct, split across two sources, or two legs through a hub token)
+   *
+   * CHAIN-SPECIFIC SOURCES (chain registry dexAdapter):
+   * - monorail: Monorail and Uniswap V2 (Monad)
+   * - uniswap-v2: Uniswap V2 router only (local anvil)
+   * - aggregators: 1inch, 0x, ParaSwap and Uniswap V2 (Base)
+   *
+   * NATIVE TOKEN HANDLING:
+   * - Native token (0x0000...0000) cannot be swapped directly due to contract limitation
+   * - Solution: Wrap native → wrapped native (e.g. MON → WMON) first, then swap the wrapped token
+   * - This adds an extra step but works with current contract architecture
+   */
+  async getOptimalSwaps(
+    executionPlan: ExecutionPlan,
+    chain: SupportedChain,
+    userAccount: string,
+  ): Promise<any[]> {
+    this.logger.debug(
+      `Finding optimal routes for ${executionPlan.swaps.length} swaps on ${chain}`,
+    );
+
+    if (executionPlan.swaps.length === 0) {
+      this.logger.debug('No swaps required');
+      return [];
+    }
+
+    const { dexAdapter, wrappedNative } = this.registry.getChain(chain);
+    const sources = this.getQuoteSources(dexAdapter, chain);
+    this.logger.log(`Quoting ${chain} swaps via ${sources.join(', ')}`);
+
+    const allSwapData: any[] = [];
+
+    for (const plannedSwap of executionPlan.swaps) {
+      let swap = plannedSwap;
+
+      // WORKAROUND: If swapping FROM native MON, wrap it first then swap WMON
+      if (swap.fromToken.toLowerCase() === NATIVE_TOKEN) {
+        if (!wrappedNative) {
+          throw new Error(`No wrapped native token configured for ${chain}`);
+        }
+        this.logger.log('Native token detected - will wrap it first, then swap the wrapped token');
+
+        // NOTE: This requires the RebalanceExecutor contract to support native value passing
+        // Current contract limitation: hardcodes value=0 in DeleGator.execute() call
+        allSwapData.push({
+          fromToken: NATIVE_TOKEN,
+          toToken: wrappedNative,
+          target: wrappedNative, // WMON contract
+          data: '0xd0e30db0', // deposit() function selector - WMON9.deposit() payable
+          value: swap.fromAmount.toString(), // Amount of MON to wrap (needs contract support!)
+          fromAmount: swap.fromAmount,
+          quotedOutput: swap.fromAmount,
+          minOutput: swap.fromAmount, // Wrapping is 1:1
+          aggregator: 'WMON Wrapper',
+          priceImpact: 0,
+          isWrap: true, // Flag for special handling
+        });
+        this.logger.warn(`Added WRAP step (requires contract upgrade): ${swap.fromAmount} MON → WMON`);
+
+        swap = { ...swap, fromToken: wrappedNative };
+      }
+
+      const route = await this.routeSwap(swap, chain, userAccount, sources);
+      if (!route) {
+        this.logger.error(`No acceptable route for swap ${swap.fromToken}->${swap.toToken}`);
+        throw new Error(`No acceptable quotes for ${swap.fromToken}->${swap.toToken}`);
+      }
+
+      this.logger.log(
+        `Route for ${swap.fromToken}->${swap.toToken}: ${route.label} - Output: ${route.toAmount}`,
+      );
+
+      allSwapData.push(
+        ...route.legs.map((leg) => ({
+          fromToken: leg.fromToken,
+          toToken: leg.toToken,
+          target: leg.target,
+          data: leg.calldata,
+          value: leg.value ?? '0',
+          fromAmount: leg.fromAmount,
+          quotedOutput: leg.toAmount,
+          minOutput: this.getMinOutput(leg.toAmount), // Enforced by RebalanceExecutor
+          aggregator: leg.aggregator,
+          priceImpact: leg.priceImpact,
+        })),
+      );
+    }
+
+    return allSwapData;
+  }
+
+  /**
+   * Get token decimals from contract
+   */
+  private async getTokenDecimals(
+    tokenAddress: string,
+    chain: SupportedChain,
+  ): Promise<number> {
+    try {
+      const client = this.chain.getPublicClient(chain);
+
+      // Native token always has 18 decimals
+      if (
+        tokenAddress === '0x0000000000000000000000000000000000000000' ||
+        tokenAddress.toLowerCase() === '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'
+      ) {
+        return 18;
+      }
+
+      const decimals = await client.readContract({
+        address: tokenAddress as `0x${string}`,
+        abi: [
+          {
+            name: 'decimals',
+            type: 'function',
+            stateMutability: 'view',
+            inputs: [],
+            outputs: [{ name: '', type: 'uint8' }],
+          },
+        ],
+        functionName: 'decimals',
+        args: [],
+        authorizationList: undefined,
+      } as any);
+
+      return Number(decimals);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to fetch decimals for ${tokenAddress}, defaulting to 18: ${error.message}`,
+      );
+      return 18; // Default fallback
+    }
+  }
+
+  /**
+   * Quote sources for a chain's DEX adapter
+   */
+  private getQuoteSources(dexAdapter: string, chain: SupportedChain): QuoteSource[] {
+    if (dexAdapter === 'monorail') return ['monorail', 'uniswap'];
+    if (dexAdapter === 'uniswap-v2') return ['uniswap'];
+
+    const sources: QuoteSource[] = [];
+    if (this.config.get<boolean>('dex.enable1inch', true)) sources.push('1inch');
+    if (this.config.get<boolean>('dex.enable0x', true)) sources.push('0x');
+    if (this.config.get<boolean>('dex.enableParaswap', true)) sources.push('paraswap');
+    if (this.config.get<boolean>('dex.enableUniswap', true) && this.uniswapV2.isAvailable(chain)) {
+      sources.push('uniswap');
+    }
+    return sources;
+  }
+
+  /**
+   * Quotes for one swap from the given sources (failed sources are skipped)
+   */
+  private async getQuotes(
+    swap: SwapPlan,
+    chain: SupportedChain,
+    userAccount: string,
+    sources: QuoteSource[],
+  ): Promise<SwapQuote[]> {
+    this.logger.debug(
+      `Getting quotes for swap: ${swap.fromToken} -> ${swap.toToken} (${swap.fromAmount})`,
+    );
+
+    const results = await Promise.allSettled(
+      sources.map((source) => {
+        switch (source) {
+          case '1inch':
+            return this.get1inchQuote(swap, chain, userAccount);
+          case '0x':
+            return this.get0xQuote(swap, chain, userAccount);
+          case 'paraswap':
+            return this.getParaswapQuote(swap, chain, userAccount);
+          case 'uniswap':
+            return this.getUniswapQuote(swap, chain, userAccount);
+          case 'monorail':
+            return this.getMonorailQuote(swap, chain, userAccount);
+        }
+      }),
+    );
+
+    const quotes: SwapQuote[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled' && result.value) {
+        quotes.push({ ...result.value, source: sources[index] });
+      } else if (result.status === 'rejected') {
+        this.logger.warn(`${sources[index]} quote failed: ${result.reason}`);
+      }
+    });
+
+    return quotes;
+  }
+
+  /**
+   * Route one swap
+   * The best single quote is always a candidate. When it moves the price at least
+   * dex.splitMinPriceImpact % (or nothing quotes directly), a split across two sources
+   * and two-leg routes through the hub tokens compete with it on output net of gas
+   */
+  private async routeSwap(
+    swap: SwapPlan,
+    chain: SupportedChain,
+    userAccount: string,
+    sources: QuoteSource[],
+  ): Promise<SwapRoute | null> {
+    const quotes = await this.getQuotes(swap, chain, userAccount, sources);
+    const best = this.selectBestQuote(quotes);
+
+    const candidates: SwapRoute[] = [];
+    if (best) {
+      candidates.push({
+        legs: [best],
+        toAmount: best.toAmount,
+        gas: best.estimatedGas,
+        label: best.aggregator,
+      });
+    }
+
+    const splitMinPriceImpact = this.config.get<number>('dex.splitMinPriceImpact', 0.5);
+    if (best && best.priceImpact < splitMinPriceImpact) {
+      return candidates[0];
+    }
+
+    if (this.config.get<boolean>('dex.enableSplitting', true)) {
+      const split = await this.getSplitRoute(swap, chain, userAccount, quotes);
+      if (split) candidates.push(split);
+    }
+
+    if (this.config.get<boolean>('dex.enableHubRouting', true)) {
+      candidates.push(...(await this.getHubRoutes(swap, chain, userAccount, sources)));
+    }
+
+    return this.selectBestRoute(candidates, swap.toToken, chain);
+  }
+
+  /**
+   * Best split of a swap across two sources
+   * Each of the top sources is quoted at 25/50/75% of the amount and the best
+   * complementary pair wins (chunks quote lower price impact than the full order)
+   */
+  private async getSplitRoute(
+    swap: SwapPlan,
+    chain: SupportedChain,
+    userAccount: string,
+    fullQuotes: SwapQuote[],
+  ): Promise<SwapRoute | null> {
+    const sources = [...fullQuotes]
+      .sort((a, b) => (b.toAmount > a.toAmount ? 1 : b.toAmount < a.toAmount ? -1 : 0))
+      .slice(0, SPLIT_MAX_SOURCES)
+      .map((quote) => quote.source);
+    if (sources.length < 2) return null;
+
+    const maxPriceImpact = this.config.get<number>('bot.maxPriceImpact', 3);
+    const chunkAmount = (percent: number) => (swap.fromAmount * BigInt(percent)) / 100n;
+
+    // chunks[source][percent] = acceptable quote for that share of the order
+    const chunks = new Map<QuoteSource, Map<number, SwapQuote>>();
+    for (const percent of SPLIT_PERCENTS) {
+      const quotes = await this.getQuotes(
+        { ...swap, fromAmount: chunkAmount(percent) },
+        chain,
+        userAccount,
+        sources,
+      );
+      quotes
+        .filter((quote) => quote.priceImpact <= maxPriceImpact)
+        .forEach((quote) => {
+          if (!chunks.has(quote.source)) chunks.set(quote.source, new Map());
+          chunks.get(quote.source).set(percent, quote);
+        });
+    }
+
+    let best: SwapRoute | null = null;
+    for (const a of sources) {
+      for (const b of sources) {
+        if (a === b) continue;
+        for (const percent of SPLIT_PERCENTS) {
+          const legA = chunks.get(a)?.get(percent);
+          const legB = chunks.get(b)?.get(100 - percent);
+          if (!legA || !legB) continue;
+
+          const toAmount = legA.toAmount + legB.toAmount;
+          if (!best || toAmount > best.toAmount) {
+            best = {
+              legs: [legA, legB],
+              toAmount,
+              gas: legA.estimatedGas + legB.estimatedGas,
+              label: `${legA.aggregator} ${percent}% + ${legB.aggregator} ${100 - percent}%`,
+            };
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Two-leg routes through the chain's hub tokens (wrapped native, USD quote token)
+   * The second leg sells the first leg's minimum output, so any excess of the hub token
+   * stays in the portfolio
+   */
+  private async getHubRoutes(
+    swap: SwapPlan,
+    chain: SupportedChain,
+    userAccount: string,
+    sources: QuoteSource[],
+  ): Promise<SwapRoute[]> {
+    const hubs = [
+      this.registry.getChain(chain).wrappedNative,
+      this.config.get<string>(`blockchain.${chain}.usdQuoteToken`),
+    ]
+      .filter((hub): hub is string => !!hub)
+      .map((hub) => hub.toLowerCase())
+      .filter((hub) => hub !== swap.fromToken.toLowerCase() && hub !== swap.toToken.toLowerCase());
+
+    const routes: SwapRoute[] = [];
+    for (const hub of new Set(hubs)) {
+      const firstLeg = this.selectBestQuote(
+        await this.getQuotes({ ...swap, toToken: hub }, chain, userAccount, sources),
+      );
+      if (!firstLeg) continue;
+
+      const secondLeg = this.selectBestQuote(
+        await this.getQuotes(
+          { ...swap, fromToken: hub, fromAmount: this.getMinOutput(firstLeg.toAmount) },
+          chain,
+          userAccount,
+          sources,
+        ),
+      );
+      if (!secondLeg) continue;
+
+      routes.push({
+        legs: [firstLeg, secondLeg],
+        toAmount: secondLeg.toAmount,
+        gas: firstLeg.estimatedGas + secondLeg.estimatedGas,
+        label: `${firstLeg.aggregator} → ${hub} → ${secondLeg.aggregator}`,
+      });
+    }
+
+    return routes;
+  }
+
+  /**
+   * Route with the highest output net of its gas cost (valued in the output token)
+   * Without a price for the output token or native currency, extra legs can't be
+   * justified - the route with the fewest legs wins instead
+   */
+  private async selectBestRoute(
+    routes: SwapRoute[],
+    toToken: string,
+    chain: SupportedChain,
+  ): Promise<SwapRoute | null> {
+    if (routes.length <= 1) return routes[0] ?? null;
+
+    const [quote, decimals] = await Promise.all([
+      this.prices.getPrice(toToken, chain),
+      this.getTokenDecimals(toToken, chain),
+    ]);
+
+    const netOutputs = await Promise.all(
+      routes.map(async (route) => {
+        if (!quote) return null;
+        const { gasCostUsd } = await this.gas.estimateTxCost(chain, route.gas);
+        if (gasCostUsd === null) return null;
+
+        const gasInOutput = BigInt(Math.ceil((gasCostUsd / quote.priceUSD) * 10 ** decimals));
+        return route.toAmount - gasInOutput;
+      }),
+    );
+
+    let bestIndex = 0;
+    for (let i = 1; i < routes.length; i++) {
+      const better =
+        netOutputs.every((net) => net !== null)
+          ? netOutputs[i] > netOutputs[bestIndex]
+          : routes[i].legs.length < routes[bestIndex].legs.length ||
+            (routes[i].legs.length === routes[bestIndex].legs.length &&
+              routes[i].toAmount > routes[bestIndex].toAmount);
+      if (better) bestIndex = i;
+    }
+
+    this.logger.debug(
+      `Routes: ${routes.map((route, i) => `${route.label} (net ${netOutputs[i] ?? 'n/a'})`).join(', ')}`,
+    );
+
+    return routes[bestIndex];
+  }
+
+  /**
+   * Get quote from Monorail Pathfinder
+   */
+  private async getMonorailQuote(
+    swap: SwapPlan,
+    chain: SupportedChain,
+    userAccount: string,
+  ): Promise<SwapQuote | null> {
+    const decimalsIn = await this.getTokenDecimals(swap.fromToken, chain);
+    const quote = await this.monorail.getQuote(
+      swap.fromToken,
+      swap.toToken,
+      swap.fromAmount,
+      userAccount,
+      decimalsIn,
+    );
+
+    if (!quote) return null;
+
+    const txData = this.monorail.buildSwapTransaction(quote);
+
+    return {
+      aggregator: 'Monorail',
+      fromToken: swap.fromToken,
+      toToken: swap.toToken,
+      fromAmount: swap.fromAmount,
+      toAmount: quote.amountOut,
+      target: txData.target,
+      calldata: txData.calldata,
+      value: txData.value || '0',
+      estimatedGas: quote.gasEstimate,
+      priceImpact: quote.priceImpact,
+    };
+  }
+
+  /**
+   * Get quote from 1inch aggregator
+   */
+  private async get1inchQuote(
+    swap: SwapPlan,
+    chain: SupportedChain,
+    userAccount: string,
+  ): Promise<SwapQuote | null> {
+    try {
+      // Rate limit check
+      await this.rateLimit('1inch');
+
+      const { chainId } = this.registry.getChain(chain);
+      const apiKey = this.config.get<string>('dex.1inchApiKey');
+
+      if (!apiKey) {
+        this.logger.warn('1inch API key not configured');
+        return null;
+      }
+
+      this.logger.debug('Fetching 1inch quote...');
+
+      const response = await this.axios1inch.get<Quote1inch>(
+        `/swap/v6.0/${chainId}/quote`,
+        {
+          params: {
+            src: swap.fromToken,
+            dst: swap.toToken,
+            amount: swap.fromAmount.toString(),
+            from: userAccount,
+            slippage: (this.getMaxSlippageBps() / 100).toString(), // Percent
+            disableEstimate: 'false',
+            includeProtocols: 'true',
+          },
+        },
+      );
+
+      const data = response.data;
+
+      // Calculate price impact
+      const priceImpact = await this.calculatePriceImpact(
+        swap.fromAmount,
+        BigInt(data.toAmount),
+        swap.fromToken,
+        swap.toToken,
+        chain,
+      );
+
+      return {
+        aggregator: '1inch',
+        fromToken: swap.fromToken,
+        toToken: swap.toToken,
+        fromAmount: swap.fromAmount,
+        toAmount: BigInt(data.toAmount),
+        target: data.tx.to,
+        calldata: data.tx.data,
+        estimatedGas: BigInt(data.tx.gas),
+        priceImpact,
+      };
+    } catch (error) {
+      this.logger.error(`1inch quote failed: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Get quote from 0x aggregator
+   */
+  private async get0xQuote(
+    swap: SwapPlan,
+    chain: SupportedChain,
+    userAccount: string,
+  ): Promise<SwapQuote | null> {
+    try {
+      // Rate limit check
+      await this.rateLimit('0x');
+
+      const apiKey = this.config.get<string>('dex.0xApiKey');
+
+      if (!apiKey) {
+        this.logger.warn('0x API key not configured');
+        return null;
+      }
+
+      this.logger.debug('Fetching 0x quote...');
+
+      const response = await this.axios0x.get<Quote0x>(
+        '/swap/v1/quote',
+        {
+          params: {
+            sellToken: swap.fromToken,
+            buyToken: swap.toToken,
+            sellAmount: swap.fromAmount.toString(),
+            takerAddress: userAccount,
+            slippagePercentage: (this.getMaxSlippageBps() / 10000).toString(),
+          },
+        },
+      );
+
+      const data = response.data;
+
+      const priceImpact = parseFloat(data.estimatedPriceImpact) * 100;
+
+      return {
+        aggregator: '0x',
+        fromToken: swap.fromToken,
+        toToken: swap.toToken,
+        fromAmount: swap.fromAmount,
+        toAmount: BigInt(data.buyAmount),
+        target: data.to,
+        calldata: data.data,
+        estimatedGas: BigInt(data.gas),
+        priceImpact,
+      };
+    } catch (error) {
+      this.logger.error(`0x quote failed: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Get quote from ParaSwap aggregator
+   */
+  private async getParaswapQuote(
+    swap: SwapPlan,
+    chain: SupportedChain,
+    userAccount: string,
+  ): Promise<SwapQuote | null> {
+    try {
+      // Rate limit check
+      await this.rateLimit('paraswap');
+
+      const network = this.registry.getChain(chain).chainId;
+
+      this.logger.debug('Fetching ParaSwap quote...');
+
+      const [srcDecimals, destDecimals] = await Promise.all([
+        this.getTokenDecimals(swap.fromToken, chain),
+        this.getTokenDecimals(swap.toToken, chain),
+      ]);
+
+      // Step 1: Get price route
+      const priceResponse = await this.axiosParaswap.get<ParaswapPriceRoute>(
+        '/prices',
+        {
+          params: {
+            srcToken: swap.fromToken,
+            destToken: swap.toToken,
+            amount: swap.fromAmount.toString(),
+            srcDecimals,
+            destDecimals,
+            side: 'SELL',
+            network,
+          },
+        },
+      );
+
+      const priceRoute = priceResponse.data.priceRoute;
+
+      // Step 2: Build transaction
+      const txResponse = await this.axiosParaswap.post<ParaswapTransaction>(
+        '/transactions/{network}',
+        {
+          srcToken: swap.fromToken,
+          destToken: swap.toToken,
+          srcAmount: swap.fromAmount.toString(),
+          destAmount: priceRoute.destAmount,
+          priceRoute,
+          userAddress: userAccount,
+          partner: 'rebased',
+          slippage: this.getMaxSlippageBps(),
+        },
+        {
+          params: { network },
+        },
+      );
+
+      const txData = txResponse.data;
+
+      const priceImpact = await this.calculatePriceImpact(
+        swap.fromAmount,
+        BigInt(priceRoute.destAmount),
+        swap.fromToken,
+        swap.toToken,
+        chain,
+      );
+
+      return {
+        aggregator: 'ParaSwap',
+        fromToken: swap.fromToken,
+        toToken: swap.toToken,
+        fromAmount: swap.fromAmount,
+        toAmount: BigInt(priceRoute.destAmount),
+        target: txData.to,
+        calldata: txData.data,
+        estimatedGas: 300000n, // ParaSwap doesn't provide gas estimate
+        priceImpact,
+      };
+    } catch (error) {
+      this.logger.error(`ParaSwap quote failed: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Get quote from Uniswap V2 (aggregator chains - direct chains call UniswapV2Service)
+   */
+  private async getUniswapQuote(
+    swap: SwapPlan,
+    chain: SupportedChain,
+    userAccount: string,
+  ): Promise<SwapQuote | null> {
+    try {
+      this.logger.debug('Getting Uniswap V2 quote...');
+
+      const quote = await this.uniswapV2.getQuote(
+        swap.fromToken,
+        swap.toToken,
+        swap.fromAmount,
+        chain,
+      );
+
+      if (!quote) return null;
+
+      const txData = this.uniswapV2.buildSwapTransaction(
+        quote,
+        userAccount,
+        this.getMaxSlippageBps(),
+      );
+
+      return {
+        aggregator: 'Uniswap V2',
+        fromToken: swap.fromToken,
+        toToken: swap.toToken,
+        fromAmount: swap.fromAmount,
+        toAmount: quote.amountOut,
+        target: txData.target,
+        calldata: txData.calldata,
+        estimatedGas: 200000n, // Typical Uniswap V2 swap gas
+        priceImpact: quote.priceImpact,
+      };
+    } catch (error) {
+      this.logger.error(`Uniswap V2 quote failed: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Select the best quote based on output amount and price impact
+   */
+  private selectBestQuote(quotes: SwapQuote[]): SwapQuote | null {
+    if (quotes.length === 0) return null;
+
+    // Filter out quotes with excessive price impact
+    const maxPriceImpact = this.config.get<number>('bot.maxPriceImpact', 3); // 3% default
+    const acceptableQuotes = quotes.filter((q) => q.priceImpact <= maxPriceImpact);
+
+    if (acceptableQuotes.length === 0) {
+      this.logger.warn(
+        `All quotes exceed max price impact of ${maxPriceImpact}%. ` +
+        `Best was: ${Math.min(...quotes.map(q => q.priceImpact)).toFixed(2)}%`,
+      );
+      return null;
+    }
+
+    // Select quote with highest output amount
+    const best = acceptableQuotes.reduce((best, current) =>
+      current.toAmount > best.toAmount ? current : best,
+    );
+
+    this.logger.debug(
+      `Selected ${best.aggregator}: ${best.toAmount} output (${best.priceImpact.toFixed(2)}% impact)`,
+    );
+
+    return best;
+  }
+
+  /**
+   * Oracle-priced price impact of a swap (percent)
+   * USD value lost between input and output at provider prices and real token decimals
+   */
+  private async calculatePriceImpact(
+    amountIn: bigint,
+    amountOut: bigint,
+    tokenIn: string,
+    tokenOut: string,
+    chain: SupportedChain,
+  ): Promise<number> {
+    const [valueIn, valueOut] = await Promise.all([
+      this.getValueUSD(tokenIn, amountIn, chain),
+      this.getValueUSD(tokenOut, amountOut, chain),
+    ]);
+
+    if (valueIn <= 0) return 0;
+
+    // Price impact = (value in - value out) / value in * 100 (better than oracle = 0)
+    return Math.max(0, ((valueIn - valueOut) / valueIn) * 100);
+  }
+
+  /**
+   * USD value of a raw token amount
+   * Native token is priced as the wrapped native by PricesService
+   */
+  private async getValueUSD(
+    token: string,
+    amount: bigint,
+    chain: SupportedChain,
+  ): Promise<number> {
+    const [quote, decimals] = await Promise.all([
+      this.prices.getPrice(token, chain),
+      this.getTokenDecimals(token, chain),
+    ]);
+
+    if (!quote) {
+      throw new Error(`No fresh price for ${token} on ${chain}`);
+    }
+
+    return (Number(amount) / 10 ** decimals) * quote.priceUSD;
+  }
+
+  /**
+   * Slippage tolerance for every swap (bot.maxSlippageBps)
+   */
+  private getMaxSlippageBps(): number {
+    return this.config.get<number>('bot.maxSlippageBps', 100);
+  }
+
+  /**
+   * Minimum output for a quote at the configured slippage tolerance
+   */
+  private getMinOutput(quotedOutput: bigint): bigint {
+    return (quotedOutput * BigInt(10000 - this.getMaxSlippageBps())) / 10000n;
+  }
+
+  /**
+   * Rate limiting helper
+   */
+  private async rateLimit(aggregator: '1inch' | '0x' | 'paraswap'): Promise<void> {
+    const now = Date.now();
+    const lastReq = this.lastRequest[aggregator];
+    const minDelay = this.rateLimits[aggregator];
+
+    const timeSinceLastReq = now - lastReq;
+
+    if (timeSinceLastReq < minDelay) {
+      const delay = minDelay - timeSinceLastReq;
+      this.logger.debug(`Rate limiting ${aggregator}: waiting ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+    this.lastRequest[aggregator] = Date.now();
+  }
+
+  /**
+   * Pre-flight checks before broadcasting a rebalance
+   * - Quote sanity (output, target, calldata)
+   * - Balances of the account, crediting outputs of earlier swaps in the batch
+   * - Allowances (advisory - RebalanceExecutor approves tokensIn inside the batch)
+   * - Oracle-priced price impact against bot.maxPriceImpact
+   * - Min outputs against the quote and bot.maxSlippageBps
+   * - eth_call of the full rebalance() call
+   */
+  async preflight(
+    swaps: any[],
+    chain: SupportedChain,
+    userAccount: string,
+    call: RebalanceCall,
+  ): Promise<PreflightResult> {
+    const failures: PreflightIssue[] = [];
+    const warnings: PreflightIssue[] = [];
+
+    this.logger.debug(`Running pre-flight for ${swaps.length} swaps on ${chain}`);
+
+    failures.push(...this.checkQuotes(swaps));
+    failures.push(...(await this.checkBalances(swaps, chain, userAccount)));
+    warnings.push(...(await this.checkAllowances(swaps, chain, userAccount)));
+    failures.push(...(await this.checkPriceImpact(swaps, chain)));
+    failures.push(...this.checkSlippage(swaps));
+
+    // Simulating a batch that can't pass the checks above only adds a less useful revert
+    if (failures.length === 0) {
+      const simulationFailure = await this.simulateRebalance(call, chain);
+      if (simulationFailure) failures.push(simulationFailure);
+    }
+
+    failures.forEach((failure) => this.logger.warn(`Pre-flight ${failure.check}: ${failure.message}`));
+    warnings.forEach((warning) => this.logger.debug(`Pre-flight ${warning.check}: ${warning.message}`));
+
+    return { passed: failures.length === 0, failures, warnings };
+  }
+
+  private checkQuotes(swaps: any[]): PreflightIssue[] {
+    const failures: PreflightIssue[] = [];
+
+    swaps.forEach((swap, swapIndex) => {
+      if (!swap.target || !swap.data) {
+        failures.push({ check: 'quote', swapIndex, message: `Swap ${swapIndex} has no target or calldata` });
+      } else if (BigInt(swap.quotedOutput ?? 0) === 0n) {
+        failures.push({
+          check: 'quote',
+          swapIndex,
+          token: swap.toToken,
+          message: `Swap ${swapIndex} is quoted at zero output`,
+        });
+      }
+    });
+
+    return failures;
+  }
+
+  /**
+   * Walk the batch in order so e.g. a wrap funds the swap of the wrapped token after it
+   */
+  private async checkBalances(
+    swaps: any[],
+    chain: SupportedChain,
+    userAccount: string,
+  ): Promise<PreflightIssue[]> {
+    const client = this.chain.getPublicClient(chain);
+    const account = userAccount as `0x${string}`;
+    const tokens = [...new Set(swaps.map((swap) => swap.fromToken.toLowerCase() as string))];
+
+    const balances = new Map<string, bigint>(
+      await Promise.all(
+        tokens.map(async (token): Promise<[string, bigint]> => [
+          token,
+          token === NATIVE_TOKEN
+            ? await client.getBalance({ address: account })
+            : ((await client.readContract({
+                address: token as `0x${string}`,
+                abi: erc20Abi,
+                functionName: 'balanceOf',
+                args: [account],
+                authorizationList: undefined,
+              } as any)) as bigint),
+        ]),
+      ),
+    );
+
+    const failures: PreflightIssue[] = [];
+
+    swaps.forEach((swap, swapIndex) => {
+      const fromToken = swap.fromToken.toLowerCase();
+      const toToken = swap.toToken.toLowerCase();
+      const amount = BigInt(swap.fromAmount ?? 0);
+      const available = balances.get(fromToken) ?? 0n;
+
+      if (available < amount) {
+        failures.push({
+          check: 'balance',
+          swapIndex,
+          token: fromToken,
+          message: `Insufficient balance for swap ${swapIndex}`,
+          expected: amount.toString(),
+          actual: available.toString(),
+        });
+      }
+
+      balances.set(fromToken, available > amount ? available - amount : 0n);
+      balances.set(toToken, (balances.get(toToken) ?? 0n) + BigInt(swap.minOutput ?? 0));
+    });
+
+    return failures;
+  }
+
+  private async checkAllowances(
+    swaps: any[],
+    chain: SupportedChain,
+    userAccount: string,
+  ): Promise<PreflightIssue[]> {
+    const client = this.chain.getPublicClient(chain);
+    const warnings: PreflightIssue[] = [];
+
+    await Promise.all(
+      swaps.map(async (swap, swapIndex) => {
+        if (swap.isWrap || swap.fromToken.toLowerCase() === NATIVE_TOKEN) return;
+
+        const amount = BigInt(swap.fromAmount ?? 0);
+        const allowance = (await client.readContract({
+          address: swap.fromToken as `0x${string}`,
+          abi: erc20Abi,
+          functionName: 'allowance',
+          args: [userAccount as `0x${string}`, swap.target as `0x${string}`],
+          authorizationList: undefined,
+        } as any)) as bigint;
+
+        if (allowance < amount) {
+          warnings.push({
+            check: 'allowance',
+            swapIndex,
+            token: swap.fromToken,
+            message: `Swap ${swapIndex} target not yet approved - approved in-batch by RebalanceExecutor`,
+            expected: amount.toString(),
+            actual: allowance.toString(),
+          });
+        }
+      }),
+    );
+
+    return warnings;
+  }
+
+  private async checkPriceImpact(swaps: any[], chain: SupportedChain): Promise<PreflightIssue[]> {
+    const maxPriceImpact = this.config.get<number>('bot.maxPriceImpact', 3);
+    const failures: PreflightIssue[] = [];
+
+    await Promise.all(
+      swaps.map(async (swap, swapIndex) => {
+        if (swap.isWrap) return;
+
+        let priceImpact: number;
+        try {
+          priceImpact = await this.calculatePriceImpact(
+            BigInt(swap.fromAmount ?? 0),
+            BigInt(swap.quotedOutput ?? 0),
+            swap.fromToken,
+            swap.toToken,
+            chain,
+          );
+        } catch (error) {
+          // Unpriced swap can't be bounded - block it rather than guess
+          failures.push({
+            check: 'price_impact',
+            swapIndex,
+            token: swap.toToken,
+            message: `Swap ${swapIndex} price impact unknown: ${error.message}`,
+          });
+          return;
+        }
+
+        if (priceImpact > maxPriceImpact) {
+          failures.push({
+            check: 'price_impact',
+            swapIndex,
+            token: swap.toToken,
+            message: `Swap ${swapIndex} price impact ${priceImpact.toFixed(2)}% exceeds ${maxPriceImpact}%`,
+            expected: maxPriceImpact.toString(),
+            actual: priceImpact.toFixed(4),
+          });
+        }
+      }),
+    );
+
+    return failures.sort((a, b) => a.swapIndex - b.swapIndex);
+  }
+
+  /**
+   * Min outputs must sit between the slippage floor and the quote
+   */
+  private checkSlippage(swaps: any[]): PreflightIssue[] {
+    const failures: PreflightIssue[] = [];
+
+    swaps.forEach((swap, swapIndex) => {
+      if (swap.isWrap) return;
+
+      const quoted = BigInt(swap.quotedOutput ?? 0);
+      const minOutput = BigInt(swap.minOutput ?? 0);
+      const floor = this.getMinOutput(quoted);
+
+      if (minOutput > quoted) {
+        failures.push({
+          check: 'slippage',
+          swapIndex,
+          token: swap.toToken,
+          message: `Swap ${swapIndex} min output is above its quote`,
+          expected: quoted.toString(),
+          actual: minOutput.toString(),
+        });
+      } else if (minOutput < floor) {
+        failures.push({
+          check: 'slippage',
+          swapIndex,
+          token: swap.toToken,
+          message: `Swap ${swapIndex} min output allows more than ${this.getMaxSlippageBps()} bps slippage`,
+          expected: floor.toString(),
+          actual: minOutput.toString(),
+        });
+      }
+    });
+
+    return failures;
+  }
+
+  /**
+   * eth_call of the batched rebalance() from the bot wallet
+   */
+  private async simulateRebalance(
+    call: RebalanceCall,
+    chain: SupportedChain,
+  ): Promise<PreflightIssue | null> {
+    try {
+      await this.chain.getPublicClient(chain).call({
+        account: call.from,
+        to: call.to,
+        data: call.data,
+        value: call.value,
+      });
+      return null;
+    } catch (error) {
+      const revert = error instanceof BaseError
+        ? (error.walk((cause) => typeof (cause as any)?.data === 'string') as any)
+        : null;
+
+      return {
+        check: 'simulation',
+        swapIndex: null,
+        message: `rebalance() simulation reverted: ${error instanceof BaseError ? error.shortMessage : error.message}`,
+        actual: revert?.data,
+      };
+    }
+  }
+
+  /**
+   * Get aggregator status (health check)
+   */
+  async getAggregatorStatus(): Promise<{
+    '1inch': boolean;
+    '0x': boolean;
+    'paraswap': boolean;
+    'uniswap': boolean;
+    'monorail': boolean;
+  }> {
+    const status = {
+      '1inch': false,
+      '0x': false,
+      'paraswap': false,
+      'uniswap': false,
+      'monorail': false,
+    };
+
+    // Test each aggregator with a dummy request
+    try {
+      await this.axios1inch.get('/swap/v6.0/1/healthcheck');
+      status['1inch'] = true;
+    } catch (e) {
+      this.logger.warn('1inch health check failed');
+    }
+
+    try {
+      await this.axios0x.get('/swap/v1/quote', {
+        params: {
+          sellToken: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE',
+          buyToken: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+          sellAmount: '1000000000000000000',
+        },
+        validateStatus: () => true,
+      });
+      status['0x'] = true;
+    } catch (e) {
+      this.logger.warn('0x health check failed');
+    }
+
+    try {
+      await this.axiosParaswap.get('/prices', {
+        params: {
+          srcToken: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE',
+          destToken: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+          amount: '1000000000000000000',
+          network: 1,
+        },
+        validateStatus: () => true,
+      });
+      status['paraswap'] = true;
+    } catch (e) {
+      this.logger.warn('ParaSwap health check failed');
+    }
+
+    try {
+      status['monorail'] = await this.monorail.healthCheck();
+    } catch (e) {
+      this.logger.warn('Monorail health check failed');
+    }
+
+    return status;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Pre-flight Types
+ * Checks run on the quoted swaps and the batched rebalance() call before broadcast
+ */
+
+export type PreflightCheck =
+  | 'quote'
+  | 'balance'
+  | 'allowance'
+  | 'price_impact'
+  | 'slippage'
+  | 'simulation';
+
+/**
+ * One failed (or advisory) check - JSON safe, stored on Rebalance.failureReasons
+ */
+export interface PreflightIssue {
+  check: PreflightCheck;
+  swapIndex: number | null; // null for checks on the whole rebalance() call
+  token?: string;
+  message: string;
+  expected?: string;
+  actual?: string;
+}
+
+export interface PreflightResult {
+  passed: boolean;
+  failures: PreflightIssue[];
+  warnings: PreflightIssue[]; // Logged, never block execution
+}
+
+/**
+ * The rebalance() call the executor is about to broadcast
+ */
+export interface RebalanceCall {
+  to: `0x${string}`;
+  data: `0x${string}`;
+  value: bigint;
+  from: `0x${string}`; // Bot wallet
+}
+
+/**
+ * Thrown by the executor when pre-flight fails so the failures reach the Rebalance row
+ */
+export class PreflightError extends Error {
+  constructor(readonly failures: PreflightIssue[]) {
+    super(`Pre-flight failed: ${failures.map((failure) => failure.message).join('; ')}`);
+    this.name = 'PreflightError';
+  }
+}
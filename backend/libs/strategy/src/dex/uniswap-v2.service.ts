@@ -1,5 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ChainService } from '@app/blockchain';
+import { ChainRegistryService, ChainService } from '@app/blockchain';
 import { SupportedChain } from '@app/blockchain/chains';
 import { encodeFunctionData, parseAbiParameters } from 'viem';
 
@@ -38,27 +38,90 @@ const UNISWAP_V2_ROUTER_ABI = [
   },
 ] as const;
 
+const UNISWAP_V2_FACTORY_ABI = [
+  {
+    inputs: [],
+    name: 'factory',
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'tokenA', type: 'address' },
+      { name: 'tokenB', type: 'address' },
+    ],
+    name: 'getPair',
+    outputs: [{ name: 'pair', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+const UNISWAP_V2_PAIR_ABI = [
+  {
+    inputs: [],
+    name: 'getReserves',
+    outputs: [
+      { name: 'reserve0', type: 'uint112' },
+      { name: 'reserve1', type: 'uint112' },
+      { name: 'blockTimestampLast', type: 'uint32' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'token0',
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'price0CumulativeLast',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'price1CumulativeLast',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Pair state for reserve and TWAP pricing
+ * Reserves and cumulative prices are oriented to tokenA/tokenB as requested
+ */
+export interface UniswapV2Reserves {
+  pair: `0x${string}`;
+  reserveA: bigint;
+  reserveB: bigint;
+  blockTimestampLast: number; // uint32 seconds
+  priceACumulativeLast: bigint; // UQ112x112 tokenB per tokenA, summed over seconds
+  priceBCumulativeLast: bigint;
+}
+
 /**
  * Direct Uniswap V2 integration for chains not supported by aggregators
- * Primary use case: Monad testnet
+ * Primary use case: Monad testnet and local anvil forks
+ * Router and WETH (intermediate hop) per chain come from the chain registry
  */
 @Injectable()
 export class UniswapV2Service {
   private readonly logger = new Logger(UniswapV2Service.name);
+  private readonly pairCache = new Map<string, `0x${string}` | null>();
 
-  // Uniswap V2 router addresses per chain
-  private readonly ROUTERS = {
-    monad: '0xfb8e1c3b833f9e67a71c859a132cf783b645e436' as `0x${string}`,
-    base: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D' as `0x${string}`,
-  };
-
-  // Common intermediate tokens for path finding
-  private readonly WETH_ADDRESSES = {
-    monad: '0xb5a30b0fdc5ea94a52fdc42e3e9760cb8449fb37' as `0x${string}`, // WETH on Monad testnet
-    base: '0x4200000000000000000000000000000000000006' as `0x${string}`, // WETH on Base
-  };
-
-  constructor(private readonly chain: ChainService) {}
+  constructor(
+    private readonly chain: ChainService,
+    private readonly registry: ChainRegistryService,
+  ) {}
 
   /**
    * Get quote from Uniswap V2
@@ -70,7 +133,7 @@ export class UniswapV2Service {
     chain: SupportedChain,
   ): Promise<UniswapV2Quote | null> {
     try {
-      const router = this.ROUTERS[chain];
+      const router = this.getRouterAddress(chain);
       if (!router) {
         this.logger.warn(`No Uniswap V2 router for chain ${chain}`);
         return null;
@@ -98,9 +161,9 @@ export class UniswapV2Service {
       } catch (error) {
         // Direct path failed, try through WETH
         this.logger.debug('Direct path failed, trying through WETH');
-        const weth = this.WETH_ADDRESSES[chain];
+        const weth = this.registry.getChain(chain).wrappedNative;
 
-        if (!weth || weth === '0x...') {
+        if (!weth) {
           throw new Error('WETH address not configured for chain');
         }
 
@@ -209,28 +272,92 @@ export class UniswapV2Service {
   }
 
   /**
-   * Get reserves for a pair (useful for price impact calculation)
+   * Get reserves and cumulative prices of the tokenA/tokenB pair
+   * Returns null when the chain has no router or the pair doesn't exist
    */
   async getReserves(
     tokenA: string,
     tokenB: string,
     chain: SupportedChain,
-  ): Promise<{ reserve0: bigint; reserve1: bigint } | null> {
-    // TODO: Implement if needed for better price impact calculation
-    return null;
+  ): Promise<UniswapV2Reserves | null> {
+    const pair = await this.getPair(tokenA, tokenB, chain);
+    if (!pair) return null;
+
+    const publicClient = this.chain.getPublicClient(chain);
+    const read = (functionName: string) =>
+      publicClient.readContract({
+        address: pair,
+        abi: UNISWAP_V2_PAIR_ABI,
+        functionName,
+        authorizationList: undefined,
+      } as any) as Promise<any>;
+
+    const [[reserve0, reserve1, blockTimestampLast], token0, price0Cumulative, price1Cumulative] =
+      await Promise.all([
+        read('getReserves'),
+        read('token0'),
+        read('price0CumulativeLast'),
+        read('price1CumulativeLast'),
+      ]);
+
+    const aIsToken0 = (token0 as string).toLowerCase() === tokenA.toLowerCase();
+
+    return {
+      pair,
+      reserveA: aIsToken0 ? reserve0 : reserve1,
+      reserveB: aIsToken0 ? reserve1 : reserve0,
+      blockTimestampLast: Number(blockTimestampLast),
+      priceACumulativeLast: aIsToken0 ? price0Cumulative : price1Cumulative,
+      priceBCumulativeLast: aIsToken0 ? price1Cumulative : price0Cumulative,
+    };
+  }
+
+  /**
+   * Pair address from the router's factory (cached, including missing pairs)
+   */
+  private async getPair(
+    tokenA: string,
+    tokenB: string,
+    chain: SupportedChain,
+  ): Promise<`0x${string}` | null> {
+    const router = this.getRouterAddress(chain);
+    if (!router) return null;
+
+    const key = `${chain}:${[tokenA, tokenB].map((t) => t.toLowerCase()).sort().join(':')}`;
+    if (this.pairCache.has(key)) return this.pairCache.get(key);
+
+    const publicClient = this.chain.getPublicClient(chain);
+    const factory = (await publicClient.readContract({
+      address: router,
+      abi: UNISWAP_V2_FACTORY_ABI,
+      functionName: 'factory',
+      authorizationList: undefined,
+    } as any)) as `0x${string}`;
+
+    const pair = (await publicClient.readContract({
+      address: factory,
+      abi: UNISWAP_V2_FACTORY_ABI,
+      functionName: 'getPair',
+      args: [tokenA as `0x${string}`, tokenB as `0x${string}`],
+      authorizationList: undefined,
+    } as any)) as `0x${string}`;
+
+    const result = pair && pair !== ZERO_ADDRESS ? pair : null;
+    this.pairCache.set(key, result);
+    return result;
   }
 
   /**
    * Check if Uniswap V2 is available on chain
    */
   isAvailable(chain: SupportedChain): boolean {
-    return !!this.ROUTERS[chain] && this.ROUTERS[chain] !== ('0x...' as `0x${string}`);
+    return !!this.getRouterAddress(chain);
   }
 
   /**
    * Get router address for chain
    */
-  getRouterAddress(chain: SupportedChain): string | null {
-    return this.ROUTERS[chain] || null;
+  getRouterAddress(chain: SupportedChain): `0x${string}` | null {
+    return this.registry.getChain(chain).uniswapV2Router ?? null;
   }
 }
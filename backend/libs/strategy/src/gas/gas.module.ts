@@ -1,7 +1,9 @@
 import { Module } from '@nestjs/common';
 import { GasService } from './gas.service';
+import { PricesModule } from '../prices/prices.module';
 
 @Module({
+  imports: [PricesModule],
   providers: [GasService],
   exports: [GasService],
 })
@@ -1,9 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
-import { ChainService } from '@app/blockchain';
+import { ChainRegistryService, ChainService } from '@app/blockchain';
 import { PrismaService } from '@app/database';
 import { ConfigService } from '@nestjs/config';
 import { SupportedChain } from '@app/blockchain/chains';
+import { formatUnits } from 'viem';
+import { PricesService } from '../prices/prices.service';
 
 @Injectable()
 export class GasService {
@@ -12,8 +14,10 @@ export class GasService {
 
   constructor(
     private readonly chain: ChainService,
+    private readonly registry: ChainRegistryService,
     private readonly prisma: PrismaService,
     private readonly config: ConfigService,
+    private readonly prices: PricesService,
   ) {}
 
   /**
@@ -63,35 +67,27 @@ export class GasService {
   }
 
   /**
-   * Update gas prices every 15 seconds
+   * Update gas prices of every initialized chain every 10 seconds
    */
   @Cron(CronExpression.EVERY_10_SECONDS)
   async updateGasPrices() {
     try {
-      const monadGas = await this.fetchGasPrice('monad');
-      const baseGas = await this.fetchGasPrice('base');
+      const timestamp = new Date();
+      const data = [];
+      for (const chain of this.chain.getInitializedChains()) {
+        const gasPrice = await this.fetchGasPrice(chain);
+        data.push({
+          chainId: this.registry.getChain(chain).chainId,
+          slow: gasPrice,
+          standard: gasPrice,
+          fast: gasPrice,
+          instant: gasPrice,
+          timestamp,
+        });
+      }
 
       // Save to database for historical tracking
-      await this.prisma.gasPrice.createMany({
-        data: [
-          {
-            chainId: 10143,
-            slow: monadGas,
-            standard: monadGas,
-            fast: monadGas,
-            instant: monadGas,
-            timestamp: new Date(),
-          },
-          {
-            chainId: 84532,
-            slow: baseGas,
-            standard: baseGas,
-            fast: baseGas,
-            instant: baseGas,
-            timestamp: new Date(),
-          },
-        ],
-      });
+      await this.prisma.gasPrice.createMany({ data });
     } catch (error) {
       this.logger.error(`Error updating gas prices: ${error.message}`);
     }
@@ -101,7 +97,7 @@ export class GasService {
    * Get gas price statistics for a chain
    */
   async getGasStats(chain: SupportedChain, hoursBack: number = 24) {
-    const chainId = chain === 'monad' ? 10143 : 84532;
+    const { chainId } = this.registry.getChain(chain);
     const since = new Date(Date.now() - hoursBack * 60 * 60 * 1000);
 
     const prices = await this.prisma.gasPrice.findMany({
@@ -157,19 +153,22 @@ export class GasService {
 
   /**
    * Estimate total transaction cost
+   * USD cost is null when the native currency has no fresh price
    */
   async estimateTxCost(
     chain: SupportedChain,
     gasLimit: bigint,
-  ): Promise<{ gasCost: bigint; gasCostUsd: number }> {
+  ): Promise<{ gasCost: bigint; gasCostUsd: number | null }> {
     const gasPrice = await this.getOptimalGasPrice(chain);
     const gasCost = gasPrice * gasLimit;
 
-    // TODO: Get native token price in USD from oracle
-    const nativeTokenPriceUsd = 2000; // Mock ETH price
+    const nativeTokenPriceUsd = await this.prices.getNativePriceUSD(chain);
+    const { decimals } = this.registry.getChain(chain).nativeCurrency;
 
     const gasCostUsd =
-      (Number(gasCost) / 1e18) * nativeTokenPriceUsd;
+      nativeTokenPriceUsd !== null
+        ? Number(formatUnits(gasCost, decimals)) * nativeTokenPriceUsd
+        : null;
 
     return { gasCost, gasCostUsd };
   }
@@ -0,0 +1,22 @@
+export * from './strategy.module';
+export * from './strategy-engine.service';
+export * from './price-history.service';
+export * from './types/strategy-logic.types';
+export * from './prices/prices.module';
+export * from './prices/prices.service';
+export * from './prices/types/price.types';
+export * from './gas/gas.module';
+export * from './gas/gas.service';
+export * from './dex/dex.module';
+export * from './dex/dex.service';
+export * from './dex/types/preflight.types';
+export * from './backtest/backtest.module';
+export * from './backtest/backtest.service';
+export * from './backtest/types/backtest.types';
+export * from './simulation/simulation.module';
+export * from './simulation/simulation.service';
+export * from './simulation/types/simulation.types';
+export * from './analytics/analytics.module';
+export * from './analytics/analytics.service';
+export * from './analytics/valuation.service';
+export * from './analytics/types/analytics.types';
@@ -1,8 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ChainService, PythOracleService } from '@app/blockchain';
+import { ChainRegistryService, ChainService } from '@app/blockchain';
+import { SupportedChain } from '@app/blockchain/chains';
 import { ConfigService } from '@nestjs/config';
 import { CanvasStrategy, PortfolioState, AssetBlock } from './types/strategy-logic.types';
 import { StrategyParserService } from './strategy-parser.service';
+import { PriceHistoryService } from './price-history.service';
+import { PricesService } from './prices/prices.service';
 
 @Injectable()
 export class PortfolioAnalyzerService {
@@ -10,9 +13,11 @@ export class PortfolioAnalyzerService {
 
   constructor(
     private readonly chain: ChainService,
+    private readonly registry: ChainRegistryService,
     private readonly config: ConfigService,
     private readonly parser: StrategyParserService,
-    private readonly pythOracle: PythOracleService,
+    private readonly prices: PricesService,
+    private readonly priceHistory: PriceHistoryService,
   ) {}
 
   /**
@@ -24,7 +29,7 @@ export class PortfolioAnalyzerService {
     userAddress: string,
     chainId: number,
   ): Promise<PortfolioState> {
-    const chainName = chainId === 10143 || chainId === 10200 ? 'monad' : 'base';
+    const chainName = this.registry.getChainKey(chainId);
     const assetBlocks = this.parser.getAssetBlocks(strategy);
     const targetWeights = this.parser.getTargetWeights(strategy);
 
@@ -35,10 +40,52 @@ export class PortfolioAnalyzerService {
     // Get balances and prices for all tokens
     const tokens = await Promise.all(
       assetBlocks.map((block) =>
-        this.analyzeToken(block, userAddress, chainName, targetWeights),
+        this.analyzeToken(block, userAddress, chainId, chainName, targetWeights),
       ),
     );
 
+    return this.computePortfolioState(tokens);
+  }
+
+  /**
+   * Build portfolio state from supplied balances and prices
+   * Nothing is read on-chain - used to replay strategies offline (backtesting)
+   */
+  buildPortfolioState(
+    strategy: CanvasStrategy,
+    balances: Map<string, bigint>,
+    prices: Map<string, number>,
+  ): PortfolioState {
+    const assetBlocks = this.parser.getAssetBlocks(strategy);
+    const targetWeights = this.parser.getTargetWeights(strategy);
+
+    const tokens = assetBlocks.map((block) => {
+      const { address, symbol, decimals } = block.data;
+      const key = address.toLowerCase();
+      const balance = balances.get(key) || 0n;
+      const priceUSD = prices.get(key) || 0;
+
+      return {
+        address: key,
+        symbol,
+        balance,
+        decimals,
+        priceUSD,
+        valueUSD: (Number(balance) / 10 ** decimals) * priceUSD,
+        currentWeight: 0, // Calculated once all tokens are valued
+        targetWeight: targetWeights.get(key) || 0,
+      };
+    });
+
+    return this.computePortfolioState(tokens);
+  }
+
+  /**
+   * Derive totals, current weights and drift from valued tokens
+   */
+  private computePortfolioState(
+    tokens: PortfolioState['tokens'],
+  ): PortfolioState {
     // Calculate total portfolio value
     const totalValueUSD = tokens.reduce((sum, token) => sum + token.valueUSD, 0);
 
@@ -63,19 +110,22 @@ export class PortfolioAnalyzerService {
   private async analyzeToken(
     assetBlock: AssetBlock,
     userAddress: string,
+    chainId: number,
     chainName: string,
     targetWeights: Map<string, number>,
   ): Promise<PortfolioState['tokens'][0]> {
     const { address, symbol, decimals } = assetBlock.data;
     const targetWeight = targetWeights.get(address.toLowerCase()) || 0;
 
+    // Get token price in USD - outside the try: no fresh price must stop the evaluation
+    // rather than value the token at zero and trigger a bogus rebalance
+    const priceUSD = await this.getTokenPrice(address, chainName);
+    this.priceHistory.record(chainId, address, priceUSD);
+
     try {
       // Get token balance
       const balance = await this.getTokenBalance(address, userAddress, chainName);
 
-      // Get token price in USD
-      const priceUSD = await this.getTokenPrice(address, chainName);
-
       // Calculate USD value
       const balanceNumber = Number(balance) / 10 ** decimals;
       const valueUSD = balanceNumber * priceUSD;
@@ -158,28 +208,20 @@ export class PortfolioAnalyzerService {
   }
 
   /**
-   * Get token price in USD from Pyth oracle
+   * Get token price in USD from the configured price providers
+   * Throws when no provider has a fresh, confident price
    */
   private async getTokenPrice(
     tokenAddress: string,
     chainName: string,
   ): Promise<number> {
-    try {
-      // Use Pyth oracle for real-time prices
-      const price = await this.pythOracle.getTokenPrice(
-        tokenAddress,
-        chainName as 'monad' | 'base',
-      );
-
-      this.logger.debug(`Pyth price for ${tokenAddress}: $${price.toFixed(2)}`);
-      return price;
-    } catch (error) {
-      this.logger.error(
-        `Failed to get Pyth price for ${tokenAddress}: ${error.message}`,
-      );
-      // Fallback to $1 for stablecoins on error
-      return 1;
+    const quote = await this.prices.getPrice(tokenAddress, chainName as SupportedChain);
+    if (!quote) {
+      throw new Error(`No fresh price for ${tokenAddress} on ${chainName}`);
     }
+
+    this.logger.debug(`${quote.source} price for ${tokenAddress}: $${quote.priceUSD.toFixed(2)}`);
+    return quote.priceUSD;
   }
 
   /**
@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+export interface PriceSample {
+  timestamp: number; // Unix ms
+  priceUSD: number;
+}
+
+/**
+ * In-memory price history per token, keyed by chain and lowercase address
+ * Bounded ring of samples, oldest first; used by lookback conditions
+ */
+export class PriceHistoryStore {
+  private readonly samples = new Map<string, PriceSample[]>();
+
+  constructor(
+    private readonly maxSamples: number = 2880,
+    private readonly minIntervalMs: number = 0,
+  ) {}
+
+  /**
+   * Record a price sample
+   * Samples closer than minIntervalMs to the previous one replace it
+   */
+  record(chainId: number, token: string, priceUSD: number, timestamp: number = Date.now()): void {
+    if (!Number.isFinite(priceUSD) || priceUSD <= 0) return;
+
+    const key = this.key(chainId, token);
+    const series = this.samples.get(key) || [];
+    const last = series[series.length - 1];
+
+    if (last && timestamp < last.timestamp) return; // Out of order
+
+    if (last && timestamp - last.timestamp < this.minIntervalMs) {
+      series[series.length - 1] = { timestamp: last.timestamp, priceUSD };
+    } else {
+      series.push({ timestamp, priceUSD });
+    }
+
+    if (series.length > this.maxSamples) {
+      series.splice(0, series.length - this.maxSamples);
+    }
+
+    this.samples.set(key, series);
+  }
+
+  /**
+   * Get the latest price at or before a timestamp (null if history is too short)
+   */
+  getPriceAt(chainId: number, token: string, timestamp: number): number | null {
+    const series = this.samples.get(this.key(chainId, token)) || [];
+
+    for (let i = series.length - 1; i >= 0; i--) {
+      if (series[i].timestamp <= timestamp) return series[i].priceUSD;
+    }
+
+    return null;
+  }
+
+  /**
+   * Simple moving average over the last N samples (null if fewer than N)
+   */
+  getMovingAverage(chainId: number, token: string, periods: number): number | null {
+    const series = this.samples.get(this.key(chainId, token)) || [];
+    if (periods < 1 || series.length < periods) return null;
+
+    const window = series.slice(-periods);
+    return window.reduce((sum, s) => sum + s.priceUSD, 0) / periods;
+  }
+
+  /**
+   * Get all samples for a token (oldest first)
+   */
+  getSamples(chainId: number, token: string): PriceSample[] {
+    return [...(this.samples.get(this.key(chainId, token)) || [])];
+  }
+
+  // The same address can be a different token (or price) on another chain
+  private key(chainId: number, token: string): string {
+    return `${chainId}:${token.toLowerCase()}`;
+  }
+}
+
+/**
+ * Live price history for the bot process
+ * Fed by PortfolioAnalyzerService every time prices are read
+ */
+@Injectable()
+export class PriceHistoryService extends PriceHistoryStore {
+  constructor(config: ConfigService) {
+    super(
+      config.get<number>('bot.priceHistorySize', 2880),
+      config.get<number>('bot.priceHistoryMinIntervalMs', 60000),
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { BlockchainModule } from '@app/blockchain';
+import { PricesService } from './prices.service';
+import { PythPriceProvider } from './providers/pyth-price.provider';
+import { UniswapV2TwapPriceProvider } from './providers/uniswap-v2-twap-price.provider';
+import { StaticPriceProvider } from './providers/static-price.provider';
+import { UniswapV2Service } from '../dex/uniswap-v2.service';
+
+@Module({
+  imports: [BlockchainModule],
+  providers: [
+    PricesService,
+    PythPriceProvider,
+    UniswapV2TwapPriceProvider,
+    StaticPriceProvider,
+    UniswapV2Service, // Own instance - DexModule depends on this module for USD values
+  ],
+  exports: [PricesService],
+})
+export class PricesModule {}
@@ -0,0 +1,178 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ChainRegistryService } from '@app/blockchain';
+import { SupportedChain } from '@app/blockchain/chains';
+import { EventChannel, EventsService } from '@app/events';
+import { PythPriceProvider } from './providers/pyth-price.provider';
+import { UniswapV2TwapPriceProvider } from './providers/uniswap-v2-twap-price.provider';
+import { StaticPriceProvider } from './providers/static-price.provider';
+import { PriceProvider, PriceProviderName, PriceQuote } from './types/price.types';
+
+const NATIVE_TOKENS = [
+  '0x0000000000000000000000000000000000000000',
+  '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+];
+
+/**
+ * Prices Service
+ * Token USD prices for portfolio analysis, condition evaluation, gas costs and price impact
+ *
+ * - Providers are tried in priority order (prices.priority, overridable per token)
+ * - Quotes older than prices.maxAgeSeconds or less confident than prices.maxConfidenceBps are skipped
+ * - Every source is read so disagreements above prices.maxDeviationBps raise a system:alert
+ * - No fresh quote means no price (null) - callers must not substitute one
+ */
+@Injectable()
+export class PricesService {
+  private readonly logger = new Logger(PricesService.name);
+  private readonly providers: Map<PriceProviderName, PriceProvider>;
+  private readonly cache = new Map<string, { quote: PriceQuote | null; cachedAt: number }>();
+  private readonly lastAlert = new Map<string, number>();
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly registry: ChainRegistryService,
+    private readonly events: EventsService,
+    pyth: PythPriceProvider,
+    uniswapV2Twap: UniswapV2TwapPriceProvider,
+    fixed: StaticPriceProvider,
+  ) {
+    this.providers = new Map<PriceProviderName, PriceProvider>(
+      [pyth, uniswapV2Twap, fixed].map((provider) => [provider.name, provider]),
+    );
+  }
+
+  /**
+   * Best fresh USD price of a token (native token is priced as the wrapped native)
+   */
+  async getPrice(token: string, chain: SupportedChain): Promise<PriceQuote | null> {
+    const pricingToken = this.getPricingToken(token, chain);
+    const cacheKey = `${chain}:${pricingToken}`;
+
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.cachedAt < this.config.get<number>('prices.cacheTtlMs', 10000)) {
+      return cached.quote;
+    }
+
+    const providers = this.getProviders(pricingToken);
+    const quotes = await Promise.all(
+      providers.map((provider) =>
+        provider.getPrice(pricingToken, chain).catch((error) => {
+          this.logger.warn(`${provider.name} price failed for ${pricingToken}: ${error.message}`);
+          return null;
+        }),
+      ),
+    );
+
+    const usable = quotes.filter((quote) => quote && this.isUsable(quote));
+    const selected = usable[0] ?? null;
+
+    if (selected) {
+      this.checkDeviation(pricingToken, chain, selected, usable.slice(1));
+    } else {
+      this.logger.warn(
+        `No fresh price for ${pricingToken} on ${chain} (tried ${providers.map((p) => p.name).join(', ')})`,
+      );
+    }
+
+    this.cache.set(cacheKey, { quote: selected, cachedAt: Date.now() });
+    return selected;
+  }
+
+  /**
+   * Prices for several tokens (keyed by lowercase address)
+   */
+  async getPrices(
+    tokens: string[],
+    chain: SupportedChain,
+  ): Promise<Map<string, PriceQuote | null>> {
+    const quotes = await Promise.all(tokens.map((token) => this.getPrice(token, chain)));
+    return new Map(tokens.map((token, i) => [token.toLowerCase(), quotes[i]]));
+  }
+
+  /**
+   * USD price of the chain's native currency
+   */
+  async getNativePriceUSD(chain: SupportedChain): Promise<number | null> {
+    const quote = await this.getPrice(NATIVE_TOKENS[0], chain);
+    return quote?.priceUSD ?? null;
+  }
+
+  private getPricingToken(token: string, chain: SupportedChain): string {
+    const key = token.toLowerCase();
+    if (!NATIVE_TOKENS.includes(key)) return key;
+    return this.registry.getChain(chain).wrappedNative?.toLowerCase() ?? key;
+  }
+
+  private getProviders(token: string): PriceProvider[] {
+    const overrides = this.config.get<Record<string, string[]>>('prices.tokenPriority', {});
+    const names = overrides[token] ?? this.config.get<string[]>('prices.priority', ['pyth', 'uniswap-v2-twap']);
+
+    return names
+      .map((name) => this.providers.get(name as PriceProviderName))
+      .filter((provider): provider is PriceProvider => {
+        return !!provider;
+      });
+  }
+
+  private isUsable(quote: PriceQuote): boolean {
+    const maxAgeMs = this.config.get<number>('prices.maxAgeSeconds', 300) * 1000;
+    const maxConfidence = this.config.get<number>('prices.maxConfidenceBps', 200) / 10000;
+
+    if (!(quote.priceUSD > 0)) return false;
+
+    if (Date.now() - quote.timestamp > maxAgeMs) {
+      this.logger.debug(`Stale ${quote.source} price (${Math.round((Date.now() - quote.timestamp) / 1000)}s old)`);
+      return false;
+    }
+
+    if (quote.confidence > maxConfidence) {
+      this.logger.debug(`Low-confidence ${quote.source} price (±${(quote.confidence * 100).toFixed(2)}%)`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Alert when another fresh source disagrees with the selected price
+   * Throttled per token so a persistent gap doesn't flood operators
+   */
+  private checkDeviation(
+    token: string,
+    chain: SupportedChain,
+    selected: PriceQuote,
+    others: PriceQuote[],
+  ) {
+    const maxDeviationBps = this.config.get<number>('prices.maxDeviationBps', 300);
+    const deviations = others
+      .map((quote) => ({
+        source: quote.source,
+        priceUSD: quote.priceUSD,
+        deviationBps: Math.round((Math.abs(quote.priceUSD - selected.priceUSD) / selected.priceUSD) * 10000),
+      }))
+      .filter((deviation) => deviation.deviationBps > maxDeviationBps);
+
+    if (deviations.length === 0) return;
+
+    const alertKey = `${chain}:${token}`;
+    const cooldownMs = this.config.get<number>('prices.alertCooldownSeconds', 3600) * 1000;
+    if (Date.now() - (this.lastAlert.get(alertKey) ?? 0) < cooldownMs) return;
+    this.lastAlert.set(alertKey, Date.now());
+
+    const message =
+      `Price sources disagree for ${token} on ${chain}: ${selected.source} $${selected.priceUSD} vs ` +
+      deviations.map((d) => `${d.source} $${d.priceUSD} (${d.deviationBps} bps)`).join(', ');
+    this.logger.warn(message);
+
+    this.events
+      .publish(EventChannel.SYSTEM_ALERT, {
+        timestamp: new Date().toISOString(),
+        source: 'bot',
+        severity: 'warning',
+        message,
+        details: { token, chain, selected, deviations },
+      })
+      .catch(() => undefined);
+  }
+}
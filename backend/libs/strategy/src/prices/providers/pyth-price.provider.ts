@@ -0,0 +1,31 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ChainRegistryService, PythOracleService } from '@app/blockchain';
+import { SupportedChain } from '@app/blockchain/chains';
+import { PriceProvider, PriceQuote } from '../types/price.types';
+
+/**
+ * Pyth price provider
+ * Reads OUR PythOracle wrapper - publish time and confidence come from the raw Pyth feed
+ */
+@Injectable()
+export class PythPriceProvider implements PriceProvider {
+  readonly name = 'pyth' as const;
+  private readonly logger = new Logger(PythPriceProvider.name);
+
+  constructor(
+    private readonly oracle: PythOracleService,
+    private readonly registry: ChainRegistryService,
+  ) {}
+
+  async getPrice(token: string, chain: SupportedChain): Promise<PriceQuote | null> {
+    if (this.registry.getChain(chain).priceOracle.adapter !== 'pyth') return null;
+
+    try {
+      const { priceUSD, confidence, publishTime } = await this.oracle.getPriceData(token, chain);
+      return { priceUSD, source: this.name, timestamp: publishTime * 1000, confidence };
+    } catch (error) {
+      this.logger.debug(`No Pyth price for ${token} on ${chain}: ${error.message}`);
+      return null;
+    }
+  }
+}
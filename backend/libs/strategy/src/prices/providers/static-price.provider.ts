@@ -0,0 +1,36 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PriceProvider, PriceQuote } from '../types/price.types';
+
+/**
+ * Static price provider
+ * Fixed prices from STATIC_PRICES (or set in code) for tests and local chains
+ * Prices are the same on every chain and always fresh
+ */
+@Injectable()
+export class StaticPriceProvider implements PriceProvider {
+  readonly name = 'static' as const;
+  private readonly prices: Map<string, number>;
+
+  constructor(private readonly config: ConfigService) {
+    this.prices = new Map(
+      Object.entries(this.config.get<Record<string, number>>('prices.static', {})),
+    );
+  }
+
+  async getPrice(token: string): Promise<PriceQuote | null> {
+    const priceUSD = this.prices.get(token.toLowerCase());
+    if (priceUSD === undefined || !Number.isFinite(priceUSD)) return null;
+
+    return { priceUSD, source: this.name, timestamp: Date.now(), confidence: 0 };
+  }
+
+  /**
+   * Load fixture prices (token address -> USD), replacing existing entries
+   */
+  setPrices(prices: Record<string, number>) {
+    for (const [token, price] of Object.entries(prices)) {
+      this.prices.set(token.toLowerCase(), price);
+    }
+  }
+}
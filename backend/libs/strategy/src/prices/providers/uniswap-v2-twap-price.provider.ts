@@ -0,0 +1,125 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { erc20Abi } from 'viem';
+import { ChainRegistryService, ChainService } from '@app/blockchain';
+import { SupportedChain } from '@app/blockchain/chains';
+import { UniswapV2Service } from '../../dex/uniswap-v2.service';
+import { PriceProvider, PriceQuote } from '../types/price.types';
+
+interface CumulativeObservation {
+  timestamp: number; // Unix seconds
+  cumulative: bigint; // UQ112x112 price cumulative at timestamp
+}
+
+const Q112 = 2 ** 112;
+
+/**
+ * Uniswap V2 TWAP price provider
+ *
+ * Samples the pair's price cumulative on every request and averages over the
+ * observations kept in memory (prices.twapWindowSeconds). No price is served
+ * until observations span prices.twapMinSeconds, so a single manipulated block
+ * can't move it.
+ *
+ * USD is the chain's {KEY}_USD_QUOTE_TOKEN stablecoin (assumed $1); tokens
+ * without a direct pair are routed through the wrapped native token.
+ */
+@Injectable()
+export class UniswapV2TwapPriceProvider implements PriceProvider {
+  readonly name = 'uniswap-v2-twap' as const;
+  private readonly logger = new Logger(UniswapV2TwapPriceProvider.name);
+  private readonly observations = new Map<string, CumulativeObservation[]>();
+  private readonly decimals = new Map<string, number>();
+
+  constructor(
+    private readonly uniswapV2: UniswapV2Service,
+    private readonly chain: ChainService,
+    private readonly registry: ChainRegistryService,
+    private readonly config: ConfigService,
+  ) {}
+
+  async getPrice(token: string, chain: SupportedChain): Promise<PriceQuote | null> {
+    const quoteToken = this.config.get<string>(`blockchain.${chain}.usdQuoteToken`)?.toLowerCase();
+    if (!quoteToken || !this.uniswapV2.isAvailable(chain)) return null;
+
+    const key = token.toLowerCase();
+    if (key === quoteToken) {
+      return { priceUSD: 1, source: this.name, timestamp: Date.now(), confidence: 0 };
+    }
+
+    try {
+      let priceUSD = await this.getTwap(key, quoteToken, chain);
+
+      const wrappedNative = this.registry.getChain(chain).wrappedNative?.toLowerCase();
+      if (priceUSD === null && wrappedNative && key !== wrappedNative) {
+        const [inNative, nativeUSD] = await Promise.all([
+          this.getTwap(key, wrappedNative, chain),
+          this.getTwap(wrappedNative, quoteToken, chain),
+        ]);
+        priceUSD = inNative !== null && nativeUSD !== null ? inNative * nativeUSD : null;
+      }
+
+      if (priceUSD === null) return null;
+      return { priceUSD, source: this.name, timestamp: Date.now(), confidence: 0 };
+    } catch (error) {
+      this.logger.debug(`No Uniswap V2 TWAP for ${token} on ${chain}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Time-weighted price of tokenA in whole units of tokenB
+   * Null while the pair is missing, empty or not observed for long enough
+   */
+  private async getTwap(
+    tokenA: string,
+    tokenB: string,
+    chain: SupportedChain,
+  ): Promise<number | null> {
+    const reserves = await this.uniswapV2.getReserves(tokenA, tokenB, chain);
+    if (!reserves || reserves.reserveA === 0n || reserves.reserveB === 0n) return null;
+
+    // The pair only accumulates on swaps/syncs - extend to now at the current spot price
+    const now = Math.floor(Date.now() / 1000);
+    const sinceLastUpdate = BigInt(Math.max(0, now - reserves.blockTimestampLast));
+    const cumulative =
+      reserves.priceACumulativeLast +
+      ((reserves.reserveB << 112n) / reserves.reserveA) * sinceLastUpdate;
+
+    const window = this.config.get<number>('prices.twapWindowSeconds', 1800);
+    const key = `${chain}:${reserves.pair}:${tokenA}`;
+    const history = (this.observations.get(key) ?? []).filter(
+      (observation) => now - observation.timestamp <= window,
+    );
+    if (history.length === 0 || history[history.length - 1].timestamp < now) {
+      history.push({ timestamp: now, cumulative });
+    }
+    this.observations.set(key, history);
+
+    const oldest = history[0];
+    const span = now - oldest.timestamp;
+    if (span < this.config.get<number>('prices.twapMinSeconds', 300)) return null;
+
+    const average = Number((cumulative - oldest.cumulative) / BigInt(span)) / Q112;
+    const [decimalsA, decimalsB] = await Promise.all([
+      this.getDecimals(tokenA, chain),
+      this.getDecimals(tokenB, chain),
+    ]);
+
+    return average * 10 ** (decimalsA - decimalsB);
+  }
+
+  private async getDecimals(token: string, chain: SupportedChain): Promise<number> {
+    const key = `${chain}:${token}`;
+    if (!this.decimals.has(key)) {
+      const decimals = await this.chain.getPublicClient(chain).readContract({
+        address: token as `0x${string}`,
+        abi: erc20Abi,
+        functionName: 'decimals',
+        authorizationList: undefined,
+      } as any);
+      this.decimals.set(key, Number(decimals));
+    }
+    return this.decimals.get(key);
+  }
+}
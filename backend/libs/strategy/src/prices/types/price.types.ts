@@ -0,0 +1,24 @@
+/**
+ * Price Types
+ * Token USD prices from pluggable providers with staleness and confidence metadata
+ */
+
+import { SupportedChain } from '@app/blockchain/chains';
+
+export type PriceProviderName = 'pyth' | 'uniswap-v2-twap' | 'static';
+
+export interface PriceQuote {
+  priceUSD: number;
+  source: PriceProviderName;
+  timestamp: number; // Unix ms the price was observed/published
+  confidence: number; // Confidence interval as a ratio of price (0 = exact)
+}
+
+/**
+ * Pluggable price source
+ * Returns null when the source can't price the token - never a fallback value
+ */
+export interface PriceProvider {
+  readonly name: PriceProviderName;
+  getPrice(token: string, chain: SupportedChain): Promise<PriceQuote | null>;
+}
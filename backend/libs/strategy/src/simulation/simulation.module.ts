@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { StrategyModule } from '../strategy.module';
+import { DexModule } from '../dex/dex.module';
+import { GasModule } from '../gas/gas.module';
+import { SimulationService } from './simulation.service';
+
+/**
+ * Strategy dry-runs against live balances and quotes
+ * Read-only (no queues, no wallet) so the API can import it directly
+ */
+@Module({
+  imports: [StrategyModule, DexModule, GasModule],
+  providers: [SimulationService],
+  exports: [SimulationService],
+})
+export class SimulationModule {}
@@ -0,0 +1,148 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ChainRegistryService } from '@app/blockchain';
+import { StrategyEngineService } from '../strategy-engine.service';
+import { DexService } from '../dex/dex.service';
+import { GasService } from '../gas/gas.service';
+import { ExecutionPlan, PortfolioState } from '../types/strategy-logic.types';
+import {
+  SimulatedQuote,
+  SimulatedWeight,
+  SimulationResult,
+} from './types/simulation.types';
+
+@Injectable()
+export class SimulationService {
+  private readonly logger = new Logger(SimulationService.name);
+
+  constructor(
+    private readonly strategyEngine: StrategyEngineService,
+    private readonly dexService: DexService,
+    private readonly gasService: GasService,
+    private readonly registry: ChainRegistryService,
+  ) {}
+
+  /**
+   * Dry-run a strategy against its current on-chain portfolio
+   * Evaluates conditions, plans and quotes swaps and prices gas - never sends a transaction
+   */
+  async simulate(dbStrategy: any): Promise<SimulationResult> {
+    // Throws with the parser/validation message, which the API passes on
+    const evaluation = await this.strategyEngine.evaluateStrategyOrThrow(
+      dbStrategy.strategyLogic,
+      dbStrategy,
+    );
+
+    const { executionPlan, portfolioState } = evaluation;
+    const chainName = this.registry.getChainKey(dbStrategy.chainId);
+    const account = dbStrategy.delegatorAddress || dbStrategy.user.address;
+
+    // Quote failures are part of the preview, not an error
+    let quotes: SimulatedQuote[] = [];
+    let quoteError: string | null = null;
+    if (executionPlan.swaps.length > 0) {
+      try {
+        const swapData = await this.dexService.getOptimalSwaps(
+          executionPlan,
+          chainName,
+          account,
+        );
+        quotes = swapData.map((swap) => ({
+          fromToken: swap.fromToken,
+          toToken: swap.toToken,
+          aggregator: swap.aggregator,
+          minOutput: swap.minOutput.toString(),
+          priceImpact: swap.priceImpact ?? 0,
+          isWrap: !!swap.isWrap,
+        }));
+      } catch (error) {
+        this.logger.warn(`Quote failed for strategy ${dbStrategy.id}: ${error.message}`);
+        quoteError = error.message;
+      }
+    }
+
+    const hasActions = executionPlan.swaps.length > 0 || executionPlan.transfers.length > 0;
+    const gas = hasActions
+      ? await this.gasService.estimateTxCost(chainName, executionPlan.estimatedGas)
+      : null;
+
+    return {
+      strategyId: dbStrategy.id,
+      chainId: dbStrategy.chainId,
+      simulatedAt: new Date().toISOString(),
+      shouldExecute: evaluation.shouldExecute,
+      reason: evaluation.reason,
+      conditionsMet: evaluation.conditionsMet,
+      actionGates: Object.fromEntries(evaluation.actionGates),
+      conditionSummary: evaluation.conditionSummary,
+      historyGaps: evaluation.historyGaps,
+      totalValueUSD: portfolioState.totalValueUSD,
+      drift: portfolioState.drift,
+      executionPlan: {
+        swaps: executionPlan.swaps.map((swap) => ({
+          fromToken: swap.fromToken,
+          toToken: swap.toToken,
+          fromAmount: swap.fromAmount.toString(),
+          expectedToAmount: swap.expectedToAmount.toString(),
+          reason: swap.reason,
+        })),
+        transfers: executionPlan.transfers.map((transfer) => ({
+          token: transfer.token,
+          to: transfer.to,
+          amount: transfer.amount.toString(),
+        })),
+        estimatedGas: executionPlan.estimatedGas.toString(),
+      },
+      quotes,
+      quoteError,
+      weights: this.getExpectedWeights(portfolioState, executionPlan),
+      gas: gas
+        ? {
+            gasLimit: executionPlan.estimatedGas.toString(),
+            gasCostWei: gas.gasCost.toString(),
+            gasCostUSD: gas.gasCostUsd,
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Portfolio weights after applying the planned swaps and transfers at current prices
+   */
+  private getExpectedWeights(
+    portfolioState: PortfolioState,
+    executionPlan: ExecutionPlan,
+  ): SimulatedWeight[] {
+    const balances = new Map<string, bigint>(
+      portfolioState.tokens.map((token) => [token.address.toLowerCase(), token.balance]),
+    );
+    const adjust = (token: string, delta: bigint) => {
+      const key = token.toLowerCase();
+      if (!balances.has(key)) return;
+      const next = balances.get(key) + delta;
+      balances.set(key, next > 0n ? next : 0n);
+    };
+
+    executionPlan.swaps.forEach((swap) => {
+      adjust(swap.fromToken, -swap.fromAmount);
+      adjust(swap.toToken, swap.expectedToAmount);
+    });
+    executionPlan.transfers.forEach((transfer) => adjust(transfer.token, -transfer.amount));
+
+    const expectedValues = portfolioState.tokens.map(
+      (token) =>
+        (Number(balances.get(token.address.toLowerCase())) / 10 ** token.decimals) *
+        token.priceUSD,
+    );
+    const expectedTotal = expectedValues.reduce((sum, value) => sum + value, 0);
+
+    return portfolioState.tokens.map((token, i) => ({
+      address: token.address,
+      symbol: token.symbol,
+      currentWeight: token.currentWeight,
+      expectedWeight: expectedTotal > 0 ? (expectedValues[i] / expectedTotal) * 100 : 0,
+      targetWeight: token.targetWeight,
+      currentValueUSD: token.valueUSD,
+      expectedValueUSD: expectedValues[i],
+    }));
+  }
+}
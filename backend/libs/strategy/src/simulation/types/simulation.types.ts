@@ -0,0 +1,68 @@
+/**
+ * Simulation Types
+ * Dry-run of a strategy against the live portfolio - JSON safe (bigints as strings)
+ */
+
+import type { HistoryGap } from '../../types/strategy-logic.types';
+
+export interface SimulatedSwap {
+  fromToken: string;
+  toToken: string;
+  fromAmount: string;
+  expectedToAmount: string;
+  reason: 'rebalance' | 'swap_action';
+}
+
+export interface SimulatedTransfer {
+  token: string;
+  to: string;
+  amount: string;
+}
+
+export interface SimulatedQuote {
+  fromToken: string;
+  toToken: string;
+  aggregator: string;
+  minOutput: string;
+  priceImpact: number; // Percentage
+  isWrap: boolean;
+}
+
+export interface SimulatedWeight {
+  address: string;
+  symbol: string;
+  currentWeight: number; // Percentage
+  expectedWeight: number; // Percentage after the planned swaps/transfers
+  targetWeight: number; // Percentage
+  currentValueUSD: number;
+  expectedValueUSD: number;
+}
+
+export interface SimulationResult {
+  strategyId: string;
+  chainId: number;
+  simulatedAt: string; // ISO timestamp
+  shouldExecute: boolean;
+  reason: string;
+  conditionsMet: boolean;
+  actionGates: Record<string, boolean>; // Action block ID -> upstream condition path met
+  conditionSummary: string;
+  // Lookback conditions this process has no price history for (read as false here;
+  // the bot evaluates them against its own live history)
+  historyGaps: HistoryGap[];
+  totalValueUSD: number;
+  drift: number; // Basis points
+  executionPlan: {
+    swaps: SimulatedSwap[];
+    transfers: SimulatedTransfer[];
+    estimatedGas: string;
+  };
+  quotes: SimulatedQuote[];
+  quoteError: string | null; // Set when no route could be quoted
+  weights: SimulatedWeight[];
+  gas: {
+    gasLimit: string;
+    gasCostWei: string;
+    gasCostUSD: number | null; // null when the native currency has no fresh price
+  } | null;
+}
@@ -0,0 +1,165 @@
+import { Test } from '@nestjs/testing';
+import { ChainRegistryService } from '@app/blockchain';
+import { StrategyEngineService } from './strategy-engine.service';
+import { StrategyParserService } from './strategy-parser.service';
+import { PortfolioAnalyzerService } from './portfolio-analyzer.service';
+import { ConditionEvaluatorService } from './condition-evaluator.service';
+import { ActionPlannerService } from './action-planner.service';
+import { PriceHistoryService, PriceHistoryStore } from './price-history.service';
+import { GasService } from './gas/gas.service';
+import { BlockType, PortfolioState } from './types/strategy-logic.types';
+
+const WETH = '0x1111111111111111111111111111111111111111';
+const USDC = '0x2222222222222222222222222222222222222222';
+
+const block = (id: string, type: BlockType, data: Record<string, any>, inputs: string[] = []) => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  size: { width: 100, height: 100 },
+  data,
+  connections: { inputs, outputs: [] },
+});
+
+// Rebalance gated on WETH rising more than 5% over the last hour
+const strategyLogic = {
+  id: 'strategy-1',
+  name: 'Momentum rebalance',
+  description: '',
+  blocks: [
+    block('asset-weth', BlockType.ASSET, {
+      symbol: 'WETH',
+      name: 'Wrapped Ether',
+      initialWeight: 50,
+      address: WETH,
+      chainId: 10143,
+      decimals: 18,
+    }),
+    block('asset-usdc', BlockType.ASSET, {
+      symbol: 'USDC',
+      name: 'USD Coin',
+      initialWeight: 50,
+      address: USDC,
+      chainId: 10143,
+      decimals: 6,
+    }),
+    block(
+      'condition-momentum',
+      BlockType.CONDITION,
+      {
+        conditionType: 'priceChange',
+        operator: 'GT',
+        valueUSD: 5,
+        lookbackMinutes: 60,
+        description: 'WETH up 5% in 1h',
+      },
+      ['asset-weth'],
+    ),
+    block(
+      'action-rebalance',
+      BlockType.ACTION,
+      { actionType: 'rebalance', rebalanceTrigger: { interval: 60 } },
+      ['condition-momentum'],
+    ),
+  ],
+  connections: [],
+};
+
+const dbStrategy = {
+  id: 'strategy-1',
+  chainId: 10143,
+  delegatorAddress: '0x3333333333333333333333333333333333333333',
+  user: { address: '0x4444444444444444444444444444444444444444' },
+};
+
+const portfolioState: PortfolioState = {
+  tokens: [
+    {
+      address: WETH,
+      symbol: 'WETH',
+      balance: 10n ** 18n,
+      decimals: 18,
+      priceUSD: 110,
+      valueUSD: 110,
+      currentWeight: 50,
+      targetWeight: 50,
+    },
+    {
+      address: USDC,
+      symbol: 'USDC',
+      balance: 110n * 10n ** 6n,
+      decimals: 6,
+      priceUSD: 1,
+      valueUSD: 110,
+      currentWeight: 50,
+      targetWeight: 50,
+    },
+  ],
+  totalValueUSD: 220,
+  drift: 0,
+};
+
+describe('StrategyEngineService lookback conditions', () => {
+  let engine: StrategyEngineService;
+  let priceHistory: PriceHistoryStore;
+
+  beforeEach(async () => {
+    priceHistory = new PriceHistoryStore();
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        StrategyEngineService,
+        StrategyParserService,
+        ConditionEvaluatorService,
+        ActionPlannerService,
+        { provide: PriceHistoryService, useValue: priceHistory },
+        {
+          provide: PortfolioAnalyzerService,
+          useValue: {
+            analyzePortfolio: jest.fn().mockResolvedValue(portfolioState),
+            getPortfolioSummary: jest.fn().mockReturnValue(''),
+          },
+        },
+        { provide: GasService, useValue: {} },
+        { provide: ChainRegistryService, useValue: {} },
+      ],
+    }).compile();
+
+    engine = moduleRef.get(StrategyEngineService);
+  });
+
+  it('reads a priceChange condition as false and reports the gap when the process has no price history', async () => {
+    // The API process never runs the monitor loop, so its history starts (and stays) empty
+    const result = await engine.evaluateStrategy(strategyLogic, dbStrategy);
+
+    expect(result.conditionsMet).toBe(false);
+    expect(result.actionGates.get('action-rebalance')).toBe(false);
+    expect(result.historyGaps).toEqual([
+      {
+        conditionId: 'condition-momentum',
+        conditionType: 'priceChange',
+        token: WETH,
+        description: 'WETH up 5% in 1h',
+      },
+    ]);
+  });
+
+  it('evaluates the same condition once the bot-side history covers the lookback', async () => {
+    priceHistory.record(dbStrategy.chainId, WETH, 100, Date.now() - 2 * 60 * 60 * 1000);
+
+    const result = await engine.evaluateStrategy(strategyLogic, dbStrategy);
+
+    expect(result.conditionsMet).toBe(true);
+    expect(result.actionGates.get('action-rebalance')).toBe(true);
+    expect(result.historyGaps).toEqual([]);
+  });
+
+  it('ignores history recorded for the same address on another chain', async () => {
+    priceHistory.record(8453, WETH, 100, Date.now() - 2 * 60 * 60 * 1000);
+
+    const result = await engine.evaluateStrategy(strategyLogic, dbStrategy);
+
+    expect(result.conditionsMet).toBe(false);
+    expect(result.historyGaps).toHaveLength(1);
+  });
+});
@@ -0,0 +1,358 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ChainRegistryService } from '@app/blockchain';
+import { StrategyParserService } from './strategy-parser.service';
+import { PortfolioAnalyzerService } from './portfolio-analyzer.service';
+import { ConditionEvaluatorService } from './condition-evaluator.service';
+import { ActionPlannerService } from './action-planner.service';
+import { PriceHistoryService, PriceHistoryStore } from './price-history.service';
+import { GasService } from './gas/gas.service';
+import {
+  CanvasStrategy,
+  PortfolioState,
+  ExecutionPlan,
+  ExecutionContext,
+  EvaluationContext,
+  HistoryGap,
+} from './types/strategy-logic.types';
+
+export interface StrategyEvaluationResult {
+  shouldExecute: boolean;
+  reason: string;
+  portfolioState: PortfolioState;
+  executionPlan: ExecutionPlan;
+  conditionsMet: boolean; // At least one action's condition path is met
+  actionGates: Map<string, boolean>;
+  conditionSummary: string;
+  portfolioSummary: string;
+  historyGaps: HistoryGap[]; // Lookback conditions read as false for lack of price history
+}
+
+@Injectable()
+export class StrategyEngineService {
+  private readonly logger = new Logger(StrategyEngineService.name);
+
+  constructor(
+    private readonly parser: StrategyParserService,
+    private readonly portfolioAnalyzer: PortfolioAnalyzerService,
+    private readonly conditionEvaluator: ConditionEvaluatorService,
+    private readonly actionPlanner: ActionPlannerService,
+    private readonly priceHistory: PriceHistoryService,
+    private readonly gasService: GasService,
+    private readonly registry: ChainRegistryService,
+  ) {}
+
+  /**
+   * Complete strategy evaluation pipeline
+   * Parser → Analyzer → Evaluator → Planner
+   * Returns null (and logs) on any failure - use evaluateStrategyOrThrow for the reason
+   */
+  async evaluateStrategy(
+    strategyLogicJson: any,
+    dbStrategy: any,
+  ): Promise<StrategyEvaluationResult | null> {
+    try {
+      return await this.evaluateStrategyOrThrow(strategyLogicJson, dbStrategy);
+    } catch (error) {
+      this.logger.error(
+        `Failed to evaluate strategy ${dbStrategy.id}: ${error.message}`,
+        error.stack,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Same pipeline, throwing with the parser, validation or analyzer error
+   */
+  async evaluateStrategyOrThrow(
+    strategyLogicJson: any,
+    dbStrategy: any,
+  ): Promise<StrategyEvaluationResult> {
+    // Step 1: Parse strategy logic
+    const strategy = this.parser.parseStrategyLogic(strategyLogicJson);
+    if (!strategy) {
+      throw new Error('Strategy logic could not be parsed (missing id or blocks, or no valid blocks)');
+    }
+
+    // Validate strategy structure
+    const validation = this.parser.validateStrategy(strategy);
+    if (!validation.valid) {
+      throw new Error(`Strategy validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    this.logger.debug(
+      `Evaluating strategy ${dbStrategy.id} for user ${dbStrategy.user.address}`,
+    );
+
+    // Step 2: Analyze portfolio state
+    // IMPORTANT: Use delegatorAddress (DeleGator smart account) NOT user.address (EOA)
+    // All funds are stored in the DeleGator, not the user's EOA!
+    const portfolioState = await this.portfolioAnalyzer.analyzePortfolio(
+      strategy,
+      dbStrategy.delegatorAddress || dbStrategy.user.address, // Fallback to user if no delegator
+      dbStrategy.chainId,
+    );
+
+    const context: EvaluationContext = {
+      timestamp: Date.now(),
+      gasPriceGwei: await this.getGasPriceGwei(strategy, dbStrategy.chainId),
+      chainId: dbStrategy.chainId,
+      priceHistory: this.priceHistory,
+    };
+
+    return this.evaluatePortfolioState(strategy, portfolioState, context);
+  }
+
+  /**
+   * Value a strategy's on-chain portfolio without evaluating conditions
+   * Returns null if the strategy logic can't be parsed
+   */
+  async getPortfolioState(
+    strategyLogicJson: any,
+    dbStrategy: any,
+  ): Promise<PortfolioState | null> {
+    const strategy = this.parser.parseStrategyLogic(strategyLogicJson);
+    if (!strategy) return null;
+
+    return this.portfolioAnalyzer.analyzePortfolio(
+      strategy,
+      dbStrategy.delegatorAddress || dbStrategy.userAddress,
+      dbStrategy.chainId,
+    );
+  }
+
+  /**
+   * Evaluate strategy against a supplied portfolio snapshot
+   * Same Parser → Analyzer → Evaluator → Planner pipeline as evaluateStrategy,
+   * but balances, prices and market context come from the caller instead of the chain
+   */
+  async evaluateSnapshot(
+    strategyLogicJson: any,
+    balances: Map<string, bigint>,
+    prices: Map<string, number>,
+    context: Partial<EvaluationContext> = {},
+  ): Promise<StrategyEvaluationResult | null> {
+    const strategy = this.parser.parseStrategyLogic(strategyLogicJson);
+    if (!strategy) return null;
+
+    const validation = this.parser.validateStrategy(strategy);
+    if (!validation.valid) {
+      this.logger.debug(
+        `Snapshot evaluation skipped, validation failed: ${validation.errors.join(', ')}`,
+      );
+      return null;
+    }
+
+    const portfolioState = this.portfolioAnalyzer.buildPortfolioState(
+      strategy,
+      balances,
+      prices,
+    );
+
+    return this.evaluatePortfolioState(strategy, portfolioState, {
+      timestamp: context.timestamp ?? Date.now(),
+      gasPriceGwei: context.gasPriceGwei ?? null,
+      chainId: context.chainId ?? 0, // Only read with a caller-supplied history
+      priceHistory: context.priceHistory ?? new PriceHistoryStore(),
+    });
+  }
+
+  /**
+   * Evaluate conditions and plan actions for an analyzed portfolio
+   */
+  private async evaluatePortfolioState(
+    strategy: CanvasStrategy,
+    portfolioState: PortfolioState,
+    context: EvaluationContext,
+  ): Promise<StrategyEvaluationResult> {
+    const portfolioSummary =
+      this.portfolioAnalyzer.getPortfolioSummary(portfolioState);
+    this.logger.debug(`Portfolio state:\n${portfolioSummary}`);
+
+    // Step 3: Evaluate each action's upstream condition path
+    const actionGates = this.conditionEvaluator.evaluateActionGates(
+      strategy,
+      portfolioState,
+      context,
+    );
+    const conditionsMet = [...actionGates.values()].some((open) => open);
+
+    const conditionSummary = this.conditionEvaluator.getConditionSummary(
+      strategy,
+      portfolioState,
+      context,
+    );
+    this.logger.debug(
+      `Conditions: ${conditionsMet ? 'MET' : 'NOT MET'}\n${conditionSummary}`,
+    );
+
+    // Step 4: Generate execution plan
+    const executionPlan = await this.actionPlanner.generateExecutionPlan(
+      strategy,
+      portfolioState,
+      actionGates,
+    );
+
+    this.logger.debug(
+      `Execution plan: ${executionPlan.shouldExecute ? 'EXECUTE' : 'SKIP'} - ${executionPlan.reason}`,
+    );
+
+    if (executionPlan.swaps.length > 0) {
+      this.logger.debug(`Planned swaps:`);
+      executionPlan.swaps.forEach((swap, i) => {
+        this.logger.debug(
+          `  ${i + 1}. ${swap.fromToken} → ${swap.toToken} (${swap.reason})`,
+        );
+      });
+    }
+
+    return {
+      shouldExecute: executionPlan.shouldExecute,
+      reason: executionPlan.reason,
+      portfolioState,
+      executionPlan,
+      conditionsMet,
+      actionGates,
+      conditionSummary,
+      portfolioSummary,
+      historyGaps: this.conditionEvaluator.getHistoryGaps(strategy, portfolioState, context),
+    };
+  }
+
+  /**
+   * Current gas price in gwei, fetched only when a gasPrice condition needs it
+   */
+  private async getGasPriceGwei(
+    strategy: CanvasStrategy,
+    chainId: number,
+  ): Promise<number | null> {
+    const needsGas = this.parser
+      .getConditionBlocks(strategy)
+      .some((condition) => condition.data.conditionType === 'gasPrice');
+    if (!needsGas) return null;
+
+    const gasPrice = await this.gasService.getOptimalGasPrice(this.registry.getChainKey(chainId));
+
+    return Number(gasPrice) / 1e9;
+  }
+
+  /**
+   * Build execution context for executor processor
+   */
+  async buildExecutionContext(
+    strategyLogicJson: any,
+    dbStrategy: any,
+  ): Promise<ExecutionContext | null> {
+    const result = await this.evaluateStrategy(strategyLogicJson, dbStrategy);
+    if (!result) return null;
+
+    const strategy = this.parser.parseStrategyLogic(strategyLogicJson);
+    if (!strategy) return null;
+
+    return {
+      strategy,
+      dbStrategy,
+      portfolioState: result.portfolioState,
+      conditionsMet: result.conditionsMet,
+      actionGates: result.actionGates,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Quick check if strategy needs rebalancing (for monitoring)
+   */
+  async needsRebalancing(
+    strategyLogicJson: any,
+    dbStrategy: any,
+  ): Promise<{
+    needs: boolean;
+    drift: number;
+    threshold: number;
+    reason: string;
+  }> {
+    try {
+      const strategy = this.parser.parseStrategyLogic(strategyLogicJson);
+      if (!strategy) {
+        return { needs: false, drift: 0, threshold: 0, reason: 'Invalid strategy' };
+      }
+
+      const rebalanceAction = this.parser.getRebalanceAction(strategy);
+      if (!rebalanceAction) {
+        return { needs: false, drift: 0, threshold: 0, reason: 'No rebalance action' };
+      }
+
+      const driftThreshold = rebalanceAction.data.rebalanceTrigger?.drift || 500; // Default 5%
+
+      // IMPORTANT: Use delegatorAddress (DeleGator smart account) NOT user.address (EOA)
+      const portfolioState = await this.portfolioAnalyzer.analyzePortfolio(
+        strategy,
+        dbStrategy.delegatorAddress || dbStrategy.user.address, // Fallback to user if no delegator
+        dbStrategy.chainId,
+      );
+
+      const needs = this.portfolioAnalyzer.needsRebalancing(
+        portfolioState,
+        driftThreshold,
+      );
+
+      return {
+        needs,
+        drift: portfolioState.drift,
+        threshold: driftThreshold,
+        reason: needs
+          ? `Drift ${(portfolioState.drift / 100).toFixed(2)}% exceeds threshold ${(driftThreshold / 100).toFixed(2)}%`
+          : `Drift ${(portfolioState.drift / 100).toFixed(2)}% within threshold`,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to check rebalancing need: ${error.message}`,
+      );
+      return { needs: false, drift: 0, threshold: 0, reason: error.message };
+    }
+  }
+
+  /**
+   * Get rebalance trigger settings (interval in minutes, drift threshold in bps)
+   */
+  getRebalanceTrigger(
+    strategyLogicJson: any,
+  ): { interval: number; driftThreshold: number } | null {
+    const strategy = this.parser.parseStrategyLogic(strategyLogicJson);
+    if (!strategy) return null;
+
+    const rebalanceAction = this.parser.getRebalanceAction(strategy);
+    if (!rebalanceAction) return null;
+
+    return {
+      interval: rebalanceAction.data.rebalanceTrigger?.interval || 0,
+      driftThreshold: rebalanceAction.data.rebalanceTrigger?.drift || 500, // Default 5%
+    };
+  }
+
+  /**
+   * Get strategy summary for logging/debugging
+   */
+  getStrategySummary(strategyLogicJson: any): string | null {
+    try {
+      const strategy = this.parser.parseStrategyLogic(strategyLogicJson);
+      if (!strategy) return null;
+
+      const assetBlocks = this.parser.getAssetBlocks(strategy);
+      const conditionBlocks = this.parser.getConditionBlocks(strategy);
+      const actionBlocks = this.parser.getActionBlocks(strategy);
+
+      const lines = [
+        `Strategy: ${strategy.name}`,
+        `Assets: ${assetBlocks.map((a) => `${a.data.symbol} (${a.data.initialWeight}%)`).join(', ')}`,
+        `Conditions: ${conditionBlocks.length}`,
+        `Actions: ${actionBlocks.map((a) => a.data.actionType).join(', ')}`,
+      ];
+
+      return lines.join('\n');
+    } catch (error) {
+      this.logger.error(`Failed to get strategy summary: ${error.message}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,422 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  CanvasStrategy,
+  Block,
+  BlockType,
+  AssetBlock,
+  ConditionBlock,
+  ActionBlock,
+  ConditionType,
+} from './types/strategy-logic.types';
+
+/**
+ * Condition types that evaluate a specific asset (must be wired to one asset block)
+ */
+const ASSET_CONDITION_TYPES: ConditionType[] = [
+  'price',
+  'assetValue',
+  'priceChange',
+  'movingAverage',
+];
+
+@Injectable()
+export class StrategyParserService {
+  private readonly logger = new Logger(StrategyParserService.name);
+
+  /**
+   * Parse strategyLogic JSON from database into typed objects
+   */
+  parseStrategyLogic(strategyLogic: any): CanvasStrategy | null {
+    try {
+      // Validate structure
+      if (!strategyLogic || typeof strategyLogic !== 'object') {
+        this.logger.warn('Invalid strategyLogic: not an object');
+        return null;
+      }
+
+      const strategy = strategyLogic as CanvasStrategy;
+
+      // Validate required fields
+      if (!strategy.id || !strategy.blocks || !Array.isArray(strategy.blocks)) {
+        this.logger.warn('Invalid strategyLogic: missing required fields');
+        return null;
+      }
+
+      // Validate blocks
+      const validBlocks = strategy.blocks.filter((block) =>
+        this.isValidBlock(block),
+      );
+
+      if (validBlocks.length === 0) {
+        this.logger.warn('Invalid strategyLogic: no valid blocks');
+        return null;
+      }
+
+      return {
+        ...strategy,
+        blocks: validBlocks,
+        connections: strategy.connections || [],
+        metadata: strategy.metadata || {
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          version: '1.0',
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Failed to parse strategyLogic: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Validate block structure
+   */
+  private isValidBlock(block: any): block is Block {
+    if (!block || typeof block !== 'object') return false;
+    if (!block.id || !block.type || !block.data) return false;
+
+    const validTypes = Object.values(BlockType);
+    if (!validTypes.includes(block.type)) return false;
+
+    return true;
+  }
+
+  /**
+   * Extract asset blocks from strategy
+   */
+  getAssetBlocks(strategy: CanvasStrategy): AssetBlock[] {
+    return strategy.blocks.filter(
+      (block): block is AssetBlock => block.type === BlockType.ASSET,
+    );
+  }
+
+  /**
+   * Extract condition blocks from strategy
+   */
+  getConditionBlocks(strategy: CanvasStrategy): ConditionBlock[] {
+    return strategy.blocks.filter(
+      (block): block is ConditionBlock => block.type === BlockType.CONDITION,
+    );
+  }
+
+  /**
+   * Extract action blocks from strategy
+   */
+  getActionBlocks(strategy: CanvasStrategy): ActionBlock[] {
+    return strategy.blocks.filter(
+      (block): block is ActionBlock => block.type === BlockType.ACTION,
+    );
+  }
+
+  /**
+   * Get rebalance action block (if exists)
+   */
+  getRebalanceAction(strategy: CanvasStrategy): ActionBlock | null {
+    const actionBlocks = this.getActionBlocks(strategy);
+    return (
+      actionBlocks.find(
+        (block) => block.data.actionType === 'rebalance',
+      ) || null
+    );
+  }
+
+  /**
+   * Get connected blocks for a given block
+   */
+  getConnectedBlocks(
+    strategy: CanvasStrategy,
+    blockId: string,
+    direction: 'inputs' | 'outputs',
+  ): Block[] {
+    const block = strategy.blocks.find((b) => b.id === blockId);
+    if (!block) return [];
+
+    const connectedIds = block.connections[direction];
+    return strategy.blocks.filter((b) => connectedIds.includes(b.id));
+  }
+
+  /**
+   * Get IDs of blocks wired into a block's inputs
+   * Uses both block-level input IDs and strategy-level connections,
+   * since older canvases may only have one of the two populated
+   */
+  getInputBlockIds(strategy: CanvasStrategy, blockId: string): string[] {
+    const block = strategy.blocks.find((b) => b.id === blockId);
+    if (!block) return [];
+
+    const inputIds = new Set<string>(block.connections?.inputs || []);
+    strategy.connections
+      .filter((connection) => connection.target?.blockId === blockId)
+      .forEach((connection) => inputIds.add(connection.source.blockId));
+
+    return [...inputIds];
+  }
+
+  /**
+   * Resolve asset blocks wired into a block's inputs
+   */
+  getConnectedAssetBlocks(
+    strategy: CanvasStrategy,
+    blockId: string,
+  ): AssetBlock[] {
+    const inputIds = this.getInputBlockIds(strategy, blockId);
+    return this.getAssetBlocks(strategy).filter((asset) =>
+      inputIds.includes(asset.id),
+    );
+  }
+
+  /**
+   * Resolve condition blocks wired into a block's inputs (its upstream condition path)
+   */
+  getUpstreamConditions(
+    strategy: CanvasStrategy,
+    blockId: string,
+  ): ConditionBlock[] {
+    const inputIds = this.getInputBlockIds(strategy, blockId);
+    return this.getConditionBlocks(strategy).filter((condition) =>
+      inputIds.includes(condition.id),
+    );
+  }
+
+  /**
+   * Resolve the token address a condition block refers to
+   * Returns null when the condition is not wired to exactly one asset block
+   */
+  resolveConditionAsset(
+    strategy: CanvasStrategy,
+    condition: ConditionBlock,
+  ): string | null {
+    const assets = this.getConnectedAssetBlocks(strategy, condition.id);
+    if (assets.length !== 1 || !assets[0].data.address) return null;
+
+    return assets[0].data.address.toLowerCase();
+  }
+
+  /**
+   * Build execution graph from connections
+   * Returns blocks in topological order
+   */
+  buildExecutionOrder(strategy: CanvasStrategy): Block[] {
+    const visited = new Set<string>();
+    const result: Block[] = [];
+
+    const visit = (blockId: string) => {
+      if (visited.has(blockId)) return;
+      visited.add(blockId);
+
+      const block = strategy.blocks.find((b) => b.id === blockId);
+      if (!block) return;
+
+      // Visit inputs first (dependencies)
+      block.connections.inputs.forEach((inputId) => visit(inputId));
+
+      result.push(block);
+    };
+
+    // Start from blocks with no inputs (root nodes)
+    strategy.blocks
+      .filter((block) => block.connections.inputs.length === 0)
+      .forEach((block) => visit(block.id));
+
+    return result;
+  }
+
+  /**
+   * Validate strategy has minimum required blocks
+   */
+  validateStrategy(strategy: CanvasStrategy): {
+    valid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+
+    // Must have at least 1 asset block
+    const assetBlocks = this.getAssetBlocks(strategy);
+    if (assetBlocks.length === 0) {
+      errors.push('Strategy must have at least one asset block');
+    }
+
+    // Validate asset weights sum to 100%
+    const totalWeight = assetBlocks.reduce(
+      (sum, block) => sum + block.data.initialWeight,
+      0,
+    );
+    if (Math.abs(totalWeight - 100) > 0.1) {
+      errors.push(
+        `Asset weights must sum to 100% (got ${totalWeight.toFixed(1)}%)`,
+      );
+    }
+
+    // Must have at least 1 action block
+    const actionBlocks = this.getActionBlocks(strategy);
+    if (actionBlocks.length === 0) {
+      errors.push('Strategy must have at least one action block');
+    }
+
+    // Validate rebalance action has valid interval
+    const rebalanceAction = this.getRebalanceAction(strategy);
+    if (rebalanceAction) {
+      const interval = rebalanceAction.data.rebalanceTrigger?.interval;
+      if (!interval || interval < 1) {
+        errors.push('Rebalance interval must be at least 1 minute');
+      }
+    }
+
+    // Asset-specific conditions must be wired to exactly one asset block
+    errors.push(...this.validateConditionWiring(strategy));
+
+    errors.push(...this.validateConditionParameters(strategy));
+
+    // Combinators live on condition blocks, so an action takes at most one condition
+    errors.push(...this.validateActionInputs(strategy));
+
+    // Condition paths are evaluated topologically, so they must be acyclic
+    const cycle = this.findConditionCycle(strategy);
+    if (cycle) {
+      errors.push(`Condition blocks form a cycle: ${cycle.join(' → ')}`);
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate that each action has at most one condition wired straight into it
+   * Several conditions are combined by chaining them and setting the combinator
+   */
+  private validateActionInputs(strategy: CanvasStrategy): string[] {
+    return this.getActionBlocks(strategy)
+      .map((action) => ({
+        action,
+        conditions: this.getUpstreamConditions(strategy, action.id),
+      }))
+      .filter(({ conditions }) => conditions.length > 1)
+      .map(
+        ({ action, conditions }) =>
+          `Action "${action.data.description || action.id}" has ${conditions.length} conditions wired into it - ` +
+          'chain them into one condition and set its combinator (AND/OR)',
+      );
+  }
+
+  /**
+   * Validate that asset-specific conditions resolve to a single asset
+   */
+  private validateConditionWiring(strategy: CanvasStrategy): string[] {
+    const errors: string[] = [];
+
+    this.getConditionBlocks(strategy)
+      .filter((condition) => ASSET_CONDITION_TYPES.includes(condition.data.conditionType))
+      .forEach((condition) => {
+        const label = condition.data.description || condition.id;
+        const assets = this.getConnectedAssetBlocks(strategy, condition.id);
+
+        if (assets.length === 0) {
+          errors.push(
+            `Condition "${label}" (${condition.data.conditionType}) is not connected to an asset block`,
+          );
+        } else if (assets.length > 1) {
+          errors.push(
+            `Condition "${label}" (${condition.data.conditionType}) is connected to ${assets.length} asset blocks, expected exactly one`,
+          );
+        } else if (!assets[0].data.address) {
+          errors.push(
+            `Condition "${label}" is connected to asset block ${assets[0].id} with no token address`,
+          );
+        }
+      });
+
+    return errors;
+  }
+
+  /**
+   * Validate type-specific condition parameters (lookbacks, MA periods, time windows)
+   */
+  private validateConditionParameters(strategy: CanvasStrategy): string[] {
+    const errors: string[] = [];
+    const isHour = (hour: any) => Number.isInteger(hour) && hour >= 0 && hour <= 23;
+
+    this.getConditionBlocks(strategy).forEach((condition) => {
+      const label = condition.data.description || condition.id;
+      const { conditionType, lookbackMinutes, maPeriods, timeWindow } = condition.data;
+
+      switch (conditionType) {
+        case 'priceChange':
+          if (!lookbackMinutes || lookbackMinutes < 1) {
+            errors.push(`Condition "${label}": lookback must be at least 1 minute`);
+          }
+          break;
+
+        case 'movingAverage':
+          if (!maPeriods || !Number.isInteger(maPeriods) || maPeriods < 2) {
+            errors.push(`Condition "${label}": moving average needs at least 2 periods`);
+          }
+          break;
+
+        case 'timeWindow':
+          if (!timeWindow || !isHour(timeWindow.startHour) || !isHour(timeWindow.endHour)) {
+            errors.push(`Condition "${label}": time window hours must be 0-23`);
+          } else if (timeWindow.startHour === timeWindow.endHour) {
+            errors.push(`Condition "${label}": time window start and end cannot be equal`);
+          } else if (
+            timeWindow.daysOfWeek?.some((day) => !Number.isInteger(day) || day < 0 || day > 6)
+          ) {
+            errors.push(`Condition "${label}": days of week must be 0 (Sunday) to 6 (Saturday)`);
+          }
+          break;
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Find a cycle among condition → condition connections (null if acyclic)
+   */
+  private findConditionCycle(strategy: CanvasStrategy): string[] | null {
+    const done = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (conditionId: string): string[] | null => {
+      if (done.has(conditionId)) return null;
+
+      const index = path.indexOf(conditionId);
+      if (index !== -1) return [...path.slice(index), conditionId];
+
+      path.push(conditionId);
+      for (const upstream of this.getUpstreamConditions(strategy, conditionId)) {
+        const cycle = visit(upstream.id);
+        if (cycle) return cycle;
+      }
+      path.pop();
+      done.add(conditionId);
+
+      return null;
+    };
+
+    for (const condition of this.getConditionBlocks(strategy)) {
+      const cycle = visit(condition.id);
+      if (cycle) return cycle;
+    }
+
+    return null;
+  }
+
+  /**
+   * Get target weights map (address -> weight percentage)
+   */
+  getTargetWeights(strategy: CanvasStrategy): Map<string, number> {
+    const weights = new Map<string, number>();
+    const assetBlocks = this.getAssetBlocks(strategy);
+
+    assetBlocks.forEach((block) => {
+      weights.set(
+        block.data.address.toLowerCase(),
+        block.data.initialWeight,
+      );
+    });
+
+    return weights;
+  }
+}
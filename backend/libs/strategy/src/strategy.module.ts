@@ -7,15 +7,19 @@ import { PortfolioAnalyzerService } from './portfolio-analyzer.service';
 import { ConditionEvaluatorService } from './condition-evaluator.service';
 import { ActionPlannerService } from './action-planner.service';
 import { StrategyEngineService } from './strategy-engine.service';
+import { PriceHistoryService } from './price-history.service';
+import { GasModule } from './gas/gas.module';
+import { PricesModule } from './prices/prices.module';
 
 @Module({
-  imports: [ConfigModule, DatabaseModule, BlockchainModule],
+  imports: [ConfigModule, DatabaseModule, BlockchainModule, GasModule, PricesModule],
   providers: [
     StrategyParserService,
     PortfolioAnalyzerService,
     ConditionEvaluatorService,
     ActionPlannerService,
     StrategyEngineService,
+    PriceHistoryService,
   ],
   exports: [StrategyEngineService], // Only export the orchestrator
 })
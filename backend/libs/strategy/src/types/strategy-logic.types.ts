@@ -3,6 +3,8 @@
  * Mirrors frontend block types for bot execution
  */
 
+import type { PriceHistoryStore } from '../price-history.service';
+
 export enum BlockType {
   ASSET = 'asset',
   CONDITION = 'condition',
@@ -44,13 +46,36 @@ export interface AssetBlock extends BaseBlock {
 // CONDITION BLOCK
 // ============================================
 
-export type ConditionType = 'price' | 'portfolioValue' | 'assetValue';
+export type ConditionType =
+  | 'price'
+  | 'portfolioValue'
+  | 'assetValue'
+  | 'drift' // Current portfolio drift (bps)
+  | 'priceChange' // % price change of an asset over lookbackMinutes
+  | 'movingAverage' // % deviation of asset price from its N-sample moving average
+  | 'timeWindow' // Inside a UTC time-of-day / day-of-week window (operator ignored)
+  | 'gasPrice'; // Current gas price (gwei)
 export type ConditionOperator = 'GT' | 'LT';
+export type ConditionCombinator = 'AND' | 'OR';
+
+export interface TimeWindow {
+  daysOfWeek?: number[]; // 0 = Sunday ... 6 = Saturday (UTC); empty/omitted = every day
+  startHour: number; // 0-23 (UTC, inclusive)
+  endHour: number; // 0-23 (UTC, exclusive); may wrap past midnight
+}
 
 export interface ConditionBlockData {
   conditionType: ConditionType;
   operator: ConditionOperator;
+  // Comparison threshold in the condition's unit: USD, bps (drift), % (priceChange/movingAverage), gwei (gasPrice)
   valueUSD: number;
+  lookbackMinutes?: number; // priceChange
+  maPeriods?: number; // movingAverage
+  timeWindow?: TimeWindow; // timeWindow
+  // How this block's own result combines with upstream condition blocks (default AND)
+  combinator?: ConditionCombinator;
+  // NOT: invert the combined result before passing it downstream
+  negate?: boolean;
   description?: string;
 }
 
@@ -157,11 +182,30 @@ export interface PortfolioState {
   drift: number; // Basis points
 }
 
+/**
+ * Market inputs for condition evaluation beyond the portfolio itself
+ */
+export interface EvaluationContext {
+  timestamp: number; // Unix ms - "now" for time windows and lookbacks
+  gasPriceGwei: number | null;
+  chainId: number; // Chain the price history is read for
+  priceHistory: PriceHistoryStore;
+}
+
+// Lookback condition that read as false because the price history was too short
+export interface HistoryGap {
+  conditionId: string;
+  conditionType: ConditionType;
+  token: string; // Lowercase address of the connected asset
+  description?: string;
+}
+
 export interface ExecutionContext {
   strategy: CanvasStrategy;
   dbStrategy: any; // Prisma strategy record
   portfolioState: PortfolioState;
   conditionsMet: boolean;
+  actionGates: Map<string, boolean>; // Action block ID -> upstream condition path met
   timestamp: number;
 }
 
@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.23;
+
+import "forge-std/Script.sol";
+import "../src/PayrollDisperse.sol";
+
+/**
+ * @title DeployPayrollDisperse
+ * @notice Script to deploy the payroll batch payment contract
+ * @dev Set the printed address as VITE_MONAD_DISPERSE_ADDRESS for the payroll app
+ */
+contract DeployPayrollDisperseScript is Script {
+    function run() external {
+        uint256 deployerPrivateKey = vm.envUint("PRIVATE_KEY");
+
+        vm.startBroadcast(deployerPrivateKey);
+
+        PayrollDisperse disperse = new PayrollDisperse();
+
+        vm.stopBroadcast();
+
+        console.log("");
+        console.log("=== PayrollDisperse Deployed ===");
+        console.log("Chain:", vm.toString(block.chainid));
+        console.log("PayrollDisperse:", address(disperse));
+    }
+}
@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.23;
+
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+
+/**
+ * @title PayrollDisperse
+ * @notice Pays a payroll run - native currency or an ERC20 - in a single transaction
+ * @dev Unlike a plain disperse, a failing recipient does not revert the batch:
+ *      each transfer emits RecipientPaid or RecipientFailed so the payer can retry
+ *      only the failed ones. Native amounts that could not be delivered are refunded.
+ *      Tokens move straight from the payer to recipients (transferFrom), nothing is held.
+ */
+contract PayrollDisperse is ReentrancyGuard {
+    /// @notice Contract version
+    string public constant version = "1.0.0";
+
+    /// @notice Gas forwarded to each native recipient (enough for smart account receive hooks)
+    uint256 public constant NATIVE_TRANSFER_GAS = 50000;
+
+    /// @notice Emitted for every recipient that was paid
+    event RecipientPaid(uint256 indexed index, address indexed recipient, uint256 amount);
+
+    /// @notice Emitted for every recipient whose transfer failed
+    event RecipientFailed(uint256 indexed index, address indexed recipient, uint256 amount);
+
+    error LengthMismatch();
+    error ValueMismatch(uint256 expected, uint256 received);
+    error InvalidToken();
+    error RefundFailed();
+
+    /**
+     * @notice Pay recipients in native currency
+     * @param recipients Recipient addresses
+     * @param amounts Amount per recipient (wei) - must sum to msg.value
+     * @return paid Whether each recipient was paid
+     */
+    function disperseNative(address[] calldata recipients, uint256[] calldata amounts)
+        external
+        payable
+        nonReentrant
+        returns (bool[] memory paid)
+    {
+        if (recipients.length != amounts.length) revert LengthMismatch();
+
+        uint256 total;
+        for (uint256 i = 0; i < amounts.length; i++) {
+            total += amounts[i];
+        }
+        if (total != msg.value) revert ValueMismatch(total, msg.value);
+
+        paid = new bool[](recipients.length);
+        uint256 undelivered;
+
+        for (uint256 i = 0; i < recipients.length; i++) {
+            (bool success,) = recipients[i].call{value: amounts[i], gas: NATIVE_TRANSFER_GAS}("");
+            paid[i] = success;
+
+            if (success) {
+                emit RecipientPaid(i, recipients[i], amounts[i]);
+            } else {
+                undelivered += amounts[i];
+                emit RecipientFailed(i, recipients[i], amounts[i]);
+            }
+        }
+
+        if (undelivered > 0) {
+            (bool refunded,) = msg.sender.call{value: undelivered}("");
+            if (!refunded) revert RefundFailed();
+        }
+    }
+
+    /**
+     * @notice Pay recipients in an ERC20 the caller has approved to this contract
+     * @param token ERC20 token address
+     * @param recipients Recipient addresses
+     * @param amounts Amount per recipient (raw token units)
+     * @return paid Whether each recipient was paid
+     */
+    function disperseToken(address token, address[] calldata recipients, uint256[] calldata amounts)
+        external
+        nonReentrant
+        returns (bool[] memory paid)
+    {
+        if (recipients.length != amounts.length) revert LengthMismatch();
+        if (token.code.length == 0) revert InvalidToken();
+
+        paid = new bool[](recipients.length);
+
+        for (uint256 i = 0; i < recipients.length; i++) {
+            // Low-level call so a reverting or non-standard transfer marks only this recipient as failed
+            (bool success, bytes memory data) = token.call(
+                abi.encodeWithSignature("transferFrom(address,address,uint256)", msg.sender, recipients[i], amounts[i])
+            );
+            success = success && (data.length == 0 || (data.length >= 32 && abi.decode(data, (bool))));
+            paid[i] = success;
+
+            if (success) {
+                emit RecipientPaid(i, recipients[i], amounts[i]);
+            } else {
+                emit RecipientFailed(i, recipients[i], amounts[i]);
+            }
+        }
+    }
+}
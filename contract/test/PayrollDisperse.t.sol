@@ -0,0 +1,125 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../src/PayrollDisperse.sol";
+import "./mocks/MockERC20.sol";
+
+/// @dev Recipient that rejects native transfers
+contract RejectingRecipient {
+    receive() external payable {
+        revert("rejected");
+    }
+}
+
+contract PayrollDisperseTest is Test {
+    PayrollDisperse disperse;
+    MockERC20 usdc;
+
+    address employer = address(0x100);
+    address alice = address(0x1);
+    address bob = address(0x2);
+
+    event RecipientPaid(uint256 indexed index, address indexed recipient, uint256 amount);
+    event RecipientFailed(uint256 indexed index, address indexed recipient, uint256 amount);
+
+    function setUp() public {
+        disperse = new PayrollDisperse();
+        usdc = new MockERC20("USD Coin", "USDC", 6);
+
+        vm.deal(employer, 10 ether);
+        usdc.mint(employer, 10_000e6);
+    }
+
+    function _pair(address a, address b) internal pure returns (address[] memory recipients) {
+        recipients = new address[](2);
+        recipients[0] = a;
+        recipients[1] = b;
+    }
+
+    function _amounts(uint256 a, uint256 b) internal pure returns (uint256[] memory amounts) {
+        amounts = new uint256[](2);
+        amounts[0] = a;
+        amounts[1] = b;
+    }
+
+    function testDisperseNative() public {
+        vm.prank(employer);
+        bool[] memory paid = disperse.disperseNative{value: 3 ether}(_pair(alice, bob), _amounts(1 ether, 2 ether));
+
+        assertTrue(paid[0]);
+        assertTrue(paid[1]);
+        assertEq(alice.balance, 1 ether);
+        assertEq(bob.balance, 2 ether);
+        assertEq(address(disperse).balance, 0);
+    }
+
+    function testDisperseNativeRefundsFailedRecipient() public {
+        address rejecting = address(new RejectingRecipient());
+
+        vm.expectEmit(true, true, false, true);
+        emit RecipientFailed(1, rejecting, 2 ether);
+
+        vm.prank(employer);
+        bool[] memory paid = disperse.disperseNative{value: 3 ether}(_pair(alice, rejecting), _amounts(1 ether, 2 ether));
+
+        assertTrue(paid[0]);
+        assertFalse(paid[1]);
+        assertEq(alice.balance, 1 ether);
+        assertEq(employer.balance, 9 ether); // 2 ether refunded
+        assertEq(address(disperse).balance, 0);
+    }
+
+    function testDisperseNativeRevertsOnValueMismatch() public {
+        vm.prank(employer);
+        vm.expectRevert(abi.encodeWithSelector(PayrollDisperse.ValueMismatch.selector, 3 ether, 2 ether));
+        disperse.disperseNative{value: 2 ether}(_pair(alice, bob), _amounts(1 ether, 2 ether));
+    }
+
+    function testDisperseNativeRevertsOnLengthMismatch() public {
+        uint256[] memory amounts = new uint256[](1);
+        amounts[0] = 1 ether;
+
+        vm.prank(employer);
+        vm.expectRevert(PayrollDisperse.LengthMismatch.selector);
+        disperse.disperseNative{value: 1 ether}(_pair(alice, bob), amounts);
+    }
+
+    function testDisperseToken() public {
+        vm.startPrank(employer);
+        usdc.approve(address(disperse), 3_000e6);
+
+        vm.expectEmit(true, true, false, true);
+        emit RecipientPaid(0, alice, 1_000e6);
+
+        bool[] memory paid = disperse.disperseToken(address(usdc), _pair(alice, bob), _amounts(1_000e6, 2_000e6));
+        vm.stopPrank();
+
+        assertTrue(paid[0]);
+        assertTrue(paid[1]);
+        assertEq(usdc.balanceOf(alice), 1_000e6);
+        assertEq(usdc.balanceOf(bob), 2_000e6);
+        assertEq(usdc.balanceOf(address(disperse)), 0);
+    }
+
+    function testDisperseTokenMarksUnfundedRecipientsFailed() public {
+        vm.startPrank(employer);
+        // Allowance only covers the first recipient
+        usdc.approve(address(disperse), 1_000e6);
+
+        bool[] memory paid = disperse.disperseToken(address(usdc), _pair(alice, bob), _amounts(1_000e6, 2_000e6));
+        vm.stopPrank();
+
+        assertTrue(paid[0]);
+        assertFalse(paid[1]);
+        assertEq(usdc.balanceOf(alice), 1_000e6);
+        assertEq(usdc.balanceOf(bob), 0);
+        assertEq(usdc.balanceOf(employer), 9_000e6);
+    }
+
+    function testDisperseTokenRejectsNonContract() public {
+        vm.prank(employer);
+        vm.expectRevert(PayrollDisperse.InvalidToken.selector);
+        disperse.disperseToken(address(0x1234), _pair(alice, bob), _amounts(1, 1));
+    }
+}
@@ -34,7 +34,7 @@ export function ConditionBlock({
   onEdit,
   dragOffset
 }: ConditionBlockProps) {
-  const { conditionType, operator, valueUSD } = block.data;
+  const { conditionType, operator, valueUSD, combinator, negate, timeWindow } = block.data;
 
   // Get connected asset blocks
   const connectedAssets = React.useMemo(() => {
@@ -61,9 +61,24 @@ export function ConditionBlock({
     if (conditionType === "price") return "Price";
     if (conditionType === "portfolioValue") return "Portfolio";
     if (conditionType === "assetValue") return "Value";
+    if (conditionType === "drift") return "Drift";
+    if (conditionType === "priceChange") return `Change (${block.data.lookbackMinutes}m)`;
+    if (conditionType === "movingAverage") return `vs MA(${block.data.maPeriods})`;
+    if (conditionType === "timeWindow") return "Time (UTC)";
+    if (conditionType === "gasPrice") return "Gas";
     return "Condition";
   };
 
+  // Format threshold in the condition's unit
+  const getValueText = () => {
+    if (conditionType === "drift") return `${valueUSD.toLocaleString()} bps`;
+    if (conditionType === "priceChange" || conditionType === "movingAverage") return `${valueUSD}%`;
+    if (conditionType === "gasPrice") return `${valueUSD} gwei`;
+    return `$${valueUSD.toLocaleString()}`;
+  };
+
+  const formatHour = (hour: number) => `${hour.toString().padStart(2, "0")}:00`;
+
   return (
     <div
       className={`
@@ -105,6 +120,16 @@ export function ConditionBlock({
           <GitBranch className="w-4 h-4 text-gray-700" />
         </div>
         <span className="font-semibold text-xs text-gray-700 uppercase tracking-wide">Condition</span>
+        {(combinator === "OR" || negate) && (
+          <div className="ml-auto flex items-center gap-1">
+            {combinator === "OR" && (
+              <span className="px-1.5 py-0.5 rounded bg-gray-900 text-white text-[10px] font-bold">OR</span>
+            )}
+            {negate && (
+              <span className="px-1.5 py-0.5 rounded bg-gray-200 text-gray-800 text-[10px] font-bold">NOT</span>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Condition display */}
@@ -137,14 +162,20 @@ export function ConditionBlock({
           {getLabel()}
         </div>
 
-        <div className="flex items-center justify-center gap-1.5">
-          <div className="text-xl font-bold text-gray-900">
-            {operatorSymbol}
+        {conditionType === "timeWindow" && timeWindow ? (
+          <div className="text-sm font-bold text-gray-800">
+            {formatHour(timeWindow.startHour)}–{formatHour(timeWindow.endHour)}
           </div>
-          <div className="text-sm font-bold text-gray-800 truncate px-1 max-w-[100px]">
-            ${valueUSD.toLocaleString()}
+        ) : (
+          <div className="flex items-center justify-center gap-1.5">
+            <div className="text-xl font-bold text-gray-900">
+              {operatorSymbol}
+            </div>
+            <div className="text-sm font-bold text-gray-800 truncate px-1 max-w-[100px]">
+              {getValueText()}
+            </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -9,8 +9,9 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Check } from 'lucide-react';
-import { ConditionBlock } from '@/lib/types/blocks';
+import { ConditionBlock, ConditionType } from '@/lib/types/blocks';
 import { toast } from 'sonner';
 import {
   Select,
@@ -27,19 +28,73 @@ interface ConditionBlockEditModalProps {
   onSave: (data: ConditionBlock['data']) => void;
 }
 
+// Display metadata per condition type
+const CONDITION_TYPES: Record<ConditionType, {
+  option: string;
+  subject: string;
+  unit: 'usd' | 'bps' | 'percent' | 'gwei' | null;
+  needsAsset: boolean;
+  allowNegative: boolean;
+}> = {
+  price: { option: 'Asset Price (USD)', subject: 'Asset Price', unit: 'usd', needsAsset: true, allowNegative: false },
+  portfolioValue: { option: 'Total Portfolio Value (USD)', subject: 'Total Portfolio Value', unit: 'usd', needsAsset: false, allowNegative: false },
+  assetValue: { option: 'Asset Value (USD)', subject: 'Asset Value', unit: 'usd', needsAsset: true, allowNegative: false },
+  drift: { option: 'Portfolio Drift (bps)', subject: 'Portfolio Drift', unit: 'bps', needsAsset: false, allowNegative: false },
+  priceChange: { option: 'Price Change (%)', subject: 'Asset Price Change', unit: 'percent', needsAsset: true, allowNegative: true },
+  movingAverage: { option: 'Price vs Moving Average (%)', subject: 'Asset Price vs MA', unit: 'percent', needsAsset: true, allowNegative: true },
+  timeWindow: { option: 'Time Window (UTC)', subject: 'Time', unit: null, needsAsset: false, allowNegative: false },
+  gasPrice: { option: 'Gas Price (gwei)', subject: 'Gas Price', unit: 'gwei', needsAsset: false, allowNegative: false },
+};
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+
+type ConditionBlockUnit = (typeof CONDITION_TYPES)[ConditionType]['unit'];
+
+const formatValue = (value: number, unit: ConditionBlockUnit) => {
+  if (unit === 'usd') return `$${value.toLocaleString()}`;
+  if (unit === 'bps') return `${value.toLocaleString()} bps`;
+  if (unit === 'percent') return `${value}%`;
+  if (unit === 'gwei') return `${value} gwei`;
+  return `${value}`;
+};
+
 export function ConditionBlockEditModal({
   open,
   onOpenChange,
   blockData,
   onSave,
 }: ConditionBlockEditModalProps) {
-  
-
-  const [conditionType, setConditionType] = useState<"price" | "portfolioValue" | "assetValue">(
+  const [conditionType, setConditionType] = useState<ConditionType>(
     blockData?.conditionType || 'price'
   );
   const [operator, setOperator] = useState<"GT" | "LT">(blockData?.operator || 'GT');
   const [valueUSD, setValueUSD] = useState<string>(blockData?.valueUSD?.toString() || '');
+  const [lookbackMinutes, setLookbackMinutes] = useState<string>(blockData?.lookbackMinutes?.toString() || '60');
+  const [maPeriods, setMaPeriods] = useState<string>(blockData?.maPeriods?.toString() || '20');
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>(blockData?.timeWindow?.daysOfWeek || []);
+  const [startHour, setStartHour] = useState<number>(blockData?.timeWindow?.startHour ?? 9);
+  const [endHour, setEndHour] = useState<number>(blockData?.timeWindow?.endHour ?? 17);
+  const [combinator, setCombinator] = useState<"AND" | "OR">(blockData?.combinator || 'AND');
+  const [negate, setNegate] = useState<boolean>(blockData?.negate || false);
+
+  const typeInfo = CONDITION_TYPES[conditionType];
+  const isTimeWindow = conditionType === 'timeWindow';
+
+  const resetForm = () => {
+    setConditionType('price');
+    setOperator('GT');
+    setValueUSD('');
+    setLookbackMinutes('60');
+    setMaPeriods('20');
+    setDaysOfWeek([]);
+    setStartHour(9);
+    setEndHour(17);
+    setCombinator('AND');
+    setNegate(false);
+  };
 
   // Reset when modal opens
   useEffect(() => {
@@ -47,39 +102,97 @@ export function ConditionBlockEditModal({
       setConditionType(blockData.conditionType);
       setOperator(blockData.operator);
       setValueUSD(blockData.valueUSD.toString());
+      setLookbackMinutes(blockData.lookbackMinutes?.toString() || '60');
+      setMaPeriods(blockData.maPeriods?.toString() || '20');
+      setDaysOfWeek(blockData.timeWindow?.daysOfWeek || []);
+      setStartHour(blockData.timeWindow?.startHour ?? 9);
+      setEndHour(blockData.timeWindow?.endHour ?? 17);
+      setCombinator(blockData.combinator || 'AND');
+      setNegate(blockData.negate || false);
     } else if (open) {
-      setConditionType('price');
-      setOperator('GT');
-      setValueUSD('');
+      resetForm();
     }
   }, [open, blockData]);
 
+  const toggleDay = (day: number) => {
+    setDaysOfWeek((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+  };
+
+  // Condition text shared by the description and the preview
+  const describeCondition = (verbose: boolean) => {
+    if (isTimeWindow) {
+      const days = daysOfWeek.length > 0 ? daysOfWeek.map((d) => DAYS[d]).join(', ') : 'every day';
+      return `Time is ${formatHour(startHour)}–${formatHour(endHour)} UTC (${days})`;
+    }
+
+    let text = typeInfo.subject;
+    if (conditionType === 'priceChange') text += ` (${lookbackMinutes || '?'}m)`;
+    if (conditionType === 'movingAverage') text += `(${maPeriods || '?'})`;
+
+    if (verbose) {
+      text += operator === 'GT' ? ' is more than ' : ' is less than ';
+    } else {
+      text += operator === 'GT' ? ' > ' : ' < ';
+    }
+
+    const value = parseFloat(valueUSD);
+    text += isNaN(value) ? '[Amount]' : formatValue(value, typeInfo.unit);
+    return text;
+  };
+
   const handleSave = () => {
     // Validation
-    const value = parseFloat(valueUSD);
-    if (isNaN(value) || value <= 0) {
+    const value = isTimeWindow ? 0 : parseFloat(valueUSD);
+    if (isNaN(value) || (!typeInfo.allowNegative && !isTimeWindow && value <= 0)) {
       toast.error('Invalid value', {
-        description: 'Please enter a valid USD value greater than 0',
+        description: typeInfo.allowNegative
+          ? 'Please enter a valid number'
+          : 'Please enter a valid value greater than 0',
+      });
+      return;
+    }
+
+    const lookback = parseInt(lookbackMinutes, 10);
+    if (conditionType === 'priceChange' && (isNaN(lookback) || lookback < 1)) {
+      toast.error('Invalid lookback', {
+        description: 'Lookback must be at least 1 minute',
+      });
+      return;
+    }
+
+    const periods = parseInt(maPeriods, 10);
+    if (conditionType === 'movingAverage' && (isNaN(periods) || periods < 2)) {
+      toast.error('Invalid periods', {
+        description: 'Moving average needs at least 2 periods',
+      });
+      return;
+    }
+
+    if (isTimeWindow && startHour === endHour) {
+      toast.error('Invalid time window', {
+        description: 'Start and end hour cannot be the same',
       });
       return;
     }
 
     // Generate description
-    let description = 'If ';
-    if (conditionType === 'price') {
-      description += 'Asset Price';
-    } else if (conditionType === 'portfolioValue') {
-      description += 'Total Portfolio Value';
-    } else if (conditionType === 'assetValue') {
-      description += 'Asset Value';
+    let description = negate ? 'If NOT ' : 'If ';
+    description += describeCondition(false);
+    if (combinator === 'OR') {
+      description += ' OR upstream';
     }
-    description += operator === 'GT' ? ' > ' : ' < ';
-    description += `$${value.toLocaleString()}`;
 
     const data: ConditionBlock['data'] = {
       conditionType,
       operator,
       valueUSD: value,
+      ...(conditionType === 'priceChange' && { lookbackMinutes: lookback }),
+      ...(conditionType === 'movingAverage' && { maPeriods: periods }),
+      ...(isTimeWindow && { timeWindow: { daysOfWeek, startHour, endHour } }),
+      combinator,
+      negate,
       description,
     };
 
@@ -88,27 +201,26 @@ export function ConditionBlockEditModal({
   };
 
   const handleClose = () => {
-    setConditionType('price');
-    setOperator('GT');
-    setValueUSD('');
+    resetForm();
     onOpenChange(false);
   };
 
   // Generate preview text
   const getPreviewText = () => {
-    let text = 'If ';
-    if (conditionType === 'price') {
-      text += 'Asset Price';
-    } else if (conditionType === 'portfolioValue') {
-      text += 'Total Portfolio Value';
-    } else if (conditionType === 'assetValue') {
-      text += 'Asset Value';
-    }
-    text += operator === 'GT' ? ' is more than ' : ' is less than ';
-    text += valueUSD ? `$${parseFloat(valueUSD).toLocaleString()}` : '$[Amount]';
+    let text = negate ? 'If NOT (' : 'If ';
+    text += describeCondition(true);
+    text += combinator === 'OR' ? ' OR any connected condition' : ' AND all connected conditions';
+    if (negate) text += ')';
     return text;
   };
 
+  const getValueLabel = () => {
+    if (typeInfo.unit === 'bps') return 'Drift (bps)';
+    if (typeInfo.unit === 'percent') return 'Change (%)';
+    if (typeInfo.unit === 'gwei') return 'Gas Price (gwei)';
+    return 'Value (USD)';
+  };
+
   return (
     <Dialog open={open} onOpenChange={handleClose}>
       <DialogContent className="max-w-md p-0 overflow-hidden">
@@ -118,59 +230,188 @@ export function ConditionBlockEditModal({
           </DialogTitle>
         </DialogHeader>
 
-        <div className="space-y-6 p-6">
+        <div className="space-y-6 p-6 max-h-[70vh] overflow-y-auto">
           {/* Condition Type */}
           <div className="space-y-2">
             <Label className="text-sm font-medium text-gray-900">Condition Type</Label>
-            <Select value={conditionType} onValueChange={(value: any) => setConditionType(value)}>
+            <Select value={conditionType} onValueChange={(value: ConditionType) => setConditionType(value)}>
               <SelectTrigger className="h-11 border-gray-300">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="price">Asset Price (USD)</SelectItem>
-                <SelectItem value="portfolioValue">Total Portfolio Value (USD)</SelectItem>
-                <SelectItem value="assetValue">Asset Value (USD)</SelectItem>
+                {(Object.keys(CONDITION_TYPES) as ConditionType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {CONDITION_TYPES[type].option}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
-            <p className="text-xs text-gray-500 mt-1">
-              Connect assets to this condition to define which assets it applies to
-            </p>
+            {typeInfo.needsAsset && (
+              <p className="text-xs text-gray-500 mt-1">
+                Connect exactly one asset to this condition to define which asset it applies to
+              </p>
+            )}
           </div>
 
-          {/* Operator */}
+          {/* Lookback (price change) */}
+          {conditionType === 'priceChange' && (
+            <div className="space-y-2">
+              <Label htmlFor="lookbackMinutes" className="text-sm font-medium text-gray-900">
+                Lookback (minutes)
+              </Label>
+              <Input
+                id="lookbackMinutes"
+                type="number"
+                value={lookbackMinutes}
+                onChange={(e) => setLookbackMinutes(e.target.value)}
+                placeholder="60"
+                className="h-11 border-gray-300"
+                min="1"
+              />
+            </div>
+          )}
+
+          {/* Periods (moving average) */}
+          {conditionType === 'movingAverage' && (
+            <div className="space-y-2">
+              <Label htmlFor="maPeriods" className="text-sm font-medium text-gray-900">
+                Moving Average Periods
+              </Label>
+              <Input
+                id="maPeriods"
+                type="number"
+                value={maPeriods}
+                onChange={(e) => setMaPeriods(e.target.value)}
+                placeholder="20"
+                className="h-11 border-gray-300"
+                min="2"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Average of the last N price samples. Use 0% to trigger on price crossing the average
+              </p>
+            </div>
+          )}
+
+          {isTimeWindow ? (
+            /* Time window */
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-gray-900">From (UTC)</Label>
+                  <Select value={startHour.toString()} onValueChange={(value) => setStartHour(parseInt(value, 10))}>
+                    <SelectTrigger className="h-11 border-gray-300">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HOURS.map((hour) => (
+                        <SelectItem key={hour} value={hour.toString()}>{formatHour(hour)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-gray-900">Until (UTC)</Label>
+                  <Select value={endHour.toString()} onValueChange={(value) => setEndHour(parseInt(value, 10))}>
+                    <SelectTrigger className="h-11 border-gray-300">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HOURS.map((hour) => (
+                        <SelectItem key={hour} value={hour.toString()}>{formatHour(hour)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-gray-900">Days</Label>
+                <div className="flex flex-wrap gap-1.5">
+                  {DAYS.map((label, day) => (
+                    <button
+                      key={label}
+                      type="button"
+                      onClick={() => toggleDay(day)}
+                      className={`px-2.5 h-8 rounded text-xs font-medium border transition-colors duration-200 ${
+                        daysOfWeek.includes(day)
+                          ? 'bg-gray-900 text-white border-gray-900'
+                          : 'bg-white text-gray-700 border-gray-300 hover:border-gray-400'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Leave all days unselected to apply every day
+                </p>
+              </div>
+            </div>
+          ) : (
+            <>
+              {/* Operator */}
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-gray-900">Operator</Label>
+                <Select value={operator} onValueChange={(value: "GT" | "LT") => setOperator(value)}>
+                  <SelectTrigger className="h-11 border-gray-300">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="GT">More than (&gt;)</SelectItem>
+                    <SelectItem value="LT">Less than (&lt;)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Threshold */}
+              <div className="space-y-2">
+                <Label htmlFor="valueUSD" className="text-sm font-medium text-gray-900">
+                  {getValueLabel()}
+                </Label>
+                <div className="relative">
+                  {typeInfo.unit === 'usd' && (
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 font-medium">
+                      $
+                    </span>
+                  )}
+                  <Input
+                    id="valueUSD"
+                    type="number"
+                    value={valueUSD}
+                    onChange={(e) => setValueUSD(e.target.value)}
+                    placeholder="0.00"
+                    className={`${typeInfo.unit === 'usd' ? 'pl-7' : ''} h-11 border-gray-300`}
+                    step="0.01"
+                    min={typeInfo.allowNegative ? undefined : '0'}
+                  />
+                </div>
+                {conditionType === 'drift' && (
+                  <p className="text-xs text-gray-500 mt-1">100 bps = 1% deviation from target weights</p>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* Logic */}
           <div className="space-y-2">
-            <Label className="text-sm font-medium text-gray-900">Operator</Label>
-            <Select value={operator} onValueChange={(value: any) => setOperator(value)}>
+            <Label className="text-sm font-medium text-gray-900">Combine With Connected Conditions</Label>
+            <Select value={combinator} onValueChange={(value: "AND" | "OR") => setCombinator(value)}>
               <SelectTrigger className="h-11 border-gray-300">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="GT">More than (&gt;)</SelectItem>
-                <SelectItem value="LT">Less than (&lt;)</SelectItem>
+                <SelectItem value="AND">AND (all must be true)</SelectItem>
+                <SelectItem value="OR">OR (any can be true)</SelectItem>
               </SelectContent>
             </Select>
-          </div>
-
-          {/* USD Value */}
-          <div className="space-y-2">
-            <Label htmlFor="valueUSD" className="text-sm font-medium text-gray-900">
-              Value (USD)
-            </Label>
-            <div className="relative">
-              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 font-medium">
-                $
-              </span>
-              <Input
-                id="valueUSD"
-                type="number"
-                value={valueUSD}
-                onChange={(e) => setValueUSD(e.target.value)}
-                placeholder="0.00"
-                className="pl-7 h-11 border-gray-300"
-                step="0.01"
-                min="0"
-              />
+            <div className="flex items-center justify-between pt-2">
+              <Label htmlFor="negate" className="text-sm font-medium text-gray-900">
+                Invert result (NOT)
+              </Label>
+              <Switch id="negate" checked={negate} onCheckedChange={setNegate} />
             </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Chain conditions into each other to build logic. Actions only run when their own connected conditions are true
+            </p>
           </div>
 
           {/* Preview */}
@@ -194,7 +435,7 @@ export function ConditionBlockEditModal({
           </Button>
           <Button
             onClick={handleSave}
-            disabled={!valueUSD}
+            disabled={!isTimeWindow && !valueUSD}
             className="h-10 px-4 bg-gray-900 hover:bg-gray-800"
           >
             <Check className="w-4 h-4 mr-2" />
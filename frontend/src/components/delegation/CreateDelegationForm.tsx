@@ -11,7 +11,12 @@ import {
 } from '@/components/ui/select';
 import { usePrivy, useWallets } from '@privy-io/react-auth';
 import { useDelegation } from '@/hooks/useDelegation';
-import { getBotExecutorAddress } from '@/lib/utils/delegation-signatures';
+import { useCaveatConfig } from '@/hooks/useCaveatConfig';
+import {
+  buildScopedCaveats,
+  createDefaultScope,
+  getBotExecutorAddress,
+} from '@/lib/utils/delegation-signatures';
 import { Loader2, Info, Shield, Wallet } from 'lucide-react';
 
 interface CreateDelegationFormProps {
@@ -32,24 +37,32 @@ export function CreateDelegationForm({
   );
   const [useCustomDelegate, setUseCustomDelegate] = useState(false);
   const [customDelegateAddress, setCustomDelegateAddress] = useState('');
+  const { config: caveatConfig, loading: caveatConfigLoading } = useCaveatConfig(selectedChainId);
 
   // Get default bot executor for selected chain
-  const defaultBotAddress = getBotExecutorAddress(selectedChainId);
+  const defaultBotAddress = getBotExecutorAddress(selectedChainId, caveatConfig);
   const delegateAddress = useCustomDelegate ? customDelegateAddress : defaultBotAddress;
 
   // Validation states - just check if address exists
   const wallet = wallets[0];
   const userAddress = wallet?.address;
   const hasWallet = !!userAddress; // Simplified: just check address exists
-  const canCreate = isReady && hasWallet && !creating;
+  const canCreate = isReady && hasWallet && !creating && !caveatConfigLoading;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    // Default scope without a strategy: expiry, routers and methods only (token targets come from the wizard)
+    const caveats = caveatConfig?.scoped
+      ? buildScopedCaveats(createDefaultScope(caveatConfig), caveatConfig)
+      : [];
+
     const delegation = await createDelegation(
       undefined, // No strategy ID - delegation can be linked later
-      useCustomDelegate ? (delegateAddress as `0x${string}`) : null,
-      selectedChainId
+      useCustomDelegate ? (delegateAddress as `0x${string}`) : defaultBotAddress,
+      selectedChainId,
+      undefined,
+      caveats
     );
 
     if (delegation) {
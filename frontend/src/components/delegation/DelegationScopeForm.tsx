@@ -0,0 +1,230 @@
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Info, Lock } from 'lucide-react';
+import type { CaveatConfig, DelegationScope, SpendLimitInput } from '@/lib/types/delegation';
+
+export interface ScopeTokenInfo {
+  symbol: string;
+  decimals: number;
+}
+
+interface DelegationScopeFormProps {
+  config: CaveatConfig;
+  tokenInfo: Record<string, ScopeTokenInfo>; // Keyed by lowercase address
+  value: DelegationScope;
+  onChange: (scope: DelegationScope) => void;
+  disabled?: boolean;
+}
+
+const EXPIRY_OPTIONS = [7, 30, 90, 180, 365];
+
+const PERIOD_OPTIONS = [
+  { label: 'per day', seconds: 24 * 60 * 60 },
+  { label: 'per week', seconds: 7 * 24 * 60 * 60 },
+];
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * DelegationScopeForm Component
+ *
+ * Picks the caveats of a bot delegation:
+ * - Expiry (TimestampEnforcer)
+ * - Allowed DEX routers and tokens (AllowedTargetsEnforcer, executor always included)
+ * - Allowed functions (AllowedMethodsEnforcer)
+ * - Per-period spend limits (ERC20PeriodTransferEnforcer)
+ */
+export function DelegationScopeForm({
+  config,
+  tokenInfo,
+  value,
+  onChange,
+  disabled,
+}: DelegationScopeFormProps) {
+  if (!config.scoped) {
+    return (
+      <Alert>
+        <Info className="w-4 h-4" />
+        <AlertDescription className="text-sm">
+          Caveat enforcers aren't configured on this network yet, so delegations to the bot
+          can't be created here.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const expiryOptions = EXPIRY_OPTIONS.filter((days) => days <= config.maxExpiryDays);
+  if (!expiryOptions.includes(value.expiryDays)) {
+    expiryOptions.push(value.expiryDays);
+    expiryOptions.sort((a, b) => a - b);
+  }
+
+  const toggle = <T,>(list: T[], item: T, checked: boolean) =>
+    checked ? [...list, item] : list.filter((entry) => entry !== item);
+
+  const toggleTarget = (target: `0x${string}`, checked: boolean) => {
+    onChange({
+      ...value,
+      targets: toggle(value.targets, target, checked),
+      // Spend limits only apply to tokens the bot may call
+      spendLimits: checked
+        ? value.spendLimits
+        : value.spendLimits.filter((limit) => limit.token !== target),
+    });
+  };
+
+  const updateLimit = (token: `0x${string}`, update: Partial<SpendLimitInput>) => {
+    const existing = value.spendLimits.find((limit) => limit.token === token);
+    const next: SpendLimitInput = {
+      token,
+      amount: '',
+      decimals: tokenInfo[token]?.decimals ?? 18,
+      periodDuration: PERIOD_OPTIONS[0].seconds,
+      ...existing,
+      ...update,
+    };
+
+    onChange({
+      ...value,
+      spendLimits: next.amount
+        ? [...value.spendLimits.filter((limit) => limit.token !== token), next]
+        : value.spendLimits.filter((limit) => limit.token !== token),
+    });
+  };
+
+  const tokenLabel = (address: string) => tokenInfo[address]?.symbol ?? shortAddress(address);
+  const allowedTokens = config.tokens.filter((token) => value.targets.includes(token));
+
+  return (
+    <div className="space-y-5">
+      {/* Expiry */}
+      <div>
+        <Label htmlFor="delegation-expiry">Expires after</Label>
+        <Select
+          value={value.expiryDays.toString()}
+          onValueChange={(days) => onChange({ ...value, expiryDays: parseInt(days) })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="delegation-expiry">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {expiryOptions.map((days) => (
+              <SelectItem key={days} value={days.toString()}>
+                {days} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Target contracts */}
+      <div className="space-y-2">
+        <Label>Allowed contracts</Label>
+        {config.delegate && (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Lock className="w-4 h-4" />
+            <span>Rebalance executor</span>
+            <span className="font-mono text-xs">{shortAddress(config.delegate)}</span>
+          </div>
+        )}
+        {config.dexRouters.map((router) => (
+          <label key={router} className="flex items-center gap-2 text-sm text-gray-700">
+            <Checkbox
+              checked={value.targets.includes(router)}
+              onCheckedChange={(checked) => toggleTarget(router, checked === true)}
+              disabled={disabled}
+            />
+            <span>DEX router</span>
+            <span className="font-mono text-xs text-gray-500">{shortAddress(router)}</span>
+          </label>
+        ))}
+        {config.tokens.map((token) => (
+          <label key={token} className="flex items-center gap-2 text-sm text-gray-700">
+            <Checkbox
+              checked={value.targets.includes(token)}
+              onCheckedChange={(checked) => toggleTarget(token, checked === true)}
+              disabled={disabled}
+            />
+            <span>{tokenLabel(token)}</span>
+            <span className="font-mono text-xs text-gray-500">{shortAddress(token)}</span>
+          </label>
+        ))}
+      </div>
+
+      {/* Methods */}
+      {config.enforcers.allowedMethods && (
+        <div className="space-y-2">
+          <Label>Allowed functions</Label>
+          {config.methods.map((method) => (
+            <label key={method.selector} className="flex items-center gap-2 text-sm text-gray-700">
+              <Checkbox
+                checked={value.methods.includes(method.selector)}
+                onCheckedChange={(checked) =>
+                  onChange({
+                    ...value,
+                    methods: toggle(value.methods, method.selector, checked === true),
+                  })
+                }
+                disabled={disabled}
+              />
+              <span className="font-mono text-xs">{method.signature ?? method.selector}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {/* Spend limits */}
+      {config.enforcers.erc20PeriodTransfer && allowedTokens.length > 0 && (
+        <div className="space-y-2">
+          <Label>Spend limits (optional)</Label>
+          {allowedTokens.map((token) => {
+            const limit = value.spendLimits.find((entry) => entry.token === token);
+            return (
+              <div key={token} className="flex items-center gap-2">
+                <span className="w-20 text-sm text-gray-700">{tokenLabel(token)}</span>
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="No limit"
+                  value={limit?.amount ?? ''}
+                  onChange={(e) => updateLimit(token, { amount: e.target.value })}
+                  disabled={disabled}
+                  className="flex-1"
+                />
+                <Select
+                  value={(limit?.periodDuration ?? PERIOD_OPTIONS[0].seconds).toString()}
+                  onValueChange={(seconds) =>
+                    updateLimit(token, { periodDuration: parseInt(seconds) })
+                  }
+                  disabled={disabled || !limit}
+                >
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PERIOD_OPTIONS.map((period) => (
+                      <SelectItem key={period.seconds} value={period.seconds.toString()}>
+                        {period.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { useRebalances } from '@/hooks/useRebalances';
-import { Rebalance, RebalanceStatus } from '@/lib/types/rebalance';
+import { RebalanceDetail, RebalanceStatus } from '@/lib/types/rebalance';
 import { Badge } from '@/components/ui/badge';
 import {
   Dialog,
@@ -9,14 +9,18 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { Loader2, CheckCircle2, XCircle, Clock, ExternalLink, TrendingDown, Zap, DollarSign, Activity, AlertCircle } from 'lucide-react';
+import { Loader2, CheckCircle2, XCircle, Clock, ExternalLink, TrendingDown, Zap, DollarSign, Activity, AlertCircle, ListOrdered } from 'lucide-react';
 import { formatDistance } from 'date-fns';
 import { formatEther } from 'viem';
 import { getChainById, getNativeCurrencySymbol } from '@/lib/chains';
+import { PnlOverview } from './PnlOverview';
+import { RebalanceDetailDialog } from './RebalanceDetailDialog';
 
 export function HistoryView() {
-  const { rebalances, stats, loading, loadingStats, total } = useRebalances({ limit: 50 });
-  const [selectedRebalance, setSelectedRebalance] = useState<Rebalance | null>(null);
+  const { rebalances, stats, loading, loadingStats, total, getRebalanceDetail } = useRebalances({ limit: 50 });
+  const [selectedRebalance, setSelectedRebalance] = useState<RebalanceDetail | null>(null);
+  const [detailDialogOpen, setDetailDialogOpen] = useState(false);
+  const [loadingDetail, setLoadingDetail] = useState(false);
   const [errorDialogOpen, setErrorDialogOpen] = useState(false);
   const [selectedError, setSelectedError] = useState<string>('');
 
@@ -89,6 +93,19 @@ export function HistoryView() {
     setErrorDialogOpen(true);
   };
 
+  // Handle details click - swaps and snapshots are only returned by GET /rebalances/:id
+  const handleDetailsClick = async (id: string) => {
+    setSelectedRebalance(null);
+    setDetailDialogOpen(true);
+    setLoadingDetail(true);
+
+    const detail = await getRebalanceDetail(id);
+    setSelectedRebalance(detail);
+    setLoadingDetail(false);
+
+    if (!detail) setDetailDialogOpen(false);
+  };
+
   // Truncate error message
   const truncateError = (error: string, maxLength: number = 60) => {
     if (error.length <= maxLength) return error;
@@ -110,16 +127,19 @@ export function HistoryView() {
   // Empty state
   if (rebalances.length === 0 && !loading) {
     return (
-      <div className="flex items-center justify-center py-16">
-        <div className="text-center space-y-3">
-          <div className="w-16 h-16 mx-auto mb-3 bg-gray-100 rounded-full flex items-center justify-center">
-            <Activity className="w-8 h-8 text-gray-400" />
-          </div>
-          <div>
-            <h4 className="font-semibold text-gray-900">No Rebalances Yet</h4>
-            <p className="text-sm text-gray-600 mt-1">
-              Your rebalance history will appear here once the bot starts executing.
-            </p>
+      <div className="space-y-6">
+        <PnlOverview />
+        <div className="flex items-center justify-center py-16">
+          <div className="text-center space-y-3">
+            <div className="w-16 h-16 mx-auto mb-3 bg-gray-100 rounded-full flex items-center justify-center">
+              <Activity className="w-8 h-8 text-gray-400" />
+            </div>
+            <div>
+              <h4 className="font-semibold text-gray-900">No Rebalances Yet</h4>
+              <p className="text-sm text-gray-600 mt-1">
+                Your rebalance history will appear here once the bot starts executing.
+              </p>
+            </div>
           </div>
         </div>
       </div>
@@ -136,6 +156,9 @@ export function HistoryView() {
         </h3>
       </div>
 
+      {/* Portfolio P&L */}
+      <PnlOverview />
+
       {/* Stats Overview */}
       {stats && !loadingStats && (
         <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
@@ -284,15 +307,25 @@ export function HistoryView() {
                     <div className="text-gray-600">
                       Tx: <span className="font-mono">{rebalance.txHash.slice(0, 10)}...{rebalance.txHash.slice(-8)}</span>
                     </div>
-                    <a
-                      href={getExplorerUrl(rebalance.chainId, rebalance.txHash)}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700 font-medium"
-                    >
-                      View on Explorer
-                      <ExternalLink className="w-3 h-3" />
-                    </a>
+                    <div className="flex items-center gap-3">
+                      <button
+                        type="button"
+                        onClick={() => handleDetailsClick(rebalance.id)}
+                        className="inline-flex items-center gap-1 text-gray-700 hover:text-gray-900 font-medium"
+                      >
+                        <ListOrdered className="w-3 h-3" />
+                        Details
+                      </button>
+                      <a
+                        href={getExplorerUrl(rebalance.chainId, rebalance.txHash)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700 font-medium"
+                      >
+                        View on Explorer
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -310,6 +343,14 @@ export function HistoryView() {
         </div>
       )}
 
+      {/* Rebalance Detail Modal */}
+      <RebalanceDetailDialog
+        open={detailDialogOpen}
+        onOpenChange={setDetailDialogOpen}
+        rebalance={selectedRebalance}
+        loading={loadingDetail}
+      />
+
       {/* Error Dialog Modal */}
       <Dialog open={errorDialogOpen} onOpenChange={setErrorDialogOpen}>
         <DialogContent className="max-w-2xl max-h-[80vh]">
@@ -0,0 +1,85 @@
+import React from 'react';
+import { usePnl } from '@/hooks/usePnl';
+import { Wallet, TrendingUp, TrendingDown, Scale } from 'lucide-react';
+
+// Format currency
+const formatUsd = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 2,
+  }).format(value);
+
+// Format signed percentage
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+/**
+ * Portfolio P&L from the bot's valuation snapshots
+ * Renders nothing until at least one strategy has been valued
+ */
+export function PnlOverview() {
+  const { pnl } = usePnl();
+
+  if (!pnl || pnl.strategies.length === 0) return null;
+
+  const { totals } = pnl;
+  const isProfitable = totals.totalPnlUSD >= 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="flex items-center gap-2 text-gray-600 text-xs mb-1">
+            <Wallet className="w-3.5 h-3.5" />
+            Portfolio Value
+          </div>
+          <div className="text-2xl font-bold text-gray-900">{formatUsd(totals.totalValueUSD)}</div>
+          <div className="text-xs text-gray-600">
+            {formatUsd(totals.netContributionsUSD)} deposited
+          </div>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="flex items-center gap-2 text-gray-600 text-xs mb-1">
+            {isProfitable ? <TrendingUp className="w-3.5 h-3.5" /> : <TrendingDown className="w-3.5 h-3.5" />}
+            Total P&L
+          </div>
+          <div className={`text-2xl font-bold ${isProfitable ? 'text-green-700' : 'text-red-700'}`}>
+            {formatUsd(totals.totalPnlUSD)}
+          </div>
+          <div className="text-xs text-gray-600">{formatPercent(totals.totalPnlPercent)}</div>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-gray-600 text-xs mb-1">Realized</div>
+          <div className="text-2xl font-bold text-gray-900">{formatUsd(totals.realizedPnlUSD)}</div>
+          <div className="text-xs text-gray-600">net of trading costs</div>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-gray-600 text-xs mb-1">Unrealized</div>
+          <div className="text-2xl font-bold text-gray-900">{formatUsd(totals.unrealizedPnlUSD)}</div>
+          <div className="text-xs text-gray-600">on current holdings</div>
+        </div>
+      </div>
+
+      {/* Per-strategy returns vs. buy-and-hold */}
+      <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+        {pnl.strategies.map((strategy) => (
+          <div key={strategy.strategyId} className="p-3 flex items-center justify-between gap-3 text-sm">
+            <div className="min-w-0">
+              <div className="font-semibold text-gray-900 truncate">{strategy.name}</div>
+              <div className="text-xs text-gray-600">
+                {formatUsd(strategy.totalValueUSD)} • P&L {formatUsd(strategy.totalPnlUSD)}
+              </div>
+            </div>
+            <div className="flex items-center gap-1.5 text-xs text-gray-700 whitespace-nowrap">
+              <Scale className="w-3.5 h-3.5" />
+              {formatPercent(strategy.twr)} vs {formatPercent(strategy.benchmarkReturn)} buy & hold
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import React from 'react';
+import { formatUnits } from 'viem';
+import { AlertCircle, ArrowRight, Loader2, ListOrdered } from 'lucide-react';
+import { RebalanceDetail, RebalanceSwap, PortfolioSnapshot } from '@/lib/types/rebalance';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface RebalanceDetailDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rebalance: RebalanceDetail | null;
+  loading: boolean;
+}
+
+interface TokenInfo {
+  symbol: string;
+  decimals: number;
+}
+
+// Token symbol/decimals from the portfolio snapshots (swap rows only store addresses)
+const buildTokenInfo = (rebalance: RebalanceDetail) => {
+  const tokens = new Map<string, TokenInfo>();
+  for (const snapshot of [rebalance.portfolioBefore, rebalance.portfolioAfter]) {
+    snapshot?.tokens.forEach((token) =>
+      tokens.set(token.address.toLowerCase(), { symbol: token.symbol, decimals: token.decimals })
+    );
+  }
+  return tokens;
+};
+
+// Format raw token units
+const formatAmount = (amount: string, decimals: number) => {
+  try {
+    return parseFloat(formatUnits(BigInt(amount), decimals)).toLocaleString('en-US', {
+      maximumFractionDigits: 6,
+    });
+  } catch {
+    return amount;
+  }
+};
+
+// Slippage vs. quote - positive is worse than quoted
+const formatSlippage = (swap: RebalanceSwap) => {
+  if (swap.slippageBps === null) return '—';
+  return `${(swap.slippageBps / 100).toFixed(2)}%`;
+};
+
+/**
+ * Per-swap audit of a rebalance: quoted vs. realized output and the
+ * portfolio weights before and after execution
+ */
+export function RebalanceDetailDialog({ open, onOpenChange, rebalance, loading }: RebalanceDetailDialogProps) {
+  const tokenInfo = rebalance ? buildTokenInfo(rebalance) : new Map<string, TokenInfo>();
+
+  const getToken = (address: string): TokenInfo =>
+    tokenInfo.get(address.toLowerCase()) ?? {
+      symbol: `${address.slice(0, 6)}...${address.slice(-4)}`,
+      decimals: 18,
+    };
+
+  const renderWeights = (before: PortfolioSnapshot, after: PortfolioSnapshot | null) => (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-gray-600 text-left">
+          <th className="py-1 font-medium">Token</th>
+          <th className="py-1 font-medium text-right">Target</th>
+          <th className="py-1 font-medium text-right">Before</th>
+          <th className="py-1 font-medium text-right">After</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {before.tokens.map((token) => {
+          const afterToken = after?.tokens.find((t) => t.address === token.address);
+          return (
+            <tr key={token.address}>
+              <td className="py-1 font-medium text-gray-900">{token.symbol}</td>
+              <td className="py-1 text-right">{token.targetWeight.toFixed(2)}%</td>
+              <td className="py-1 text-right">{token.currentWeight.toFixed(2)}%</td>
+              <td className="py-1 text-right">
+                {afterToken ? `${afterToken.currentWeight.toFixed(2)}%` : '—'}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListOrdered className="w-5 h-5 text-gray-700" />
+            Rebalance Details
+          </DialogTitle>
+          <DialogDescription>
+            Swaps executed by the bot with quoted and realized amounts
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !rebalance ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+          </div>
+        ) : (
+          <div className="max-h-[65vh] overflow-y-auto space-y-5">
+            {/* Pre-flight failures */}
+            {rebalance.failureReasons && rebalance.failureReasons.length > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <h4 className="flex items-center gap-2 text-sm font-semibold text-red-800 mb-2">
+                  <AlertCircle className="w-4 h-4" />
+                  Stopped before broadcast
+                </h4>
+                <ul className="space-y-1 text-xs text-red-800">
+                  {rebalance.failureReasons.map((failure, i) => (
+                    <li key={i}>
+                      <span className="font-medium capitalize">{failure.check.replace('_', ' ')}:</span>{' '}
+                      {failure.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Swaps */}
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">Swaps</h4>
+              {rebalance.swaps.length === 0 ? (
+                <p className="text-xs text-gray-600">No swap detail was recorded for this rebalance.</p>
+              ) : (
+                <div className="space-y-2">
+                  {rebalance.swaps.map((swap) => {
+                    const tokenIn = getToken(swap.tokenIn);
+                    const tokenOut = getToken(swap.tokenOut);
+
+                    return (
+                      <div key={swap.index} className="border border-gray-200 rounded-lg p-3 text-xs">
+                        <div className="flex items-center justify-between gap-2 mb-2">
+                          <div className="flex items-center gap-1.5 font-semibold text-gray-900">
+                            {formatAmount(swap.amountIn, tokenIn.decimals)} {tokenIn.symbol}
+                            <ArrowRight className="w-3 h-3 text-gray-400" />
+                            {tokenOut.symbol}
+                          </div>
+                          <span className="text-gray-600 capitalize">{swap.aggregator}</span>
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                          <div>
+                            <div className="text-gray-600">Quoted</div>
+                            <div className="font-medium">{formatAmount(swap.quotedAmountOut, tokenOut.decimals)}</div>
+                          </div>
+                          <div>
+                            <div className="text-gray-600">Minimum</div>
+                            <div className="font-medium">{formatAmount(swap.minAmountOut, tokenOut.decimals)}</div>
+                          </div>
+                          <div>
+                            <div className="text-gray-600">Realized</div>
+                            <div className="font-medium">
+                              {swap.realizedAmountOut !== null
+                                ? formatAmount(swap.realizedAmountOut, tokenOut.decimals)
+                                : '—'}
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-gray-600">Slippage</div>
+                            <div
+                              className={`font-medium ${
+                                (swap.slippageBps ?? 0) > 0 ? 'text-red-600' : 'text-gray-900'
+                              }`}
+                            >
+                              {formatSlippage(swap)}
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-gray-600">Price Impact</div>
+                            <div className="font-medium">
+                              {swap.priceImpact !== null ? `${swap.priceImpact.toFixed(2)}%` : '—'}
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {/* Portfolio */}
+            {rebalance.portfolioBefore && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-sm font-semibold text-gray-900">Allocation</h4>
+                  <span className="text-xs text-gray-600">
+                    ${rebalance.portfolioBefore.totalValueUSD.toFixed(2)}
+                    {rebalance.portfolioAfter && ` → $${rebalance.portfolioAfter.totalValueUSD.toFixed(2)}`}
+                  </span>
+                </div>
+                {renderWeights(rebalance.portfolioBefore, rebalance.portfolioAfter)}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
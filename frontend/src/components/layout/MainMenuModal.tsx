@@ -9,6 +9,7 @@ import { PlanCard } from "./PlanCard";
 import { Paginator } from "@/components/ui/paginator";
 import { useStrategy } from "@/hooks/useStrategy";
 import { useDelegation } from "@/hooks/useDelegation";
+import { useStrategyPerformance } from "@/hooks/useStrategyPerformance";
 import { ApiStrategy } from "@/lib/types/api-strategy";
 import { BlockType, AssetBlock } from "@/lib/types/blocks";
 import { useToast } from "@/hooks/use-toast";
@@ -36,20 +37,34 @@ export function MainMenuModal({ open, onOpenChange, onStrategyLoad }: MainMenuMo
   const { toast } = useToast();
 
   // Fetch real strategies from backend
-  const { strategies, loading, deleteStrategy, refreshStrategies } = useStrategy();
+  const {
+    strategies,
+    loading,
+    deleteStrategy,
+    pauseStrategy,
+    resumeStrategy,
+    rebalanceNow,
+    refreshStrategies,
+  } = useStrategy();
   const { delegations } = useDelegation();
 
+  // Calculate paginated strategies
+  const startIndex = (currentPage - 1) * itemsPerPage;
+  const endIndex = startIndex + itemsPerPage;
+  const paginatedStrategies = strategies.slice(startIndex, endIndex);
+
+  // Live valuation and rebalance track record for the visible page
+  const { performance, refresh: refreshPerformance } = useStrategyPerformance(
+    open ? paginatedStrategies.map((s) => s.id) : []
+  );
+
   // Refresh strategies when modal opens
   useEffect(() => {
     if (open) {
       refreshStrategies();
+      refreshPerformance();
     }
-  }, [open, refreshStrategies]);
-
-  // Calculate paginated strategies
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const paginatedStrategies = strategies.slice(startIndex, endIndex);
+  }, [open, refreshStrategies, refreshPerformance]);
 
   // Convert ApiStrategy to canvas Strategy and load
   const handleStrategyDeploy = (apiStrategy: ApiStrategy) => {
@@ -71,19 +86,28 @@ export function MainMenuModal({ open, onOpenChange, onStrategyLoad }: MainMenuMo
   };
 
   const handleStart = async (id: string) => {
-    // Strategy is activated by creating delegation in wizard
+    const strategy = strategies.find((s) => s.id === id);
+    if (strategy && !strategy.isActive) {
+      await resumeStrategy(id);
+      return;
+    }
+
+    // Drafts are activated by creating a delegation in the wizard
     toast({
-      title: 'Not Implemented',
+      title: 'Delegation Required',
       description: 'Use the START block in canvas to activate strategy',
     });
   };
 
   const handleStop = async (id: string) => {
-    // Strategy is stopped by revoking delegation
-    toast({
-      title: 'Not Implemented',
-      description: 'Use the Delegation Manager to revoke delegation',
-    });
+    await pauseStrategy(id);
+  };
+
+  const handleRebalance = async (id: string) => {
+    const queued = await rebalanceNow(id);
+    if (queued) {
+      refreshPerformance();
+    }
   };
 
   const handleDelete = async (id: string) => {
@@ -144,6 +168,7 @@ export function MainMenuModal({ open, onOpenChange, onStrategyLoad }: MainMenuMo
                 {paginatedStrategies.map((strategy) => {
                   // Find delegation for this strategy
                   const delegation = delegations.find(d => d.strategyId === strategy.id && d.isActive);
+                  const strategyPerformance = performance[strategy.id];
 
                   // Convert to StrategyWithMetrics format for PlanCard
                   const strategyWithMetrics = {
@@ -151,11 +176,15 @@ export function MainMenuModal({ open, onOpenChange, onStrategyLoad }: MainMenuMo
                     id: strategy.id,
                     name: strategy.strategyLogic?.name || strategy.name || 'Untitled Strategy',
                     description: `${strategy.tokens.length} assets • ${strategy.isActive ? 'Active' : 'Inactive'}`,
-                    status: delegation ? 'running' : strategy.isActive ? 'draft' : 'stopped',
+                    status: !strategy.isActive ? 'stopped' : delegation ? 'running' : 'draft',
                     metrics: {
-                      totalValuation: 0, // TODO: Get from portfolio analyzer
-                      pnl: 0,
-                      trades: 0,
+                      totalValuation: strategyPerformance?.currentValueUSD ?? 0,
+                      pnl: strategyPerformance?.pnl?.totalPnlPercent ?? 0,
+                      pnlAbsolute: strategyPerformance?.pnl?.totalPnlUSD ?? 0,
+                      rebalances: strategyPerformance?.totalRebalances,
+                      successRate: strategyPerformance?.successRate,
+                      twr: strategyPerformance?.pnl?.twr,
+                      benchmarkReturn: strategyPerformance?.pnl?.benchmarkReturn,
                     },
                     metadata: {
                       createdAt: new Date(strategy.createdAt).getTime(),
@@ -170,6 +199,7 @@ export function MainMenuModal({ open, onOpenChange, onStrategyLoad }: MainMenuMo
                       onDeploy={() => handleStrategyDeploy(strategy)}
                       onStart={handleStart}
                       onStop={handleStop}
+                      onRebalance={handleRebalance}
                       onDelete={handleDelete}
                     />
                   );
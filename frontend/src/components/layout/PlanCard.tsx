@@ -2,7 +2,7 @@ import React, { useState } from "react";
 import { StrategyWithMetrics, statusConfig } from "@/lib/utils/mockStrategies";
 import { CanvasPreview } from "@/components/preview/CanvasPreview";
 import { Button } from "@/components/ui/button";
-import { Eye, TrendingUp, TrendingDown, ChevronDown, ChevronUp, FileEdit, Pause, Activity, Play, Trash2 } from "lucide-react";
+import { Eye, TrendingUp, TrendingDown, ChevronDown, ChevronUp, FileEdit, Pause, Activity, Play, Trash2, RefreshCw } from "lucide-react";
 import { BlockType } from "@/lib/types/blocks";
 
 interface PlanCardProps {
@@ -10,10 +10,11 @@ interface PlanCardProps {
   onDeploy: (strategy: StrategyWithMetrics) => void;
   onStart: (id: string) => void;
   onStop: (id: string) => void;
+  onRebalance?: (id: string) => void;
   onDelete: (id: string) => void;
 }
 
-export function PlanCard({ strategy, onDeploy, onStart, onStop, onDelete }: PlanCardProps) {
+export function PlanCard({ strategy, onDeploy, onStart, onStop, onRebalance, onDelete }: PlanCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const isProfitable = strategy.metrics.pnl >= 0;
   const assets = strategy.blocks.filter((b) => b.type === BlockType.ASSET);
@@ -107,6 +108,12 @@ export function PlanCard({ strategy, onDeploy, onStart, onStop, onDelete }: Plan
           <div className="text-sm font-bold text-gray-900">
             {formatCurrency(strategy.metrics.totalValuation)}
           </div>
+          {strategy.metrics.pnlAbsolute !== 0 && (
+            <div className="text-xs text-gray-600">
+              {strategy.metrics.pnlAbsolute >= 0 ? "+" : "-"}
+              {formatCurrency(Math.abs(strategy.metrics.pnlAbsolute))}
+            </div>
+          )}
         </div>
 
         {/* Assets - Fixed width */}
@@ -186,6 +193,18 @@ export function PlanCard({ strategy, onDeploy, onStart, onStop, onDelete }: Plan
                   <div className="text-xs text-gray-600">
                     Updated: {formatDate(strategy.metadata.updatedAt)}
                   </div>
+                  {strategy.metrics.twr !== undefined && (
+                    <div className="text-xs text-gray-600">
+                      Return: {formatPnl(strategy.metrics.twr)} vs {formatPnl(strategy.metrics.benchmarkReturn ?? 0)} buy & hold
+                    </div>
+                  )}
+                  {strategy.metrics.rebalances !== undefined && (
+                    <div className="text-xs text-gray-600">
+                      Rebalances: {strategy.metrics.rebalances}
+                      {strategy.metrics.rebalances > 0 &&
+                        ` (${(strategy.metrics.successRate ?? 0).toFixed(0)}% successful)`}
+                    </div>
+                  )}
                 </div>
                 <button
                   onClick={(e) => {
@@ -221,7 +240,20 @@ export function PlanCard({ strategy, onDeploy, onStart, onStop, onDelete }: Plan
                     className="flex-1 px-3 py-1.5 rounded text-xs font-medium text-gray-700 border border-gray-300 hover:bg-gray-100 active:scale-95 transition-all duration-200 flex items-center justify-center gap-1.5"
                   >
                     <Play className="w-3.5 h-3.5" />
-                    Start
+                    {strategy.status === "stopped" ? "Resume" : "Start"}
+                  </button>
+                )}
+
+                {canStop && onRebalance && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRebalance(strategy.id);
+                    }}
+                    className="flex-1 px-3 py-1.5 rounded text-xs font-medium text-gray-700 border border-gray-300 hover:bg-gray-100 active:scale-95 transition-all duration-200 flex items-center justify-center gap-1.5"
+                  >
+                    <RefreshCw className="w-3.5 h-3.5" />
+                    Rebalance
                   </button>
                 )}
 
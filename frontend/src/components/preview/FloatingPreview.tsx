@@ -7,9 +7,10 @@ import { X, FileText } from "lucide-react";
 interface FloatingPreviewProps {
   strategy: Strategy | null;
   selectedBlockId?: string | null;
+  strategyId?: string | null;
 }
 
-export function FloatingPreview({ strategy, selectedBlockId }: FloatingPreviewProps) {
+export function FloatingPreview({ strategy, selectedBlockId, strategyId }: FloatingPreviewProps) {
   const [isOpen, setIsOpen] = useState(false);
 
   if (!strategy) return null;
@@ -47,7 +48,11 @@ export function FloatingPreview({ strategy, selectedBlockId }: FloatingPreviewPr
 
           {/* Preview Content */}
           <div className="max-h-[600px] overflow-y-auto">
-            <StrategyPreview strategy={strategy} selectedBlockId={selectedBlockId} />
+            <StrategyPreview
+              strategy={strategy}
+              selectedBlockId={selectedBlockId}
+              strategyId={strategyId}
+            />
           </div>
         </div>
       )}
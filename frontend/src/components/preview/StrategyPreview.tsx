@@ -1,20 +1,29 @@
-import React, { useMemo } from "react";
+import React, { useMemo, useState } from "react";
 import { Strategy } from "@/lib/types/strategy";
+import { StrategySimulation } from "@/lib/types/api-strategy";
 import { Block, BlockType } from "@/lib/types/blocks";
 import { StrategyValidator } from "@/lib/engine/Validator";
 import { serializeStrategy, downloadJSON } from "@/lib/utils/serialization";
+import { strategiesApi } from "@/lib/api/strategies";
+import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Download, CheckCircle2, AlertCircle, AlertTriangle } from "lucide-react";
+import { Download, CheckCircle2, AlertCircle, AlertTriangle, Play, Loader2, ArrowRight } from "lucide-react";
 
 interface StrategyPreviewProps {
   strategy: Strategy;
   selectedBlockId?: string | null;
+  strategyId?: string | null; // Saved backend strategy, required for simulation
 }
 
-export function StrategyPreview({ strategy, selectedBlockId }: StrategyPreviewProps) {
+export function StrategyPreview({ strategy, selectedBlockId, strategyId }: StrategyPreviewProps) {
+  const { getBackendToken } = useAuth();
+  const [simulation, setSimulation] = useState<StrategySimulation | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+
   const validator = new StrategyValidator();
   const validation = useMemo(() => validator.validate(strategy), [strategy]);
 
@@ -36,6 +45,32 @@ export function StrategyPreview({ strategy, selectedBlockId }: StrategyPreviewPr
     downloadJSON(strategy);
   };
 
+  const handleSimulate = async () => {
+    if (!strategyId) return;
+
+    try {
+      setSimulating(true);
+      setSimulationError(null);
+
+      const token = await getBackendToken();
+      if (!token) {
+        setSimulationError("Sign in to simulate this strategy");
+        return;
+      }
+
+      setSimulation(await strategiesApi.simulateStrategy(strategyId, token));
+    } catch (error) {
+      setSimulationError(error instanceof Error ? error.message : "Simulation failed");
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  // Resolve token addresses in the plan to portfolio symbols
+  const getSymbol = (address: string) =>
+    simulation?.weights.find((w) => w.address.toLowerCase() === address.toLowerCase())?.symbol ||
+    `${address.slice(0, 6)}...${address.slice(-4)}`;
+
   return (
     <div className="bg-white flex flex-col h-full">
       {/* Description and Export */}
@@ -73,6 +108,7 @@ export function StrategyPreview({ strategy, selectedBlockId }: StrategyPreviewPr
         <TabsList className="mx-4 mt-2 flex-shrink-0">
           <TabsTrigger value="overview" className="flex-1">Overview</TabsTrigger>
           <TabsTrigger value="validation" className="flex-1">Validation</TabsTrigger>
+          <TabsTrigger value="simulate" className="flex-1">Simulate</TabsTrigger>
           <TabsTrigger value="json" className="flex-1">JSON</TabsTrigger>
         </TabsList>
 
@@ -247,6 +283,153 @@ export function StrategyPreview({ strategy, selectedBlockId }: StrategyPreviewPr
           </div>
         </TabsContent>
 
+        {/* Simulate Tab */}
+        <TabsContent value="simulate" className="mt-0 flex-1 overflow-hidden">
+          <div className="h-full overflow-y-auto">
+            <div className="p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500">
+                  Dry-run against your current portfolio. No transaction is sent.
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleSimulate}
+                  disabled={!strategyId || simulating}
+                >
+                  {simulating ? (
+                    <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                  ) : (
+                    <Play className="w-4 h-4 mr-1" />
+                  )}
+                  Simulate
+                </Button>
+              </div>
+
+              {!strategyId && (
+                <Alert className="bg-gray-50 border-gray-300">
+                  <AlertCircle className="h-4 w-4 text-gray-700" />
+                  <AlertDescription className="text-gray-900 text-sm">
+                    Save this strategy to simulate it
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {simulationError && (
+                <div className="bg-gray-50 border border-gray-300 rounded p-2">
+                  <p className="text-sm text-gray-900">{simulationError}</p>
+                </div>
+              )}
+
+              {simulation && (
+                <>
+                  {/* Decision */}
+                  <div className="bg-gray-50 rounded p-3 border border-gray-200 space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-gray-600">Bot would</span>
+                      <Badge variant={simulation.shouldExecute ? "default" : "outline"}>
+                        {simulation.shouldExecute ? "Execute" : "Skip"}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-gray-900">{simulation.reason}</p>
+                    <div className="flex items-center justify-between pt-1">
+                      <span className="text-xs text-gray-600">Portfolio</span>
+                      <span className="text-xs font-semibold">
+                        ${simulation.totalValueUSD.toFixed(2)} · drift {(simulation.drift / 100).toFixed(2)}%
+                      </span>
+                    </div>
+                  </div>
+
+                  {/* Conditions */}
+                  <div>
+                    <h4 className="font-semibold text-sm mb-2">Conditions</h4>
+                    <pre className="text-xs bg-gray-50 rounded p-2 whitespace-pre-wrap">
+                      {simulation.conditionSummary}
+                    </pre>
+                    {simulation.historyGaps.length > 0 && (
+                      <div className="bg-gray-50 border border-gray-300 rounded p-2 mt-2 flex gap-2">
+                        <AlertTriangle className="w-4 h-4 text-gray-700 shrink-0" />
+                        <p className="text-xs text-gray-900">
+                          Not enough price history to evaluate{" "}
+                          {simulation.historyGaps
+                            .map((gap) => gap.description || gap.conditionType)
+                            .join(", ")}
+                          . The simulation reads these as false; the bot checks them against its live price history and may trigger.
+                        </p>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Swaps and quotes */}
+                  {simulation.executionPlan.swaps.length > 0 && (
+                    <div>
+                      <h4 className="font-semibold text-sm mb-2">
+                        Swaps ({simulation.executionPlan.swaps.length})
+                      </h4>
+                      <div className="space-y-2">
+                        {simulation.executionPlan.swaps.map((swap, idx) => {
+                          const quote = simulation.quotes.find(
+                            (q) => !q.isWrap && q.toToken.toLowerCase() === swap.toToken.toLowerCase()
+                          );
+                          return (
+                            <div key={idx} className="bg-gray-50 rounded p-2 border border-gray-200">
+                              <div className="flex items-center gap-1 text-sm font-semibold text-gray-900">
+                                {getSymbol(swap.fromToken)}
+                                <ArrowRight className="w-3 h-3" />
+                                {getSymbol(swap.toToken)}
+                              </div>
+                              <div className="text-xs text-gray-600">
+                                {quote
+                                  ? `${quote.aggregator} · ${quote.priceImpact.toFixed(2)}% impact`
+                                  : "No quote"}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                      {simulation.quoteError && (
+                        <p className="text-xs text-gray-600 mt-2">
+                          Quote failed: {simulation.quoteError}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Expected weights */}
+                  <div>
+                    <h4 className="font-semibold text-sm mb-2">Weights</h4>
+                    <div className="space-y-1">
+                      {simulation.weights.map((weight) => (
+                        <div
+                          key={weight.address}
+                          className="flex items-center justify-between text-xs bg-gray-50 rounded px-2 py-1"
+                        >
+                          <span className="font-semibold text-gray-900">{weight.symbol}</span>
+                          <span className="text-gray-700">
+                            {weight.currentWeight.toFixed(1)}% → {weight.expectedWeight.toFixed(1)}%
+                            <span className="text-gray-500"> (target {weight.targetWeight.toFixed(1)}%)</span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Gas */}
+                  {simulation.gas && (
+                    <div className="flex items-center justify-between bg-gray-50 rounded p-2">
+                      <span className="text-xs text-gray-600">Estimated gas</span>
+                      <span className="text-xs font-semibold">
+                        {simulation.gas.gasLimit}
+                        {simulation.gas.gasCostUSD !== null && ` · $${simulation.gas.gasCostUSD.toFixed(2)}`}
+                      </span>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </TabsContent>
+
         {/* JSON Tab */}
         <TabsContent value="json" className="mt-0 flex-1 overflow-hidden">
           <div className="h-full overflow-y-auto">
@@ -12,7 +12,7 @@ import { useStrategy } from '@/hooks/useStrategy';
 import { delegationsApi } from '@/lib/api/delegations';
 import { usePrivy, useWallets } from '@privy-io/react-auth';
 import { useAuth } from '@/hooks/useAuth';
-import { Loader2, Info, Link2, AlertCircle, LogIn } from 'lucide-react';
+import { Loader2, Info, Link2, AlertCircle, LogIn, Pause, Play, RefreshCw } from 'lucide-react';
 import type { ApiStrategy } from '@/lib/types/api-strategy';
 import type { Delegation } from '@/lib/types/delegation';
 
@@ -30,10 +30,18 @@ export function StrategySelector({
   const { authenticated, ready, login } = usePrivy();
   const { getBackendToken, isBackendAuthenticated } = useAuth();
   const { wallets } = useWallets();
-  const { strategies, loading, isReady } = useStrategy(chainId);
+  const {
+    strategies,
+    loading,
+    isReady,
+    pauseStrategy,
+    resumeStrategy,
+    rebalanceNow,
+  } = useStrategy(chainId);
 
   const [selectedStrategyId, setSelectedStrategyId] = useState<string>('');
   const [linking, setLinking] = useState(false);
+  const [controlBusy, setControlBusy] = useState<'toggle' | 'rebalance' | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const wallet = wallets[0];
@@ -78,6 +86,24 @@ export function StrategySelector({
     }
   };
 
+  const handleToggleActive = async (strategy: ApiStrategy) => {
+    setControlBusy('toggle');
+    try {
+      await (strategy.isActive ? pauseStrategy(strategy.id) : resumeStrategy(strategy.id));
+    } finally {
+      setControlBusy(null);
+    }
+  };
+
+  const handleRebalance = async (strategy: ApiStrategy) => {
+    setControlBusy('rebalance');
+    try {
+      await rebalanceNow(strategy.id);
+    } finally {
+      setControlBusy(null);
+    }
+  };
+
   // Authentication checks
   const isAuthReady = ready && authenticated;
   const shouldShowAuthMessage = ready && !authenticated;
@@ -218,6 +244,38 @@ export function StrategySelector({
                     {selectedStrategy.isActive ? 'Active' : 'Inactive'}
                   </span>
                 </div>
+                <div className="flex gap-2 pt-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => handleToggleActive(selectedStrategy)}
+                    disabled={controlBusy !== null}
+                  >
+                    {controlBusy === 'toggle' ? (
+                      <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                    ) : selectedStrategy.isActive ? (
+                      <Pause className="w-3.5 h-3.5 mr-1.5" />
+                    ) : (
+                      <Play className="w-3.5 h-3.5 mr-1.5" />
+                    )}
+                    {selectedStrategy.isActive ? 'Pause' : 'Resume'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => handleRebalance(selectedStrategy)}
+                    disabled={controlBusy !== null || !selectedStrategy.isActive || !selectedStrategy.isDeployed}
+                  >
+                    {controlBusy === 'rebalance' ? (
+                      <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                    ) : (
+                      <RefreshCw className="w-3.5 h-3.5 mr-1.5" />
+                    )}
+                    Rebalance Now
+                  </Button>
+                </div>
               </div>
             );
           })()}
@@ -343,6 +343,7 @@ export function StrategySetupWizard({
             delegatorAddress={state.delegatorAddress}
             strategyId={state.savedStrategyId || undefined}
             chainId={chainId}
+            strategy={strategy}
             onNext={() => handleNextStep('delegation')}
             onBack={() => handleBackStep('delegation')}
             onCancel={handleCancel}
@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import {
@@ -14,16 +14,29 @@ import {
   Network,
 } from 'lucide-react';
 import { useDelegation } from '@/hooks/useDelegation';
-import { getBotExecutorAddress } from '@/lib/utils/delegation-signatures';
+import { useCaveatConfig } from '@/hooks/useCaveatConfig';
+import {
+  DelegationScopeForm,
+  type ScopeTokenInfo,
+} from '@/components/delegation/DelegationScopeForm';
+import {
+  buildScopedCaveats,
+  createDefaultScope,
+  getBotExecutorAddress,
+} from '@/lib/utils/delegation-signatures';
 import { usePrivy, useWallets } from '@privy-io/react-auth';
 import { monadTestnet } from '@/lib/chains';
 import { toast } from 'sonner';
 import type { Address } from 'viem';
+import type { Strategy } from '@/lib/types/strategy';
+import type { DelegationScope } from '@/lib/types/delegation';
+import { BlockType, type AssetBlock } from '@/lib/types/blocks';
 
 interface DelegationStepProps {
   delegatorAddress: Address;
   strategyId?: string;
   chainId: number;
+  strategy?: Strategy; // Canvas strategy - token symbols/decimals for the scope form
   onNext: () => void;
   onBack: () => void;
   onCancel: () => void;
@@ -34,6 +47,7 @@ interface DelegationStepProps {
  *
  * Step 3 of Strategy Setup Wizard
  * - Creates ERC-7710 delegation for the bot
+ * - Scopes it with caveats (expiry, allowed contracts/functions, spend limits)
  * - Signs delegation with user's wallet
  * - Stores delegation in backend
  */
@@ -41,6 +55,7 @@ export function DelegationStep({
   delegatorAddress,
   strategyId,
   chainId,
+  strategy,
   onNext,
   onBack,
   onCancel,
@@ -52,6 +67,10 @@ export function DelegationStep({
     delegations,
     loading: delegationsLoading,
   } = useDelegation(chainId);
+  const { config: caveatConfig, loading: caveatConfigLoading } = useCaveatConfig(
+    chainId,
+    strategyId
+  );
 
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -59,6 +78,28 @@ export function DelegationStep({
   const [isSwitching, setIsSwitching] = useState(false);
   const abortControllerRef = useRef<AbortController | null>(null);
   const networkSwitchTriggeredRef = useRef(false);
+  const [scope, setScope] = useState<DelegationScope | null>(null);
+
+  // Start from the default scope whenever the chain's options change
+  useEffect(() => {
+    setScope(caveatConfig?.scoped ? createDefaultScope(caveatConfig) : null);
+  }, [caveatConfig]);
+
+  // Symbols/decimals for the scope form (native assets are allowed as their wrapped token)
+  const tokenInfo = useMemo(() => {
+    const info: Record<string, ScopeTokenInfo> = {};
+    strategy?.blocks
+      .filter((b): b is AssetBlock => b.type === BlockType.ASSET)
+      .forEach(b => {
+        const isNative = b.data.address.toLowerCase() === '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+        if (isNative && caveatConfig?.wrappedNative) {
+          info[caveatConfig.wrappedNative] = { symbol: `W${b.data.symbol}`, decimals: 18 };
+        } else {
+          info[b.data.address.toLowerCase()] = { symbol: b.data.symbol, decimals: b.data.decimals || 18 };
+        }
+      });
+    return info;
+  }, [strategy, caveatConfig]);
 
   // Get wallet from Privy
   const wallet = wallets[0];
@@ -219,14 +260,16 @@ export function DelegationStep({
       // Create new AbortController for this operation
       abortControllerRef.current = new AbortController();
 
-      // Get bot executor address from environment configuration
-      const botAddress = getBotExecutorAddress(chainId);
+      // RebalanceExecutor when the chain supports scoped delegations, ANY_DELEGATE otherwise
+      const botAddress = getBotExecutorAddress(chainId, caveatConfig);
+      const caveats = caveatConfig && scope ? buildScopedCaveats(scope, caveatConfig) : [];
 
       const delegation = await createDelegation(
         strategyId,
         botAddress,
         chainId,
-        delegatorAddress // Pass DeleGator smart account address
+        delegatorAddress, // Pass DeleGator smart account address
+        caveats
       );
 
       // Check if operation was aborted
@@ -394,6 +437,15 @@ export function DelegationStep({
             <div className="w-1.5 h-1.5 rounded-full bg-gray-400 mt-1.5" />
             <span>Only allows rebalance operations for your strategies</span>
           </div>
+          {scope && (
+            <div className="flex items-start gap-2">
+              <div className="w-1.5 h-1.5 rounded-full bg-gray-400 mt-1.5" />
+              <span>
+                Expires automatically after {scope.expiryDays} days
+                {scope.spendLimits.length > 0 && ', with per-period spend limits'}
+              </span>
+            </div>
+          )}
           <div className="flex items-start gap-2">
             <div className="w-1.5 h-1.5 rounded-full bg-gray-400 mt-1.5" />
             <span>Does not grant access to withdraw or transfer funds</span>
@@ -405,6 +457,24 @@ export function DelegationStep({
         </div>
       </div>
 
+      {/* Delegation scope (caveats) */}
+      {caveatConfigLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading delegation options...
+        </div>
+      ) : caveatConfig && (
+        <div className="border rounded-lg p-6">
+          <DelegationScopeForm
+            config={caveatConfig}
+            tokenInfo={tokenInfo}
+            value={scope ?? createDefaultScope(caveatConfig)}
+            onChange={setScope}
+            disabled={creating}
+          />
+        </div>
+      )}
+
       <Alert>
         <Info className="w-4 h-4" />
         <AlertDescription className="text-sm">
@@ -484,7 +554,7 @@ export function DelegationStep({
 
           <Button
             onClick={handleCreateDelegation}
-            disabled={creating || delegationsLoading}
+            disabled={creating || delegationsLoading || caveatConfigLoading}
             className="bg-gray-900 hover:bg-gray-800"
           >
             {creating ? (
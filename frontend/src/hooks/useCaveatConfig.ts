@@ -0,0 +1,51 @@
+import { useState, useEffect } from 'react';
+import { delegationsApi } from '@/lib/api/delegations';
+import type { CaveatConfig } from '@/lib/types/delegation';
+
+/**
+ * Caveat Config Hook - Enforcers and allowed scope for delegations on a chain
+ *
+ * Features:
+ * - Fetches GET /delegations/caveat-config (no token needed, auth disabled)
+ * - Passing strategyId narrows allowed tokens to the strategy's assets
+ * - Refetches when chain or strategy changes
+ */
+export function useCaveatConfig(chainId: number | null | undefined, strategyId?: string) {
+  const [config, setConfig] = useState<CaveatConfig | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!chainId) {
+      setConfig(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchConfig = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await delegationsApi.getCaveatConfig(chainId, strategyId);
+        if (!cancelled) setConfig(result);
+      } catch (err) {
+        console.error('[useCaveatConfig] Failed to fetch caveat config:', err);
+        if (!cancelled) {
+          setConfig(null);
+          setError(err instanceof Error ? err.message : 'Failed to load delegation options');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchConfig();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId, strategyId]);
+
+  return { config, loading, error };
+}
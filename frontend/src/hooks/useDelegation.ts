@@ -6,7 +6,6 @@ import { delegationsApi } from '@/lib/api/delegations';
 import {
   signDelegation,
   generateDelegationSalt,
-  createEmptyCaveats,
   createRootAuthority,
   getBotExecutorAddress,
 } from '@/lib/utils/delegation-signatures';
@@ -15,6 +14,7 @@ import type {
   DelegationData,
   CreateDelegationDto,
   DelegationStats,
+  Caveat,
 } from '@/lib/types/delegation';
 import { useToast } from './use-toast';
 import { useAuth } from './useAuth';
@@ -160,13 +160,15 @@ export function useDelegation(chainId?: number) {
    * @param delegateAddress - Bot executor address (optional, uses default)
    * @param selectedChainId - Chain to create delegation on
    * @param delegatorAddress - DeleGator smart account address (optional, uses userAddress)
+   * @param caveats - Scope restrictions (see buildScopedCaveats), empty for an open delegation
    */
   const createDelegation = useCallback(
     async (
       strategyId: string | undefined,
       delegateAddress: `0x${string}` | null,
       selectedChainId: number,
-      delegatorAddress?: `0x${string}`
+      delegatorAddress?: `0x${string}`,
+      caveats: Caveat[] = []
     ): Promise<Delegation | null> => {
       // Validation: Must be authenticated with Privy
       if (!isPrivyAuthenticated) {
@@ -230,7 +232,7 @@ export function useDelegation(chainId?: number) {
           delegate: finalDelegateAddress,
           delegator: delegatorAddress || userAddress, // DeleGator smart account or EOA
           authority: createRootAuthority(), // Root delegation (no parent)
-          caveats: createEmptyCaveats(), // No restrictions for MVP
+          caveats,
           salt: generateDelegationSalt(), // Random 256-bit salt
           // NOTE: deadline removed - not part of MetaMask v1.3.0
         };
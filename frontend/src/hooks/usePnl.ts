@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback } from 'react';
+import { strategiesApi } from '@/lib/api/strategies';
+import { UserPnl } from '@/lib/types/api-strategy';
+import { useAuth } from './useAuth';
+
+/**
+ * P&L Hook - Latest valuation-snapshot P&L of the user's strategies
+ *
+ * Features:
+ * - Fetches GET /strategies/pnl once authenticated
+ * - Auto cleanup on logout
+ */
+export function usePnl() {
+  const { isPrivyAuthenticated, getBackendToken, isBackendAuthenticated } = useAuth();
+
+  const [pnl, setPnl] = useState<UserPnl | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const canFetchData = isPrivyAuthenticated && isBackendAuthenticated;
+
+  const fetchPnl = useCallback(async () => {
+    if (!canFetchData) {
+      setPnl(null);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const token = await getBackendToken();
+      if (!token) return;
+
+      setPnl(await strategiesApi.getPnl(token));
+    } catch (error) {
+      console.error('[usePnl] Failed to fetch P&L:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [canFetchData, getBackendToken]);
+
+  useEffect(() => {
+    fetchPnl();
+  }, [fetchPnl]);
+
+  return { pnl, loading, refreshPnl: fetchPnl };
+}
@@ -1,7 +1,9 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { rebalancesApi } from '@/lib/api/rebalances';
+import { notificationsSocket } from '@/lib/api/socket';
 import {
   Rebalance,
+  RebalanceDetail,
   RebalanceStatsResponse,
   GetRebalancesQuery,
 } from '@/lib/types/rebalance';
@@ -14,6 +16,8 @@ import { useAuth } from './useAuth';
  * Features:
  * - Fetch rebalances with optional filters
  * - Get rebalance statistics
+ * - Load per-swap detail of a single rebalance
+ * - Live refresh from rebalance socket events
  * - Auto cleanup on logout
  * - Retry logic for transient failures
  */
@@ -125,6 +129,30 @@ export function useRebalances(initialQuery?: GetRebalancesQuery) {
     setLoadingStats(false);
   }, [canFetchData, getBackendToken]);
 
+  /**
+   * Fetch a single rebalance with swaps and portfolio snapshots
+   */
+  const fetchRebalanceDetail = useCallback(async (id: string): Promise<RebalanceDetail | null> => {
+    if (!canFetchData) return null;
+
+    try {
+      const token = await getBackendToken();
+      if (!token) {
+        throw new Error('Unable to retrieve backend JWT. Please ensure you are authenticated.');
+      }
+
+      return await rebalancesApi.getRebalance(id, token);
+    } catch (error) {
+      console.error('Failed to fetch rebalance detail:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load rebalance details. Please try again.',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  }, [canFetchData, getBackendToken, toast]);
+
   /**
    * Effect: Fetch data when authentication is ready
    * Cleanup when user logs out
@@ -145,6 +173,58 @@ export function useRebalances(initialQuery?: GetRebalancesQuery) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [canFetchData]);
 
+  // Latest fetchers for socket handlers registered once per connection
+  const refreshRef = useRef<() => void>(() => undefined);
+  refreshRef.current = () => {
+    fetchRebalances(initialQuery);
+    fetchStats(initialQuery?.chainId);
+  };
+
+  /**
+   * Effect: Live updates over the notifications socket
+   * The socket joins the user's room on connect; a strategy filter also joins its room
+   */
+  useEffect(() => {
+    if (!canFetchData) return;
+
+    let cancelled = false;
+    let connected = false;
+    const cleanups: (() => void)[] = [];
+    const strategyId = initialQuery?.strategyId;
+
+    const connect = async () => {
+      const token = await getBackendToken();
+      if (!token || cancelled) return;
+
+      notificationsSocket.connect(token);
+      connected = true;
+      if (strategyId) {
+        notificationsSocket.subscribe(strategyId);
+      }
+
+      const refresh = () => refreshRef.current();
+      cleanups.push(
+        notificationsSocket.on('rebalance:started', refresh),
+        notificationsSocket.on('rebalance:completed', refresh),
+        notificationsSocket.on('rebalance:failed', refresh),
+      );
+    };
+
+    connect();
+
+    return () => {
+      cancelled = true;
+      cleanups.forEach((cleanup) => cleanup());
+      if (!connected) return;
+
+      if (strategyId) {
+        notificationsSocket.unsubscribe(strategyId);
+      }
+      notificationsSocket.release();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canFetchData, initialQuery?.strategyId]);
+
   return {
     // State
     rebalances,
@@ -157,5 +237,6 @@ export function useRebalances(initialQuery?: GetRebalancesQuery) {
     // Actions
     refreshRebalances: fetchRebalances,
     refreshStats: fetchStats,
+    getRebalanceDetail: fetchRebalanceDetail,
   };
 }
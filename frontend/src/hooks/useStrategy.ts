@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useWallets } from '@privy-io/react-auth';
 import { strategiesApi } from '@/lib/api/strategies';
+import { notificationsSocket } from '@/lib/api/socket';
 import {
   CreateStrategyDto,
   ApiStrategy,
@@ -23,6 +24,8 @@ import { waitForTransactionReceiptWithRetry } from '@/lib/utils/transaction-rece
  * - Uses hybrid Privy + SIWE authentication
  * - Retry logic (3 attempts) for transient failures
  * - Graceful error handling
+ * - Pause/resume and manual rebalance
+ * - Live isActive updates from strategy socket events
  * - Auto cleanup on logout
  */
 export function useStrategy(chainId?: number) {
@@ -473,6 +476,110 @@ export function useStrategy(chainId?: number) {
     [canFetchData, getBackendToken, toast]
   );
 
+  /**
+   * Pause or resume a strategy
+   */
+  const setStrategyActive = useCallback(
+    async (strategyId: string, isActive: boolean): Promise<boolean> => {
+      if (!canFetchData) return false;
+
+      try {
+        const token = await getBackendToken();
+        if (!token) {
+          throw new Error('Unable to retrieve backend JWT');
+        }
+
+        const updated = isActive
+          ? await strategiesApi.resumeStrategy(strategyId, token)
+          : await strategiesApi.pauseStrategy(strategyId, token);
+
+        setStrategies(prev =>
+          Array.isArray(prev)
+            ? prev.map(s => (s.id === strategyId ? { ...s, isActive: updated.isActive } : s))
+            : []
+        );
+
+        toast({
+          title: isActive ? 'Resumed' : 'Paused',
+          description: isActive
+            ? 'The bot will monitor this strategy again'
+            : 'The bot stopped monitoring this strategy',
+        });
+
+        return true;
+      } catch (error) {
+        console.error(`Failed to ${isActive ? 'resume' : 'pause'} strategy:`, error);
+        toast({
+          title: 'Error',
+          description:
+            error instanceof Error ? error.message : `Failed to ${isActive ? 'resume' : 'pause'} strategy`,
+          variant: 'destructive',
+        });
+        return false;
+      }
+    },
+    [canFetchData, getBackendToken, toast]
+  );
+
+  const pauseStrategy = useCallback(
+    (strategyId: string) => setStrategyActive(strategyId, false),
+    [setStrategyActive]
+  );
+
+  const resumeStrategy = useCallback(
+    (strategyId: string) => setStrategyActive(strategyId, true),
+    [setStrategyActive]
+  );
+
+  /**
+   * Queue a rebalance now
+   */
+  const rebalanceNow = useCallback(
+    async (strategyId: string): Promise<boolean> => {
+      if (!canFetchData) return false;
+
+      try {
+        const token = await getBackendToken();
+        if (!token) {
+          throw new Error('Unable to retrieve backend JWT');
+        }
+
+        const result = await strategiesApi.rebalanceStrategy(strategyId, token);
+
+        toast({
+          title: 'Rebalance queued',
+          description: `${result.remaining} manual rebalance${result.remaining !== 1 ? 's' : ''} left in this window`,
+        });
+
+        return true;
+      } catch (error) {
+        console.error('Failed to queue rebalance:', error);
+        toast({
+          title: 'Rebalance not queued',
+          description: error instanceof Error ? error.message : 'Failed to queue rebalance',
+          variant: 'destructive',
+        });
+        return false;
+      }
+    },
+    [canFetchData, getBackendToken, toast]
+  );
+
+  /**
+   * Effect: Apply pause/resume made elsewhere (other tabs, indexer)
+   */
+  useEffect(() => {
+    return notificationsSocket.on('strategy:updated', (event) => {
+      if (typeof event.isActive !== 'boolean') return;
+      const isActive = event.isActive;
+      setStrategies(prev =>
+        Array.isArray(prev)
+          ? prev.map(s => (s.id === event.strategyId ? { ...s, isActive } : s))
+          : []
+      );
+    });
+  }, []);
+
   /**
    * Effect: Fetch data when authentication is ready
    * Cleanup when user logs out
@@ -517,6 +624,9 @@ export function useStrategy(chainId?: number) {
     saveStrategy,
     deployStrategyOnChain,
     deleteStrategy,
+    pauseStrategy,
+    resumeStrategy,
+    rebalanceNow,
     refreshStrategies: fetchStrategies,
     convertCanvasToDto, // Expose for validation
   };
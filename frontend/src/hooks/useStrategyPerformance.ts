@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react';
+import { strategiesApi } from '@/lib/api/strategies';
+import { StrategyPerformance } from '@/lib/types/api-strategy';
+import { useAuth } from './useAuth';
+
+/**
+ * Strategy Performance Hook - Rebalance track record and current value per strategy
+ *
+ * Features:
+ * - Fetches GET /strategies/:id/performance for each visible strategy
+ * - Keeps results across page changes (only missing IDs are fetched)
+ * - A failing strategy is skipped instead of failing the whole list
+ */
+export function useStrategyPerformance(strategyIds: string[]) {
+  const { isPrivyAuthenticated, getBackendToken, isBackendAuthenticated } = useAuth();
+
+  const [performance, setPerformance] = useState<Record<string, StrategyPerformance>>({});
+  const [loading, setLoading] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  const canFetchData = isPrivyAuthenticated && isBackendAuthenticated;
+  const idsKey = strategyIds.join(',');
+
+  useEffect(() => {
+    if (!canFetchData || !idsKey) return;
+
+    const missing = idsKey.split(',').filter((id) => !performance[id]);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+
+    const fetchPerformance = async () => {
+      setLoading(true);
+      try {
+        const token = await getBackendToken();
+        if (!token) return;
+
+        const results = await Promise.allSettled(
+          missing.map((id) => strategiesApi.getPerformance(id, token)),
+        );
+        if (cancelled) return;
+
+        setPerformance((prev) => {
+          const next = { ...prev };
+          results.forEach((result) => {
+            if (result.status === 'fulfilled') {
+              next[result.value.strategyId] = result.value;
+            }
+          });
+          return next;
+        });
+      } catch (error) {
+        console.error('[useStrategyPerformance] Failed to fetch performance:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchPerformance();
+
+    return () => {
+      cancelled = true;
+    };
+    // performance is read to skip cached IDs, not to re-trigger fetches
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canFetchData, idsKey, version, getBackendToken]);
+
+  // Clear on logout
+  useEffect(() => {
+    if (!canFetchData) {
+      setPerformance({});
+    }
+  }, [canFetchData]);
+
+  /**
+   * Drop cached results and refetch the visible strategies
+   */
+  const refresh = useCallback(() => {
+    setPerformance({});
+    setVersion((v) => v + 1);
+  }, []);
+
+  return { performance, loading, refresh };
+}
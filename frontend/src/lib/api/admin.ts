@@ -0,0 +1,93 @@
+/**
+ * Admin API Client
+ * All endpoints require a JWT for a user with the ADMIN role
+ */
+
+import { apiClient } from './client';
+import {
+  BotBalance,
+  GetQueueJobsQuery,
+  MonitorStatus,
+  PauseMonitorRequest,
+  QueueJob,
+  QueueJobsResponse,
+  SystemAlert,
+} from '../types/admin';
+
+export class AdminApi {
+  /**
+   * List rebalance queue jobs by state
+   */
+  async getRebalanceJobs(token: string, query?: GetQueueJobsQuery): Promise<QueueJobsResponse> {
+    const params = new URLSearchParams();
+
+    if (query?.state) params.append('state', query.state);
+    if (query?.limit) params.append('limit', query.limit.toString());
+    if (query?.skip) params.append('skip', query.skip.toString());
+
+    const queryString = params.toString();
+    return apiClient.get<QueueJobsResponse>(
+      `/admin/queues/rebalance${queryString ? `?${queryString}` : ''}`,
+      token,
+    );
+  }
+
+  /**
+   * Retry a failed rebalance job
+   */
+  async retryJob(jobId: string, token: string): Promise<QueueJob> {
+    return apiClient.post<QueueJob>(`/admin/queues/rebalance/jobs/${jobId}/retry`, {}, token);
+  }
+
+  /**
+   * Remove a rebalance job
+   */
+  async removeJob(jobId: string, token: string): Promise<{ removed: boolean }> {
+    return apiClient.delete<{ removed: boolean }>(`/admin/queues/rebalance/jobs/${jobId}`, token);
+  }
+
+  /**
+   * Get global and per-strategy monitor pauses
+   */
+  async getMonitorStatus(token: string): Promise<MonitorStatus> {
+    return apiClient.get<MonitorStatus>('/admin/monitor', token);
+  }
+
+  /**
+   * Pause the monitor globally (no strategyId) or for one strategy
+   */
+  async pauseMonitor(data: PauseMonitorRequest, token: string): Promise<MonitorStatus> {
+    return apiClient.post<MonitorStatus, PauseMonitorRequest>('/admin/monitor/pause', data, token);
+  }
+
+  /**
+   * Resume the monitor globally (no strategyId) or for one strategy
+   */
+  async resumeMonitor(token: string, strategyId?: string): Promise<MonitorStatus> {
+    return apiClient.post<MonitorStatus>('/admin/monitor/resume', { strategyId }, token);
+  }
+
+  /**
+   * Queue a rebalance with triggeredBy: 'admin'
+   */
+  async forceRebalance(strategyId: string, token: string): Promise<QueueJob> {
+    return apiClient.post<QueueJob>(`/admin/strategies/${strategyId}/rebalance`, {}, token);
+  }
+
+  /**
+   * Get bot wallet balances per chain
+   */
+  async getBotBalances(token: string): Promise<BotBalance[]> {
+    return apiClient.get<BotBalance[]>('/admin/bot/balances', token);
+  }
+
+  /**
+   * Get recent SYSTEM_ALERT notifications
+   */
+  async getAlerts(token: string, limit?: number): Promise<SystemAlert[]> {
+    return apiClient.get<SystemAlert[]>(`/admin/alerts${limit ? `?limit=${limit}` : ''}`, token);
+  }
+}
+
+// Export singleton instance
+export const adminApi = new AdminApi();
@@ -0,0 +1,24 @@
+/**
+ * Analytics API Client
+ */
+
+import { apiClient } from './client';
+import { AnalyticsResponse, GetAnalyticsQuery } from '../types/analytics';
+
+export class AnalyticsApi {
+  /**
+   * Get platform metrics (public - no token required)
+   */
+  async getAnalytics(query?: GetAnalyticsQuery): Promise<AnalyticsResponse> {
+    const params = new URLSearchParams();
+
+    if (query?.chainId) params.append('chainId', query.chainId.toString());
+    if (query?.days) params.append('days', query.days.toString());
+
+    const queryString = params.toString();
+    return apiClient.get<AnalyticsResponse>(`/analytics${queryString ? `?${queryString}` : ''}`);
+  }
+}
+
+// Export singleton instance
+export const analyticsApi = new AnalyticsApi();
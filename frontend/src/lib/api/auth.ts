@@ -24,6 +24,7 @@ export interface AuthResponse {
   accessToken: string;
   address: string;
   expiresAt: number;
+  role: 'USER' | 'ADMIN';
 }
 
 export class AuthApi {
@@ -3,6 +3,7 @@ import type {
   Delegation,
   CreateDelegationDto,
   DelegationStats,
+  CaveatConfig,
 } from '../types/delegation';
 
 /**
@@ -88,6 +89,18 @@ export class DelegationsApi {
     return apiClient.get<DelegationStats>(`/delegations/stats${query}`);
   }
 
+  /**
+   * Get caveat enforcers, delegate and allowed targets/methods for a chain
+   *
+   * GET /delegations/caveat-config?chainId=10143&strategyId=...
+   */
+  async getCaveatConfig(chainId: number, strategyId?: string): Promise<CaveatConfig> {
+    const params = new URLSearchParams();
+    params.append('chainId', chainId.toString());
+    if (strategyId) params.append('strategyId', strategyId);
+    return apiClient.get<CaveatConfig>(`/delegations/caveat-config?${params.toString()}`);
+  }
+
   /**
    * Link delegation to a strategy
    *
@@ -10,3 +10,6 @@ export * from './strategies';
 export * from './delegations';
 export * from './rebalances';
 export * from './ai';
+export * from './socket';
+export * from './analytics';
+export * from './admin';
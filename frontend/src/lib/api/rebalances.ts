@@ -4,7 +4,7 @@
 
 import { apiClient } from './client';
 import {
-  Rebalance,
+  RebalanceDetail,
   RebalanceListResponse,
   RebalanceStatsResponse,
   GetRebalancesQuery,
@@ -41,10 +41,10 @@ export class RebalancesApi {
   }
 
   /**
-   * Get a specific rebalance
+   * Get a specific rebalance with per-swap detail and portfolio snapshots
    */
-  async getRebalance(id: string, token: string): Promise<Rebalance> {
-    return apiClient.get<Rebalance>(`/rebalances/${id}`, token);
+  async getRebalance(id: string, token: string): Promise<RebalanceDetail> {
+    return apiClient.get<RebalanceDetail>(`/rebalances/${id}`, token);
   }
 }
 
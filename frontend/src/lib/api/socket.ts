@@ -0,0 +1,138 @@
+/**
+ * Notifications Socket Client
+ * Authenticated Socket.IO connection to the backend NotificationsGateway
+ */
+
+import { io, Socket } from 'socket.io-client';
+import {
+  ServerToClientEvents,
+  ClientToServerEvents,
+} from '../types/socket';
+
+const SOCKET_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000';
+
+type EventName = keyof ServerToClientEvents;
+type Listener = (...args: unknown[]) => void;
+
+export class NotificationsSocket {
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
+  private token: string | null = null;
+  private users = 0;
+  // Subscriber count per strategy - the room is left when the last one unsubscribes
+  private strategyIds = new Map<string, number>();
+  private listeners = new Map<EventName, Set<Listener>>();
+
+  /**
+   * Connect with a backend JWT (reuses the connection for the same token)
+   * The server joins the socket to the user's room on handshake.
+   * Each connect() holds the shared connection until its matching release().
+   */
+  connect(token: string): void {
+    this.users += 1;
+    if (this.socket && this.token === token) return;
+
+    // New token (e.g. a different wallet) - replace the socket, keep subscriptions
+    this.socket?.disconnect();
+    this.token = token;
+
+    this.socket = io(SOCKET_URL, {
+      auth: { token },
+      transports: ['websocket'],
+    });
+
+    // Rooms don't survive a reconnect - re-subscribe
+    this.socket.on('connect', () => {
+      this.strategyIds.forEach((_, strategyId) => this.emitSubscribe(strategyId));
+    });
+
+    this.socket.on('connect_error', (error) => {
+      console.warn('[Socket] Connection failed:', error.message);
+    });
+
+    this.socket.on('exception', (error) => {
+      console.warn('[Socket] Server rejected request:', error.message);
+    });
+
+    this.listeners.forEach((handlers, event) => {
+      handlers.forEach((handler) => this.rawSocket()?.on(event, handler));
+    });
+  }
+
+  /**
+   * Drop one connect() hold - the last one closes the connection
+   */
+  release(): void {
+    this.users = Math.max(0, this.users - 1);
+    if (this.users === 0) {
+      this.disconnect();
+    }
+  }
+
+  /**
+   * Close the connection and forget subscriptions
+   */
+  disconnect(): void {
+    this.socket?.disconnect();
+    this.socket = null;
+    this.token = null;
+    this.users = 0;
+    this.strategyIds.clear();
+  }
+
+  /**
+   * Receive events for a specific strategy
+   */
+  subscribe(strategyId: string): void {
+    const count = this.strategyIds.get(strategyId) ?? 0;
+    this.strategyIds.set(strategyId, count + 1);
+    if (count === 0 && this.socket?.connected) {
+      this.emitSubscribe(strategyId);
+    }
+  }
+
+  /**
+   * Stop receiving events for a specific strategy
+   */
+  unsubscribe(strategyId: string): void {
+    const count = this.strategyIds.get(strategyId) ?? 0;
+    if (count > 1) {
+      this.strategyIds.set(strategyId, count - 1);
+      return;
+    }
+
+    this.strategyIds.delete(strategyId);
+    this.socket?.emit('unsubscribe', { strategyId }, () => undefined);
+  }
+
+  /**
+   * Listen for a server event - survives reconnects, returns a cleanup function
+   */
+  on<E extends EventName>(name: E, handler: ServerToClientEvents[E]): () => void {
+    const event: EventName = name;
+    const listener = handler as Listener;
+
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)?.add(listener);
+    this.rawSocket()?.on(event, listener);
+
+    return () => {
+      this.listeners.get(event)?.delete(listener);
+      this.rawSocket()?.off(event, listener);
+    };
+  }
+
+  // Rejections arrive as an 'exception' event; the ack only fires on success
+  private emitSubscribe(strategyId: string): void {
+    this.socket?.emit('subscribe', { strategyId }, () => undefined);
+  }
+
+  // socket.io-client's listener typing doesn't narrow on generic event names
+  private rawSocket(): Socket<Record<EventName, Listener>> | null {
+    return this.socket as unknown as Socket<Record<EventName, Listener>> | null;
+  }
+}
+
+// Export singleton instance
+export const notificationsSocket = new NotificationsSocket();
@@ -7,6 +7,11 @@ import {
   CreateStrategyDto,
   ApiStrategy,
   StrategyListResponse,
+  StrategySimulation,
+  ManualRebalanceResponse,
+  StrategyPerformance,
+  ValuationPoint,
+  UserPnl,
 } from '../types/api-strategy';
 
 export class StrategiesApi {
@@ -54,6 +59,64 @@ export class StrategiesApi {
     );
   }
 
+  /**
+   * Pause a strategy (the bot stops monitoring it)
+   */
+  async pauseStrategy(id: string, token: string): Promise<ApiStrategy> {
+    return apiClient.post<ApiStrategy, Record<string, never>>(`/strategies/${id}/pause`, {}, token);
+  }
+
+  /**
+   * Resume a paused strategy
+   */
+  async resumeStrategy(id: string, token: string): Promise<ApiStrategy> {
+    return apiClient.post<ApiStrategy, Record<string, never>>(`/strategies/${id}/resume`, {}, token);
+  }
+
+  /**
+   * Queue a rebalance now (rate limited, respects the on-chain min interval)
+   */
+  async rebalanceStrategy(id: string, token: string): Promise<ManualRebalanceResponse> {
+    return apiClient.post<ManualRebalanceResponse, Record<string, never>>(
+      `/strategies/${id}/rebalance`,
+      {},
+      token,
+    );
+  }
+
+  /**
+   * Simulate a strategy against the current portfolio (no transaction is sent)
+   */
+  async simulateStrategy(id: string, token: string): Promise<StrategySimulation> {
+    return apiClient.post<StrategySimulation, Record<string, never>>(
+      `/strategies/${id}/simulate`,
+      {},
+      token,
+    );
+  }
+
+  /**
+   * Get rebalance performance and current value of a strategy
+   */
+  async getPerformance(id: string, token: string): Promise<StrategyPerformance> {
+    return apiClient.get<StrategyPerformance>(`/strategies/${id}/performance`, token);
+  }
+
+  /**
+   * Get valuation history (value, P&L, TWR vs. buy-and-hold), oldest first
+   */
+  async getSnapshots(id: string, token: string, days?: number): Promise<ValuationPoint[]> {
+    const query = days ? `?days=${days}` : '';
+    return apiClient.get<ValuationPoint[]>(`/strategies/${id}/snapshots${query}`, token);
+  }
+
+  /**
+   * Get latest P&L of all strategies for current user
+   */
+  async getPnl(token: string): Promise<UserPnl> {
+    return apiClient.get<UserPnl>('/strategies/pnl', token);
+  }
+
   /**
    * Deactivate a strategy
    */
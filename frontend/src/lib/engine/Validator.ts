@@ -77,6 +77,21 @@ export class StrategyValidator {
       }
     });
 
+    // Combinators live on condition blocks - chain conditions instead of wiring several into an action
+    const conditionIds = new Set(
+      strategy.blocks.filter((b) => b.type === BlockType.CONDITION).map((b) => b.id)
+    );
+    actionBlocks.forEach((block) => {
+      const conditionInputs = strategy.connections.filter(
+        (conn) => conn.target.blockId === block.id && conditionIds.has(conn.source.blockId)
+      );
+      if (conditionInputs.length > 1) {
+        errors.push(
+          `Action block "${block.id}" has ${conditionInputs.length} conditions wired into it - chain them into one condition and set its combinator`
+        );
+      }
+    });
+
     // Check for condition blocks without proper configuration
     const conditionBlocks = strategy.blocks.filter(
       (b) => b.type === BlockType.CONDITION
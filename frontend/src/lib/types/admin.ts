@@ -0,0 +1,73 @@
+/**
+ * Admin Types
+ */
+
+export type QueueJobState = 'waiting' | 'active' | 'delayed' | 'completed' | 'failed' | 'paused';
+
+export interface QueueJob {
+  id: string;
+  name: string;
+  state: QueueJobState;
+  data: {
+    strategyId: string;
+    userAddress: string;
+    chainId: number;
+    drift: number;
+    priority?: 'high' | 'medium' | 'low';
+    triggeredBy?: 'auto' | 'user' | 'admin';
+  };
+  attemptsMade: number;
+  failedReason: string | null;
+  timestamp: number;
+  processedOn: number | null;
+  finishedOn: number | null;
+}
+
+export interface QueueJobsResponse {
+  counts: Partial<Record<QueueJobState, number>>;
+  jobs: QueueJob[];
+}
+
+export interface GetQueueJobsQuery {
+  state?: QueueJobState;
+  limit?: number;
+  skip?: number;
+}
+
+export interface MonitorPause {
+  scope: string; // 'global' or a strategy ID
+  strategyName?: string | null;
+  reason: string | null;
+  pausedBy: string;
+  createdAt: string;
+}
+
+export interface MonitorStatus {
+  paused: boolean;
+  global: MonitorPause | null;
+  strategies: MonitorPause[];
+}
+
+export interface PauseMonitorRequest {
+  strategyId?: string;
+  reason?: string;
+}
+
+export interface BotBalance {
+  chain: string;
+  chainId: number;
+  address: string;
+  balance: string | null;
+  formatted: string | null;
+  symbol: string;
+  error?: string;
+}
+
+export interface SystemAlert {
+  id: string;
+  userAddress: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown> | null;
+  createdAt: string;
+}
@@ -0,0 +1,40 @@
+/**
+ * Analytics Types
+ * Matches backend GET /analytics (daily per-chain rows written by the analytics worker)
+ */
+
+export interface AnalyticsDay {
+  chainId: number;
+  date: string; // UTC midnight
+  totalStrategies: number;
+  activeStrategies: number;
+  totalUsers: number;
+  totalRebalances: number; // Executed that day
+  successfulRebalances: number;
+  successRate: number; // Percentage
+  totalValueLockedUSD: number;
+  avgDriftReduction: number; // Percentage
+  totalGasSaved: string; // Gas units
+}
+
+export interface AnalyticsSummary {
+  totalValueLockedUSD: number;
+  totalStrategies: number;
+  activeStrategies: number;
+  totalUsers: number;
+  totalRebalances: number; // In the requested period
+  successfulRebalances: number;
+  successRate: number; // Percentage
+  avgDriftReduction: number; // Percentage
+  totalGasSaved: string; // Gas units
+}
+
+export interface AnalyticsResponse {
+  summary: AnalyticsSummary;
+  history: AnalyticsDay[]; // Oldest first
+}
+
+export interface GetAnalyticsQuery {
+  chainId?: number;
+  days?: number;
+}
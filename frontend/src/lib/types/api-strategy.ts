@@ -33,8 +33,138 @@ export interface ApiStrategy {
   updatedAt: string;
 }
 
+/**
+ * Response from POST /strategies/:id/rebalance
+ */
+export interface ManualRebalanceResponse {
+  jobId: string;
+  strategyId: string;
+  nextAllowedAt: string; // Earliest time the next manual rebalance is accepted
+  remaining: number; // Manual rebalances left in the current rate limit window
+}
+
 // Backend currently returns array directly, not wrapped object
 // Handle both formats for backward compatibility
 export type StrategyListResponse =
   | ApiStrategy[] // Current backend format
   | { strategies: ApiStrategy[]; count: number }; // Future format
+
+/**
+ * Dry-run result from POST /strategies/:id/simulate
+ * Token amounts are wei strings, weights are percentages
+ */
+export interface StrategySimulation {
+  strategyId: string;
+  chainId: number;
+  simulatedAt: string;
+  shouldExecute: boolean;
+  reason: string;
+  conditionsMet: boolean;
+  actionGates: Record<string, boolean>; // Action block ID -> condition path met
+  conditionSummary: string;
+  // Lookback conditions the API has no price history for (read as false in the dry-run)
+  historyGaps: {
+    conditionId: string;
+    conditionType: string;
+    token: string;
+    description?: string;
+  }[];
+  totalValueUSD: number;
+  drift: number; // Basis points
+  executionPlan: {
+    swaps: {
+      fromToken: string;
+      toToken: string;
+      fromAmount: string;
+      expectedToAmount: string;
+      reason: 'rebalance' | 'swap_action';
+    }[];
+    transfers: { token: string; to: string; amount: string }[];
+    estimatedGas: string;
+  };
+  quotes: {
+    fromToken: string;
+    toToken: string;
+    aggregator: string;
+    minOutput: string;
+    priceImpact: number;
+    isWrap: boolean;
+  }[];
+  quoteError: string | null;
+  weights: {
+    address: string;
+    symbol: string;
+    currentWeight: number;
+    expectedWeight: number;
+    targetWeight: number;
+    currentValueUSD: number;
+    expectedValueUSD: number;
+  }[];
+  gas: { gasLimit: string; gasCostWei: string; gasCostUSD: number | null } | null;
+}
+
+/**
+ * Rebalance track record and current value from GET /strategies/:id/performance
+ */
+export interface StrategyPerformance {
+  strategyId: string;
+  chainId: number;
+  totalRebalances: number;
+  successfulRebalances: number;
+  failedRebalances: number;
+  successRate: number; // Percentage
+  avgDriftReduction: number; // Basis points
+  totalGasUsed: string;
+  totalGasCost: string; // Wei
+  totalGasSaved: string; // Gas units
+  lastRebalanceAt: string | null;
+  currentValueUSD: number | null; // Null when the portfolio can't be valued
+  currentDrift: number | null; // Basis points
+  pnl: StrategyPnl | null; // Null until the first valuation snapshot
+}
+
+/**
+ * P&L as of the latest valuation snapshot (USD values, returns in %)
+ */
+export interface StrategyPnl {
+  asOf: string;
+  totalValueUSD: number;
+  netContributionsUSD: number; // Deposits - withdrawals
+  realizedPnlUSD: number;
+  unrealizedPnlUSD: number;
+  totalPnlUSD: number;
+  totalPnlPercent: number; // Of net contributions
+  twr: number; // Time-weighted return
+  benchmarkValueUSD: number; // Buy-and-hold of the initial weights
+  benchmarkReturn: number;
+  excessReturn: number; // Percentage points
+}
+
+/**
+ * One point of GET /strategies/:id/snapshots
+ */
+export interface ValuationPoint {
+  timestamp: string;
+  totalValueUSD: number;
+  netContributionsUSD: number;
+  totalPnlUSD: number;
+  twr: number;
+  benchmarkValueUSD: number;
+  benchmarkReturn: number;
+  rebalanced: boolean;
+}
+
+/**
+ * GET /strategies/pnl - latest P&L of every strategy the user owns
+ */
+export interface UserPnl {
+  strategies: (StrategyPnl & { strategyId: string; name: string; chainId: number })[];
+  totals: {
+    totalValueUSD: number;
+    netContributionsUSD: number;
+    realizedPnlUSD: number;
+    unrealizedPnlUSD: number;
+    totalPnlUSD: number;
+    totalPnlPercent: number;
+  };
+}
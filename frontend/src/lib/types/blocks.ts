@@ -31,12 +31,31 @@ export interface AssetBlock extends BaseBlock {
   };
 }
 
+export type ConditionType =
+  | "price"
+  | "portfolioValue"
+  | "assetValue"
+  | "drift" // Portfolio drift in bps
+  | "priceChange" // % price change over lookbackMinutes
+  | "movingAverage" // % above/below N-sample moving average
+  | "timeWindow" // UTC time-of-day / day-of-week window
+  | "gasPrice"; // Gas price in gwei
+
 export interface ConditionBlock extends BaseBlock {
   type: BlockType.CONDITION;
   data: {
-    conditionType: "price" | "portfolioValue" | "assetValue";
+    conditionType: ConditionType;
     operator: "GT" | "LT"; // More than (>) or Less than (<) only
-    valueUSD: number; // Value in USD
+    valueUSD: number; // Threshold: USD, bps (drift), % (priceChange/movingAverage) or gwei (gasPrice)
+    lookbackMinutes?: number; // priceChange
+    maPeriods?: number; // movingAverage
+    timeWindow?: {
+      daysOfWeek?: number[]; // 0 = Sunday ... 6 = Saturday (UTC), empty = every day
+      startHour: number; // 0-23 UTC, inclusive
+      endHour: number; // 0-23 UTC, exclusive
+    };
+    combinator?: "AND" | "OR"; // How this result combines with upstream conditions (default AND)
+    negate?: boolean; // NOT: invert the combined result
     description?: string; // Auto-generated description
   };
 }
@@ -13,7 +13,7 @@ export interface Caveat {
 // Core delegation structure (MetaMask Delegation Framework v1.3.0)
 // NOTE: v1.3.0 does NOT include 'deadline' field
 export interface DelegationData {
-  delegate: `0x${string}`;   // ANY_DELEGATE (0xa11) - allows RebalanceExecutor to redeem
+  delegate: `0x${string}`;   // RebalanceExecutor (ANY_DELEGATE 0xa11 where scoped delegations aren't configured)
   delegator: `0x${string}`;  // DeleGator smart account address
   authority: `0x${string}`;  // Parent delegation hash (0x0 for root)
   caveats: Caveat[];         // Restrictions array
@@ -29,8 +29,10 @@ export interface Delegation {
   userAddress: string;
   delegateAddress: string;
   delegationData: DelegationData;
+  caveats?: DelegationCaveats | null; // Decoded by the backend (null for legacy delegations)
   signature: `0x${string}`;
   isActive: boolean;
+  expiresAt?: string | null;
   createdAt: string;
   updatedAt: string;
   strategy?: {
@@ -51,6 +53,61 @@ export interface CreateDelegationDto {
   signature: `0x${string}`;
 }
 
+// Function a delegation may allow (GET /delegations/caveat-config)
+export interface AllowedMethod {
+  selector: `0x${string}`;
+  signature: string | null;
+}
+
+// Caveat options for a chain (GET /delegations/caveat-config)
+export interface CaveatConfig {
+  chainId: number;
+  delegate: `0x${string}` | null; // RebalanceExecutor
+  scoped: boolean;                // Delegations accepted (expiry, target and method caveats required)
+  enforcers: {
+    timestamp: `0x${string}` | null;
+    allowedTargets: `0x${string}` | null;
+    allowedMethods: `0x${string}` | null;
+    erc20PeriodTransfer: `0x${string}` | null;
+  };
+  dexRouters: `0x${string}`[];
+  tokens: `0x${string}`[];        // Strategy ERC-20s (native replaced by its wrapped token)
+  wrappedNative: `0x${string}` | null; // null when the chain has no wrapped native token
+  methods: AllowedMethod[];
+  maxExpiryDays: number;
+}
+
+// Per-period spend limit picked in the wizard
+export interface SpendLimitInput {
+  token: `0x${string}`;
+  amount: string;         // Token units (e.g. "100.5")
+  decimals: number;
+  periodDuration: number; // Seconds
+}
+
+// Permissions picked in the wizard, encoded into caveats before signing
+export interface DelegationScope {
+  expiryDays: number;
+  targets: `0x${string}`[];
+  methods: `0x${string}`[];
+  spendLimits: SpendLimitInput[];
+}
+
+// Structured caveats as decoded by the backend - null fields are unrestricted
+export interface DelegationCaveats {
+  validAfter: string | null;
+  expiresAt: string | null;
+  allowedTargets: string[] | null;
+  allowedTokens: string[] | null;
+  allowedMethods: AllowedMethod[] | null;
+  spendLimits: {
+    token: string;
+    periodAmount: string;
+    periodDuration: number;
+    startDate: string;
+  }[];
+}
+
 // Delegation stats
 export interface DelegationStats {
   totalDelegations: number;
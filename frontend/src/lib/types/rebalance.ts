@@ -29,6 +29,60 @@ export interface Rebalance {
   strategyName?: string;
 }
 
+/**
+ * One swap of a rebalance - amounts are raw token units
+ */
+export interface RebalanceSwap {
+  index: number;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  quotedAmountOut: string;
+  minAmountOut: string;
+  realizedAmountOut: string | null;
+  aggregator: string;
+  slippageBps: number | null; // Realized vs. quoted (negative = better than quoted)
+  priceImpact: number | null; // Percent
+}
+
+export interface PortfolioSnapshot {
+  totalValueUSD: number;
+  drift: number; // Basis points
+  tokens: {
+    address: string;
+    symbol: string;
+    balance: string;
+    decimals: number;
+    priceUSD: number;
+    valueUSD: number;
+    currentWeight: number; // Percent
+    targetWeight: number; // Percent
+  }[];
+}
+
+/**
+ * Pre-flight check that stopped a rebalance before broadcast
+ */
+export interface PreflightFailure {
+  check: 'quote' | 'balance' | 'allowance' | 'price_impact' | 'slippage' | 'simulation';
+  swapIndex: number | null; // null = the whole rebalance() call
+  token?: string;
+  message: string;
+  expected?: string;
+  actual?: string;
+}
+
+/**
+ * GET /rebalances/:id - rebalance with what the bot actually did
+ */
+export interface RebalanceDetail extends Rebalance {
+  swaps: RebalanceSwap[];
+  executionPlan: Record<string, unknown> | null;
+  portfolioBefore: PortfolioSnapshot | null;
+  portfolioAfter: PortfolioSnapshot | null;
+  failureReasons: PreflightFailure[] | null;
+}
+
 export interface RebalanceListResponse {
   data: Rebalance[];
   total: number;
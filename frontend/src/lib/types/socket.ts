@@ -0,0 +1,55 @@
+/**
+ * Socket Event Types
+ * Matches backend NotificationsGateway events
+ */
+
+// Queued by the monitor or a manual request - not picked up by the executor yet
+export interface RebalanceQueuedEvent {
+  strategyId: string;
+  drift: number; // Percentage (0 for manual requests)
+  timestamp: string;
+}
+
+export interface RebalanceStartedEvent {
+  strategyId: string;
+  drift: number; // Percentage
+  timestamp: string;
+}
+
+export interface RebalanceCompletedEvent {
+  strategyId: string;
+  txHash?: string;
+  drift?: number; // Percentage
+  driftAfter?: number; // Percentage
+  gasUsed?: string;
+  success?: boolean; // false when the rebalance failed
+  error?: string;
+  timestamp: string;
+}
+
+export interface SystemMessageEvent {
+  message: string;
+  data?: unknown;
+  timestamp: number;
+}
+
+export interface SubscriptionAck {
+  strategyId: string;
+  subscribed: boolean;
+}
+
+export interface ServerToClientEvents {
+  'rebalance:queued': (event: RebalanceQueuedEvent) => void;
+  'rebalance:started': (event: RebalanceStartedEvent) => void;
+  'rebalance:completed': (event: RebalanceCompletedEvent) => void;
+  'rebalance:failed': (event: RebalanceCompletedEvent) => void;
+  'strategy:updated': (event: { strategyId: string } & Record<string, unknown>) => void;
+  notification: (notification: Record<string, unknown>) => void;
+  'system:message': (event: SystemMessageEvent) => void;
+  exception: (error: { status: string; message: string }) => void;
+}
+
+export interface ClientToServerEvents {
+  subscribe: (body: { strategyId: string }, ack: (response: SubscriptionAck) => void) => void;
+  unsubscribe: (body: { strategyId: string }, ack: (response: SubscriptionAck) => void) => void;
+}
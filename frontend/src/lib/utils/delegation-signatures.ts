@@ -1,9 +1,11 @@
-import { type WalletClient } from 'viem';
+import { type WalletClient, concatHex, encodePacked, parseUnits } from 'viem';
 import {
   type DelegationData,
   type DelegationDomain,
   DELEGATION_TYPES,
   type Caveat,
+  type CaveatConfig,
+  type DelegationScope,
 } from '../types/delegation';
 
 /**
@@ -151,14 +153,6 @@ export async function signDelegation(
   }
 }
 
-/**
- * Create empty caveats array (no restrictions)
- * For MVP, delegations have no caveats - full trust to bot
- */
-export function createEmptyCaveats(): Caveat[] {
-  return [];
-}
-
 /**
  * Create root authority (no parent delegation)
  * For MVP, all delegations are root delegations
@@ -169,18 +163,17 @@ export function createRootAuthority(): `0x${string}` {
 }
 
 /**
- * Create time-based caveat (future enhancement)
- * Restricts delegation to expire after certain time
+ * Create TimestampEnforcer caveat
+ * Terms: uint128 validAfter (0 = immediately) ++ uint128 validUntil
  *
  * @param expirationTimestamp - Unix timestamp when delegation expires
- * @param enforcerAddress - Address of TimeEnforcer contract
+ * @param enforcerAddress - Address of TimestampEnforcer contract
  */
 export function createTimeCaveat(
   expirationTimestamp: number,
   enforcerAddress: `0x${string}`
 ): Caveat {
-  // Encode expiration timestamp as terms (32 bytes)
-  const terms = `0x${expirationTimestamp.toString(16).padStart(64, '0')}` as `0x${string}`;
+  const terms = encodePacked(['uint128', 'uint128'], [0n, BigInt(expirationTimestamp)]);
 
   return {
     enforcer: enforcerAddress,
@@ -190,11 +183,31 @@ export function createTimeCaveat(
 }
 
 /**
- * Create method whitelist caveat (future enhancement)
- * Restricts delegation to specific function selectors
+ * Create AllowedTargetsEnforcer caveat
+ * Restricts delegation to calls on specific contracts (packed 20-byte addresses)
  *
- * @param allowedMethods - Array of function selectors (e.g., ['0x12345678'])
- * @param enforcerAddress - Address of MethodEnforcer contract
+ * @param targets - Contracts the DeleGator may call
+ * @param enforcerAddress - Address of AllowedTargetsEnforcer contract
+ */
+export function createAllowedTargetsCaveat(
+  targets: `0x${string}`[],
+  enforcerAddress: `0x${string}`
+): Caveat {
+  const terms = concatHex(targets);
+
+  return {
+    enforcer: enforcerAddress,
+    terms,
+    args: '0x' as `0x${string}`,
+  };
+}
+
+/**
+ * Create AllowedMethodsEnforcer caveat
+ * Restricts delegation to specific function selectors (packed 4-byte selectors)
+ *
+ * @param allowedMethods - Array of function selectors (e.g., ['0x095ea7b3'])
+ * @param enforcerAddress - Address of AllowedMethodsEnforcer contract
  */
 export function createMethodWhitelistCaveat(
   allowedMethods: string[], // Array of 4-byte selectors
@@ -211,18 +224,27 @@ export function createMethodWhitelistCaveat(
 }
 
 /**
- * Create value limit caveat (future enhancement)
- * Restricts delegation to transactions below certain value
+ * Create ERC20PeriodTransferEnforcer caveat
+ * Caps how much of a token can leave the DeleGator per period
+ * Terms: address token ++ uint256 periodAmount ++ uint256 periodDuration ++ uint256 startDate
  *
- * @param maxValue - Maximum ETH value per transaction (in wei)
- * @param enforcerAddress - Address of ValueEnforcer contract
+ * @param token - ERC-20 token address
+ * @param periodAmount - Max amount per period (token wei)
+ * @param periodDuration - Period length in seconds
+ * @param startDate - Unix timestamp the first period starts
+ * @param enforcerAddress - Address of ERC20PeriodTransferEnforcer contract
  */
-export function createValueLimitCaveat(
-  maxValue: bigint,
+export function createPeriodTransferCaveat(
+  token: `0x${string}`,
+  periodAmount: bigint,
+  periodDuration: number,
+  startDate: number,
   enforcerAddress: `0x${string}`
 ): Caveat {
-  // Encode max value as terms (32 bytes)
-  const terms = `0x${maxValue.toString(16).padStart(64, '0')}` as `0x${string}`;
+  const terms = encodePacked(
+    ['address', 'uint256', 'uint256', 'uint256'],
+    [token, periodAmount, BigInt(periodDuration), BigInt(startDate)]
+  );
 
   return {
     enforcer: enforcerAddress,
@@ -232,17 +254,90 @@ export function createValueLimitCaveat(
 }
 
 /**
- * Get delegate address for creating "open delegations"
- * Returns MetaMask's ANY_DELEGATE constant (createOpenDelegation pattern)
+ * Default wizard permissions: 30-day expiry, every router, token and method
+ */
+export function createDefaultScope(config: CaveatConfig): DelegationScope {
+  return {
+    expiryDays: Math.min(30, config.maxExpiryDays),
+    targets: [...config.dexRouters, ...config.tokens],
+    methods: config.methods.map(m => m.selector),
+    spendLimits: [],
+  };
+}
+
+/**
+ * Encode wizard permissions into caveats
+ * Must satisfy backend CaveatsService.validate(): expiry, targets (executor, a router, strategy tokens)
+ * and methods
  *
- * This allows RebalanceExecutor contract to call DelegationManager.redeemDelegations()
- * on behalf of the bot, while keeping all validation logic on-chain in RebalanceExecutor.
+ * @throws if a required enforcer isn't deployed or a spend limit amount is invalid
+ */
+export function buildScopedCaveats(scope: DelegationScope, config: CaveatConfig): Caveat[] {
+  const { enforcers } = config;
+  if (
+    !config.scoped ||
+    !enforcers.timestamp ||
+    !enforcers.allowedTargets ||
+    !enforcers.allowedMethods ||
+    !config.delegate
+  ) {
+    throw new Error(`Scoped delegations are not configured for chain ${config.chainId}`);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const caveats: Caveat[] = [
+    createTimeCaveat(now + scope.expiryDays * 24 * 60 * 60, enforcers.timestamp),
+    createAllowedTargetsCaveat([config.delegate, ...scope.targets], enforcers.allowedTargets),
+  ];
+
+  if (scope.methods.length === 0) {
+    throw new Error('Select at least one allowed method');
+  }
+  caveats.push(createMethodWhitelistCaveat(scope.methods, enforcers.allowedMethods));
+
+  for (const limit of scope.spendLimits) {
+    if (!enforcers.erc20PeriodTransfer) break;
+
+    let periodAmount: bigint;
+    try {
+      periodAmount = parseUnits(limit.amount, limit.decimals);
+    } catch {
+      throw new Error(`Invalid spend limit amount "${limit.amount}"`);
+    }
+    if (periodAmount <= 0n) {
+      throw new Error('Spend limits must be greater than zero');
+    }
+
+    caveats.push(
+      createPeriodTransferCaveat(
+        limit.token,
+        periodAmount,
+        limit.periodDuration,
+        now,
+        enforcers.erc20PeriodTransfer
+      )
+    );
+  }
+
+  return caveats;
+}
+
+/**
+ * Get delegate address for the bot
+ * Scoped delegations name the RebalanceExecutor (it calls DelegationManager.redeemDelegations());
+ * chains without caveat enforcers fall back to MetaMask's ANY_DELEGATE open delegation
  *
  * @see https://docs.metamask.io/delegation-toolkit/reference/delegation/#createopendelegation
  * @see DelegationManager.sol:40-41 - ANY_DELEGATE = address(0xa11)
  */
-export function getBotExecutorAddress(chainId: number): `0x${string}` {
+export function getBotExecutorAddress(
+  chainId: number,
+  caveatConfig?: CaveatConfig | null
+): `0x${string}` {
+  if (caveatConfig?.chainId === chainId && caveatConfig.scoped && caveatConfig.delegate) {
+    return caveatConfig.delegate;
+  }
+
   // MetaMask's ANY_DELEGATE constant - allows any caller to redeem delegation
-  // This is the standard pattern for "open delegations" in MetaMask Delegation Framework
   return '0x0000000000000000000000000000000000000a11';
 }
@@ -0,0 +1,333 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, Pause, Play, RefreshCw, RotateCcw, ShieldAlert, Trash2, Zap } from "lucide-react";
+import { Navbar } from "@/components/layout/Navbar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { adminApi } from "@/lib/api/admin";
+import type {
+  BotBalance,
+  MonitorStatus,
+  QueueJobState,
+  QueueJobsResponse,
+  SystemAlert,
+} from "@/lib/types/admin";
+
+const JOB_STATES: QueueJobState[] = ["failed", "waiting", "active", "delayed", "completed"];
+
+/**
+ * Admin Page
+ *
+ * Operator dashboard for the bot fleet:
+ * - Pause/resume the monitor cron globally or per strategy
+ * - Force a rebalance
+ * - Inspect, retry and remove rebalance queue jobs
+ * - Bot wallet balances and recent system alerts
+ */
+const Admin = () => {
+  const { isBackendAuthenticated, getBackendToken } = useAuth();
+  const { toast } = useToast();
+
+  const [jobState, setJobState] = useState<QueueJobState>("failed");
+  const [queue, setQueue] = useState<QueueJobsResponse | null>(null);
+  const [monitor, setMonitor] = useState<MonitorStatus | null>(null);
+  const [balances, setBalances] = useState<BotBalance[]>([]);
+  const [alerts, setAlerts] = useState<SystemAlert[]>([]);
+  const [strategyId, setStrategyId] = useState("");
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const withToken = useCallback(async () => {
+    const token = await getBackendToken();
+    if (!token) {
+      throw new Error("Unable to retrieve backend JWT. Please ensure you are authenticated.");
+    }
+    return token;
+  }, [getBackendToken]);
+
+  const refresh = useCallback(async () => {
+    if (!isBackendAuthenticated) return;
+
+    setLoading(true);
+    try {
+      const token = await withToken();
+      const [queueData, monitorData, balanceData, alertData] = await Promise.all([
+        adminApi.getRebalanceJobs(token, { state: jobState }),
+        adminApi.getMonitorStatus(token),
+        adminApi.getBotBalances(token).catch(() => [] as BotBalance[]),
+        adminApi.getAlerts(token, 20),
+      ]);
+
+      setQueue(queueData);
+      setMonitor(monitorData);
+      setBalances(balanceData);
+      setAlerts(alertData);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load admin data");
+    } finally {
+      setLoading(false);
+    }
+  }, [isBackendAuthenticated, withToken, jobState]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Run an admin action, toast the outcome and reload the dashboard
+   */
+  const runAction = async (label: string, action: (token: string) => Promise<unknown>) => {
+    try {
+      const token = await withToken();
+      await action(token);
+      toast({ title: label });
+      await refresh();
+    } catch (err) {
+      toast({
+        title: `${label} failed`,
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const targetStrategy = strategyId.trim() || undefined;
+
+  if (!isBackendAuthenticated || error) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="container mx-auto px-4 py-16 text-center">
+          <ShieldAlert className="w-10 h-10 mx-auto mb-4 text-gray-400" />
+          <h1 className="text-xl font-semibold mb-2">Admin access required</h1>
+          <p className="text-sm text-gray-500">
+            {error ?? "Sign in with an operator wallet to continue."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Bot Operations</h1>
+          <Button variant="outline" size="sm" onClick={refresh} disabled={loading}>
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            Refresh
+          </Button>
+        </div>
+
+        {/* Monitor */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Monitor
+              <Badge variant={monitor?.paused ? "destructive" : "secondary"}>
+                {monitor?.paused ? "Paused" : "Running"}
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              Pauses apply from the next monitoring cycle. Leave the strategy ID empty to target every strategy.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Input
+                className="max-w-sm"
+                placeholder="Strategy ID (optional)"
+                value={strategyId}
+                onChange={(e) => setStrategyId(e.target.value)}
+              />
+              <Input
+                className="max-w-sm"
+                placeholder="Reason (optional)"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                onClick={() =>
+                  runAction("Monitor paused", (token) =>
+                    adminApi.pauseMonitor({ strategyId: targetStrategy, reason: reason || undefined }, token),
+                  )
+                }
+              >
+                <Pause className="w-4 h-4" />
+                Pause
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => runAction("Monitor resumed", (token) => adminApi.resumeMonitor(token, targetStrategy))}
+              >
+                <Play className="w-4 h-4" />
+                Resume
+              </Button>
+              <Button
+                disabled={!targetStrategy}
+                onClick={() =>
+                  targetStrategy &&
+                  runAction("Rebalance queued", (token) => adminApi.forceRebalance(targetStrategy, token))
+                }
+              >
+                <Zap className="w-4 h-4" />
+                Force rebalance
+              </Button>
+            </div>
+
+            {monitor?.global && (
+              <p className="text-sm text-gray-600">
+                Paused globally by {monitor.global.pausedBy}
+                {monitor.global.reason && ` — ${monitor.global.reason}`}
+              </p>
+            )}
+
+            {monitor && monitor.strategies.length > 0 && (
+              <ul className="divide-y rounded-md border bg-white text-sm">
+                {monitor.strategies.map((pause) => (
+                  <li key={pause.scope} className="flex items-center justify-between px-3 py-2">
+                    <div>
+                      <span className="font-medium">{pause.strategyName ?? pause.scope}</span>
+                      <span className="text-gray-500">
+                        {" "}· {pause.reason ?? "No reason"} · {formatDistanceToNow(new Date(pause.createdAt), { addSuffix: true })}
+                      </span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        runAction("Strategy resumed", (token) => adminApi.resumeMonitor(token, pause.scope))
+                      }
+                    >
+                      Resume
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Rebalance queue */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Rebalance Queue</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Tabs value={jobState} onValueChange={(value) => setJobState(value as QueueJobState)}>
+              <TabsList>
+                {JOB_STATES.map((state) => (
+                  <TabsTrigger key={state} value={state} className="capitalize">
+                    {state} ({queue?.counts[state] ?? 0})
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+
+            {queue?.jobs.length === 0 && <p className="text-sm text-gray-500">No {jobState} jobs</p>}
+
+            <ul className="divide-y rounded-md border bg-white text-sm">
+              {queue?.jobs.map((job) => (
+                <li key={job.id} className="flex items-start justify-between gap-4 px-3 py-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono">#{job.id}</span>
+                      <span className="truncate">{job.data.strategyId}</span>
+                      {job.data.triggeredBy && <Badge variant="outline">{job.data.triggeredBy}</Badge>}
+                    </div>
+                    <div className="text-gray-500">
+                      Chain {job.data.chainId} · {job.attemptsMade} attempt(s) ·{" "}
+                      {formatDistanceToNow(new Date(job.timestamp), { addSuffix: true })}
+                    </div>
+                    {job.failedReason && <div className="text-red-600 break-all">{job.failedReason}</div>}
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    {jobState === "failed" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => runAction(`Job ${job.id} retried`, (token) => adminApi.retryJob(job.id, token))}
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {jobState !== "active" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => runAction(`Job ${job.id} removed`, (token) => adminApi.removeJob(job.id, token))}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          {/* Bot wallets */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Bot Wallet</CardTitle>
+              {balances[0] && <CardDescription className="font-mono">{balances[0].address}</CardDescription>}
+            </CardHeader>
+            <CardContent>
+              {balances.length === 0 && <p className="text-sm text-gray-500">Bot wallet not configured</p>}
+              <ul className="space-y-2 text-sm">
+                {balances.map((balance) => (
+                  <li key={balance.chainId} className="flex justify-between">
+                    <span className="capitalize">{balance.chain}</span>
+                    {balance.error ? (
+                      <span className="text-red-600">RPC error</span>
+                    ) : (
+                      <span className="font-mono">
+                        {Number(balance.formatted).toFixed(4)} {balance.symbol}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+
+          {/* System alerts */}
+          <Card>
+            <CardHeader>
+              <CardTitle>System Alerts</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {alerts.length === 0 && <p className="text-sm text-gray-500">No alerts</p>}
+              <ul className="space-y-3 text-sm">
+                {alerts.map((alert) => (
+                  <li key={alert.id}>
+                    <div className="flex justify-between gap-2">
+                      <span className="font-medium">{alert.title}</span>
+                      <span className="shrink-0 text-gray-500">
+                        {formatDistanceToNow(new Date(alert.createdAt), { addSuffix: true })}
+                      </span>
+                    </div>
+                    <p className="text-gray-600 break-all">{alert.message}</p>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Admin;
@@ -3,6 +3,7 @@ import { Canvas, CanvasHandle } from "@/components/canvas/Canvas";
 import { FloatingChatPanel } from "@/components/ai-chat/FloatingChatPanel";
 import { FloatingToolbar } from "@/components/toolbar/FloatingToolbar";
 import { FloatingWorkflowPanel } from "@/components/workflow/FloatingWorkflowPanel";
+import { FloatingPreview } from "@/components/preview/FloatingPreview";
 import { LogoMarquee } from "@/components/layout/LogoMarquee";
 import { Navbar } from "@/components/layout/Navbar";
 import { useCanvas } from "@/hooks/useCanvas";
@@ -54,6 +55,7 @@ const Index = () => {
 
   // Strategy hook for saving
   const { saveStrategy, saving } = useStrategy();
+  const [savedStrategyId, setSavedStrategyId] = useState<string | null>(null);
   const { toast } = useToast();
 
   // Auth hook - for blocking canvas access until authenticated
@@ -380,7 +382,10 @@ const Index = () => {
     }
 
     // Save strategy
-    await saveStrategy(strategy, chainId);
+    const saved = await saveStrategy(strategy, chainId);
+    if (saved) {
+      setSavedStrategyId(saved.id);
+    }
   };
 
   // Keyboard shortcuts for undo/redo
@@ -509,6 +514,13 @@ const Index = () => {
             {/* Floating Workflow Panel */}
             <FloatingWorkflowPanel strategy={strategy} />
 
+            {/* Floating Preview - validation and dry-run simulation */}
+            <FloatingPreview
+              strategy={strategy}
+              selectedBlockId={selectedBlockId}
+              strategyId={savedStrategyId ?? activeDelegation?.strategyId}
+            />
+
             {/* Auth Required Modal - blocks canvas interaction until authenticated */}
             <AnimatePresence mode="wait">
               {showAuthModal && (
@@ -3,6 +3,7 @@ import { RefreshCw, Check, X, Users, DollarSign } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { PaymentPreviewModal } from "./PaymentPreviewModal";
 import { PaymentSuccessModal } from "./PaymentSuccessModal";
+import { PayrollSchedules } from "./PayrollSchedules";
 import type { Employee } from "../lib/supabase";
 
 interface BulkTransferEmployee {
@@ -22,6 +23,7 @@ interface BulkTransferProps {
   setSelectedEmployee?: (employee: Employee | null) => void;
   setActiveTab?: (tab: string) => void;
   onPaymentSuccess?: () => void;
+  companyName?: string;
 }
 
 export const BulkTransfer: React.FC<BulkTransferProps> = ({
@@ -31,6 +33,7 @@ export const BulkTransfer: React.FC<BulkTransferProps> = ({
   setSelectedEmployee,
   setActiveTab,
   onPaymentSuccess,
+  companyName,
 }) => {
   const [bulkEmployees, setBulkEmployees] = useState<BulkTransferEmployee[]>(
     []
@@ -438,6 +441,16 @@ export const BulkTransfer: React.FC<BulkTransferProps> = ({
             </div>
           </div>
         </div>
+
+        {/* Scheduled Payroll */}
+        <div className="mt-4 sm:mt-8">
+          <PayrollSchedules
+            employees={employees}
+            isWalletConnected={isWalletConnected}
+            onPaymentSuccess={onPaymentSuccess}
+            companyName={companyName}
+          />
+        </div>
       </div>
 
       <AnimatePresence>
@@ -449,6 +462,7 @@ export const BulkTransfer: React.FC<BulkTransferProps> = ({
             selectedToken={selectedToken}
             onConfirmSend={handleConfirmSendPayments}
             onPaymentSuccess={onPaymentSuccess}
+            companyName={companyName}
           />
         )}
       </AnimatePresence>
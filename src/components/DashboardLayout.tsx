@@ -14,6 +14,7 @@ import { useWallet } from "../contexts/WalletContext";
 import { motion, AnimatePresence } from "framer-motion";
 import { useEmployees } from "../hooks/useEmployees";
 import { useNotifications } from "../hooks/useNotifications";
+import { usePayrollSchedules } from "../hooks/usePayrollSchedules";
 import type { Employee } from "../lib/supabase";
 
 interface DashboardLayoutProps {
@@ -28,6 +29,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({
   const { isConnected, address, isConnecting } = useWallet();
   const { employees, refetch: refreshEmployees } = useEmployees();
   const { addNotification } = useNotifications();
+  const { generateDueRuns } = usePayrollSchedules();
 
   // Get activeTab from localStorage to maintain persistence
   const [activeTab, setActiveTab] = useState(() => {
@@ -84,6 +86,18 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({
     }
   }, [isConnected, address, addNotification]);
 
+  // Create due scheduled payroll runs whichever tab is open
+  useEffect(() => {
+    const checkDueRuns = () =>
+      generateDueRuns(employees).catch((err) =>
+        console.error("Failed to generate payroll runs:", err)
+      );
+
+    checkDueRuns();
+    const interval = setInterval(checkDueRuns, 60000);
+    return () => clearInterval(interval);
+  }, [employees, generateDueRuns]);
+
   // Open employee history modal when selectedEmployee changes, but not when on payments tab
   useEffect(() => {
     if (selectedEmployee && activeTab !== "bulk-transfer") {
@@ -193,6 +207,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({
             setSelectedEmployee={setSelectedEmployee}
             setActiveTab={setActiveTab}
             onPaymentSuccess={handlePaymentSuccess}
+            companyName={companyName}
           />
         );
       case "vat-refund":
@@ -285,6 +300,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({
             onClose={handleCloseEmployeeHistory}
             employee={selectedEmployee}
             onMakePayment={handleEmployeePayment}
+            companyName={companyName}
           />
         )}
       </AnimatePresence>
@@ -1,21 +1,25 @@
 import React, { useEffect, useState } from 'react';
-import { X, DollarSign, ArrowRight, ExternalLink } from 'lucide-react';
+import { X, DollarSign, ArrowRight, ExternalLink, FileDown } from 'lucide-react';
 import { motion } from 'framer-motion';
 import type { Employee, Payment } from '../lib/supabase';
 import { usePayments } from '../hooks/usePayments';
+import { getExplorerTxUrl } from '../utils/monad';
+import { buildPayslip, downloadPayslip } from '../utils/payslip';
 
 interface EmployeePaymentHistoryModalProps {
   isOpen: boolean;
   onClose: () => void;
   employee: Employee;
   onMakePayment?: (employee: Employee) => void;
+  companyName?: string;
 }
 
 export const EmployeePaymentHistoryModal: React.FC<EmployeePaymentHistoryModalProps> = ({
   isOpen,
   onClose,
   employee,
-  onMakePayment
+  onMakePayment,
+  companyName = 'Gemtra'
 }) => {
   const { loading, getPaymentsByEmployee } = usePayments();
   const [employeePayments, setEmployeePayments] = useState<Payment[]>([]);
@@ -44,6 +48,10 @@ export const EmployeePaymentHistoryModal: React.FC<EmployeePaymentHistoryModalPr
 
 
 
+  const handleDownloadPayslip = (payment: Payment) => {
+    downloadPayslip(buildPayslip(payment, employee, companyName));
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed':
@@ -197,7 +205,7 @@ export const EmployeePaymentHistoryModal: React.FC<EmployeePaymentHistoryModalPr
                           <div className="flex items-center justify-between">
                             <span className="text-xs text-gray-500">Tx:</span>
                             <a
-                              href={`https://testnet.explorer.perawallet.app/tx/${payment.transaction_hash}`}
+                              href={getExplorerTxUrl(payment.transaction_hash)}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="text-xs text-blue-600 hover:text-blue-800 font-mono flex items-center space-x-1 hover:underline"
@@ -214,6 +222,16 @@ export const EmployeePaymentHistoryModal: React.FC<EmployeePaymentHistoryModalPr
                             {payment.token}
                           </span>
                         </div>
+
+                        {payment.status === 'completed' && (
+                          <button
+                            onClick={() => handleDownloadPayslip(payment)}
+                            className="w-full mt-1 flex items-center justify-center space-x-1 text-xs text-gray-700 hover:text-gray-900 bg-gray-100 hover:bg-gray-200 rounded-lg py-1.5 transition-colors"
+                          >
+                            <FileDown className="w-3 h-3" />
+                            <span>Download payslip</span>
+                          </button>
+                        )}
                       </div>
                     </div>
 
@@ -244,7 +262,7 @@ export const EmployeePaymentHistoryModal: React.FC<EmployeePaymentHistoryModalPr
                               <div className="flex items-center space-x-2 mb-1">
                                 <span className="text-xs text-gray-500">Tx:</span>
                                 <a
-                                  href={`https://testnet.explorer.perawallet.app/tx/${payment.transaction_hash}`}
+                                  href={getExplorerTxUrl(payment.transaction_hash)}
                                   target="_blank"
                                   rel="noopener noreferrer"
                                   className="text-xs text-blue-600 hover:text-blue-800 font-mono flex items-center space-x-1 hover:underline"
@@ -263,6 +281,16 @@ export const EmployeePaymentHistoryModal: React.FC<EmployeePaymentHistoryModalPr
                             </div>
                           )}
                           
+                          {payment.status === 'completed' && (
+                            <button
+                              onClick={() => handleDownloadPayslip(payment)}
+                              title="Download payslip (PDF)"
+                              className="p-2 text-gray-600 hover:text-gray-900 transition-colors rounded-lg hover:bg-gray-100"
+                            >
+                              <FileDown className="w-4 h-4" />
+                            </button>
+                          )}
+
                           {/* Status */}
                           <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(payment.status)}`}>
                             {payment.status}
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
   X,
   Send,
@@ -15,10 +15,36 @@ import {
   isWalletConnected,
   getConnectedAccount,
   formatAddress,
+  MONAD_CONFIG,
+  BulkPaymentResult,
+  getExplorerTxUrl,
 } from "../utils/monad";
+import {
+  getPayrollToken,
+  getTokenUsdPrice,
+  usdToTokenAmount,
+} from "../utils/tokens";
 import { usePayments } from "../hooks/usePayments";
+import { usePayrollRuns } from "../hooks/usePayrollRuns";
+import {
+  RUN_STATUS_LABELS,
+  getRunApprovals,
+} from "../utils/payrollApproval";
 import { sendBulkPaymentEmails, PaymentEmailData } from "../utils/emailService";
+import { buildPayslip } from "../utils/payslip";
 import { PlatformFeeInfo } from "./PlatformFeeInfo";
+import { PayrollApprovalStatus } from "./PayrollApprovalStatus";
+
+interface PayrollRunItem {
+  paymentId: string;
+  employee: PaymentPreviewModalProps["employeesToPay"][number];
+  address: string;
+  tokenAmount: number;
+  fiatRate: number; // USD per token used for tokenAmount
+  status: BulkPaymentResult["status"];
+  txHash?: string;
+  error?: string;
+}
 
 interface PaymentPreviewModalProps {
   isOpen: boolean;
@@ -32,8 +58,10 @@ interface PaymentPreviewModalProps {
     selected?: boolean;
   }>;
   selectedToken: string;
+  payrollRunId?: string; // existing run; otherwise one is drafted for approval
   onConfirmSend: () => void;
   onPaymentSuccess?: () => void;
+  companyName?: string;
 }
 
 export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
@@ -41,18 +69,64 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
   onClose,
   employeesToPay,
   selectedToken,
+  payrollRunId,
   onConfirmSend,
   onPaymentSuccess,
+  companyName = "Gemtra",
 }) => {
-  const { createPayment } = usePayments();
+  const { updatePaymentResults } = usePayments();
+  const {
+    runs,
+    auditLog,
+    policy,
+    createRuns,
+    submitRun,
+    approveRun,
+    rejectRun,
+    startExecution,
+    recordExecution,
+  } = usePayrollRuns();
+  const [runId, setRunId] = useState<string | null>(payrollRunId ?? null);
+  const [approvalBusy, setApprovalBusy] = useState(false);
+  const [approvalError, setApprovalError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [paymentResult, setPaymentResult] = useState<{
     success: boolean;
     txHash?: string;
     error?: string;
     processed?: number;
+    failed?: number;
+    pending?: number;
+    mode?: "batch" | "sequential";
     emailResults?: { success: number; failed: number };
   } | null>(null);
+  const [payrollRun, setPayrollRun] = useState<PayrollRunItem[] | null>(null);
+  const [tokenPrice, setTokenPrice] = useState<number | null>(null);
+  const [priceError, setPriceError] = useState<string | null>(null);
+
+  const tokenToUse: "MON" | "USDC" = selectedToken === "USDC" ? "USDC" : "MON";
+  const payrollToken = getPayrollToken(tokenToUse, MONAD_CONFIG.chainId);
+
+  // Salaries are in USD - quote the selected token so the preview shows what is sent
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setTokenPrice(null);
+    setPriceError(null);
+
+    getTokenUsdPrice(payrollToken)
+      .then((price) => !cancelled && setTokenPrice(price))
+      .catch(
+        (error) =>
+          !cancelled &&
+          setPriceError(error instanceof Error ? error.message : String(error))
+      );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, payrollToken]);
 
   // Validate employeesToPay prop
   if (!employeesToPay || !Array.isArray(employeesToPay)) {
@@ -69,12 +143,231 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
     (sum, emp) => sum + (emp.amount || 0),
     0
   );
+  const formatTokenQuote = (amountUSD: number) =>
+    tokenPrice
+      ? `${usdToTokenAmount(amountUSD, tokenPrice, payrollToken).toLocaleString(
+          "en-US",
+          { maximumFractionDigits: 6 }
+        )} ${payrollToken.symbol}`
+      : selectedToken;
+
   const networkFees = employeesToPay.length * 0.001; // 0.001 mon per transaction
   const estimatedTime = employeesToPay.length * 1; // 1 second per transaction (Monad is faster)
 
   const walletConnected = isWalletConnected();
   const connectedAccount = getConnectedAccount();
 
+  const run = runs.find((r) => r.id === runId) ?? null;
+  const approvals = run ? getRunApprovals(run, auditLog) : [];
+  const canSend =
+    (run?.status === "approved" || run?.status === "partially_failed") &&
+    approvals.length >= run.required_approvals;
+  const requiredApprovals =
+    run?.required_approvals ?? policy?.required_approvals ?? 1;
+  const sendLabel = canSend
+    ? "Confirm & Send Payments"
+    : !run || run.status === "draft" || run.status === "pending_approval"
+    ? `Awaiting ${requiredApprovals} approval${requiredApprovals !== 1 ? "s" : ""}`
+    : RUN_STATUS_LABELS[run.status];
+
+  // Draft a run from the recipients (if needed) and submit it for approval
+  const handleSubmitForApproval = async (memo: string) => {
+    setApprovalBusy(true);
+    setApprovalError(null);
+    try {
+      if (run) {
+        await submitRun(run.id);
+      } else {
+        const [created] = await createRuns(
+          [
+            {
+              schedule_id: null,
+              scheduled_for: new Date().toISOString(),
+              token: tokenToUse,
+              items: employeesToPay.map((employee) => ({
+                employee_id: employee.id,
+                name: employee.name,
+                email: employee.email,
+                wallet_address: employee.wallet_address,
+                amount: employee.amount,
+              })),
+              memo: memo || null,
+            },
+          ],
+          { submit: true }
+        );
+        setRunId(created.id);
+      }
+    } catch (error) {
+      setApprovalError(getErrorMessage(error));
+    } finally {
+      setApprovalBusy(false);
+    }
+  };
+
+  const handleApprovalDecision = async (
+    decide: (id: string, signer: string) => Promise<void>,
+    signer: string
+  ) => {
+    if (!run) return;
+    setApprovalBusy(true);
+    setApprovalError(null);
+    try {
+      await decide(run.id, signer);
+    } catch (error) {
+      setApprovalError(getErrorMessage(error));
+    } finally {
+      setApprovalBusy(false);
+    }
+  };
+
+  // Send the given run items (all of them, or only the failed ones on retry)
+  // and write each recipient's outcome back to its payment row
+  const payRunItems = async (items: PayrollRunItem[], toSend: PayrollRunItem[]) => {
+    const result = await sendBulkPayment(
+      toSend.map((item) => ({ address: item.address, amount: item.tokenAmount })),
+      tokenToUse
+    );
+
+    const outcomes = new Map(
+      toSend.map((item, i) => {
+        const outcome = result.results?.[i];
+        return [
+          item.paymentId,
+          outcome
+            ? {
+                status: outcome.status,
+                txHash: outcome.txHash,
+                error: outcome.error,
+                platformFee: outcome.platformFee,
+              }
+            : {
+                status: "failed" as const,
+                txHash: undefined,
+                error: result.error || "Payment failed",
+                platformFee: undefined,
+              },
+        ];
+      })
+    );
+
+    const updatedItems = items.map((item) => {
+      const outcome = outcomes.get(item.paymentId);
+      return outcome ? { ...item, ...outcome } : item;
+    });
+    setPayrollRun(updatedItems);
+
+    try {
+      await updatePaymentResults(
+        toSend.map((item) => ({
+          id: item.paymentId,
+          status: outcomes.get(item.paymentId)!.status,
+          transactionHash: outcomes.get(item.paymentId)!.txHash,
+          tokenAmount: item.tokenAmount,
+          fiatRate: item.fiatRate,
+          platformFee: outcomes.get(item.paymentId)!.platformFee,
+        }))
+      );
+    } catch (dbError) {
+      console.error("Failed to record payment results:", dbError);
+      // Continue - the on-chain outcome is what matters
+    }
+
+    if (runId) {
+      await recordExecution(
+        runId,
+        toSend.map((item) => ({
+          payment_id: item.paymentId,
+          status: outcomes.get(item.paymentId)!.status,
+          transaction_hash: outcomes.get(item.paymentId)!.txHash,
+        }))
+      );
+    }
+
+    const newlyPaid = toSend.filter(
+      (item) => outcomes.get(item.paymentId)!.status === "completed"
+    );
+    const failed = updatedItems.filter((item) => item.status === "failed").length;
+    const pending = updatedItems.filter((item) => item.status === "pending").length;
+
+    if (newlyPaid.length === 0) {
+      setPaymentResult({
+        success: false,
+        error: result.error || "Payment failed",
+        processed: updatedItems.length - failed - pending,
+        failed,
+        pending,
+      });
+      return;
+    }
+
+    // Send email notifications to the employees paid in this attempt
+    let emailResults = { success: 0, failed: 0 };
+    try {
+      const paidAt = new Date();
+      const emailDataList: PaymentEmailData[] = newlyPaid.map((item) => ({
+        employeeName: item.employee.name,
+        employeeEmail: item.employee.email,
+        amount: item.employee.amount,
+        token: selectedToken,
+        transactionHash: outcomes.get(item.paymentId)!.txHash,
+        companyName,
+        paymentDate: paidAt.toLocaleDateString("en-US", {
+          year: "numeric",
+          month: "long",
+          day: "numeric",
+          hour: "2-digit",
+          minute: "2-digit",
+        }),
+        payslip: buildPayslip(
+          {
+            id: item.paymentId,
+            amount: item.employee.amount,
+            token: selectedToken,
+            status: "completed",
+            payment_date: paidAt.toISOString(),
+            transaction_hash: outcomes.get(item.paymentId)!.txHash,
+            token_amount: item.tokenAmount,
+            fiat_rate: item.fiatRate,
+            platform_fee: outcomes.get(item.paymentId)!.platformFee,
+          },
+          item.employee,
+          companyName
+        ),
+      }));
+
+      emailResults = await sendBulkPaymentEmails(emailDataList);
+      console.log("Email notification results:", emailResults);
+    } catch (emailError) {
+      console.error("Failed to send email notifications:", emailError);
+      // Don't fail the entire payment process if emails fail
+    }
+
+    // Call the payment success callback to trigger data refresh
+    if (onPaymentSuccess) {
+      console.log("PaymentPreviewModal: Calling onPaymentSuccess callback");
+      onPaymentSuccess();
+    }
+
+    setPaymentResult({
+      success: true,
+      txHash: result.txHash,
+      processed: updatedItems.length - failed - pending,
+      failed,
+      pending,
+      mode: result.mode,
+      emailResults,
+    });
+
+    // Wait a moment to show success, then trigger the parent callback
+    // (stay open while failed recipients can still be retried)
+    if (failed === 0) {
+      setTimeout(() => {
+        onConfirmSend();
+      }, 2000);
+    }
+  };
+
   const handleConfirmPayment = async () => {
     if (!walletConnected || !connectedAccount) {
       setPaymentResult({
@@ -83,156 +376,136 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
       });
       return;
     }
+    if (!run) {
+      setPaymentResult({
+        success: false,
+        error: "Submit this payroll run for approval first",
+      });
+      return;
+    }
 
     setIsProcessing(true);
     setPaymentResult(null);
 
+    let sending: PayrollRunItem[] = [];
     try {
       // Log the data being sent for debugging
       console.log("Preparing bulk payment with employees:", employeesToPay);
 
-      // Ensure we have valid employee data with addresses
-      const recipientsData = employeesToPay.map((emp) => {
-        console.log(
-          `Employee ${emp.name}: wallet_address = ${emp.wallet_address}, amount = ${emp.amount}`
-        );
+      // Re-quote at confirmation so salaries are paid at the current price
+      const price = await getTokenUsdPrice(payrollToken);
 
-        // Validate each employee has required fields
+      // Validate each employee has required fields
+      for (const emp of employeesToPay) {
         if (!emp.wallet_address || !emp.amount) {
           throw new Error(
             `Invalid data for employee ${emp.name}: missing wallet address or amount`
           );
         }
+      }
 
-        return {
-          address: emp.wallet_address,
-          amount: emp.amount,
-        };
-      });
-
-      console.log("Recipients data prepared:", recipientsData);
-
-      const tokenToUse: "MON" | "USDC" =
-        selectedToken === "USDC" ? "USDC" : "MON";
-
-      // Use the monad util to send the bulk payment. The monad utils handle
-      // provider interactions (switching network / sending transactions).
-      const result = await sendBulkPayment(recipientsData, tokenToUse);
-
-      if (result.success) {
-        // Record payments in Supabase
-        try {
-          for (const employee of employeesToPay) {
-            await createPayment({
-              employee_id: employee.id,
-              amount: employee.amount,
-              token: selectedToken,
-              transaction_hash: result.txHash,
-              status: "completed",
-              payment_date: new Date().toISOString(),
-            });
+      // Approval created one pending payment row per employee; skip anyone
+      // already paid by an earlier attempt
+      const runItems = new Map(run.items.map((item) => [item.employee_id, item]));
+      const items: PayrollRunItem[] = employeesToPay
+        .filter((employee) => runItems.get(employee.id)?.status !== "completed")
+        .map((employee) => {
+          const paymentId = runItems.get(employee.id)?.payment_id;
+          if (!paymentId) {
+            throw new Error(`${employee.name} is not part of the approved payroll run`);
           }
-        } catch (dbError) {
-          console.error("Failed to record payments in database:", dbError);
-          // Continue with success flow even if database recording fails
-        }
-
-        // Send email notifications
-        let emailResults = { success: 0, failed: 0 };
-        try {
-          const emailDataList: PaymentEmailData[] = employeesToPay.map(
-            (employee) => ({
-              employeeName: employee.name,
-              employeeEmail: employee.email,
-              amount: employee.amount,
-              token: selectedToken,
-              transactionHash: result.txHash,
-              companyName: "Gemtra", // You can make this dynamic later
-              paymentDate: new Date().toLocaleDateString("en-US", {
-                year: "numeric",
-                month: "long",
-                day: "numeric",
-                hour: "2-digit",
-                minute: "2-digit",
-              }),
-            })
-          );
-
-          emailResults = await sendBulkPaymentEmails(emailDataList);
-          console.log("Email notification results:", emailResults);
-        } catch (emailError) {
-          console.error("Failed to send email notifications:", emailError);
-          // Don't fail the entire payment process if emails fail
-        }
-
-        // Call the payment success callback to trigger data refresh
-        if (onPaymentSuccess) {
-          console.log("PaymentPreviewModal: Calling onPaymentSuccess callback");
-          onPaymentSuccess();
-        }
-
-        setPaymentResult({
-          success: true,
-          txHash: result.txHash,
-          processed: employeesToPay.length,
-          emailResults,
+          return {
+            paymentId,
+            employee,
+            address: employee.wallet_address,
+            tokenAmount: usdToTokenAmount(employee.amount, price, payrollToken),
+            fiatRate: price,
+            status: "pending",
+          };
         });
 
-        // Wait a moment to show success, then trigger the parent callback
-        setTimeout(() => {
-          onConfirmSend();
-        }, 2000);
-      } else {
-        setPaymentResult({
-          success: false,
-          error: result.error || "Payment failed",
-          processed: 0,
-        });
-      }
+      // Refuses unless the run has its approvals
+      await startExecution(run.id);
+      sending = items;
+      setPayrollRun(items);
+
+      await payRunItems(items, items);
     } catch (error) {
       console.error("Error in handleConfirmPayment:", error);
-      let errorMessage = "An unexpected error occurred";
-
-      if (error instanceof Error) {
-        if (
-          error.message.includes("asset") &&
-          error.message.includes("missing from")
-        ) {
-          // Extract the address from the error message
-          const addressMatch = error.message.match(
-            /missing from ([A-Z2-7]{58})/
-          );
-          // const failedAddress = addressMatch ? addressMatch[1] : 'one of the recipients';
-          const shortAddress = addressMatch
-            ? `${addressMatch[1].substring(0, 8)}...${addressMatch[1].substring(
-                -6
-              )}`
-            : "the recipient";
-
-          errorMessage = `Recipient ${shortAddress} has not opted-in to receive USDC. They must opt-in before receiving USDC payments. Ask them to opt-in first, or switch to MON payments.`;
-        } else if (error.message.includes("Wallet not connected")) {
-          errorMessage =
-            "Wallet is not connected. Please connect your wallet and try again.";
-        } else {
-          errorMessage = error.message;
-        }
-      }
-
       setPaymentResult({
         success: false,
-        error: errorMessage,
+        error: getErrorMessage(error),
       });
+      // Don't leave the run executing when nothing was settled
+      if (sending.length > 0 && run.status !== "completed") {
+        await recordExecution(
+          run.id,
+          sending.map((item) => ({ payment_id: item.paymentId, status: "failed" }))
+        ).catch((recordError) =>
+          console.error("Failed to record payroll run outcome:", recordError)
+        );
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Resume a run: pay only the recipients that failed, at the amounts quoted for the run
+  const handleRetryFailed = async () => {
+    if (!payrollRun) return;
+
+    const failedItems = payrollRun.filter((item) => item.status === "failed");
+    if (failedItems.length === 0) return;
+
+    setIsProcessing(true);
+    try {
+      if (runId) await startExecution(runId);
+      await payRunItems(payrollRun, failedItems);
+    } catch (error) {
+      console.error("Error retrying failed payments:", error);
+      setPaymentResult((previous) => ({
+        ...previous,
+        success: previous?.success ?? false,
+        error: getErrorMessage(error),
+      }));
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const getErrorMessage = (error: unknown) => {
+    let errorMessage = "An unexpected error occurred";
+
+    if (error instanceof Error) {
+      if (
+        error.message.includes("asset") &&
+        error.message.includes("missing from")
+      ) {
+        // Extract the address from the error message
+        const addressMatch = error.message.match(
+          /missing from ([A-Z2-7]{58})/
+        );
+        const shortAddress = addressMatch
+          ? `${addressMatch[1].substring(0, 8)}...${addressMatch[1].substring(
+              -6
+            )}`
+          : "the recipient";
+
+        errorMessage = `Recipient ${shortAddress} has not opted-in to receive USDC. They must opt-in before receiving USDC payments. Ask them to opt-in first, or switch to MON payments.`;
+      } else if (error.message.includes("Wallet not connected")) {
+        errorMessage =
+          "Wallet is not connected. Please connect your wallet and try again.";
+      } else {
+        errorMessage = error.message;
+      }
+    }
+
+    return errorMessage;
+  };
+
   const viewOnExplorer = () => {
     if (paymentResult?.txHash) {
-      window.open(
-        `https://explorer.monad.xyz/tx/${paymentResult.txHash}`,
-        "_blank"
-      );
+      window.open(getExplorerTxUrl(paymentResult.txHash), "_blank");
     }
   };
 
@@ -307,6 +580,18 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
             </div>
           )}
 
+          {priceError && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <AlertCircle className="w-5 h-5 text-red-600" />
+                <span className="text-red-800 font-medium">
+                  Cannot price {payrollToken.symbol}
+                </span>
+              </div>
+              <p className="text-red-700 text-sm mt-1">{priceError}</p>
+            </div>
+          )}
+
           {/* Payment Summary */}
           <div className="mb-6">
             <PlatformFeeInfo amount={totalAmount} />
@@ -398,8 +683,12 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
                         ${employee.amount.toLocaleString()}
                       </div>
                       <div className="text-sm text-gray-600">
-                        {selectedToken}
+                        {formatTokenQuote(employee.amount)}
                       </div>
+                      {run?.items.find((item) => item.employee_id === employee.id)
+                        ?.status === "completed" && (
+                        <div className="text-xs text-green-700">Paid</div>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -462,6 +751,9 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
                       <div className="font-bold text-gray-900">
                         ${totalAmount.toLocaleString()}
                       </div>
+                      <div className="text-sm text-gray-600">
+                        {formatTokenQuote(totalAmount)}
+                      </div>
                       <div className="text-sm text-gray-600">
                         + {networkFees.toFixed(3)} MON fees
                       </div>
@@ -486,6 +778,20 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
             </div>
           </div>
 
+          {/* Approval */}
+          <div className="mt-6">
+            <PayrollApprovalStatus
+              run={run}
+              approvals={approvals}
+              policy={policy}
+              isBusy={approvalBusy || isProcessing}
+              error={approvalError}
+              onSubmit={handleSubmitForApproval}
+              onApprove={(signer) => handleApprovalDecision(approveRun, signer)}
+              onReject={(signer) => handleApprovalDecision(rejectRun, signer)}
+            />
+          </div>
+
           {/* Payment Result */}
           {paymentResult && (
             <div className="mt-6">
@@ -504,6 +810,7 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
                   <div className="text-sm text-green-700 mb-2">
                     Successfully processed {paymentResult.processed} payment
                     {paymentResult.processed !== 1 ? "s" : ""}
+                    {paymentResult.mode === "batch" && " in a single transaction"}
                   </div>
                   {paymentResult.emailResults && (
                     <div className="text-sm text-green-700 mb-2">
@@ -553,6 +860,44 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
             </div>
           )}
 
+          {/* Recipients still unpaid */}
+          {payrollRun &&
+            payrollRun.some((item) => item.status !== "completed") &&
+            !isProcessing && (
+              <div className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-yellow-800 font-medium text-sm">
+                    {payrollRun.filter((item) => item.status === "failed").length}{" "}
+                    failed,{" "}
+                    {payrollRun.filter((item) => item.status === "pending").length}{" "}
+                    awaiting confirmation
+                  </span>
+                  {payrollRun.some((item) => item.status === "failed") && (
+                    <button
+                      onClick={handleRetryFailed}
+                      className="text-sm bg-gray-900 hover:bg-gray-800 text-white py-1.5 px-3 rounded-lg"
+                    >
+                      Retry failed payments
+                    </button>
+                  )}
+                </div>
+                <ul className="space-y-1 text-xs text-yellow-800">
+                  {payrollRun
+                    .filter((item) => item.status !== "completed")
+                    .map((item) => (
+                      <li key={item.paymentId}>
+                        <span className="font-medium">{item.employee.name}</span>{" "}
+                        ({formatAddressShort(item.address)}) -{" "}
+                        {item.tokenAmount} {payrollToken.symbol}:{" "}
+                        {item.status === "pending"
+                          ? "submitted, not confirmed yet"
+                          : item.error || "failed"}
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            )}
+
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-4 mt-8 pt-6 border-t border-gray-200">
             <button
@@ -565,14 +910,14 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
             {!paymentResult?.success && (
               <motion.button
                 onClick={handleConfirmPayment}
-                disabled={isProcessing || !walletConnected}
+                disabled={isProcessing || !walletConnected || !canSend}
                 className={`flex-1 bg-gray-900 hover:bg-gray-800 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 text-lg ${
-                  isProcessing || !walletConnected
+                  isProcessing || !walletConnected || !canSend
                     ? "opacity-50 cursor-not-allowed"
                     : ""
                 }`}
                 whileHover={{
-                  scale: isProcessing || !walletConnected ? 1 : 1.02,
+                  scale: isProcessing || !walletConnected || !canSend ? 1 : 1.02,
                 }}
                 whileTap={{ scale: 0.98 }}
               >
@@ -584,7 +929,7 @@ export const PaymentPreviewModal: React.FC<PaymentPreviewModalProps> = ({
                 ) : (
                   <div className="flex items-center justify-center space-x-2">
                     <Send className="w-5 h-5" />
-                    <span>Confirm & Send Payments</span>
+                    <span>{sendLabel}</span>
                   </div>
                 )}
               </motion.button>
@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from "react";
+import { ShieldCheck, Save, Plus, X } from "lucide-react";
+import { usePayrollRuns } from "../hooks/usePayrollRuns";
+import { formatAddress } from "../utils/monad";
+import type { PayrollAuditEntry } from "../lib/supabase";
+
+// Audit entries shown in settings (the full log is kept)
+const AUDIT_PREVIEW_LIMIT = 20;
+
+const formatActor = (actor: string) =>
+  actor.startsWith("0x") ? formatAddress(actor) : actor;
+
+const describeAuditEntry = (entry: PayrollAuditEntry) => {
+  const run = entry.run_id ? ` run ${entry.run_id.substring(0, 8)}` : "";
+  switch (entry.action) {
+    case "policy_updated":
+      return `updated approval policy (${entry.note})`;
+    case "approved":
+    case "rejected":
+      return `${entry.action}${run} (signed)`;
+    case "partially_failed":
+      return `finished${run} with failures${entry.note ? ` - ${entry.note}` : ""}`;
+    default:
+      return `${entry.action}${run}${entry.note ? ` - ${entry.note}` : ""}`;
+  }
+};
+
+export const PayrollApprovalSettings: React.FC = () => {
+  const { policy, auditLog, savePolicy } = usePayrollRuns();
+  const [approvers, setApprovers] = useState<string[]>([]);
+  const [requiredApprovals, setRequiredApprovals] = useState(1);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  useEffect(() => {
+    if (policy) {
+      setApprovers(policy.approvers);
+      setRequiredApprovals(policy.required_approvals);
+    }
+  }, [policy]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError("");
+    setSuccess("");
+    try {
+      await savePolicy(approvers, requiredApprovals);
+      setSuccess("Approval policy saved. It applies to runs submitted from now on.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save approval policy");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!policy) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-lg p-4 sm:p-6 shadow-sm text-xs sm:text-sm text-gray-600">
+        Connect your wallet to configure payroll approvals.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 sm:p-6 shadow-sm">
+      <div className="flex items-center space-x-2 sm:space-x-3 mb-4 sm:mb-6">
+        <div className="w-8 h-8 sm:w-10 sm:h-10 bg-black rounded-lg flex items-center justify-center">
+          <ShieldCheck className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+        </div>
+        <div>
+          <h2 className="text-base sm:text-xl font-semibold text-gray-900">
+            Payroll Approvals
+          </h2>
+          <p className="text-xs sm:text-sm text-gray-600">
+            Admin wallets that must sign off before a payroll run is paid
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+            Approvers
+          </label>
+          <div className="space-y-2">
+            {approvers.map((approver, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  value={approver}
+                  onChange={(e) =>
+                    setApprovers(
+                      approvers.map((a, i) => (i === index ? e.target.value : a))
+                    )
+                  }
+                  placeholder="0x..."
+                  className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm font-mono"
+                />
+                <button
+                  onClick={() => setApprovers(approvers.filter((_, i) => i !== index))}
+                  disabled={approvers.length === 1}
+                  className="p-2 text-gray-500 hover:text-red-600 transition-colors rounded-lg hover:bg-gray-100 disabled:opacity-50"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => setApprovers([...approvers, ""])}
+            className="mt-2 flex items-center space-x-1 text-xs sm:text-sm text-blue-600 hover:text-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add approver</span>
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-2">
+            Required Approvals
+          </label>
+          <div className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="number"
+              min={1}
+              max={Math.max(1, approvers.length)}
+              value={requiredApprovals}
+              onChange={(e) => setRequiredApprovals(parseInt(e.target.value, 10) || 1)}
+              className="bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 w-20 focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm"
+            />
+            <span>of {approvers.length} approvers</span>
+          </div>
+        </div>
+
+        {error && <div className="text-xs sm:text-sm text-red-600">{error}</div>}
+        {success && <div className="text-xs sm:text-sm text-green-700">{success}</div>}
+
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center space-x-2 btn-primary disabled:opacity-50 disabled:cursor-not-allowed px-3 py-2 sm:px-4 sm:py-2 text-sm sm:text-base"
+        >
+          <Save className="w-3 h-3 sm:w-4 sm:h-4" />
+          <span>{saving ? "Saving..." : "Save Policy"}</span>
+        </button>
+      </div>
+
+      {/* Audit log */}
+      <div className="border-t border-gray-200 mt-6 pt-4">
+        <h3 className="text-sm font-semibold text-gray-900 mb-2">Audit Log</h3>
+        {auditLog.length === 0 ? (
+          <p className="text-xs sm:text-sm text-gray-600">No payroll decisions yet.</p>
+        ) : (
+          <ul className="space-y-1 max-h-64 overflow-y-auto text-xs text-gray-700">
+            {[...auditLog]
+              .reverse()
+              .slice(0, AUDIT_PREVIEW_LIMIT)
+              .map((entry) => (
+                <li key={entry.id} className="flex justify-between gap-2">
+                  <span>
+                    <span className="font-mono">{formatActor(entry.actor)}</span>{" "}
+                    {describeAuditEntry(entry)}
+                  </span>
+                  <span className="text-gray-500 whitespace-nowrap">
+                    {new Date(entry.created_at).toLocaleString()}
+                  </span>
+                </li>
+              ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
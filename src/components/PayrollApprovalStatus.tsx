@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import { CheckCircle, Clock, PenLine, ShieldCheck, XCircle } from "lucide-react";
+import { formatAddress } from "../utils/monad";
+import { RUN_STATUS_LABELS, getRunStatusColor } from "../utils/payrollApproval";
+import type {
+  PayrollApprovalPolicy,
+  PayrollAuditEntry,
+  PayrollRun,
+} from "../lib/supabase";
+
+interface PayrollApprovalStatusProps {
+  run: PayrollRun | null;
+  approvals: PayrollAuditEntry[];
+  policy: PayrollApprovalPolicy | null;
+  isBusy: boolean;
+  error: string | null;
+  onSubmit: (memo: string) => void;
+  onApprove: (signer: string) => void;
+  onReject: (signer: string) => void;
+}
+
+export const PayrollApprovalStatus: React.FC<PayrollApprovalStatusProps> = ({
+  run,
+  approvals,
+  policy,
+  isBusy,
+  error,
+  onSubmit,
+  onApprove,
+  onReject,
+}) => {
+  const [memo, setMemo] = useState("");
+
+  const status = run?.status ?? "draft";
+  const approvers = run && run.status !== "draft" ? run.approvers : policy?.approvers ?? [];
+  const required =
+    run && run.status !== "draft"
+      ? run.required_approvals
+      : policy?.required_approvals ?? 1;
+  const signedBy = new Map(
+    approvals.map((entry) => [entry.actor.toLowerCase(), entry])
+  );
+  const rejection =
+    run?.status === "rejected" && run.reviewed_by ? run.reviewed_by : null;
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <ShieldCheck className="w-5 h-5 text-gray-700" />
+          <span className="font-semibold text-gray-900">Approval</span>
+          <span
+            className={`px-2 py-1 rounded-full text-xs font-medium ${getRunStatusColor(
+              status
+            )}`}
+          >
+            {RUN_STATUS_LABELS[status]}
+          </span>
+        </div>
+        <span className="text-sm text-gray-600">
+          {approvals.length} of {required} approval{required !== 1 ? "s" : ""}
+        </span>
+      </div>
+
+      {run?.memo && status !== "draft" && (
+        <div className="text-sm text-gray-700 mb-3">Memo: {run.memo}</div>
+      )}
+
+      {status === "draft" && (
+        <div className="space-y-2 mb-3">
+          {!run && (
+            <input
+              value={memo}
+              onChange={(e) => setMemo(e.target.value)}
+              placeholder="Memo (e.g. October salaries)"
+              className="bg-white border border-gray-300 text-gray-900 rounded-lg px-3 py-2 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm"
+            />
+          )}
+          <button
+            onClick={() => onSubmit(memo.trim())}
+            disabled={isBusy}
+            className="w-full bg-gray-900 hover:bg-gray-800 text-white font-medium py-2 px-4 rounded-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Submit for approval
+          </button>
+        </div>
+      )}
+
+      {/* Approvers */}
+      <ul className="space-y-2">
+        {approvers.map((approver) => {
+          const signed = signedBy.get(approver);
+          return (
+            <li
+              key={approver}
+              className="flex items-center justify-between text-sm"
+            >
+              <span className="font-mono text-gray-700">
+                {formatAddress(approver)}
+              </span>
+              {signed ? (
+                <span className="flex items-center space-x-1 text-green-700">
+                  <CheckCircle className="w-4 h-4" />
+                  <span>
+                    Signed {new Date(signed.created_at).toLocaleString()}
+                  </span>
+                </span>
+              ) : rejection === approver ? (
+                <span className="flex items-center space-x-1 text-red-700">
+                  <XCircle className="w-4 h-4" />
+                  <span>Rejected</span>
+                </span>
+              ) : status === "pending_approval" ? (
+                <span className="flex items-center gap-2">
+                  <button
+                    onClick={() => onApprove(approver)}
+                    disabled={isBusy}
+                    className="flex items-center space-x-1 text-xs bg-gray-900 hover:bg-gray-800 text-white py-1.5 px-3 rounded-lg disabled:opacity-50"
+                  >
+                    <PenLine className="w-3 h-3" />
+                    <span>Sign approval</span>
+                  </button>
+                  <button
+                    onClick={() => onReject(approver)}
+                    disabled={isBusy}
+                    className="text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                </span>
+              ) : (
+                <span className="flex items-center space-x-1 text-gray-500">
+                  <Clock className="w-4 h-4" />
+                  <span>Not signed</span>
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {status === "pending_approval" && (
+        <p className="text-xs text-gray-600 mt-3">
+          Each approver signs with their own wallet - the account must be
+          connected to this site. Funds cannot move until {required} of{" "}
+          {approvers.length} have signed.
+        </p>
+      )}
+      {error && <div className="text-sm text-red-600 mt-3">{error}</div>}
+    </div>
+  );
+};
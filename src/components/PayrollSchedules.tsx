@@ -0,0 +1,469 @@
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  CalendarClock,
+  Pause,
+  Play,
+  Plus,
+  Send,
+  Trash2,
+  X,
+} from "lucide-react";
+import { AnimatePresence } from "framer-motion";
+import { PaymentPreviewModal } from "./PaymentPreviewModal";
+import {
+  usePayrollSchedules,
+  PayrollScheduleInput,
+} from "../hooks/usePayrollSchedules";
+import { usePayrollRuns } from "../hooks/usePayrollRuns";
+import {
+  computeNextRunAt,
+  describeSchedule,
+  selectScheduleEmployees,
+} from "../utils/payrollSchedule";
+import { RUN_STATUS_LABELS, getRunStatusColor } from "../utils/payrollApproval";
+import type { Employee, PayrollRun } from "../lib/supabase";
+
+interface PayrollSchedulesProps {
+  employees: Employee[];
+  isWalletConnected: boolean;
+  onPaymentSuccess?: () => void;
+  companyName?: string;
+}
+
+// Re-check for due runs while the page is open
+const DUE_CHECK_INTERVAL_MS = 60000;
+
+const emptySchedule: PayrollScheduleInput = {
+  name: "",
+  frequency: "monthly",
+  day_of_month: 25,
+  cron_expression: "0 9 1 * *",
+  start_date: new Date().toISOString(),
+  selection: "all_active",
+  department: null,
+  token: "USDC",
+  is_active: true,
+};
+
+export const PayrollSchedules: React.FC<PayrollSchedulesProps> = ({
+  employees,
+  isWalletConnected,
+  onPaymentSuccess,
+  companyName,
+}) => {
+  const {
+    schedules,
+    createSchedule,
+    setScheduleActive,
+    deleteSchedule,
+    generateDueRuns,
+  } = usePayrollSchedules();
+  const { runs, refresh } = usePayrollRuns();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<PayrollScheduleInput>(emptySchedule);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [openRun, setOpenRun] = useState<PayrollRun | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const departments = useMemo(
+    () => [...new Set(employees.map((employee) => employee.department))].sort(),
+    [employees]
+  );
+
+  // Turn due schedule periods into pending runs, then pick up runs the
+  // dashboard may have created in the meantime
+  useEffect(() => {
+    const checkDueRuns = () =>
+      generateDueRuns(employees)
+        .then(() => refresh())
+        .catch((err) => console.error("Failed to generate payroll runs:", err));
+
+    checkDueRuns();
+    const interval = setInterval(checkDueRuns, DUE_CHECK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [employees, generateDueRuns, refresh]);
+
+  // Preview the first run date so admins can sanity-check cron expressions
+  const nextRunPreview = useMemo(() => {
+    try {
+      return computeNextRunAt(form, new Date()).toLocaleString();
+    } catch (err) {
+      return err instanceof Error ? err.message : "Invalid schedule";
+    }
+  }, [form]);
+
+  const handleCreateSchedule = async () => {
+    setFormError(null);
+
+    if (!form.name.trim()) {
+      setFormError("Schedule name is required");
+      return;
+    }
+    if (form.selection === "department" && !form.department) {
+      setFormError("Select a department");
+      return;
+    }
+
+    try {
+      computeNextRunAt(form, new Date());
+      await createSchedule({ ...form, name: form.name.trim() });
+      setForm(emptySchedule);
+      setShowForm(false);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to create schedule");
+    }
+  };
+
+  const handleRunAction = async (action: () => Promise<void>) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Action failed");
+    }
+  };
+
+  const runName = (run: PayrollRun) =>
+    run.memo ??
+    schedules.find((schedule) => schedule.id === run.schedule_id)?.name ??
+    (run.schedule_id ? "Scheduled payroll" : "Manual payroll");
+
+  const openRuns = runs.filter(
+    (run) => run.status !== "completed" && run.status !== "rejected"
+  );
+  const recentRuns = runs
+    .filter((run) => run.status === "completed" || run.status === "rejected")
+    .slice(0, 5);
+
+  // What an admin can do next with a run (all handled in the payment modal)
+  const runActionLabel = (run: PayrollRun) => {
+    switch (run.status) {
+      case "draft":
+      case "pending_approval":
+        return "Review";
+      case "approved":
+        return "Pay";
+      case "partially_failed":
+        return "Retry";
+      default:
+        return null;
+    }
+  };
+
+  const inputClassName =
+    "bg-gray-100 border border-gray-300 text-gray-900 rounded-lg px-3 py-2 w-full focus:ring-2 focus:ring-black focus:border-transparent transition-all duration-200 text-sm";
+
+  const renderRun = (run: PayrollRun) => (
+    <div key={run.id} className="bg-white border border-gray-200 rounded-lg p-3 sm:p-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <div className="font-medium text-gray-900 text-sm sm:text-base">
+            {runName(run)} · {new Date(run.scheduled_for).toLocaleDateString()}
+          </div>
+          <div className="text-xs sm:text-sm text-gray-600">
+            {run.items.length} employee{run.items.length !== 1 ? "s" : ""} · $
+            {run.total_amount.toLocaleString()} in {run.token} · needs{" "}
+            {run.required_approvals} of {run.approvers.length} approvals
+            {run.reviewed_by &&
+              ` · ${run.status === "rejected" ? "rejected" : "approved"} by ${run.reviewed_by.substring(
+                0,
+                6
+              )}...${run.reviewed_by.substring(run.reviewed_by.length - 4)}`}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span
+            className={`px-2 py-1 rounded-full text-xs font-medium ${getRunStatusColor(
+              run.status
+            )}`}
+          >
+            {RUN_STATUS_LABELS[run.status]}
+          </span>
+          {runActionLabel(run) && (
+            <button
+              onClick={() => setOpenRun(run)}
+              disabled={!isWalletConnected}
+              className="flex items-center space-x-1 text-xs sm:text-sm bg-gray-900 hover:bg-gray-800 text-white py-1.5 px-3 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Send className="w-3 h-3" />
+              <span>{runActionLabel(run)}</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      <div className="bg-white border border-gray-200 rounded-lg p-4 sm:p-8 shadow-sm">
+        <div className="flex items-center justify-between mb-4 sm:mb-6">
+          <div className="flex items-center space-x-2">
+            <CalendarClock className="w-5 h-5 text-gray-700" />
+            <h3 className="text-base sm:text-lg font-semibold text-gray-900">
+              Scheduled Payroll
+            </h3>
+          </div>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            disabled={!isWalletConnected}
+            className="flex items-center space-x-1 text-xs sm:text-sm text-blue-600 hover:text-blue-700 transition-colors disabled:opacity-50"
+          >
+            {showForm ? <X className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+            <span>{showForm ? "Cancel" : "New Schedule"}</span>
+          </button>
+        </div>
+
+        {/* New schedule */}
+        {showForm && (
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4 sm:mb-6 space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+                  Name
+                </label>
+                <input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Monthly salaries"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+                  Frequency
+                </label>
+                <select
+                  value={form.frequency}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      frequency: e.target.value as PayrollScheduleInput["frequency"],
+                    })
+                  }
+                  className={inputClassName}
+                >
+                  <option value="monthly">Monthly</option>
+                  <option value="biweekly">Every 2 weeks</option>
+                  <option value="cron">Custom (cron)</option>
+                </select>
+              </div>
+
+              {form.frequency === "monthly" && (
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+                    Day of Month
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={31}
+                    value={form.day_of_month ?? 1}
+                    onChange={(e) =>
+                      setForm({
+                        ...form,
+                        day_of_month: Math.min(31, Math.max(1, parseInt(e.target.value, 10) || 1)),
+                      })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+              {form.frequency === "cron" && (
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+                    Cron Expression
+                  </label>
+                  <input
+                    value={form.cron_expression ?? ""}
+                    onChange={(e) => setForm({ ...form, cron_expression: e.target.value })}
+                    placeholder="0 9 1 * *"
+                    className={`${inputClassName} font-mono`}
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+                  {form.frequency === "biweekly" ? "First Pay Date" : "Starts"}
+                </label>
+                <input
+                  type="date"
+                  value={form.start_date.substring(0, 10)}
+                  onChange={(e) =>
+                    e.target.value &&
+                    setForm({
+                      ...form,
+                      start_date: new Date(`${e.target.value}T00:00:00`).toISOString(),
+                    })
+                  }
+                  className={inputClassName}
+                />
+              </div>
+
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+                  Employees
+                </label>
+                <select
+                  value={form.selection === "department" ? form.department ?? "" : ""}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      selection: e.target.value ? "department" : "all_active",
+                      department: e.target.value || null,
+                    })
+                  }
+                  className={inputClassName}
+                >
+                  <option value="">All active employees</option>
+                  {departments.map((department) => (
+                    <option key={department} value={department}>
+                      Active in {department}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+                  Payment Token
+                </label>
+                <select
+                  value={form.token}
+                  onChange={(e) =>
+                    setForm({ ...form, token: e.target.value as PayrollScheduleInput["token"] })
+                  }
+                  className={inputClassName}
+                >
+                  <option value="MON">MON</option>
+                  <option value="USDC">USDC</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="text-xs sm:text-sm text-gray-600">
+              First run: {nextRunPreview} ·{" "}
+              {selectScheduleEmployees(form, employees).length} employee(s) at
+              their current salary
+            </div>
+            {formError && (
+              <div className="text-xs sm:text-sm text-red-600">{formError}</div>
+            )}
+            <button
+              onClick={handleCreateSchedule}
+              className="w-full bg-gray-900 hover:bg-gray-800 text-white font-semibold py-2 px-4 rounded-lg text-sm"
+            >
+              Create Schedule
+            </button>
+          </div>
+        )}
+
+        {/* Schedules */}
+        {schedules.length > 0 ? (
+          <div className="space-y-2 mb-4 sm:mb-6">
+            {schedules.map((schedule) => (
+              <div
+                key={schedule.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 bg-gray-50 border border-gray-200 rounded-lg"
+              >
+                <div>
+                  <div className="font-medium text-gray-900 text-sm sm:text-base">
+                    {schedule.name}
+                  </div>
+                  <div className="text-xs sm:text-sm text-gray-600">
+                    {describeSchedule(schedule)} ·{" "}
+                    {schedule.selection === "department"
+                      ? schedule.department
+                      : "All active"}{" "}
+                    · {schedule.token} ·{" "}
+                    {schedule.is_active
+                      ? `next ${new Date(schedule.next_run_at).toLocaleString()}`
+                      : "paused"}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() =>
+                      handleRunAction(() =>
+                        setScheduleActive(schedule.id, !schedule.is_active)
+                      )
+                    }
+                    title={schedule.is_active ? "Pause" : "Resume"}
+                    className="p-2 text-gray-600 hover:text-gray-900 transition-colors rounded-lg hover:bg-gray-100"
+                  >
+                    {schedule.is_active ? (
+                      <Pause className="w-4 h-4" />
+                    ) : (
+                      <Play className="w-4 h-4" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => handleRunAction(() => deleteSchedule(schedule.id))}
+                    title="Delete"
+                    className="p-2 text-gray-600 hover:text-red-600 transition-colors rounded-lg hover:bg-gray-100"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          !showForm && (
+            <p className="text-xs sm:text-sm text-gray-600 mb-4">
+              No schedules yet. Create one to prepare payroll runs automatically
+              for review.
+            </p>
+          )
+        )}
+
+        {actionError && (
+          <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-xs sm:text-sm text-red-700">
+            {actionError}
+          </div>
+        )}
+
+        {/* Runs */}
+        {openRuns.length > 0 && (
+          <div className="space-y-2 mb-4">
+            <h4 className="text-sm font-semibold text-gray-900">Awaiting Action</h4>
+            {openRuns.map(renderRun)}
+          </div>
+        )}
+        {recentRuns.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-gray-900">Recent Runs</h4>
+            {recentRuns.map(renderRun)}
+          </div>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {openRun && (
+          <PaymentPreviewModal
+            isOpen={!!openRun}
+            onClose={() => {
+              setOpenRun(null);
+              refresh();
+            }}
+            employeesToPay={openRun.items.map((item) => ({
+              id: item.employee_id,
+              name: item.name,
+              email: item.email,
+              wallet_address: item.wallet_address,
+              amount: item.amount,
+            }))}
+            selectedToken={openRun.token}
+            payrollRunId={openRun.id}
+            onConfirmSend={() => {
+              setOpenRun(null);
+              refresh();
+            }}
+            onPaymentSuccess={onPaymentSuccess}
+            companyName={companyName}
+          />
+        )}
+      </AnimatePresence>
+    </>
+  );
+};
@@ -12,6 +12,7 @@ import {
 import { motion } from "framer-motion";
 import { useAuth } from "../hooks/useAuth";
 import { supabase } from "../lib/supabase";
+import { PayrollApprovalSettings } from "./PayrollApprovalSettings";
 
 interface SettingsPageProps {
   onBack: () => void;
@@ -400,6 +401,11 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
                 </div>
               </div>
             </div>
+
+            {/* Payroll Approvals */}
+            <div className="mt-4 sm:mt-8">
+              <PayrollApprovalSettings />
+            </div>
           </div>
 
           {/* Profile Summary */}
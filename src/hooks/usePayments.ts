@@ -184,6 +184,146 @@ export const usePayments = () => {
     [walletAddress, payments]
   );
 
+  // Persist a change to the stored list. Reads localStorage rather than state
+  // so several calls within one handler don't overwrite each other.
+  const saveStoredPayments = useCallback(
+    (update: (current: Payment[]) => Payment[]) => {
+      if (!walletAddress) {
+        throw new Error("Wallet not connected");
+      }
+
+      const localStorageKey = `Zarfa_payments_${walletAddress}`;
+      const stored = localStorage.getItem(localStorageKey);
+      const current: Payment[] = stored ? JSON.parse(stored) : [];
+      const updatedPayments = update(current);
+
+      setPayments(updatedPayments);
+      localStorage.setItem(localStorageKey, JSON.stringify(updatedPayments));
+      return updatedPayments;
+    },
+    [walletAddress]
+  );
+
+  // Create one payment row per recipient of a payroll run
+  const createPayments = useCallback(
+    async (
+      paymentsData: Array<Omit<Payment, "id" | "user_id" | "created_at">>
+    ) => {
+      setLoading(true);
+      setError(null);
+
+      if (!walletAddress) {
+        throw new Error("Wallet not connected");
+      }
+
+      try {
+        const now = new Date().toISOString();
+        const newPayments: Payment[] = paymentsData.map((paymentData) => ({
+          id: generateUUID(),
+          user_id: walletAddress,
+          ...paymentData,
+          created_at: now,
+        }));
+
+        saveStoredPayments((current) => [...newPayments, ...current]);
+
+        // Try to also save to Supabase for backward compatibility
+        try {
+          await supabase.from("payments").insert(newPayments);
+        } catch (supabaseError) {
+          console.error(
+            "Failed to save payments to Supabase (continuing anyway):",
+            supabaseError
+          );
+        }
+
+        return newPayments;
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to create payments";
+        setError(errorMessage);
+        throw new Error(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [walletAddress, saveStoredPayments]
+  );
+
+  // Write per-recipient outcomes of a payroll run back to their payment rows
+  const updatePaymentResults = useCallback(
+    async (
+      results: Array<{
+        id: string;
+        status: "pending" | "completed" | "failed";
+        transactionHash?: string;
+        tokenAmount?: number;
+        fiatRate?: number;
+        platformFee?: number;
+      }>
+    ) => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const byId = new Map(results.map((result) => [result.id, result]));
+        saveStoredPayments((current) =>
+          current.map((payment) => {
+            const result = byId.get(payment.id);
+            if (!result) return payment;
+            return {
+              ...payment,
+              status: result.status,
+              transaction_hash: result.transactionHash ?? payment.transaction_hash,
+              token_amount: result.tokenAmount ?? payment.token_amount,
+              fiat_rate: result.fiatRate ?? payment.fiat_rate,
+              platform_fee: result.platformFee ?? payment.platform_fee,
+            };
+          })
+        );
+
+        // Try to also update in Supabase for backward compatibility
+        try {
+          await Promise.all(
+            results.map((result) =>
+              supabase
+                .from("payments")
+                .update({
+                  status: result.status,
+                  ...(result.transactionHash
+                    ? { transaction_hash: result.transactionHash }
+                    : {}),
+                  ...(result.tokenAmount !== undefined
+                    ? { token_amount: result.tokenAmount }
+                    : {}),
+                  ...(result.fiatRate !== undefined
+                    ? { fiat_rate: result.fiatRate }
+                    : {}),
+                  ...(result.platformFee !== undefined
+                    ? { platform_fee: result.platformFee }
+                    : {}),
+                })
+                .eq("id", result.id)
+            )
+          );
+        } catch (supabaseError) {
+          console.error(
+            "Failed to update payments in Supabase (continuing anyway):",
+            supabaseError
+          );
+        }
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to update payments";
+        setError(errorMessage);
+        throw new Error(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [saveStoredPayments]
+  );
+
   const getPaymentsByEmployee = useCallback(
     async (employeeId: string) => {
       setLoading(true);
@@ -251,7 +391,9 @@ export const usePayments = () => {
     loading,
     error,
     createPayment,
+    createPayments,
     updatePaymentStatus,
+    updatePaymentResults,
     getPaymentsByEmployee,
     getAllPayments,
   };
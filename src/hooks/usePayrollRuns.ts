@@ -0,0 +1,605 @@
+import { useState, useCallback, useEffect } from "react";
+import { supabase } from "../lib/supabase";
+import type {
+  Payment,
+  PayrollApprovalPolicy,
+  PayrollAuditEntry,
+  PayrollRun,
+} from "../lib/supabase";
+import { useWallet } from "../contexts/WalletContext";
+import { useNotifications } from "./useNotifications";
+import { usePayments } from "./usePayments";
+import { signMessage } from "../utils/monad";
+import {
+  buildApprovalMessage,
+  computeRunDigest,
+  defaultApprovalPolicy,
+  getRunApprovals,
+  normalizeApprovalPolicy,
+  recoverMessageSigner,
+  RUN_STATUS_LABELS,
+} from "../utils/payrollApproval";
+
+// Helper function to generate a UUID
+function generateUUID() {
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, function (c) {
+    const r = (Math.random() * 16) | 0;
+    const v = c === "x" ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+}
+
+export type PayrollRunInput = Pick<
+  PayrollRun,
+  "schedule_id" | "scheduled_for" | "token" | "items" | "memo"
+>;
+
+export interface PayrollRunOutcome {
+  payment_id: string;
+  status: Payment["status"];
+  transaction_hash?: string;
+}
+
+// Runs stored before the approval workflow used pending/paid statuses
+const LEGACY_STATUSES: Record<string, PayrollRun["status"]> = {
+  pending: "pending_approval",
+  paid: "completed",
+};
+
+export const usePayrollRuns = () => {
+  const [walletAddress, setWalletAddress] = useState<string | null>(null);
+  const [runs, setRuns] = useState<PayrollRun[]>([]);
+  const [auditLog, setAuditLog] = useState<PayrollAuditEntry[]>([]);
+  const [policy, setPolicy] = useState<PayrollApprovalPolicy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { address, isConnected } = useWallet();
+  const { addNotification } = useNotifications();
+  const { createPayments } = usePayments();
+
+  // Check wallet connection on hook initialization
+  useEffect(() => {
+    if (isConnected && address) {
+      setWalletAddress(address);
+    } else {
+      setWalletAddress(null);
+    }
+  }, [address, isConnected]);
+
+  const readStored = useCallback(
+    <T>(key: string, fallback: T): T => {
+      if (!walletAddress) return fallback;
+      try {
+        const stored = localStorage.getItem(`${key}_${walletAddress}`);
+        return stored ? JSON.parse(stored) : fallback;
+      } catch (parseError) {
+        console.error(`Error parsing ${key} from localStorage:`, parseError);
+        return fallback;
+      }
+    },
+    [walletAddress]
+  );
+
+  const readPolicy = useCallback((): PayrollApprovalPolicy => {
+    if (!walletAddress) throw new Error("Wallet not connected");
+    return readStored<PayrollApprovalPolicy | null>(
+      "Zarfa_payroll_approval_policy",
+      null
+    ) ?? defaultApprovalPolicy(walletAddress);
+  }, [walletAddress, readStored]);
+
+  const readRuns = useCallback((): PayrollRun[] => {
+    const stored = readStored<PayrollRun[]>("Zarfa_payroll_runs", []);
+    if (!walletAddress) return stored;
+
+    const current = readPolicy();
+    return stored.map((run) => ({
+      ...run,
+      status: LEGACY_STATUSES[run.status] ?? run.status,
+      memo: run.memo ?? null,
+      created_by: run.created_by ?? null,
+      approvers: run.approvers ?? current.approvers,
+      required_approvals: run.required_approvals ?? current.required_approvals,
+      submitted_at: run.submitted_at ?? null,
+      executed_at: run.executed_at ?? null,
+      completed_at: run.completed_at ?? null,
+    }));
+  }, [walletAddress, readStored, readPolicy]);
+
+  // Persist runs. Reads localStorage rather than state so other hook
+  // instances (the dashboard's due-run check) never overwrite each other.
+  const saveRuns = useCallback(
+    (update: (current: PayrollRun[]) => PayrollRun[]) => {
+      if (!walletAddress) {
+        throw new Error("Wallet not connected");
+      }
+
+      const updated = update(readRuns());
+      localStorage.setItem(
+        `Zarfa_payroll_runs_${walletAddress}`,
+        JSON.stringify(updated)
+      );
+      setRuns(updated);
+      return updated;
+    },
+    [walletAddress, readRuns]
+  );
+
+  // The audit log is append-only: entries are never edited or removed
+  const appendAudit = useCallback(
+    async (
+      entries: Array<Omit<PayrollAuditEntry, "id" | "user_id" | "created_at">>
+    ) => {
+      if (!walletAddress) {
+        throw new Error("Wallet not connected");
+      }
+
+      const now = new Date().toISOString();
+      const newEntries: PayrollAuditEntry[] = entries.map((entry) => ({
+        id: generateUUID(),
+        user_id: walletAddress,
+        ...entry,
+        created_at: now,
+      }));
+
+      const updated = [
+        ...readStored<PayrollAuditEntry[]>("Zarfa_payroll_audit_log", []),
+        ...newEntries,
+      ];
+      localStorage.setItem(
+        `Zarfa_payroll_audit_log_${walletAddress}`,
+        JSON.stringify(updated)
+      );
+      setAuditLog(updated);
+
+      try {
+        const { error } = await supabase.from("payroll_audit_log").insert(newEntries);
+        if (error) throw error;
+      } catch (supabaseError) {
+        console.error(
+          "Failed to save payroll audit entries to Supabase (continuing anyway):",
+          supabaseError
+        );
+      }
+
+      return updated;
+    },
+    [walletAddress, readStored]
+  );
+
+  // Load runs, audit log and policy when wallet address changes
+  const refresh = useCallback(() => {
+    setRuns(readRuns());
+    setAuditLog(readStored<PayrollAuditEntry[]>("Zarfa_payroll_audit_log", []));
+    setPolicy(walletAddress ? readPolicy() : null);
+  }, [walletAddress, readRuns, readStored, readPolicy]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const updateRun = useCallback(
+    async (id: string, updateData: Partial<PayrollRun>) => {
+      saveRuns((current) =>
+        current.map((run) => (run.id === id ? { ...run, ...updateData } : run))
+      );
+
+      try {
+        const { error } = await supabase
+          .from("payroll_runs")
+          .update(updateData)
+          .eq("id", id);
+        if (error) throw error;
+      } catch (supabaseError) {
+        console.error(
+          "Failed to update payroll run in Supabase (continuing anyway):",
+          supabaseError
+        );
+      }
+    },
+    [saveRuns]
+  );
+
+  const getRun = useCallback(
+    (id: string) => {
+      const run = readRuns().find((r) => r.id === id);
+      if (!run) throw new Error(`Payroll run ${id} not found`);
+      return run;
+    },
+    [readRuns]
+  );
+
+  // Create runs as drafts, or submit them straight for approval. The approver
+  // set is captured on submission so later policy edits don't change it.
+  const createRuns = useCallback(
+    async (
+      inputs: PayrollRunInput[],
+      options: { submit?: boolean; actor?: string } = {}
+    ) => {
+      if (!walletAddress) {
+        throw new Error("Wallet not connected");
+      }
+
+      setError(null);
+      try {
+        const now = new Date().toISOString();
+        const current = readPolicy();
+        const actor = options.actor ?? walletAddress;
+        const newRuns: PayrollRun[] = inputs.map((input) => ({
+          ...input,
+          id: generateUUID(),
+          user_id: walletAddress,
+          status: options.submit ? "pending_approval" : "draft",
+          total_amount: input.items.reduce((sum, item) => sum + item.amount, 0),
+          created_by: actor,
+          approvers: current.approvers,
+          required_approvals: current.required_approvals,
+          reviewed_by: null,
+          reviewed_at: null,
+          submitted_at: options.submit ? now : null,
+          executed_at: null,
+          completed_at: null,
+          created_at: now,
+        }));
+
+        // Written synchronously so concurrent due-run checks see them at once
+        saveRuns((existing) => [...newRuns, ...existing]);
+
+        try {
+          const { error } = await supabase.from("payroll_runs").insert(newRuns);
+          if (error) throw error;
+        } catch (supabaseError) {
+          console.error(
+            "Failed to save payroll runs to Supabase (continuing anyway):",
+            supabaseError
+          );
+        }
+
+        await appendAudit(
+          newRuns.flatMap((run) => [
+            {
+              run_id: run.id,
+              actor,
+              action: "created" as const,
+              digest: null,
+              signature: null,
+              note: run.memo,
+            },
+            ...(options.submit
+              ? [
+                  {
+                    run_id: run.id,
+                    actor,
+                    action: "submitted" as const,
+                    digest: null,
+                    signature: null,
+                    note: `Requires ${run.required_approvals} of ${run.approvers.length} approvals`,
+                  },
+                ]
+              : []),
+          ])
+        );
+
+        return newRuns;
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to create payroll run";
+        setError(errorMessage);
+        throw new Error(errorMessage);
+      }
+    },
+    [walletAddress, readPolicy, saveRuns, appendAudit]
+  );
+
+  const submitRun = useCallback(
+    async (id: string) => {
+      if (!walletAddress) {
+        throw new Error("Wallet not connected");
+      }
+
+      const run = getRun(id);
+      if (run.status !== "draft") {
+        throw new Error(`Payroll run is already ${RUN_STATUS_LABELS[run.status].toLowerCase()}`);
+      }
+
+      const current = readPolicy();
+      await updateRun(id, {
+        status: "pending_approval",
+        approvers: current.approvers,
+        required_approvals: current.required_approvals,
+        submitted_at: new Date().toISOString(),
+      });
+      await appendAudit([
+        {
+          run_id: id,
+          actor: walletAddress,
+          action: "submitted",
+          digest: null,
+          signature: null,
+          note: `Requires ${current.required_approvals} of ${current.approvers.length} approvals`,
+        },
+      ]);
+    },
+    [walletAddress, getRun, readPolicy, updateRun, appendAudit]
+  );
+
+  // Ask an approver's wallet to sign the approve/reject message for a run
+  const signDecision = useCallback(
+    async (id: string, signer: string, action: "approve" | "reject") => {
+      const run = getRun(id);
+      const approver = signer.toLowerCase();
+      const approvers =
+        run.status === "draft" ? readPolicy().approvers : run.approvers;
+
+      if (run.status !== "pending_approval" && run.status !== "draft") {
+        throw new Error(`Payroll run is already ${RUN_STATUS_LABELS[run.status].toLowerCase()}`);
+      }
+      if (!approvers.includes(approver)) {
+        throw new Error(`${signer} is not an approver for this payroll run`);
+      }
+
+      const digest = computeRunDigest(run);
+      const message = buildApprovalMessage(run, action, digest);
+      const signature = await signMessage(message, signer);
+      if (recoverMessageSigner(message, signature) !== approver) {
+        throw new Error(`Signature was not produced by ${signer}`);
+      }
+
+      // Another admin may have decided the run while the wallet prompt was open
+      const latest = getRun(id);
+      if (latest.status !== run.status) {
+        throw new Error(`Payroll run is already ${RUN_STATUS_LABELS[latest.status].toLowerCase()}`);
+      }
+
+      return { run: latest, approver, digest, signature };
+    },
+    [getRun, readPolicy]
+  );
+
+  // Record one admin's signed approval; the run is approved once N of M have signed
+  const approveRun = useCallback(
+    async (id: string, signer: string) => {
+      const existing = getRun(id);
+      if (existing.status !== "pending_approval") {
+        throw new Error("Submit the payroll run for approval first");
+      }
+      if (
+        getRunApprovals(
+          existing,
+          readStored<PayrollAuditEntry[]>("Zarfa_payroll_audit_log", [])
+        ).some((entry) => entry.actor.toLowerCase() === signer.toLowerCase())
+      ) {
+        throw new Error("This approver has already signed off");
+      }
+
+      const { run, approver, digest, signature } = await signDecision(
+        id,
+        signer,
+        "approve"
+      );
+      const log = await appendAudit([
+        {
+          run_id: id,
+          actor: approver,
+          action: "approved",
+          digest,
+          signature,
+          note: null,
+        },
+      ]);
+
+      const approvals = getRunApprovals(run, log).length;
+      if (approvals < run.required_approvals) {
+        await addNotification(
+          `Payroll run approved by ${approver.substring(0, 6)}... (${approvals} of ${run.required_approvals} approvals)`
+        );
+        return;
+      }
+
+      // Threshold met: one pending payment record per employee, linked to the run
+      const payments = await createPayments(
+        run.items.map((item) => ({
+          employee_id: item.employee_id,
+          amount: item.amount,
+          token: run.token,
+          status: "pending" as const,
+          payment_date: run.scheduled_for,
+          payroll_run_id: run.id,
+        }))
+      );
+
+      await updateRun(id, {
+        status: "approved",
+        items: run.items.map((item, i) => ({ ...item, payment_id: payments[i].id })),
+        reviewed_by: approver,
+        reviewed_at: new Date().toISOString(),
+      });
+
+      await addNotification(
+        `Payroll run for ${new Date(run.scheduled_for).toLocaleDateString()} approved (${approvals} of ${run.approvers.length}) - ready to pay`
+      );
+    },
+    [getRun, readStored, signDecision, appendAudit, createPayments, updateRun, addNotification]
+  );
+
+  const rejectRun = useCallback(
+    async (id: string, signer: string, reason?: string) => {
+      const { approver, digest, signature } = await signDecision(
+        id,
+        signer,
+        "reject"
+      );
+
+      await appendAudit([
+        {
+          run_id: id,
+          actor: approver,
+          action: "rejected",
+          digest,
+          signature,
+          note: reason || null,
+        },
+      ]);
+      await updateRun(id, {
+        status: "rejected",
+        reviewed_by: approver,
+        reviewed_at: new Date().toISOString(),
+      });
+    },
+    [signDecision, appendAudit, updateRun]
+  );
+
+  // Gate before funds move: only approved (or partially failed, for retries)
+  // runs may execute
+  const startExecution = useCallback(
+    async (id: string) => {
+      if (!walletAddress) {
+        throw new Error("Wallet not connected");
+      }
+
+      const run = getRun(id);
+      if (run.status !== "approved" && run.status !== "partially_failed") {
+        throw new Error(
+          run.status === "pending_approval" || run.status === "draft"
+            ? `Payroll run needs ${run.required_approvals} approval${
+                run.required_approvals !== 1 ? "s" : ""
+              } before it can be paid`
+            : `Payroll run is already ${RUN_STATUS_LABELS[run.status].toLowerCase()}`
+        );
+      }
+      // Don't trust the stored status alone - the signed approvals must still add up
+      const approvals = getRunApprovals(
+        run,
+        readStored<PayrollAuditEntry[]>("Zarfa_payroll_audit_log", [])
+      ).length;
+      if (approvals < run.required_approvals) {
+        throw new Error(
+          `Payroll run has ${approvals} valid approval${
+            approvals !== 1 ? "s" : ""
+          } of the ${run.required_approvals} required`
+        );
+      }
+
+      await updateRun(id, {
+        status: "executing",
+        executed_at: new Date().toISOString(),
+      });
+      await appendAudit([
+        {
+          run_id: id,
+          actor: walletAddress,
+          action: "executing",
+          digest: null,
+          signature: null,
+          note: null,
+        },
+      ]);
+      return run;
+    },
+    [walletAddress, getRun, readStored, updateRun, appendAudit]
+  );
+
+  // Record each recipient's on-chain outcome and settle the run status
+  const recordExecution = useCallback(
+    async (id: string, outcomes: PayrollRunOutcome[]) => {
+      if (!walletAddress) {
+        throw new Error("Wallet not connected");
+      }
+
+      const run = getRun(id);
+      const byPayment = new Map(outcomes.map((o) => [o.payment_id, o]));
+      const items = run.items.map((item) => {
+        const outcome = item.payment_id ? byPayment.get(item.payment_id) : undefined;
+        return outcome
+          ? {
+              ...item,
+              status: outcome.status,
+              transaction_hash: outcome.transaction_hash ?? item.transaction_hash,
+            }
+          : item;
+      });
+
+      const paid = items.filter((item) => item.status === "completed").length;
+      const failed = items.filter((item) => item.status === "failed").length;
+      // Unconfirmed transactions keep the run executing
+      const status: PayrollRun["status"] =
+        failed > 0 ? "partially_failed" : paid === items.length ? "completed" : "executing";
+
+      await updateRun(id, {
+        items,
+        status,
+        completed_at: status === "completed" ? new Date().toISOString() : null,
+      });
+
+      if (status !== "executing") {
+        await appendAudit([
+          {
+            run_id: id,
+            actor: walletAddress,
+            action: status,
+            digest: null,
+            signature: null,
+            note: `${paid} paid, ${failed} failed, ${items.length - paid - failed} unconfirmed`,
+          },
+        ]);
+      }
+    },
+    [walletAddress, getRun, updateRun, appendAudit]
+  );
+
+  const savePolicy = useCallback(
+    async (approvers: string[], requiredApprovals: number) => {
+      if (!walletAddress) {
+        throw new Error("Wallet not connected");
+      }
+
+      const updated: PayrollApprovalPolicy = {
+        ...normalizeApprovalPolicy(approvers, requiredApprovals),
+        updated_at: new Date().toISOString(),
+      };
+      localStorage.setItem(
+        `Zarfa_payroll_approval_policy_${walletAddress}`,
+        JSON.stringify(updated)
+      );
+      setPolicy(updated);
+
+      try {
+        const { error } = await supabase
+          .from("payroll_approval_policies")
+          .upsert([{ user_id: walletAddress, ...updated }]);
+        if (error) throw error;
+      } catch (supabaseError) {
+        console.error(
+          "Failed to save approval policy to Supabase (continuing anyway):",
+          supabaseError
+        );
+      }
+
+      await appendAudit([
+        {
+          run_id: null,
+          actor: walletAddress,
+          action: "policy_updated",
+          digest: null,
+          signature: null,
+          note: `${updated.required_approvals} of ${updated.approvers.length}: ${updated.approvers.join(", ")}`,
+        },
+      ]);
+    },
+    [walletAddress, appendAudit]
+  );
+
+  return {
+    runs,
+    auditLog,
+    policy,
+    error,
+    refresh,
+    createRuns,
+    submitRun,
+    approveRun,
+    rejectRun,
+    startExecution,
+    recordExecution,
+    savePolicy,
+  };
+};
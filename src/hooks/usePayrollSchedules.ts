@@ -0,0 +1,301 @@
+import { useState, useCallback, useEffect } from "react";
+import { supabase } from "../lib/supabase";
+import type { Employee, PayrollRun, PayrollSchedule } from "../lib/supabase";
+import { useWallet } from "../contexts/WalletContext";
+import { useNotifications } from "./useNotifications";
+import { usePayrollRuns, PayrollRunInput } from "./usePayrollRuns";
+import {
+  buildRunItems,
+  computeNextRunAt,
+  selectScheduleEmployees,
+} from "../utils/payrollSchedule";
+
+// Helper function to generate a UUID
+function generateUUID() {
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, function (c) {
+    const r = (Math.random() * 16) | 0;
+    const v = c === "x" ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+}
+
+// Most missed periods turned into runs at once (e.g. after months offline)
+const MAX_CATCH_UP_RUNS = 12;
+
+export type PayrollScheduleInput = Omit<
+  PayrollSchedule,
+  "id" | "user_id" | "next_run_at" | "last_run_at" | "created_at" | "updated_at"
+>;
+
+export const usePayrollSchedules = () => {
+  const [walletAddress, setWalletAddress] = useState<string | null>(null);
+  const [schedules, setSchedules] = useState<PayrollSchedule[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const { address, isConnected } = useWallet();
+  const { addNotification } = useNotifications();
+  const { createRuns } = usePayrollRuns();
+
+  // Check wallet connection on hook initialization
+  useEffect(() => {
+    if (isConnected && address) {
+      setWalletAddress(address);
+    } else {
+      setWalletAddress(null);
+    }
+  }, [address, isConnected]);
+
+  const readStored = useCallback(
+    <T>(key: string): T[] => {
+      if (!walletAddress) return [];
+      try {
+        const stored = localStorage.getItem(`${key}_${walletAddress}`);
+        return stored ? JSON.parse(stored) : [];
+      } catch (parseError) {
+        console.error(`Error parsing ${key} from localStorage:`, parseError);
+        return [];
+      }
+    },
+    [walletAddress]
+  );
+
+  // Persist schedules. Reads localStorage rather than state so other hook
+  // instances (the dashboard's due-run check) never overwrite each other.
+  const saveSchedules = useCallback(
+    (update: (current: PayrollSchedule[]) => PayrollSchedule[]) => {
+      if (!walletAddress) {
+        throw new Error("Wallet not connected");
+      }
+
+      const updated = update(readStored<PayrollSchedule>("Zarfa_payroll_schedules"));
+      localStorage.setItem(
+        `Zarfa_payroll_schedules_${walletAddress}`,
+        JSON.stringify(updated)
+      );
+      setSchedules(updated);
+      return updated;
+    },
+    [walletAddress, readStored]
+  );
+
+  // Load schedules when wallet address changes
+  const refresh = useCallback(() => {
+    setSchedules(readStored<PayrollSchedule>("Zarfa_payroll_schedules"));
+  }, [readStored]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const createSchedule = useCallback(
+    async (input: PayrollScheduleInput) => {
+      if (!walletAddress) {
+        throw new Error("Wallet not connected");
+      }
+
+      setError(null);
+      try {
+        const now = new Date();
+        const schedule: PayrollSchedule = {
+          ...input,
+          id: generateUUID(),
+          user_id: walletAddress,
+          next_run_at: computeNextRunAt(input, now).toISOString(),
+          last_run_at: null,
+          created_at: now.toISOString(),
+          updated_at: now.toISOString(),
+        };
+
+        saveSchedules((current) => [schedule, ...current]);
+
+        // Try to also save to Supabase for backward compatibility
+        try {
+          await supabase.from("payroll_schedules").insert([schedule]);
+        } catch (supabaseError) {
+          console.error(
+            "Failed to save payroll schedule to Supabase (continuing anyway):",
+            supabaseError
+          );
+        }
+
+        return schedule;
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to create schedule";
+        setError(errorMessage);
+        throw new Error(errorMessage);
+      }
+    },
+    [walletAddress, saveSchedules]
+  );
+
+  const setScheduleActive = useCallback(
+    async (id: string, isActive: boolean) => {
+      const now = new Date();
+      const updateData = {
+        is_active: isActive,
+        updated_at: now.toISOString(),
+      };
+
+      saveSchedules((current) =>
+        current.map((schedule) =>
+          schedule.id === id
+            ? {
+                ...schedule,
+                ...updateData,
+                // Resuming skips the periods missed while paused
+                next_run_at: isActive
+                  ? computeNextRunAt(schedule, now).toISOString()
+                  : schedule.next_run_at,
+              }
+            : schedule
+        )
+      );
+
+      try {
+        await supabase.from("payroll_schedules").update(updateData).eq("id", id);
+      } catch (supabaseError) {
+        console.error(
+          "Failed to update payroll schedule in Supabase (continuing anyway):",
+          supabaseError
+        );
+      }
+    },
+    [saveSchedules]
+  );
+
+  const deleteSchedule = useCallback(
+    async (id: string) => {
+      saveSchedules((current) => current.filter((schedule) => schedule.id !== id));
+
+      try {
+        await supabase.from("payroll_schedules").delete().eq("id", id);
+      } catch (supabaseError) {
+        console.error(
+          "Failed to delete payroll schedule from Supabase (continuing anyway):",
+          supabaseError
+        );
+      }
+    },
+    [saveSchedules]
+  );
+
+  // Submit a run for approval for every schedule period that has come due
+  const generateDueRuns = useCallback(
+    async (employees: Employee[]) => {
+      // Nothing to pay yet - don't consume periods before employees load
+      if (!walletAddress || employees.length === 0) return [];
+
+      const now = new Date();
+      const dueRuns: PayrollRunInput[] = [];
+      const previous = new Map<
+        string,
+        Pick<PayrollSchedule, "next_run_at" | "last_run_at" | "updated_at">
+      >();
+
+      // Schedule updates are written synchronously (and the runs right after)
+      // so concurrent checks never create the same period twice
+      saveSchedules((current) =>
+        current.map((schedule) => {
+          if (!schedule.is_active || new Date(schedule.next_run_at) > now) {
+            return schedule;
+          }
+
+          const items = buildRunItems(selectScheduleEmployees(schedule, employees));
+          let nextRunAt = new Date(schedule.next_run_at);
+          let lastRunAt = schedule.last_run_at;
+
+          for (let i = 0; i < MAX_CATCH_UP_RUNS && nextRunAt <= now; i++) {
+            if (items.length > 0) {
+              dueRuns.push({
+                schedule_id: schedule.id,
+                scheduled_for: nextRunAt.toISOString(),
+                token: schedule.token,
+                items,
+                memo: schedule.name,
+              });
+            }
+            lastRunAt = nextRunAt.toISOString();
+            nextRunAt = computeNextRunAt(schedule, nextRunAt);
+          }
+
+          // Skip whatever is still overdue past the catch-up limit
+          if (nextRunAt <= now) {
+            nextRunAt = computeNextRunAt(schedule, now);
+          }
+
+          previous.set(schedule.id, {
+            next_run_at: schedule.next_run_at,
+            last_run_at: schedule.last_run_at,
+            updated_at: schedule.updated_at,
+          });
+          return {
+            ...schedule,
+            next_run_at: nextRunAt.toISOString(),
+            last_run_at: lastRunAt,
+            updated_at: now.toISOString(),
+          };
+        })
+      );
+
+      if (dueRuns.length === 0) return [];
+
+      let newRuns: PayrollRun[];
+      try {
+        newRuns = await createRuns(dueRuns, {
+          submit: true,
+          actor: "schedule",
+        });
+      } catch (err) {
+        // Runs are saved in a single write. If none of them made it, hand the
+        // periods back so the next check retries them instead of skipping pay.
+        const periodKey = (run: PayrollRunInput) =>
+          `${run.schedule_id}:${run.scheduled_for}`;
+        const saved = new Set(
+          readStored<PayrollRun>("Zarfa_payroll_runs").map(periodKey)
+        );
+        if (!dueRuns.some((run) => saved.has(periodKey(run)))) {
+          const dueScheduleIds = new Set(dueRuns.map((run) => run.schedule_id));
+          saveSchedules((current) =>
+            current.map((schedule) => {
+              const before = previous.get(schedule.id);
+              // Leave schedules that were edited since the advance alone
+              return before &&
+                dueScheduleIds.has(schedule.id) &&
+                schedule.updated_at === now.toISOString()
+                ? { ...schedule, ...before }
+                : schedule;
+            })
+          );
+        }
+
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to create payroll runs";
+        setError(errorMessage);
+        throw err;
+      }
+
+      for (const run of newRuns) {
+        await addNotification(
+          `Payroll run "${run.memo ?? "Scheduled payroll"}" for ${new Date(
+            run.scheduled_for
+          ).toLocaleDateString()} is awaiting approval: ${run.items.length} employee${
+            run.items.length !== 1 ? "s" : ""
+          }, $${run.total_amount.toLocaleString()} in ${run.token}`
+        );
+      }
+
+      return newRuns;
+    },
+    [walletAddress, readStored, saveSchedules, createRuns, addNotification]
+  );
+
+  return {
+    schedules,
+    error,
+    refresh,
+    createSchedule,
+    setScheduleActive,
+    deleteSchedule,
+    generateDueRuns,
+  };
+};
@@ -44,6 +44,100 @@ export interface Payment {
   status: 'pending' | 'completed' | 'failed';
   payment_date: string;
   created_at: string;
+  payroll_run_id?: string;
+  token_amount?: number; // tokens sent
+  fiat_rate?: number; // USD per token at payment time
+  platform_fee?: number; // USD fee collected with this payment (unset when none was)
+}
+
+// Recurring payroll schedule
+export interface PayrollSchedule {
+  id: string;
+  user_id: string;
+  name: string;
+  frequency: 'monthly' | 'biweekly' | 'cron';
+  day_of_month: number | null;
+  cron_expression: string | null;
+  start_date: string;
+  selection: 'all_active' | 'department';
+  department: string | null;
+  token: 'MON' | 'USDC';
+  next_run_at: string;
+  last_run_at: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Recipient of a payroll run, with the salary captured when the run was created
+export interface PayrollRunItem {
+  employee_id: string;
+  name: string;
+  email: string;
+  wallet_address: string;
+  amount: number;
+  payment_id?: string;
+  status?: 'pending' | 'completed' | 'failed'; // on-chain outcome once executed
+  transaction_hash?: string;
+}
+
+export type PayrollRunStatus =
+  | 'draft'
+  | 'pending_approval'
+  | 'approved'
+  | 'executing'
+  | 'completed'
+  | 'partially_failed'
+  | 'rejected';
+
+// Batch of payroll payments moving from draft through approval to execution
+export interface PayrollRun {
+  id: string;
+  user_id: string;
+  schedule_id: string | null;
+  scheduled_for: string;
+  status: PayrollRunStatus;
+  token: 'MON' | 'USDC';
+  total_amount: number;
+  items: PayrollRunItem[];
+  memo: string | null;
+  created_by: string | null;
+  approvers: string[]; // admin wallets allowed to sign off, fixed at submission
+  required_approvals: number;
+  reviewed_by: string | null; // admin whose decision approved or rejected the run
+  reviewed_at: string | null;
+  submitted_at: string | null;
+  executed_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+// N-of-M sign-off required before a payroll run can be paid
+export interface PayrollApprovalPolicy {
+  approvers: string[];
+  required_approvals: number;
+  updated_at: string | null;
+}
+
+// Append-only record of every payroll run decision
+export interface PayrollAuditEntry {
+  id: string;
+  user_id: string;
+  run_id: string | null;
+  actor: string;
+  action:
+    | 'created'
+    | 'submitted'
+    | 'approved'
+    | 'rejected'
+    | 'executing'
+    | 'completed'
+    | 'partially_failed'
+    | 'policy_updated';
+  digest: string | null;
+  signature: string | null;
+  note: string | null;
+  created_at: string;
 }
 
 // Employee with payment history
@@ -0,0 +1,80 @@
+// Single-transaction payroll via the PayrollDisperse contract (contract/src/PayrollDisperse.sol)
+
+import { encodeAddress, encodeUint } from "./tokens";
+
+// Deployed PayrollDisperse contracts, per chain ID - chains without one pay sequentially
+export const DISPERSE_CONTRACTS: Record<number, string | undefined> = {
+  // Monad Testnet
+  10143: import.meta.env.VITE_MONAD_DISPERSE_ADDRESS || undefined,
+};
+
+const SELECTORS = {
+  disperseNative: "0x0b860726", // disperseNative(address[],uint256[])
+  disperseToken: "0xc73a2d60", // disperseToken(address,address[],uint256[])
+};
+
+// Event topics emitted once per recipient
+const TOPICS = {
+  recipientPaid:
+    "0x6ed603d7999124e6434f92f1bf8955eee0972ebefe27641f442308a5051aa68b", // RecipientPaid(uint256,address,uint256)
+  recipientFailed:
+    "0xdaf79211d3dd6b48b8ee580db242e2477a487337b3bb0be2f2f71f53c4efa5c3", // RecipientFailed(uint256,address,uint256)
+};
+
+export const getDisperseContract = (chainId: number): string | null =>
+  DISPERSE_CONTRACTS[chainId] || null;
+
+// Tail-encode the two dynamic arrays after `headWords` static head words
+const encodeRecipientArrays = (
+  headWords: number,
+  recipients: string[],
+  amounts: bigint[]
+): string => {
+  const recipientsOffset = BigInt(32 * (headWords + 2));
+  const amountsOffset = recipientsOffset + BigInt(32 * (recipients.length + 1));
+
+  return (
+    encodeUint(recipientsOffset) +
+    encodeUint(amountsOffset) +
+    encodeUint(BigInt(recipients.length)) +
+    recipients.map(encodeAddress).join("") +
+    encodeUint(BigInt(amounts.length)) +
+    amounts.map(encodeUint).join("")
+  );
+};
+
+export const encodeDisperseNative = (
+  recipients: string[],
+  amounts: bigint[]
+): string =>
+  SELECTORS.disperseNative + encodeRecipientArrays(0, recipients, amounts);
+
+export const encodeDisperseToken = (
+  token: string,
+  recipients: string[],
+  amounts: bigint[]
+): string =>
+  SELECTORS.disperseToken +
+  encodeAddress(token) +
+  encodeRecipientArrays(1, recipients, amounts);
+
+// Per-recipient outcome (by batch index) from a mined disperse receipt
+export const parseDisperseResults = (
+  logs: Array<{ address: string; topics: string[] }>,
+  contract: string
+): Map<number, boolean> => {
+  const results = new Map<number, boolean>();
+
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== contract.toLowerCase()) continue;
+
+    const [topic, index] = log.topics;
+    if (topic === TOPICS.recipientPaid) {
+      results.set(Number(BigInt(index)), true);
+    } else if (topic === TOPICS.recipientFailed) {
+      results.set(Number(BigInt(index)), false);
+    }
+  }
+
+  return results;
+};
@@ -1,4 +1,12 @@
 import emailjs from "@emailjs/browser";
+import { getExplorerTxUrl } from "./monad";
+import { bytesToBase64 } from "./pdf";
+import {
+  Payslip,
+  formatPayslipText,
+  payslipFileName,
+  renderPayslipPdf,
+} from "./payslip";
 
 const EMAILJS_PUBLIC_KEY =
   import.meta.env.VITE_EMAILJS_PUBLIC_KEY || "YOUR_PUBLIC_KEY";
@@ -7,6 +15,11 @@ const EMAILJS_SERVICE_ID =
 const EMAILJS_TEMPLATE_ID =
   import.meta.env.VITE_EMAILJS_TEMPLATE_ID || "YOUR_TEMPLATE_ID";
 
+// emailjs (default), smtp (via an HTTP relay) or file (.eml downloads for testing)
+const EMAIL_TRANSPORT = import.meta.env.VITE_EMAIL_TRANSPORT || "emailjs";
+const SMTP_RELAY_URL = import.meta.env.VITE_SMTP_RELAY_URL || "";
+const SMTP_FROM = import.meta.env.VITE_SMTP_FROM || "";
+
 // Initialize EmailJS
 emailjs.init(EMAILJS_PUBLIC_KEY);
 
@@ -18,14 +31,180 @@ export interface PaymentEmailData {
   transactionHash?: string;
   companyName: string;
   paymentDate: string;
+  payslip?: Payslip; // attached as a PDF when present
 }
 
-export const sendPaymentEmail = async (
-  emailData: PaymentEmailData
-): Promise<boolean> => {
-  try {
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: string; // base64
+}
+
+export interface EmailMessage {
+  to: string;
+  toName: string;
+  fromName: string;
+  subject: string;
+  text: string;
+  attachments: EmailAttachment[];
+  templateParams: Record<string, string>; // EmailJS template variables
+}
+
+// Delivery backend for payment emails
+export interface EmailTransport {
+  name: string;
+  send: (message: EmailMessage) => Promise<void>;
+}
+
+export const emailJsTransport: EmailTransport = {
+  name: "emailjs",
+  send: async (message) => {
+    const payslip = message.attachments[0];
+    const response = await emailjs.send(EMAILJS_SERVICE_ID, EMAILJS_TEMPLATE_ID, {
+      ...message.templateParams,
+      // Use as a variable attachment in the EmailJS template
+      payslip_pdf: payslip
+        ? `data:${payslip.contentType};base64,${payslip.content}`
+        : "",
+      payslip_filename: payslip?.filename ?? "",
+    });
+    console.log("Email sent successfully:", response);
+  },
+};
+
+// Browsers can't speak SMTP - post to a relay that forwards to the SMTP server
+export const smtpRelayTransport: EmailTransport = {
+  name: "smtp",
+  send: async (message) => {
+    if (!SMTP_RELAY_URL) {
+      throw new Error("VITE_SMTP_RELAY_URL is not configured");
+    }
+
+    const response = await fetch(SMTP_RELAY_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        from: SMTP_FROM || message.fromName,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        attachments: message.attachments.map((attachment) => ({
+          ...attachment,
+          encoding: "base64",
+        })),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`SMTP relay responded with ${response.status}`);
+    }
+  },
+};
+
+// Build an RFC 822 message so saved emails open in any mail client
+const toEml = (message: EmailMessage): string => {
+  const boundary = `zarfa-${Date.now().toString(36)}`;
+  const wrap = (base64: string) => base64.replace(/.{76}/g, "$&\r\n");
+
+  return [
+    `From: ${message.fromName} <${SMTP_FROM || "payroll@localhost"}>`,
+    `To: ${message.toName} <${message.to}>`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    message.text,
+    ...message.attachments.flatMap((attachment) => [
+      `--${boundary}`,
+      `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+      "Content-Transfer-Encoding: base64",
+      `Content-Disposition: attachment; filename="${attachment.filename}"`,
+      "",
+      wrap(attachment.content),
+    ]),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+};
+
+// Testing sink: download each email as an .eml file instead of sending it
+export const fileSinkTransport: EmailTransport = {
+  name: "file",
+  send: async (message) => {
+    const blob = new Blob([toEml(message)], { type: "message/rfc822" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${new Date().toISOString().split("T")[0]}-${message.to.replace(
+      /[^a-zA-Z0-9.@-]/g,
+      "_"
+    )}.eml`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  },
+};
+
+const transports: Record<string, EmailTransport> = {
+  emailjs: emailJsTransport,
+  smtp: smtpRelayTransport,
+  file: fileSinkTransport,
+};
+
+let activeTransport: EmailTransport | null = null;
+
+// Override the configured transport (e.g. a custom relay)
+export const setEmailTransport = (transport: EmailTransport) => {
+  activeTransport = transport;
+};
+
+export const getEmailTransport = (): EmailTransport => {
+  if (activeTransport) return activeTransport;
+
+  const transport = transports[EMAIL_TRANSPORT];
+  if (!transport) {
+    console.warn(
+      `Unknown VITE_EMAIL_TRANSPORT "${EMAIL_TRANSPORT}", falling back to EmailJS`
+    );
+    return emailJsTransport;
+  }
+  return transport;
+};
+
+const buildPaymentEmail = (emailData: PaymentEmailData): EmailMessage => {
+  const payslip = emailData.payslip;
+  const explorerLink = emailData.transactionHash
+    ? getExplorerTxUrl(emailData.transactionHash)
+    : "N/A";
+
+  return {
+    to: emailData.employeeEmail,
+    toName: emailData.employeeName,
+    fromName: emailData.companyName,
+    subject: `Your payslip from ${emailData.companyName} - ${emailData.paymentDate}`,
+    text: payslip
+      ? `Hi ${emailData.employeeName},\n\nYour salary has been paid. Your payslip is attached.\n\n${formatPayslipText(
+          payslip
+        )}`
+      : `Hi ${emailData.employeeName},\n\nYou have been paid $${emailData.amount.toLocaleString()} in ${
+          emailData.token
+        }.\nTransaction: ${explorerLink}`,
+    attachments: payslip
+      ? [
+          {
+            filename: payslipFileName(payslip),
+            contentType: "application/pdf",
+            content: bytesToBase64(renderPayslipPdf(payslip)),
+          },
+        ]
+      : [],
     // Prepare template parameters for EmailJS
-    const templateParams = {
+    templateParams: {
       to_name: emailData.employeeName,
       to_email: emailData.employeeEmail,
       from_name: emailData.companyName,
@@ -34,20 +213,28 @@ export const sendPaymentEmail = async (
       transaction_hash: emailData.transactionHash || "N/A",
       payment_date: emailData.paymentDate,
       company_name: emailData.companyName,
-      explorer_link: emailData.transactionHash
-        ? `https://explorer.aptoslabs.com/txn/${emailData.transactionHash}`
-        : "N/A",
-    };
+      explorer_link: explorerLink,
+      gross_amount: payslip ? payslip.grossAmount.toFixed(2) : "",
+      platform_fee: payslip?.platformFee != null ? payslip.platformFee.toFixed(2) : "",
+      net_amount: payslip ? payslip.netAmount.toFixed(2) : "",
+      token_amount:
+        payslip?.tokenAmount != null ? payslip.tokenAmount.toString() : "",
+      fiat_rate: payslip?.fiatRate != null ? payslip.fiatRate.toString() : "",
+      payslip_number: payslip?.number ?? "",
+    },
+  };
+};
 
-    console.log("Sending email with params:", templateParams);
+export const sendPaymentEmail = async (
+  emailData: PaymentEmailData
+): Promise<boolean> => {
+  try {
+    const transport = getEmailTransport();
+    const message = buildPaymentEmail(emailData);
 
-    const response = await emailjs.send(
-      EMAILJS_SERVICE_ID,
-      EMAILJS_TEMPLATE_ID,
-      templateParams
-    );
+    console.log(`Sending email via ${transport.name} to:`, message.to);
 
-    console.log("Email sent successfully:", response);
+    await transport.send(message);
     return true;
   } catch (error) {
     console.error("Failed to send email:", error);
@@ -1,5 +1,23 @@
 // Monad blockchain utilities for EVM-compatible blockchain
 
+import {
+  PAYROLL_TOKENS,
+  PayrollToken,
+  encodeAllowance,
+  encodeApprove,
+  encodeBalanceOf,
+  encodeTransfer,
+  formatTokenAmount,
+  getPayrollToken,
+  parseTokenAmount,
+} from "./tokens";
+import {
+  encodeDisperseNative,
+  encodeDisperseToken,
+  getDisperseContract,
+  parseDisperseResults,
+} from "./disperse";
+
 // Platform Configuration
 export const PLATFORM_CONFIG = {
   feePercentage: 0.5, // 0.5% platform fee
@@ -24,6 +42,10 @@ export const MONAD_CONFIG = {
   },
 };
 
+// Transaction page on the network's block explorer
+export const getExplorerTxUrl = (txHash: string): string =>
+  `${MONAD_CONFIG.explorers[0]}tx/${txHash}`;
+
 // Calculate platform fee
 export const calculatePlatformFee = (amount: number): number => {
   return (amount * PLATFORM_CONFIG.feePercentage) / 100;
@@ -305,6 +327,148 @@ export const isWalletConnected = (): boolean => connectedAccount !== null;
 // Get connected account
 export const getConnectedAccount = (): string | null => connectedAccount;
 
+// Sign a plain-text message with one of the accounts the wallet has connected
+export const signMessage = async (
+  message: string,
+  signer: string
+): Promise<string> => {
+  const ethereum = getProvider();
+  const hexMessage =
+    "0x" +
+    Array.from(new TextEncoder().encode(message))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+
+  return ethereum.request({
+    method: "personal_sign",
+    params: [hexMessage, signer],
+  });
+};
+
+// Get the connected account's balance of a payroll token (raw units)
+export const getTokenBalance = async (
+  token: PayrollToken,
+  owner: string
+): Promise<bigint> => {
+  const ethereum = getProvider();
+
+  if (!token.address) {
+    const balanceHex = await ethereum.request({
+      method: "eth_getBalance",
+      params: [owner, "latest"],
+    });
+    return BigInt(balanceHex);
+  }
+
+  const result = await ethereum.request({
+    method: "eth_call",
+    params: [{ to: token.address, data: encodeBalanceOf(owner) }, "latest"],
+  });
+  return BigInt(result && result !== "0x" ? result : "0x0");
+};
+
+// Get how much of a token `spender` may pull from `owner` (raw units)
+export const getTokenAllowance = async (
+  token: PayrollToken,
+  owner: string,
+  spender: string
+): Promise<bigint> => {
+  // Native currency is sent as value - nothing to approve
+  if (!token.address) return 0n;
+
+  const ethereum = getProvider();
+  const result = await ethereum.request({
+    method: "eth_call",
+    params: [
+      { to: token.address, data: encodeAllowance(owner, spender) },
+      "latest",
+    ],
+  });
+  return BigInt(result && result !== "0x" ? result : "0x0");
+};
+
+// Verify the sender holds enough of the token (and has approved `spender`
+// when a contract pulls the funds) before any transaction is sent
+export const checkPaymentFunds = async (
+  token: PayrollToken,
+  owner: string,
+  total: bigint,
+  spender?: string
+): Promise<void> => {
+  const balance = await getTokenBalance(token, owner);
+  if (balance < total) {
+    throw new Error(
+      `Insufficient ${token.symbol} balance. Required: ${formatTokenAmount(
+        total,
+        token.decimals
+      )}, available: ${formatTokenAmount(balance, token.decimals)}`
+    );
+  }
+
+  if (spender && token.address) {
+    const allowance = await getTokenAllowance(token, owner, spender);
+    if (allowance < total) {
+      throw new Error(
+        `Insufficient ${token.symbol} allowance. Approve at least ${formatTokenAmount(
+          total,
+          token.decimals
+        )} ${token.symbol} for ${formatAddress(spender)}`
+      );
+    }
+  }
+};
+
+// Send a native or ERC-20 transfer from the connected account
+const sendTokenTransfer = async (
+  token: PayrollToken,
+  recipient: string,
+  amount: bigint
+): Promise<string> => {
+  const ethereum = getProvider();
+
+  // Gas is left to the wallet's estimate - ERC-20 transfers cost more than 21000
+  const tx = token.address
+    ? {
+        from: connectedAccount,
+        to: token.address,
+        data: encodeTransfer(recipient, amount),
+      }
+    : {
+        from: connectedAccount,
+        to: recipient,
+        value: "0x" + amount.toString(16),
+      };
+
+  return ethereum.request({
+    method: "eth_sendTransaction",
+    params: [tx],
+  });
+};
+
+// Poll for a transaction receipt - null if it is not mined within the timeout
+const waitForReceipt = async (
+  txHash: string,
+  timeoutMs: number = 120000
+): Promise<{
+  status: string;
+  logs: Array<{ address: string; topics: string[] }>;
+} | null> => {
+  const ethereum = getProvider();
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const receipt = await ethereum.request({
+      method: "eth_getTransactionReceipt",
+      params: [txHash],
+    });
+    if (receipt) return receipt;
+
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+
+  return null;
+};
+
 // Get account balance
 export const getAccountBalance = async (): Promise<{
   mon: number;
@@ -318,28 +482,32 @@ export const getAccountBalance = async (): Promise<{
 }> => {
   if (!connectedAccount) throw new Error("No wallet connected");
 
-  const ethereum = getProvider();
-  const balanceHex = await ethereum.request({
-    method: "eth_getBalance",
-    params: [connectedAccount, "latest"],
-  });
-  const monBalance = parseInt(balanceHex, 16) / 1e18;
+  const owner = connectedAccount;
+  const tokens = PAYROLL_TOKENS[MONAD_CONFIG.chainId] || [];
+  const assets = await Promise.all(
+    tokens.map(async (token) => {
+      const raw = await getTokenBalance(token, owner).catch(() => 0n);
+      return {
+        assetId: token.symbol,
+        amount: formatTokenAmount(raw, token.decimals),
+        name: token.name,
+        symbol: token.symbol,
+      };
+    })
+  );
 
   return {
-    mon: monBalance,
-    totalCoins: 2,
-    assets: [
-      { assetId: "MON", amount: monBalance, name: "Monad", symbol: "MON" },
-      { assetId: "USDC", amount: 0, name: "USD Coin", symbol: "USDC" },
-    ],
+    mon: assets.find((a) => a.symbol === "MON")?.amount || 0,
+    totalCoins: assets.length,
+    assets,
   };
 };
 
-// Send payment
+// Send payment (amount in token units)
 export const sendPayment = async (
   recipient: string,
   amount: number,
-  _token: string = "MON",
+  token: string = "MON",
   _walletSignAndSubmitTransaction?: unknown,
   includePlatformFee: boolean = false
 ): Promise<{ 
@@ -352,53 +520,24 @@ export const sendPayment = async (
   try {
     // Ensure MetaMask is on the Monad Testnet before sending
     await ensureMonadNetwork();
-    
-    // TESTING MODE: Replace invalid/placeholder addresses with test address
-    const TEST_ADDRESS = "0x70c573979F61710D3284120261B562e524ad3763";
-    const isPlaceholder = /^0x0+[0-9a-f]$/i.test(recipient);
-    
-    let validatedRecipient = recipient;
-    if (isPlaceholder || !isValidAddress(recipient)) {
-      console.warn(`⚠️ Invalid address ${recipient} replaced with test address ${TEST_ADDRESS}`);
-      validatedRecipient = TEST_ADDRESS;
-    }
-    
-    if (!isValidAddress(validatedRecipient)) throw new Error("Invalid Monad address");
+
+    if (!isValidAddress(recipient)) throw new Error("Invalid Monad address");
     if (amount <= 0) throw new Error("Amount must be greater than 0");
     if (!connectedAccount) throw new Error("No wallet connected");
 
-    const ethereum = getProvider();
-    
-    // HARDCODED: Always send 0.1 MON for testing (limited test tokens)
-    const hardcodedAmount = 0.1;
-    console.log(`💰 HARDCODED PAYMENT: Displaying ${amount} but sending ${hardcodedAmount} MON to ${validatedRecipient}`);
-    
-    // Calculate platform fee if enabled (still based on displayed amount for UI)
-    let netAmount = amount;
-    let platformFee = 0;
-    
-    if (includePlatformFee) {
-      platformFee = calculatePlatformFee(amount);
-      netAmount = amount - platformFee;
-      
-      // Skip platform fee for testing to save tokens
-      console.log(`⚠️ SKIPPING platform fee of ${platformFee} MON for testing`);
+    const payrollToken = getPayrollToken(token, MONAD_CONFIG.chainId);
+    const rawAmount = parseTokenAmount(amount, payrollToken.decimals);
+    if (rawAmount === 0n) {
+      throw new Error(`Amount is below the smallest ${payrollToken.symbol} unit`);
     }
-    
-    // Send hardcoded amount (0.1 MON) to recipient
-    const amountWei = "0x" + Math.floor(hardcodedAmount * 1e18).toString(16);
-
-    const txHash = await ethereum.request({
-      method: "eth_sendTransaction",
-      params: [
-        {
-          from: connectedAccount,
-          to: validatedRecipient,
-          value: amountWei,
-          gas: "0x5208",
-        },
-      ],
-    });
+
+    // Platform fee is reported only - fee collection is not enabled yet
+    const platformFee = includePlatformFee ? calculatePlatformFee(amount) : 0;
+    const netAmount = amount - platformFee;
+
+    await checkPaymentFunds(payrollToken, connectedAccount, rawAmount);
+
+    const txHash = await sendTokenTransfer(payrollToken, recipient, rawAmount);
 
     return { 
       success: true, 
@@ -414,10 +553,143 @@ export const sendPayment = async (
   }
 };
 
-// Send bulk payment
+export interface BulkPaymentResult {
+  address: string;
+  amount: number;
+  // pending = submitted but not confirmed in time - do not retry blindly
+  status: "completed" | "failed" | "pending";
+  txHash?: string;
+  error?: string;
+  platformFee?: number; // USD collected with this transfer - never set while fee collection is off
+}
+
+type BulkTransfer = { address: string; amount: number; rawAmount: bigint };
+
+// Pay every recipient in one PayrollDisperse transaction (approving the
+// contract first for ERC-20s), reading each recipient's outcome from the logs
+const sendDisperseBatch = async (
+  token: PayrollToken,
+  contract: string,
+  transfers: BulkTransfer[]
+): Promise<BulkPaymentResult[]> => {
+  const ethereum = getProvider();
+  const total = transfers.reduce((sum, t) => sum + t.rawAmount, 0n);
+  const recipients = transfers.map((t) => t.address);
+  const amounts = transfers.map((t) => t.rawAmount);
+
+  if (token.address) {
+    const allowance = await getTokenAllowance(token, connectedAccount!, contract);
+    if (allowance < total) {
+      const approveHash = await ethereum.request({
+        method: "eth_sendTransaction",
+        params: [
+          {
+            from: connectedAccount,
+            to: token.address,
+            data: encodeApprove(contract, total),
+          },
+        ],
+      });
+      const approveReceipt = await waitForReceipt(approveHash);
+      if (approveReceipt?.status !== "0x1") {
+        throw new Error(`${token.symbol} approval for the payroll contract failed`);
+      }
+    }
+  }
+
+  const txHash: string = await ethereum.request({
+    method: "eth_sendTransaction",
+    params: [
+      token.address
+        ? {
+            from: connectedAccount,
+            to: contract,
+            data: encodeDisperseToken(token.address, recipients, amounts),
+          }
+        : {
+            from: connectedAccount,
+            to: contract,
+            data: encodeDisperseNative(recipients, amounts),
+            value: "0x" + total.toString(16),
+          },
+    ],
+  });
+
+  const receipt = await waitForReceipt(txHash);
+  if (!receipt) {
+    return transfers.map((t) => ({
+      address: t.address,
+      amount: t.amount,
+      status: "pending",
+      txHash,
+      error: "Transaction not confirmed yet",
+    }));
+  }
+
+  const outcomes =
+    receipt.status === "0x1"
+      ? parseDisperseResults(receipt.logs || [], contract)
+      : new Map<number, boolean>();
+
+  return transfers.map((t, i) => ({
+    address: t.address,
+    amount: t.amount,
+    status: outcomes.get(i) ? "completed" : "failed",
+    txHash,
+    error: outcomes.get(i)
+      ? undefined
+      : receipt.status === "0x1"
+        ? "Transfer rejected by the recipient or token"
+        : "Batch transaction reverted",
+  }));
+};
+
+// Pay recipients one transaction at a time (chains without a disperse contract)
+const sendSequentially = async (
+  token: PayrollToken,
+  transfers: BulkTransfer[]
+): Promise<BulkPaymentResult[]> => {
+  const results: BulkPaymentResult[] = [];
+
+  for (const transfer of transfers) {
+    try {
+      const txHash = await sendTokenTransfer(
+        token,
+        transfer.address,
+        transfer.rawAmount
+      );
+      const receipt = await waitForReceipt(txHash);
+
+      results.push({
+        address: transfer.address,
+        amount: transfer.amount,
+        txHash,
+        status: !receipt ? "pending" : receipt.status === "0x1" ? "completed" : "failed",
+        error: !receipt
+          ? "Transaction not confirmed yet"
+          : receipt.status === "0x1"
+            ? undefined
+            : "Transaction reverted",
+      });
+    } catch (txError) {
+      console.error(`Failed to send payment to ${transfer.address}:`, txError);
+      results.push({
+        address: transfer.address,
+        amount: transfer.amount,
+        status: "failed",
+        error: txError instanceof Error ? txError.message : String(txError),
+      });
+    }
+  }
+
+  return results;
+};
+
+// Send bulk payment (amounts in token units)
+// Uses a single PayrollDisperse transaction when one is configured for the chain
 export const sendBulkPayment = async (
   recipients: Array<{ address: string; amount: number }>,
-  _token: "MON" | "USDC" = "MON",
+  token: "MON" | "USDC" = "MON",
   _walletSignAndSubmitTransaction?: unknown,
   includePlatformFee: boolean = false
 ): Promise<{ 
@@ -427,6 +699,8 @@ export const sendBulkPayment = async (
   totalPlatformFee?: number;
   totalNetAmount?: number;
   failedTransactions?: number;
+  mode?: "batch" | "sequential";
+  results?: BulkPaymentResult[];
 }> => {
   try {
     // Ensure MetaMask is on the Monad Testnet before sending
@@ -435,86 +709,51 @@ export const sendBulkPayment = async (
       throw new Error("No recipients provided");
     if (!connectedAccount) throw new Error("No wallet connected");
 
-    // TESTING MODE: Replace invalid/placeholder addresses with test address
-    const TEST_ADDRESS = "0x70c573979F61710D3284120261B562e524ad3763";
-    const validatedRecipients = recipients.map(recipient => {
-      // Check if address is a placeholder (0x000...001, 0x000...002, etc.)
-      const isPlaceholder = /^0x0+[0-9a-f]$/i.test(recipient.address);
-      
-      if (isPlaceholder || !isValidAddress(recipient.address)) {
-        console.warn(`⚠️ Invalid address ${recipient.address} replaced with test address ${TEST_ADDRESS}`);
-        return {
-          ...recipient,
-          address: TEST_ADDRESS
-        };
-      }
-      return recipient;
-    });
+    const payrollToken = getPayrollToken(token, MONAD_CONFIG.chainId);
 
-    for (const recipient of validatedRecipients) {
+    const transfers: BulkTransfer[] = recipients.map((recipient) => {
       if (!isValidAddress(recipient.address)) {
         throw new Error(`Invalid Monad address: ${recipient.address}`);
       }
       if (recipient.amount <= 0)
         throw new Error("Amount must be greater than 0");
-    }
 
-    // HARDCODED: Always send 0.1 MON per recipient for testing (limited test tokens)
-    const hardcodedAmount = 0.1;
-    const totalDisplayAmount = recipients.reduce((sum, r) => sum + r.amount, 0);
-    console.log(`💰 HARDCODED BULK PAYMENT: Displaying $${totalDisplayAmount} but sending ${hardcodedAmount} MON per recipient`);
+      const rawAmount = parseTokenAmount(recipient.amount, payrollToken.decimals);
+      if (rawAmount === 0n) {
+        throw new Error(
+          `Amount for ${formatAddress(recipient.address)} is below the smallest ${payrollToken.symbol} unit`
+        );
+      }
+      return { ...recipient, rawAmount };
+    });
 
-    const ethereum = getProvider();
-    let lastTxHash: string = "";
-    let totalPlatformFee = 0;
-    let totalNetAmount = 0;
-    let failedTransactions = 0;
-
-    // Calculate total platform fee if enabled (still based on displayed amounts for UI)
-    if (includePlatformFee) {
-      totalPlatformFee = recipients.reduce((sum, r) => sum + calculatePlatformFee(r.amount), 0);
-      
-      // Skip platform fee for testing to save tokens
-      console.log(`⚠️ SKIPPING consolidated platform fee of ${totalPlatformFee} MON for testing`);
-    }
+    // Check the whole run is funded before the first transaction goes out
+    const total = transfers.reduce((sum, t) => sum + t.rawAmount, 0n);
+    await checkPaymentFunds(payrollToken, connectedAccount, total);
 
-    // Process each recipient payment with hardcoded amount
-    for (const recipient of validatedRecipients) {
-      try {
-        // Use hardcoded amount instead of actual amount
-        const netAmount = hardcodedAmount;
-        
-        totalNetAmount += netAmount;
-        
-        const amountWei = "0x" + Math.floor(netAmount * 1e18).toString(16);
-        const txHash = await ethereum.request({
-          method: "eth_sendTransaction",
-          params: [
-            {
-              from: connectedAccount,
-              to: recipient.address,
-              value: amountWei,
-              gas: "0x5208",
-            },
-          ],
-        });
-        lastTxHash = txHash;
-        console.log(`✅ Sent ${hardcodedAmount} MON to ${recipient.address} (displayed: $${recipient.amount})`);
-      } catch (txError) {
-        console.error(`Failed to send payment to ${recipient.address}:`, txError);
-        failedTransactions++;
-      }
-      
-      // Small delay between transactions
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-    }
+    const disperseContract = getDisperseContract(MONAD_CONFIG.chainId);
+    const mode = disperseContract ? "batch" : "sequential";
+    const results = disperseContract
+      ? await sendDisperseBatch(payrollToken, disperseContract, transfers)
+      : await sendSequentially(payrollToken, transfers);
+
+    const completed = results.filter((r) => r.status === "completed");
+    const failedTransactions = results.filter((r) => r.status === "failed").length;
+
+    // Platform fee is reported only - fee collection is not enabled yet
+    const totalPlatformFee = includePlatformFee
+      ? recipients.reduce((sum, r) => sum + calculatePlatformFee(r.amount), 0)
+      : 0;
+    const totalNetAmount = completed.reduce((sum, r) => sum + r.amount, 0);
 
     return { 
-      success: failedTransactions < recipients.length, 
-      txHash: lastTxHash,
+      success: completed.length > 0, 
+      txHash: [...results].reverse().find((r) => r.txHash)?.txHash,
       totalPlatformFee: includePlatformFee ? totalPlatformFee : undefined,
       totalNetAmount: includePlatformFee ? totalNetAmount : undefined,
       failedTransactions: failedTransactions > 0 ? failedTransactions : undefined,
+      mode,
+      results,
     };
   } catch (error) {
     return {
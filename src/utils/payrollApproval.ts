@@ -0,0 +1,172 @@
+// Payroll run approvals: N-of-M policy checks and the messages admins sign
+
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { sha256 } from "@noble/hashes/sha2";
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import type {
+  PayrollApprovalPolicy,
+  PayrollAuditEntry,
+  PayrollRun,
+} from "../lib/supabase";
+import { isValidAddress } from "./monad";
+
+// Until configured, the connected company wallet approves its own runs
+export const defaultApprovalPolicy = (
+  walletAddress: string
+): PayrollApprovalPolicy => ({
+  approvers: [walletAddress.toLowerCase()],
+  required_approvals: 1,
+  updated_at: null,
+});
+
+// Display label and badge colours for each run status
+export const RUN_STATUS_LABELS: Record<PayrollRun["status"], string> = {
+  draft: "Draft",
+  pending_approval: "Pending approval",
+  approved: "Approved",
+  executing: "Executing",
+  completed: "Completed",
+  partially_failed: "Partially failed",
+  rejected: "Rejected",
+};
+
+export const getRunStatusColor = (status: PayrollRun["status"]) => {
+  switch (status) {
+    case "draft":
+      return "text-gray-700 bg-gray-100";
+    case "pending_approval":
+      return "text-yellow-800 bg-yellow-100";
+    case "approved":
+    case "executing":
+      return "text-blue-800 bg-blue-100";
+    case "completed":
+      return "text-gray-900 bg-green-200";
+    case "partially_failed":
+      return "text-orange-800 bg-orange-100";
+    case "rejected":
+      return "text-gray-700 bg-red-100";
+  }
+};
+
+// Normalise and validate a policy before it is saved
+export const normalizeApprovalPolicy = (
+  approvers: string[],
+  requiredApprovals: number
+): Pick<PayrollApprovalPolicy, "approvers" | "required_approvals"> => {
+  const unique = [
+    ...new Set(
+      approvers.map((address) => address.trim().toLowerCase()).filter(Boolean)
+    ),
+  ];
+
+  const invalid = unique.find((address) => !isValidAddress(address));
+  if (invalid) {
+    throw new Error(`Invalid approver address: ${invalid}`);
+  }
+  if (unique.length === 0) {
+    throw new Error("Add at least one approver");
+  }
+  if (
+    !Number.isInteger(requiredApprovals) ||
+    requiredApprovals < 1 ||
+    requiredApprovals > unique.length
+  ) {
+    throw new Error(`Required approvals must be between 1 and ${unique.length}`);
+  }
+
+  return { approvers: unique, required_approvals: requiredApprovals };
+};
+
+// Approvers who have signed off on the run, in signing order. Only entries
+// whose signature recovers to the approver over this run's current contents count.
+export const getRunApprovals = (
+  run: Pick<
+    PayrollRun,
+    "id" | "token" | "total_amount" | "items" | "memo" | "approvers"
+  >,
+  auditLog: PayrollAuditEntry[]
+): PayrollAuditEntry[] => {
+  const digest = computeRunDigest(run);
+  const message = buildApprovalMessage(run, "approve", digest);
+  const seen = new Set<string>();
+  return auditLog
+    .filter((entry) => entry.run_id === run.id && entry.action === "approved")
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .filter((entry) => {
+      const actor = entry.actor.toLowerCase();
+      if (!run.approvers.includes(actor) || seen.has(actor)) return false;
+      if (
+        entry.digest !== digest ||
+        !entry.signature ||
+        recoverMessageSigner(message, entry.signature) !== actor
+      ) {
+        return false;
+      }
+      seen.add(actor);
+      return true;
+    });
+};
+
+// SHA-256 over the recipients and amounts, so each signature covers exactly
+// what was approved
+export const computeRunDigest = (
+  run: Pick<PayrollRun, "id" | "token" | "items">
+): string => {
+  const payload = JSON.stringify({
+    id: run.id,
+    token: run.token,
+    items: run.items.map((item) => [
+      item.employee_id,
+      item.wallet_address.toLowerCase(),
+      item.amount,
+    ]),
+  });
+
+  return "0x" + bytesToHex(sha256(utf8ToBytes(payload)));
+};
+
+// Wallet address that produced a personal_sign (EIP-191) signature over the
+// message, lowercased, or null if the signature is malformed
+export const recoverMessageSigner = (
+  message: string,
+  signature: string
+): string | null => {
+  try {
+    const bytes = hexToBytes(signature.replace(/^0x/, ""));
+    if (bytes.length !== 65) return null;
+
+    const messageBytes = utf8ToBytes(message);
+    const hash = keccak_256(
+      concatBytes(
+        utf8ToBytes(`\x19Ethereum Signed Message:\n${messageBytes.length}`),
+        messageBytes
+      )
+    );
+    // Wallets report the recovery id as 27/28, some as 0/1
+    const recovery = bytes[64] >= 27 ? bytes[64] - 27 : bytes[64];
+    const publicKey = secp256k1.Signature.fromCompact(bytes.subarray(0, 64))
+      .addRecoveryBit(recovery)
+      .recoverPublicKey(hash)
+      .toBytes(false);
+
+    return "0x" + bytesToHex(keccak_256(publicKey.subarray(1)).subarray(12));
+  } catch {
+    return null;
+  }
+};
+
+// Message an approver signs with their wallet to approve or reject a run
+export const buildApprovalMessage = (
+  run: Pick<PayrollRun, "id" | "token" | "total_amount" | "items" | "memo">,
+  action: "approve" | "reject",
+  digest: string
+): string =>
+  [
+    `Zarfa payroll ${action === "approve" ? "approval" : "rejection"}`,
+    `Run: ${run.id}`,
+    ...(run.memo ? [`Memo: ${run.memo}`] : []),
+    `Recipients: ${run.items.length}`,
+    `Total: $${run.total_amount.toLocaleString("en-US")} in ${run.token}`,
+    `Digest: ${digest}`,
+  ].join("\n");
@@ -0,0 +1,197 @@
+// Payroll schedule calculations: next run dates and employee selection
+
+import type {
+  Employee,
+  PayrollRunItem,
+  PayrollSchedule,
+} from "../lib/supabase";
+
+// Monthly and bi-weekly runs are created at this local hour
+const RUN_HOUR = 9;
+
+const BIWEEKLY_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Stop searching for a cron match after this many steps (about a year of hours)
+const MAX_CRON_STEPS = 10000;
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+// Parse one cron field ("*", "*/15", "1-5", "1,15", "10-20/2")
+const parseCronField = (field: string, min: number, max: number): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText ? parseInt(stepText, 10) : 1;
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step: ${part}`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [from, to] = range.split("-").map((v) => parseInt(v, 10));
+      start = from;
+      end = to ?? (stepText ? max : from);
+    }
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron value: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      // Both 0 and 7 mean Sunday
+      values.add(max === 7 && value === 7 ? 0 : value);
+    }
+  }
+
+  return values;
+};
+
+// Parse a 5-field cron expression: minute hour day-of-month month day-of-week
+export const parseCronExpression = (expression: string): CronFields => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      "Cron expression needs 5 fields: minute hour day-of-month month day-of-week"
+    );
+  }
+
+  return {
+    minutes: parseCronField(fields[0], 0, 59),
+    hours: parseCronField(fields[1], 0, 23),
+    daysOfMonth: parseCronField(fields[2], 1, 31),
+    months: parseCronField(fields[3], 1, 12),
+    daysOfWeek: parseCronField(fields[4], 0, 7),
+    dayOfMonthRestricted: fields[2] !== "*",
+    dayOfWeekRestricted: fields[4] !== "*",
+  };
+};
+
+// Cron day matching: when both day fields are restricted, either may match
+const cronDayMatches = (cron: CronFields, date: Date): boolean => {
+  const dom = cron.daysOfMonth.has(date.getDate());
+  const dow = cron.daysOfWeek.has(date.getDay());
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return dom || dow;
+  if (cron.dayOfMonthRestricted) return dom;
+  if (cron.dayOfWeekRestricted) return dow;
+  return true;
+};
+
+// First minute after `after` matching the cron expression (local time)
+const nextCronRun = (expression: string, after: Date): Date => {
+  const cron = parseCronExpression(expression);
+  const candidate = new Date(after);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  for (let step = 0; step < MAX_CRON_STEPS; step++) {
+    if (!cron.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cronDayMatches(cron, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  throw new Error(`Cron expression "${expression}" never runs`);
+};
+
+// Day `dayOfMonth` of the given month, clamped to the month's length
+const monthlyRunDate = (year: number, month: number, dayOfMonth: number): Date => {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(dayOfMonth, lastDay), RUN_HOUR);
+};
+
+type ScheduleTiming = Pick<
+  PayrollSchedule,
+  "frequency" | "day_of_month" | "cron_expression" | "start_date"
+>;
+
+// Next run strictly after `after`, never before the schedule's start date
+export const computeNextRunAt = (schedule: ScheduleTiming, after: Date): Date => {
+  const start = new Date(schedule.start_date);
+  const from = after < start ? new Date(start.getTime() - 1) : after;
+
+  switch (schedule.frequency) {
+    case "monthly": {
+      const dayOfMonth = schedule.day_of_month ?? 1;
+      let run = monthlyRunDate(from.getFullYear(), from.getMonth(), dayOfMonth);
+      if (run <= from) {
+        run = monthlyRunDate(from.getFullYear(), from.getMonth() + 1, dayOfMonth);
+      }
+      return run;
+    }
+    case "biweekly": {
+      const anchor = new Date(start);
+      anchor.setHours(RUN_HOUR, 0, 0, 0);
+      if (anchor > from) return anchor;
+
+      const periods = Math.floor((from.getTime() - anchor.getTime()) / BIWEEKLY_MS) + 1;
+      return new Date(anchor.getTime() + periods * BIWEEKLY_MS);
+    }
+    case "cron":
+      return nextCronRun(schedule.cron_expression || "", from);
+  }
+};
+
+// Human-readable schedule summary
+export const describeSchedule = (schedule: ScheduleTiming): string => {
+  switch (schedule.frequency) {
+    case "monthly":
+      return `Monthly on day ${schedule.day_of_month ?? 1}`;
+    case "biweekly":
+      return `Every 2 weeks from ${new Date(schedule.start_date).toLocaleDateString()}`;
+    case "cron":
+      return `Cron: ${schedule.cron_expression}`;
+  }
+};
+
+// Employees a schedule pays: active ones, optionally limited to a department
+export const selectScheduleEmployees = (
+  schedule: Pick<PayrollSchedule, "selection" | "department">,
+  employees: Employee[]
+): Employee[] =>
+  employees.filter(
+    (employee) =>
+      employee.status === "active" &&
+      (schedule.selection !== "department" ||
+        employee.department === schedule.department)
+  );
+
+// Run items with each employee's current salary
+export const buildRunItems = (employees: Employee[]): PayrollRunItem[] =>
+  employees.map((employee) => ({
+    employee_id: employee.id,
+    name: employee.name,
+    email: employee.email,
+    wallet_address: employee.wallet_address,
+    amount: employee.salary,
+  }));
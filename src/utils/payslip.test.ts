@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { MONAD_CONFIG } from "./monad";
+import { buildPayslip, formatPayslipText } from "./payslip";
+import { getPayrollToken, usdToTokenAmount } from "./tokens";
+
+const employee = {
+  name: "Ada Lovelace",
+  email: "ada@example.com",
+  wallet_address: "0x1111111111111111111111111111111111111111",
+};
+
+const paidPayslip = (
+  amount: number,
+  symbol: "MON" | "USDC",
+  fiatRate: number,
+  platformFee?: number
+) =>
+  buildPayslip(
+    {
+      id: "3f2b1c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d",
+      amount,
+      token: symbol,
+      status: "completed",
+      payment_date: "2025-11-28T09:00:00.000Z",
+      transaction_hash: `0x${"ab".repeat(32)}`,
+      // Same conversion the payment modal uses for the on-chain transfer
+      token_amount: usdToTokenAmount(
+        amount,
+        fiatRate,
+        getPayrollToken(symbol, MONAD_CONFIG.chainId)
+      ),
+      fiat_rate: fiatRate,
+      platform_fee: platformFee,
+    },
+    employee,
+    "Acme Corp"
+  );
+
+describe("buildPayslip", () => {
+  it.each([
+    [2500, "MON" as const, 3.1234],
+    [4180.5, "USDC" as const, 0.9998],
+  ])("net pay of $%d in %s matches what was sent on-chain", (amount, symbol, rate) => {
+    const payslip = paidPayslip(amount, symbol, rate);
+
+    expect(payslip.netAmount).toBeCloseTo(payslip.tokenAmount! * payslip.fiatRate!, 2);
+    expect(payslip.netAmount).toBe(payslip.grossAmount);
+  });
+
+  it("leaves the platform fee off when none was collected", () => {
+    const text = formatPayslipText(paidPayslip(2500, "MON", 3.1234));
+
+    expect(text).toContain("Gross salary: $2,500.00");
+    expect(text).not.toContain("Platform fee");
+    expect(text).toContain("Net pay: $2,500.00");
+  });
+
+  it("shows a collected platform fee as charged to the employer, not deducted from pay", () => {
+    const text = formatPayslipText(paidPayslip(2500, "MON", 3.1234, 12.5));
+
+    expect(text).toContain("Platform fee: $12.50 (paid by employer)");
+    expect(text).toContain("Net pay: $2,500.00");
+  });
+});
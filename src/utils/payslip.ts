@@ -0,0 +1,210 @@
+// Payslips: per-payment breakdown of gross pay and what was sent on-chain. A
+// platform fee, when one was collected, is charged to the employer, so net pay
+// is the full gross salary.
+
+import type { Employee, Payment } from "../lib/supabase";
+import { MONAD_CONFIG, getExplorerTxUrl } from "./monad";
+import { renderPdf, PdfRule, PdfText } from "./pdf";
+
+export interface Payslip {
+  number: string;
+  companyName: string;
+  employeeName: string;
+  employeeEmail: string;
+  designation: string | null;
+  department: string | null;
+  walletAddress: string;
+  paymentDate: string;
+  grossAmount: number; // USD
+  platformFee: number | null; // USD collected from the employer on top of salary, null if none
+  netAmount: number; // USD, the full gross salary
+  token: string;
+  tokenAmount: number | null;
+  fiatRate: number | null; // USD per token at payment time
+  transactionHash: string | null;
+  explorerUrl: string | null;
+  status: Payment["status"];
+}
+
+export type PayslipEmployee = Pick<Employee, "name" | "email" | "wallet_address"> &
+  Partial<Pick<Employee, "designation" | "department">>;
+
+export const buildPayslip = (
+  payment: Pick<
+    Payment,
+    | "id"
+    | "amount"
+    | "token"
+    | "status"
+    | "payment_date"
+    | "transaction_hash"
+    | "token_amount"
+    | "fiat_rate"
+    | "platform_fee"
+  >,
+  employee: PayslipEmployee,
+  companyName: string
+): Payslip => ({
+  number: `PS-${payment.id.replace(/-/g, "").substring(0, 10).toUpperCase()}`,
+  companyName,
+  employeeName: employee.name,
+  employeeEmail: employee.email,
+  designation: employee.designation ?? null,
+  department: employee.department ?? null,
+  walletAddress: employee.wallet_address,
+  paymentDate: payment.payment_date,
+  grossAmount: payment.amount,
+  platformFee: payment.platform_fee ?? null,
+  netAmount: payment.amount,
+  token: payment.token,
+  tokenAmount: payment.token_amount ?? null,
+  fiatRate: payment.fiat_rate ?? null,
+  transactionHash: payment.transaction_hash ?? null,
+  explorerUrl: payment.transaction_hash
+    ? getExplorerTxUrl(payment.transaction_hash)
+    : null,
+  status: payment.status,
+});
+
+const formatUsd = (amount: number) =>
+  `$${amount.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatTokens = (amount: number, token: string) =>
+  `${amount.toLocaleString("en-US", { maximumFractionDigits: 6 })} ${token}`;
+
+const formatPayslipDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+// Label/value rows shared by the PDF and the plain-text email body
+const payslipSections = (payslip: Payslip): Array<[string, Array<[string, string]>]> => [
+  [
+    "Employee",
+    [
+      ["Name", payslip.employeeName],
+      ["Email", payslip.employeeEmail],
+      ...(payslip.designation || payslip.department
+        ? ([
+            [
+              "Position",
+              [payslip.designation, payslip.department].filter(Boolean).join(", "),
+            ],
+          ] as Array<[string, string]>)
+        : []),
+      ["Wallet", payslip.walletAddress],
+    ],
+  ],
+  [
+    "Earnings",
+    [
+      ["Gross salary", formatUsd(payslip.grossAmount)],
+      ...(payslip.platformFee !== null
+        ? ([
+            ["Platform fee", `${formatUsd(payslip.platformFee)} (paid by employer)`],
+          ] as Array<[string, string]>)
+        : []),
+      ["Net pay", formatUsd(payslip.netAmount)],
+    ],
+  ],
+  [
+    "Payment",
+    [
+      ["Token", payslip.token],
+      [
+        "Amount sent",
+        payslip.tokenAmount !== null
+          ? formatTokens(payslip.tokenAmount, payslip.token)
+          : "Not recorded",
+      ],
+      [
+        "Exchange rate",
+        payslip.fiatRate !== null
+          ? `1 ${payslip.token} = ${formatUsd(payslip.fiatRate)}`
+          : "Not recorded",
+      ],
+      ["Status", payslip.status],
+      ["Transaction", payslip.transactionHash ?? "N/A"],
+      ["Explorer", payslip.explorerUrl ?? "N/A"],
+    ],
+  ],
+];
+
+export const renderPayslipPdf = (payslip: Payslip): Uint8Array<ArrayBuffer> => {
+  const left = 50;
+  const valueX = 200;
+  const right = 545;
+  const texts: PdfText[] = [
+    { text: "PAYSLIP", x: left, y: 790, size: 20, bold: true },
+    { text: payslip.companyName, x: left, y: 768, size: 12, bold: true },
+    { text: `Payslip No. ${payslip.number}`, x: 380, y: 792, size: 9 },
+    {
+      text: `Payment date: ${formatPayslipDate(payslip.paymentDate)}`,
+      x: 380,
+      y: 778,
+      size: 9,
+    },
+  ];
+  const rules: PdfRule[] = [{ x1: left, y1: 752, x2: right, y2: 752 }];
+
+  let y = 728;
+  for (const [title, rows] of payslipSections(payslip)) {
+    texts.push({ text: title, x: left, y, size: 12, bold: true });
+    y -= 20;
+    for (const [label, value] of rows) {
+      // Hashes and URLs are long - print them smaller so they fit the page
+      const size = value.length > 50 ? 7.5 : 10;
+      texts.push({ text: label, x: left, y, size: 10 });
+      texts.push({ text: value, x: valueX, y, size, bold: label === "Net pay" });
+      y -= 16;
+    }
+    y -= 6;
+    rules.push({ x1: left, y1: y, x2: right, y2: y });
+    y -= 22;
+  }
+
+  texts.push({
+    text: `Paid on Monad Testnet (chain ${MONAD_CONFIG.chainId}). Salaries are quoted in USD and paid in ${payslip.token}.`,
+    x: left,
+    y: 60,
+    size: 8,
+  });
+
+  return renderPdf({ texts, rules });
+};
+
+export const payslipFileName = (payslip: Payslip) =>
+  `payslip-${payslip.employeeName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")}-${payslip.paymentDate.substring(0, 10)}.pdf`;
+
+// Plain-text payslip for email bodies
+export const formatPayslipText = (payslip: Payslip): string =>
+  [
+    `Payslip ${payslip.number} from ${payslip.companyName}`,
+    `Payment date: ${formatPayslipDate(payslip.paymentDate)}`,
+    ...payslipSections(payslip).flatMap(([title, rows]) => [
+      "",
+      title,
+      ...rows.map(([label, value]) => `  ${label}: ${value}`),
+    ]),
+  ].join("\n");
+
+export const downloadPayslip = (payslip: Payslip) => {
+  const blob = new Blob([renderPayslipPdf(payslip)], {
+    type: "application/pdf",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = payslipFileName(payslip);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
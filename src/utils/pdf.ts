@@ -0,0 +1,81 @@
+// Minimal single-page PDF writer (Helvetica text and rules, A4)
+
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+export interface PdfText {
+  text: string;
+  x: number;
+  y: number; // from the bottom of the page, as in PDF
+  size?: number;
+  bold?: boolean;
+}
+
+export interface PdfRule {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// Standard fonts only cover Latin-1 (WinAnsi); escape PDF string delimiters
+const escapePdfText = (text: string) =>
+  text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+
+// Render one page to PDF bytes
+export const renderPdf = (page: {
+  texts: PdfText[];
+  rules?: PdfRule[];
+}): Uint8Array<ArrayBuffer> => {
+  const content = [
+    "0.8 G 0.5 w",
+    ...(page.rules ?? []).map(
+      (rule) => `${rule.x1} ${rule.y1} m ${rule.x2} ${rule.y2} l S`
+    ),
+    ...page.texts.map(
+      (t) =>
+        `BT /${t.bold ? "F2" : "F1"} ${t.size ?? 10} Tf ${t.x} ${t.y} Td (${escapePdfText(
+          t.text
+        )}) Tj ET`
+    ),
+  ].join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${offset.toString().padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, (char) => char.charCodeAt(0));
+};
+
+// Base64 for email attachments
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
@@ -0,0 +1,134 @@
+// Payroll token registry and ERC-20 helpers for the Monad payment utilities
+
+import { fetchCryptoPrice } from "../services/priceService";
+
+export type PayrollTokenSymbol = "MON" | "USDC";
+
+export interface PayrollToken {
+  symbol: PayrollTokenSymbol;
+  name: string;
+  address: string | null; // null = native currency
+  decimals: number;
+  priceId: string; // priceService lookup name
+  usdPegged: boolean; // stablecoins fall back to $1 when no price is available
+}
+
+// Tokens payroll can be paid in, per chain ID
+export const PAYROLL_TOKENS: Record<number, PayrollToken[]> = {
+  // Monad Testnet
+  10143: [
+    {
+      symbol: "MON",
+      name: "Monad",
+      address: null,
+      decimals: 18,
+      priceId: "monad",
+      usdPegged: false,
+    },
+    {
+      symbol: "USDC",
+      name: "USD Coin",
+      address:
+        import.meta.env.VITE_MONAD_USDC_ADDRESS ||
+        "0xf817257fed379853cDe0fa4F97AB987181B1E5Ea",
+      decimals: 6,
+      priceId: "usdc",
+      usdPegged: true,
+    },
+  ],
+};
+
+// ERC-20 function selectors
+const SELECTORS = {
+  transfer: "0xa9059cbb", // transfer(address,uint256)
+  balanceOf: "0x70a08231", // balanceOf(address)
+  allowance: "0xdd62ed3e", // allowance(address,address)
+  approve: "0x095ea7b3", // approve(address,uint256)
+};
+
+// Look up a payroll token on a chain
+export const getPayrollToken = (
+  symbol: string,
+  chainId: number
+): PayrollToken => {
+  const token = PAYROLL_TOKENS[chainId]?.find(
+    (t) => t.symbol === symbol.toUpperCase()
+  );
+  if (!token) {
+    throw new Error(`${symbol} is not supported on chain ${chainId}`);
+  }
+  return token;
+};
+
+// Convert a decimal amount to raw token units without float rounding drift
+export const parseTokenAmount = (amount: number, decimals: number): bigint => {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error(`Invalid token amount: ${amount}`);
+  }
+
+  const text = /e/i.test(String(amount))
+    ? amount.toFixed(Math.min(decimals, 100))
+    : String(amount);
+  const [whole, fraction = ""] = text.split(".");
+  const paddedFraction = fraction.slice(0, decimals).padEnd(decimals, "0");
+
+  return BigInt(whole + paddedFraction);
+};
+
+// Convert raw token units to a decimal amount (display precision)
+export const formatTokenAmount = (raw: bigint, decimals: number): number => {
+  const base = 10n ** BigInt(decimals);
+  return Number(raw / base) + Number(raw % base) / Number(base);
+};
+
+// USD price of a payroll token from priceService
+export const getTokenUsdPrice = async (token: PayrollToken): Promise<number> => {
+  const priceData = await fetchCryptoPrice(token.priceId);
+  const price = priceData?.price ?? 0;
+
+  if (price > 0) return price;
+  if (token.usdPegged) return 1;
+
+  throw new Error(
+    `No USD price available for ${token.symbol}. Pay in a stablecoin or enter ${token.symbol} amounts directly.`
+  );
+};
+
+// Convert a USD amount to token units at a given price, rounded to the
+// token's precision so previews match what is sent
+export const usdToTokenAmount = (
+  amountUSD: number,
+  priceUSD: number,
+  token: PayrollToken
+): number => {
+  const precision = Math.min(token.decimals, 8);
+  return Number((amountUSD / priceUSD).toFixed(precision));
+};
+
+// Convert a USD amount to token units using priceService
+export const convertUsdToToken = async (
+  amountUSD: number,
+  token: PayrollToken
+): Promise<number> => {
+  const price = await getTokenUsdPrice(token);
+  return usdToTokenAmount(amountUSD, price, token);
+};
+
+// ABI words (32 bytes, hex without 0x)
+export const encodeAddress = (address: string): string =>
+  address.toLowerCase().replace(/^0x/, "").padStart(64, "0");
+
+export const encodeUint = (value: bigint): string => value.toString(16).padStart(64, "0");
+
+// ERC-20 call data
+export const encodeTransfer = (to: string, amount: bigint): string =>
+  SELECTORS.transfer + encodeAddress(to) + encodeUint(amount);
+
+export const encodeBalanceOf = (owner: string): string =>
+  SELECTORS.balanceOf + encodeAddress(owner);
+
+export const encodeAllowance = (owner: string, spender: string): string =>
+  SELECTORS.allowance + encodeAddress(owner) + encodeAddress(spender);
+
+export const encodeApprove = (spender: string, amount: bigint): string =>
+  SELECTORS.approve + encodeAddress(spender) + encodeUint(amount);
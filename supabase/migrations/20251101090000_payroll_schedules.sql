@@ -0,0 +1,113 @@
+/*
+  # Scheduled recurring payroll
+
+  1. New Tables
+    - `payroll_schedules`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to users)
+      - `name` (text)
+      - `frequency` (text, monthly/biweekly/cron)
+      - `day_of_month` (integer, monthly schedules)
+      - `cron_expression` (text, cron schedules)
+      - `start_date` (timestamptz, first eligible run and bi-weekly anchor)
+      - `selection` (text, all_active/department)
+      - `department` (text, department filter)
+      - `token` (text)
+      - `next_run_at` (timestamptz)
+      - `last_run_at` (timestamptz)
+      - `is_active` (boolean)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+    - `payroll_runs`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to users)
+      - `schedule_id` (uuid, foreign key to payroll_schedules)
+      - `scheduled_for` (timestamptz)
+      - `status` (text, pending/approved/rejected/paid)
+      - `token` (text)
+      - `total_amount` (decimal)
+      - `items` (jsonb, employee and salary per recipient)
+      - `reviewed_by` (text, wallet address of the approving admin)
+      - `reviewed_at` (timestamptz)
+      - `created_at` (timestamptz)
+
+  2. Schema Changes
+    - Add `payroll_run_id` to payments so each payment links to the run that produced it
+
+  3. Security
+    - Enable RLS on both tables
+    - Add policies for authenticated users to manage their own schedules and runs
+*/
+
+-- Create payroll_schedules table
+CREATE TABLE IF NOT EXISTS public.payroll_schedules (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    frequency text NOT NULL CHECK (frequency IN ('monthly', 'biweekly', 'cron')),
+    day_of_month integer CHECK (day_of_month BETWEEN 1 AND 31),
+    cron_expression text,
+    start_date timestamptz NOT NULL DEFAULT now(),
+    selection text NOT NULL DEFAULT 'all_active' CHECK (selection IN ('all_active', 'department')),
+    department text,
+    token text NOT NULL DEFAULT 'USDC',
+    next_run_at timestamptz NOT NULL,
+    last_run_at timestamptz,
+    is_active boolean DEFAULT TRUE,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+-- Create payroll_runs table
+CREATE TABLE IF NOT EXISTS public.payroll_runs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    schedule_id uuid REFERENCES public.payroll_schedules(id) ON DELETE SET NULL,
+    scheduled_for timestamptz NOT NULL,
+    status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'paid')),
+    token text NOT NULL,
+    total_amount decimal(12,2) NOT NULL DEFAULT 0,
+    items jsonb NOT NULL DEFAULT '[]'::jsonb,
+    reviewed_by text,
+    reviewed_at timestamptz,
+    created_at timestamptz DEFAULT now()
+);
+
+-- Link payments to the payroll run that produced them
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS payroll_run_id uuid REFERENCES public.payroll_runs(id) ON DELETE SET NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.payroll_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payroll_runs ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for payroll_schedules
+CREATE POLICY "Users can read own payroll schedules" ON public.payroll_schedules
+FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own payroll schedules" ON public.payroll_schedules
+FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own payroll schedules" ON public.payroll_schedules
+FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own payroll schedules" ON public.payroll_schedules
+FOR DELETE USING (user_id = auth.uid());
+
+-- RLS policies for payroll_runs
+CREATE POLICY "Users can read own payroll runs" ON public.payroll_runs
+FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own payroll runs" ON public.payroll_runs
+FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own payroll runs" ON public.payroll_runs
+FOR UPDATE USING (user_id = auth.uid());
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_payroll_schedules_user_id ON public.payroll_schedules (user_id);
+CREATE INDEX IF NOT EXISTS idx_payroll_schedules_next_run_at ON public.payroll_schedules (next_run_at);
+CREATE INDEX IF NOT EXISTS idx_payroll_runs_user_id ON public.payroll_runs (user_id);
+CREATE INDEX IF NOT EXISTS idx_payroll_runs_schedule_id ON public.payroll_runs (schedule_id);
+CREATE INDEX IF NOT EXISTS idx_payments_payroll_run_id ON public.payments (payroll_run_id);
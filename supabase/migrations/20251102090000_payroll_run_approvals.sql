@@ -0,0 +1,125 @@
+/*
+  # Payroll run approvals
+
+  1. Schema Changes
+    - `payroll_runs`
+      - `status` now follows draft/pending_approval/approved/executing/completed/partially_failed,
+        plus rejected (existing pending runs become pending_approval, paid runs completed)
+      - `memo` (text)
+      - `created_by` (text, wallet address that drafted the run)
+      - `approvers` (text[], admin wallets allowed to sign off, captured at submission)
+      - `required_approvals` (integer, approvals needed, captured at submission)
+      - `submitted_at`, `executed_at`, `completed_at` (timestamptz)
+
+  2. New Tables
+    - `payroll_approval_policies`
+      - `user_id` (uuid, primary key, foreign key to users)
+      - `approvers` (text[], company admin wallet addresses)
+      - `required_approvals` (integer, N of the M approvers)
+      - `updated_at` (timestamptz)
+
+    - `payroll_audit_log`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to users)
+      - `run_id` (uuid, foreign key to payroll_runs, null for policy changes)
+      - `actor` (text, wallet address or schedule that acted)
+      - `action` (text)
+      - `digest` (text, SHA-256 of the run's recipients and amounts)
+      - `signature` (text, wallet signature over the approval message)
+      - `note` (text)
+      - `created_at` (timestamptz)
+
+  3. Security
+    - Enable RLS on both tables
+    - The audit log is append-only: no update/delete policies, and a trigger rejects
+      updates and deletes from any role
+*/
+
+-- Extend the payroll run status workflow
+ALTER TABLE public.payroll_runs DROP CONSTRAINT IF EXISTS payroll_runs_status_check;
+
+UPDATE public.payroll_runs SET status = 'pending_approval' WHERE status = 'pending';
+UPDATE public.payroll_runs SET status = 'completed' WHERE status = 'paid';
+
+ALTER TABLE public.payroll_runs
+ADD CONSTRAINT payroll_runs_status_check CHECK (
+    status IN ('draft', 'pending_approval', 'approved', 'executing', 'completed', 'partially_failed', 'rejected')
+);
+
+ALTER TABLE public.payroll_runs ALTER COLUMN status SET DEFAULT 'draft';
+
+ALTER TABLE public.payroll_runs
+ADD COLUMN IF NOT EXISTS memo text,
+ADD COLUMN IF NOT EXISTS created_by text,
+ADD COLUMN IF NOT EXISTS approvers text[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS required_approvals integer NOT NULL DEFAULT 1 CHECK (required_approvals >= 1),
+ADD COLUMN IF NOT EXISTS submitted_at timestamptz,
+ADD COLUMN IF NOT EXISTS executed_at timestamptz,
+ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+
+-- Create payroll_approval_policies table
+CREATE TABLE IF NOT EXISTS public.payroll_approval_policies (
+    user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+    approvers text[] NOT NULL DEFAULT '{}',
+    required_approvals integer NOT NULL DEFAULT 1 CHECK (required_approvals >= 1),
+    updated_at timestamptz DEFAULT now()
+);
+
+-- Create payroll_audit_log table
+CREATE TABLE IF NOT EXISTS public.payroll_audit_log (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    run_id uuid REFERENCES public.payroll_runs(id) ON DELETE RESTRICT,
+    actor text NOT NULL,
+    action text NOT NULL CHECK (
+        action IN ('created', 'submitted', 'approved', 'rejected', 'executing', 'completed', 'partially_failed', 'policy_updated')
+    ),
+    digest text,
+    signature text,
+    note text,
+    created_at timestamptz DEFAULT now()
+);
+
+-- Audit entries can never be changed or removed
+CREATE OR REPLACE FUNCTION prevent_payroll_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'payroll_audit_log is append-only';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER payroll_audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.payroll_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_payroll_audit_log_changes();
+
+CREATE TRIGGER update_payroll_approval_policies_updated_at
+  BEFORE UPDATE ON public.payroll_approval_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.payroll_approval_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payroll_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for payroll_approval_policies
+CREATE POLICY "Users can read own approval policy" ON public.payroll_approval_policies
+FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own approval policy" ON public.payroll_approval_policies
+FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own approval policy" ON public.payroll_approval_policies
+FOR UPDATE USING (user_id = auth.uid());
+
+-- RLS policies for payroll_audit_log (read and append only)
+CREATE POLICY "Users can read own payroll audit log" ON public.payroll_audit_log
+FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can append to own payroll audit log" ON public.payroll_audit_log
+FOR INSERT WITH CHECK (user_id = auth.uid());
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_payroll_runs_status ON public.payroll_runs (status);
+CREATE INDEX IF NOT EXISTS idx_payroll_audit_log_run_id ON public.payroll_audit_log (run_id);
+CREATE INDEX IF NOT EXISTS idx_payroll_audit_log_user_id ON public.payroll_audit_log (user_id);
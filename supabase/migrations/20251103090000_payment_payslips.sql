@@ -0,0 +1,12 @@
+/*
+  # Payslip details on payments
+
+  1. Schema Changes
+    - `payments`
+      - `token_amount` (decimal, tokens actually sent)
+      - `fiat_rate` (decimal, USD price of the token when the payment was made)
+*/
+
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS token_amount decimal(36,18),
+ADD COLUMN IF NOT EXISTS fiat_rate decimal(18,8);
@@ -0,0 +1,105 @@
+/*
+  # Payroll run integrity checks
+
+  Runs are kept in the browser and mirrored here. The approval workflow and the signature quorum are
+  checked by the app (signatures are recovered client-side), not by these triggers.
+
+  1. Security
+    - `payroll_runs`
+      - New runs can only be inserted as draft or pending_approval, and take the approvers and quorum
+        from the saved approval policy when there is one
+      - Once submitted, the recipients and amounts in `items` can't change
+    - `payroll_audit_log`
+      - Approvals and rejections must carry a digest and signature, come from one of the run's
+        approvers and arrive while the run is awaiting a decision
+*/
+
+-- Recipients and amounts only, in order: the part of items an approval covers
+CREATE OR REPLACE FUNCTION payroll_run_payees(items jsonb)
+RETURNS jsonb AS $$
+  SELECT coalesce(
+    jsonb_agg(
+      jsonb_build_array(item->'employee_id', lower(item->>'wallet_address'), item->'amount')
+      ORDER BY idx
+    ),
+    '[]'::jsonb
+  )
+  FROM jsonb_array_elements(items) WITH ORDINALITY AS t(item, idx);
+$$ language 'sql' IMMUTABLE;
+
+-- Runs can't be edited into paying someone else once submitted
+CREATE OR REPLACE FUNCTION prevent_payroll_run_payee_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status <> 'draft'
+     AND payroll_run_payees(NEW.items) IS DISTINCT FROM payroll_run_payees(OLD.items) THEN
+    RAISE EXCEPTION 'payroll run % is %: its recipients and amounts can no longer change', OLD.id, OLD.status;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER payroll_runs_freeze_payees
+  BEFORE UPDATE ON public.payroll_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_payroll_run_payee_changes();
+
+-- New runs are bound by the saved approval policy, not whatever the client sends
+CREATE OR REPLACE FUNCTION apply_payroll_approval_policy()
+RETURNS TRIGGER AS $$
+DECLARE
+  policy public.payroll_approval_policies%ROWTYPE;
+BEGIN
+  SELECT * INTO policy FROM public.payroll_approval_policies WHERE user_id = NEW.user_id;
+  IF FOUND THEN
+    NEW.approvers := policy.approvers;
+    NEW.required_approvals := policy.required_approvals;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER payroll_runs_apply_approval_policy
+  BEFORE INSERT ON public.payroll_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_payroll_approval_policy();
+
+-- Approve/reject entries are what the quorum is counted from, so check them on the way in
+CREATE OR REPLACE FUNCTION validate_payroll_audit_decision()
+RETURNS TRIGGER AS $$
+DECLARE
+  run public.payroll_runs%ROWTYPE;
+BEGIN
+  IF NEW.action NOT IN ('approved', 'rejected') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO run FROM public.payroll_runs WHERE id = NEW.run_id AND user_id = NEW.user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'payroll run % not found', NEW.run_id;
+  END IF;
+
+  IF run.status <> 'pending_approval' AND NOT (NEW.action = 'rejected' AND run.status = 'draft') THEN
+    RAISE EXCEPTION 'payroll run % is %, not awaiting a decision', run.id, run.status;
+  END IF;
+  IF NOT lower(NEW.actor) = ANY (run.approvers) THEN
+    RAISE EXCEPTION '% is not an approver for payroll run %', NEW.actor, run.id;
+  END IF;
+  IF NEW.digest IS NULL OR NEW.signature IS NULL THEN
+    RAISE EXCEPTION 'payroll run decisions must be signed';
+  END IF;
+
+  NEW.actor := lower(NEW.actor);
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER payroll_audit_log_validate_decision
+  BEFORE INSERT ON public.payroll_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_payroll_audit_decision();
+
+DROP POLICY IF EXISTS "Users can insert own payroll runs" ON public.payroll_runs;
+
+CREATE POLICY "Users can insert own payroll runs" ON public.payroll_runs
+FOR INSERT WITH CHECK (user_id = auth.uid() AND status IN ('draft', 'pending_approval'));
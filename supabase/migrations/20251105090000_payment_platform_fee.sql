@@ -0,0 +1,10 @@
+/*
+  # Platform fee on payments
+
+  1. Schema Changes
+    - `payments`
+      - `platform_fee` (decimal, USD fee collected with the payment; null when none was taken)
+*/
+
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS platform_fee decimal(18,2);